@@ -0,0 +1,23 @@
+const express = require('express');
+const { notesRouter } = require('./routes/notes');
+const { NotesService } = require('./services/notes.service');
+
+function createApp(service = new NotesService()) {
+  const app = express();
+  app.use(express.json());
+  app.use('/notes', notesRouter(service));
+
+  app.use((req, res) => {
+    res.status(404).json({ error: 'Not found' });
+  });
+
+  // eslint-disable-next-line no-unused-vars
+  app.use((err, req, res, next) => {
+    const status = err.status || 500;
+    res.status(status).json({ error: status === 500 ? 'Internal error' : err.message });
+  });
+
+  return app;
+}
+
+module.exports = { createApp };
@@ -0,0 +1,63 @@
+const express = require('express');
+
+function validateNote(body) {
+  const errors = [];
+  if (typeof body.title !== 'string' || body.title.trim() === '') {
+    errors.push('title is required');
+  } else if (body.title.length > 120) {
+    errors.push('title must be at most 120 characters');
+  }
+  if (body.content !== undefined && typeof body.content !== 'string') {
+    errors.push('content must be a string');
+  }
+  return errors;
+}
+
+function notesRouter(service) {
+  const router = express.Router();
+
+  router.get('/', (req, res) => {
+    res.json(service.list());
+  });
+
+  router.get('/:id', (req, res, next) => {
+    try {
+      res.json(service.get(req.params.id));
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  router.post('/', (req, res) => {
+    const errors = validateNote(req.body);
+    if (errors.length > 0) {
+      return res.status(400).json({ errors });
+    }
+    res.status(201).json(service.create(req.body));
+  });
+
+  router.put('/:id', (req, res, next) => {
+    const errors = validateNote(req.body);
+    if (errors.length > 0) {
+      return res.status(400).json({ errors });
+    }
+    try {
+      res.json(service.update(req.params.id, req.body));
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  router.delete('/:id', (req, res, next) => {
+    try {
+      service.remove(req.params.id);
+      res.status(204).end();
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  return router;
+}
+
+module.exports = { notesRouter, validateNote };
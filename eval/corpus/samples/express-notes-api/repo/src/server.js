@@ -0,0 +1,7 @@
+const { createApp } = require('./app');
+
+const port = Number(process.env.PORT) || 3000;
+
+createApp().listen(port, () => {
+  console.log(`Notes API listening on ${port}`);
+});
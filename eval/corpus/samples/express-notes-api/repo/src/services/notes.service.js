@@ -0,0 +1,52 @@
+const { randomUUID } = require('crypto');
+
+class NotFoundError extends Error {
+  constructor(message) {
+    super(message);
+    this.status = 404;
+  }
+}
+
+class NotesService {
+  constructor() {
+    this.notes = new Map();
+  }
+
+  list() {
+    return [...this.notes.values()].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  get(id) {
+    const note = this.notes.get(id);
+    if (!note) {
+      throw new NotFoundError(`Note ${id} not found`);
+    }
+    return note;
+  }
+
+  create({ title, content = '' }) {
+    const now = new Date().toISOString();
+    const note = { id: randomUUID(), title: title.trim(), content, createdAt: now, updatedAt: now };
+    this.notes.set(note.id, note);
+    return note;
+  }
+
+  update(id, { title, content }) {
+    const note = this.get(id);
+    const updated = {
+      ...note,
+      title: title.trim(),
+      content: content ?? note.content,
+      updatedAt: new Date().toISOString(),
+    };
+    this.notes.set(id, updated);
+    return updated;
+  }
+
+  remove(id) {
+    this.get(id);
+    this.notes.delete(id);
+  }
+}
+
+module.exports = { NotesService, NotFoundError };
@@ -0,0 +1,26 @@
+const request = require('supertest');
+const { createApp } = require('../src/app');
+
+describe('notes API', () => {
+  let app;
+
+  beforeEach(() => {
+    app = createApp();
+  });
+
+  it('creates and lists notes', async () => {
+    await request(app).post('/notes').send({ title: 'First' }).expect(201);
+    const res = await request(app).get('/notes').expect(200);
+    expect(res.body).toHaveLength(1);
+    expect(res.body[0].title).toBe('First');
+  });
+
+  it('rejects a note without title', async () => {
+    const res = await request(app).post('/notes').send({ content: 'x' }).expect(400);
+    expect(res.body.errors).toContain('title is required');
+  });
+
+  it('returns 404 for unknown notes', async () => {
+    await request(app).get('/notes/missing').expect(404);
+  });
+});
@@ -0,0 +1,59 @@
+import React, { useState, useEffect } from 'react';
+
+const API_KEY = '3f9a1c0d5b7e4a2f8c6d1e0b9a7c5d3e';
+
+function App() {
+  const [city, setCity] = useState('London');
+  const [data, setData] = useState(null);
+  const [forecast, setForecast] = useState([]);
+  const [unit, setUnit] = useState('C');
+
+  useEffect(() => {
+    fetch('https://api.openweathermap.org/data/2.5/weather?q=' + city + '&appid=' + API_KEY)
+      .then((res) => res.json())
+      .then((json) => setData(json));
+    fetch('https://api.openweathermap.org/data/2.5/forecast?q=' + city + '&appid=' + API_KEY)
+      .then((res) => res.json())
+      .then((json) => {
+        var days = [];
+        for (var i = 0; i < json.list.length; i++) {
+          if (i % 8 == 0) {
+            days.push(json.list[i]);
+          }
+        }
+        setForecast(days);
+      });
+  }, [city]);
+
+  function temp(k) {
+    if (unit == 'C') {
+      return Math.round(k - 273.15) + '°C';
+    } else {
+      return Math.round((k - 273.15) * 9 / 5 + 32) + '°F';
+    }
+  }
+
+  return (
+    <div className="app">
+      <input onKeyDown={(e) => { if (e.key == 'Enter') setCity(e.target.value); }} />
+      <button onClick={() => setUnit(unit == 'C' ? 'F' : 'C')}>{unit}</button>
+      {data && (
+        <div className="current">
+          <h1>{data.name}</h1>
+          <h2>{temp(data.main.temp)}</h2>
+          <p>{data.weather[0].description}</p>
+        </div>
+      )}
+      <div className="forecast">
+        {forecast.map((d) => (
+          <div className="day">
+            <p>{new Date(d.dt * 1000).toDateString()}</p>
+            <p>{temp(d.main.temp)}</p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default App;
@@ -0,0 +1,32 @@
+-- CreateEnum
+CREATE TYPE "AnalysisJobStatus" AS ENUM ('QUEUED', 'RUNNING', 'SUCCEEDED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "AnalysisJob" (
+    "id" SERIAL NOT NULL,
+    "projectId" INTEGER NOT NULL,
+    "status" "AnalysisJobStatus" NOT NULL DEFAULT 'QUEUED',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "maxAttempts" INTEGER NOT NULL DEFAULT 5,
+    "runAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lockedUntil" TIMESTAMP(3),
+    "lockedBy" TEXT,
+    "lastError" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "AnalysisJob_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AnalysisJob_status_runAt_idx" ON "AnalysisJob"("status", "runAt");
+
+-- CreateIndex
+CREATE INDEX "AnalysisJob_projectId_idx" ON "AnalysisJob"("projectId");
+
+-- AddForeignKey
+ALTER TABLE "AnalysisJob" ADD CONSTRAINT "AnalysisJob_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "TechnicalProject"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Enqueue analyses that were waiting for the old cron poll
+INSERT INTO "AnalysisJob" ("projectId", "updatedAt")
+SELECT "projectId", CURRENT_TIMESTAMP FROM "ProjectAnalysis" WHERE "status" = 'PENDING';
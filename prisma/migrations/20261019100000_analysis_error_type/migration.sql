@@ -0,0 +1,8 @@
+-- CreateEnum
+CREATE TYPE "AnalysisErrorType" AS ENUM ('GITHUB_AUTH', 'EMPTY_REPOSITORY', 'AI_PARSE_ERROR', 'STALLED', 'UNKNOWN');
+
+-- AlterTable
+ALTER TABLE "Developer" ADD COLUMN     "lastAnalysisRetryAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "ProjectAnalysis" ADD COLUMN     "errorType" "AnalysisErrorType";
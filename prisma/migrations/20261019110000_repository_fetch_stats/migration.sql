@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "ProjectAnalysis" ADD COLUMN     "contentTruncated" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "filesFetched" INTEGER,
+ADD COLUMN     "filesTotal" INTEGER,
+ADD COLUMN     "githubRequests" INTEGER,
+ADD COLUMN     "rateLimitRemaining" INTEGER;
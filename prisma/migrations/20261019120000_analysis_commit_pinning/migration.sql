@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "ProjectAnalysis" ADD COLUMN     "changeSummary" JSONB,
+ADD COLUMN     "commitSha" TEXT,
+ADD COLUMN     "fileManifest" JSONB,
+ADD COLUMN     "gitRef" TEXT;
+
+-- AlterTable
+ALTER TABLE "TechnicalProject" ADD COLUMN     "gitRef" TEXT;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "ProjectAnalysis" ADD COLUMN     "selectionManifest" JSONB;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "HiringReport" ADD COLUMN     "aiFallbacks" JSONB,
+ADD COLUMN     "lowConfidence" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,40 @@
+-- CreateEnum
+CREATE TYPE "AiPromptType" AS ENUM ('PROJECT_ANALYSIS', 'HIRING_REPORT');
+
+-- CreateTable
+CREATE TABLE "AiUsage" (
+    "id" SERIAL NOT NULL,
+    "promptType" "AiPromptType" NOT NULL,
+    "promptVersion" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "inputTokens" INTEGER NOT NULL,
+    "outputTokens" INTEGER NOT NULL,
+    "latencyMs" INTEGER NOT NULL,
+    "estimatedCostUsd" DOUBLE PRECISION NOT NULL,
+    "success" BOOLEAN NOT NULL,
+    "developerId" INTEGER,
+    "projectAnalysisId" INTEGER,
+    "hiringReportId" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AiUsage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AiUsage_createdAt_idx" ON "AiUsage"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "AiUsage_developerId_idx" ON "AiUsage"("developerId");
+
+-- CreateIndex
+CREATE INDEX "AiUsage_promptType_promptVersion_idx" ON "AiUsage"("promptType", "promptVersion");
+
+-- AddForeignKey
+ALTER TABLE "AiUsage" ADD CONSTRAINT "AiUsage_developerId_fkey" FOREIGN KEY ("developerId") REFERENCES "Developer"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AiUsage" ADD CONSTRAINT "AiUsage_projectAnalysisId_fkey" FOREIGN KEY ("projectAnalysisId") REFERENCES "ProjectAnalysis"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AiUsage" ADD CONSTRAINT "AiUsage_hiringReportId_fkey" FOREIGN KEY ("hiringReportId") REFERENCES "HiringReport"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "ProjectAnalysis" ADD COLUMN     "promptVersion" TEXT;
+
+-- AlterTable
+ALTER TABLE "HiringReport" ADD COLUMN     "promptVersion" TEXT,
+ADD COLUMN     "rescorePending" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "AnalysisJob" ADD COLUMN     "rescore" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,63 @@
+-- AlterEnum
+ALTER TYPE "AiPromptType" ADD VALUE 'FIT_ANALYSIS';
+
+-- CreateEnum
+CREATE TYPE "JobSeniority" AS ENUM ('ENTRY', 'JUNIOR', 'STRONG_JUNIOR');
+
+-- CreateEnum
+CREATE TYPE "EngineeringPractice" AS ENUM ('TESTING', 'TYPESCRIPT', 'LINTING', 'CI', 'ERROR_HANDLING', 'SECURITY');
+
+-- CreateTable
+CREATE TABLE "JobProfile" (
+    "id" SERIAL NOT NULL,
+    "companyId" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "requiredStacks" TEXT[],
+    "seniority" "JobSeniority" NOT NULL DEFAULT 'JUNIOR',
+    "mustHavePractices" "EngineeringPractice"[],
+    "weights" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "JobProfile_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "FitAnalysis" (
+    "id" SERIAL NOT NULL,
+    "jobProfileId" INTEGER NOT NULL,
+    "developerId" INTEGER NOT NULL,
+    "fitScore" INTEGER NOT NULL,
+    "breakdown" JSONB NOT NULL,
+    "summary" TEXT NOT NULL,
+    "gaps" TEXT[],
+    "interviewQuestions" TEXT[],
+    "lowConfidence" BOOLEAN NOT NULL DEFAULT false,
+    "promptVersion" TEXT,
+    "generatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "FitAnalysis_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "JobProfile_companyId_idx" ON "JobProfile"("companyId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "JobProfile_companyId_name_key" ON "JobProfile"("companyId", "name");
+
+-- CreateIndex
+CREATE INDEX "FitAnalysis_developerId_idx" ON "FitAnalysis"("developerId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "FitAnalysis_jobProfileId_developerId_key" ON "FitAnalysis"("jobProfileId", "developerId");
+
+-- AddForeignKey
+ALTER TABLE "JobProfile" ADD CONSTRAINT "JobProfile_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FitAnalysis" ADD CONSTRAINT "FitAnalysis_jobProfileId_fkey" FOREIGN KEY ("jobProfileId") REFERENCES "JobProfile"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FitAnalysis" ADD CONSTRAINT "FitAnalysis_developerId_fkey" FOREIGN KEY ("developerId") REFERENCES "Developer"("id") ON DELETE CASCADE ON UPDATE CASCADE;
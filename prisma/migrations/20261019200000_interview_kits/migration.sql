@@ -0,0 +1,45 @@
+-- AlterEnum
+ALTER TYPE "AiPromptType" ADD VALUE 'INTERVIEW_KIT';
+
+-- CreateTable
+CREATE TABLE "InterviewKit" (
+    "id" SERIAL NOT NULL,
+    "developerId" INTEGER NOT NULL,
+    "questions" JSONB NOT NULL,
+    "totalMinutes" INTEGER NOT NULL,
+    "lowConfidence" BOOLEAN NOT NULL DEFAULT false,
+    "promptVersion" TEXT,
+    "generatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "InterviewKit_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "InterviewScore" (
+    "id" SERIAL NOT NULL,
+    "pipelineEntryId" INTEGER NOT NULL,
+    "questionId" TEXT NOT NULL,
+    "question" TEXT NOT NULL,
+    "score" INTEGER NOT NULL,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "InterviewScore_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "InterviewKit_developerId_key" ON "InterviewKit"("developerId");
+
+-- CreateIndex
+CREATE INDEX "InterviewScore_pipelineEntryId_idx" ON "InterviewScore"("pipelineEntryId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "InterviewScore_pipelineEntryId_questionId_key" ON "InterviewScore"("pipelineEntryId", "questionId");
+
+-- AddForeignKey
+ALTER TABLE "InterviewKit" ADD CONSTRAINT "InterviewKit_developerId_fkey" FOREIGN KEY ("developerId") REFERENCES "Developer"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InterviewScore" ADD CONSTRAINT "InterviewScore_pipelineEntryId_fkey" FOREIGN KEY ("pipelineEntryId") REFERENCES "PipelineEntry"("id") ON DELETE CASCADE ON UPDATE CASCADE;
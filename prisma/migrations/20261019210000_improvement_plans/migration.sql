@@ -0,0 +1,35 @@
+-- CreateEnum
+CREATE TYPE "ImprovementTaskCategory" AS ENUM ('SECURITY', 'ERROR_HANDLING', 'WEAKNESS');
+
+-- CreateEnum
+CREATE TYPE "ImprovementTaskPriority" AS ENUM ('HIGH', 'MEDIUM', 'LOW');
+
+-- AlterTable
+ALTER TABLE "AnalysisJob" ADD COLUMN     "focused" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "ImprovementTask" (
+    "id" SERIAL NOT NULL,
+    "projectAnalysisId" INTEGER NOT NULL,
+    "key" TEXT NOT NULL,
+    "category" "ImprovementTaskCategory" NOT NULL,
+    "priority" "ImprovementTaskPriority" NOT NULL,
+    "title" TEXT NOT NULL,
+    "files" TEXT[],
+    "completedAt" TIMESTAMP(3),
+    "analysisCompletedAt" TIMESTAMP(3) NOT NULL,
+    "commitSha" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ImprovementTask_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ImprovementTask_projectAnalysisId_idx" ON "ImprovementTask"("projectAnalysisId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ImprovementTask_projectAnalysisId_key_key" ON "ImprovementTask"("projectAnalysisId", "key");
+
+-- AddForeignKey
+ALTER TABLE "ImprovementTask" ADD CONSTRAINT "ImprovementTask_projectAnalysisId_fkey" FOREIGN KEY ("projectAnalysisId") REFERENCES "ProjectAnalysis"("id") ON DELETE CASCADE ON UPDATE CASCADE;
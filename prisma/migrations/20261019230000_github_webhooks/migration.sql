@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "GithubAppInstallation" ADD COLUMN     "suspendedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "TechnicalProject" ADD COLUMN     "lastPushAt" TIMESTAMP(3),
+ADD COLUMN     "lastPushSha" TEXT,
+ADD COLUMN     "repoAccessRevokedAt" TIMESTAMP(3);
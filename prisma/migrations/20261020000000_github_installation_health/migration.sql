@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "GithubAppInstallation" ADD COLUMN     "healthCheckedAt" TIMESTAMP(3),
+ADD COLUMN     "reconnectNotifiedAt" TIMESTAMP(3),
+ADD COLUMN     "reconnectRequiredAt" TIMESTAMP(3);
@@ -0,0 +1,32 @@
+-- CreateEnum
+CREATE TYPE "SourceHost" AS ENUM ('GITHUB', 'GITLAB', 'BITBUCKET');
+
+-- AlterTable
+ALTER TABLE "TechnicalProject" ADD COLUMN     "sourceHost" "SourceHost" NOT NULL DEFAULT 'GITHUB';
+
+-- CreateTable
+CREATE TABLE "SourceHostConnection" (
+    "id" TEXT NOT NULL,
+    "developerId" INTEGER NOT NULL,
+    "host" "SourceHost" NOT NULL,
+    "baseUrl" TEXT NOT NULL,
+    "accountId" TEXT NOT NULL,
+    "username" TEXT NOT NULL,
+    "accessTokenEncrypted" TEXT NOT NULL,
+    "refreshTokenEncrypted" TEXT,
+    "tokenExpiresAt" TIMESTAMP(3),
+    "reconnectRequiredAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SourceHostConnection_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SourceHostConnection_developerId_idx" ON "SourceHostConnection"("developerId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SourceHostConnection_developerId_host_key" ON "SourceHostConnection"("developerId", "host");
+
+-- AddForeignKey
+ALTER TABLE "SourceHostConnection" ADD CONSTRAINT "SourceHostConnection_developerId_fkey" FOREIGN KEY ("developerId") REFERENCES "Developer"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "TechnicalProject" ADD COLUMN     "rootPaths" TEXT[] DEFAULT ARRAY[]::TEXT[];
@@ -0,0 +1,9 @@
+-- AlterEnum
+ALTER TYPE "SourceHost" ADD VALUE 'ARCHIVE';
+
+-- AlterTable
+ALTER TABLE "TechnicalProject" ALTER COLUMN "githubUrl" DROP NOT NULL,
+ADD COLUMN     "archiveKey" TEXT,
+ADD COLUMN     "archiveName" TEXT,
+ADD COLUMN     "archiveSize" INTEGER,
+ADD COLUMN     "archiveSha256" TEXT;
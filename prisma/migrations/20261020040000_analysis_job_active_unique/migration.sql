@@ -0,0 +1,16 @@
+-- Keep the oldest open job per project and status; later duplicates from
+-- concurrent enqueues are dropped
+UPDATE "AnalysisJob" AS "job"
+SET "status" = 'FAILED', "lockedUntil" = NULL, "lastError" = 'Duplicate job', "updatedAt" = CURRENT_TIMESTAMP
+WHERE "job"."status" IN ('QUEUED', 'RUNNING')
+  AND EXISTS (
+    SELECT 1 FROM "AnalysisJob" AS "older"
+    WHERE "older"."projectId" = "job"."projectId"
+      AND "older"."status" = "job"."status"
+      AND "older"."id" < "job"."id"
+  );
+
+-- At most one queued and one running job per project
+-- Partial indexes can't be declared in schema.prisma
+CREATE UNIQUE INDEX "AnalysisJob_queued_projectId_key" ON "AnalysisJob"("projectId") WHERE "status" = 'QUEUED';
+CREATE UNIQUE INDEX "AnalysisJob_running_projectId_key" ON "AnalysisJob"("projectId") WHERE "status" = 'RUNNING';
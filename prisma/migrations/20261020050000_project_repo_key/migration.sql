@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "TechnicalProject" ADD COLUMN     "repoKey" TEXT;
+
+-- Same normalization as SourceHostService.getRepoKey: no trailing slash or
+-- .git suffix, lowercase
+UPDATE "TechnicalProject"
+SET "repoKey" = LOWER(REGEXP_REPLACE(REGEXP_REPLACE(BTRIM("githubUrl"), '/+$', ''), '\.git$', ''))
+WHERE "githubUrl" IS NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "TechnicalProject_developerId_repoKey_idx" ON "TechnicalProject"("developerId", "repoKey");
@@ -0,0 +1,219 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiSecurity,
+} from '@nestjs/swagger';
+import { Public } from '../common/decorators';
+import { AdminKeyGuard } from '../common/guards';
+import { AssessmentService } from '../developer/assessment/assessment.service';
+import {
+  RescoreStatusDto,
+  StartRescoreDto,
+  StartRescoreResponseDto,
+  StuckAnalysisDto,
+} from '../developer/assessment/dto';
+import { AiUsageService } from '../ai/ai-usage.service';
+import {
+  AiBudgetStatusDto,
+  AiUsageByDayDto,
+  AiUsageByDeveloperDto,
+  AiUsageByPromptVersionDto,
+  AiUsageQueryDto,
+  PromptTemplateDto,
+} from '../ai/dto';
+import { PROMPT_REGISTRY } from '../ai/prompts/prompt-registry';
+import { ScoreCalibrationService } from '../company/reports/score-calibration.service';
+import { CalibrationReportDto } from '../company/reports/dto';
+
+@ApiTags('Admin')
+@Public()
+@UseGuards(AdminKeyGuard)
+@ApiSecurity('admin-key')
+@Controller('admin')
+export class AdminController {
+  constructor(
+    private assessmentService: AssessmentService,
+    private aiUsageService: AiUsageService,
+    private scoreCalibration: ScoreCalibrationService,
+  ) {}
+
+  // ========================================
+  // ANALYSIS QUEUE
+  // ========================================
+
+  @Get('analyses/stuck')
+  @ApiOperation({
+    summary: 'List stuck analyses',
+    description:
+      'Projects whose analysis has been ANALYZING longer than the stale threshold. The reaper recovers these every 5 minutes.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Stuck analyses',
+    type: [StuckAnalysisDto],
+  })
+  @ApiResponse({ status: 401, description: 'Invalid admin key' })
+  async getStuckAnalyses(): Promise<StuckAnalysisDto[]> {
+    return this.assessmentService.getStuckAnalyses();
+  }
+
+  // ========================================
+  // AI USAGE
+  // ========================================
+
+  @Get('ai-usage/daily')
+  @ApiOperation({
+    summary: 'AI usage per day',
+    description:
+      'Calls, tokens and estimated cost per day. Defaults to the last 30 days.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Daily usage',
+    type: [AiUsageByDayDto],
+  })
+  @ApiResponse({ status: 401, description: 'Invalid admin key' })
+  async getAiUsageByDay(
+    @Query() query: AiUsageQueryDto,
+  ): Promise<AiUsageByDayDto[]> {
+    return this.aiUsageService.getUsageByDay(query);
+  }
+
+  @Get('ai-usage/developers')
+  @ApiOperation({
+    summary: 'AI usage per developer',
+    description: 'Developers ordered by estimated cost, highest first.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Usage per developer',
+    type: [AiUsageByDeveloperDto],
+  })
+  @ApiResponse({ status: 401, description: 'Invalid admin key' })
+  async getAiUsageByDeveloper(
+    @Query() query: AiUsageQueryDto,
+  ): Promise<AiUsageByDeveloperDto[]> {
+    return this.aiUsageService.getUsageByDeveloper(query);
+  }
+
+  @Get('ai-usage/prompt-versions')
+  @ApiOperation({
+    summary: 'AI usage per prompt version',
+    description:
+      'Tokens, cost and average latency per prompt type and version.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Usage per prompt version',
+    type: [AiUsageByPromptVersionDto],
+  })
+  @ApiResponse({ status: 401, description: 'Invalid admin key' })
+  async getAiUsageByPromptVersion(
+    @Query() query: AiUsageQueryDto,
+  ): Promise<AiUsageByPromptVersionDto[]> {
+    return this.aiUsageService.getUsageByPromptVersion(query);
+  }
+
+  @Get('ai-usage/budget')
+  @ApiOperation({
+    summary: 'Monthly AI budget status',
+    description:
+      'Spend this month against AI_MONTHLY_BUDGET_USD. New analyses stay queued while exceeded.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Budget status',
+    type: AiBudgetStatusDto,
+  })
+  @ApiResponse({ status: 401, description: 'Invalid admin key' })
+  async getAiBudget(): Promise<AiBudgetStatusDto> {
+    return this.aiUsageService.getBudgetStatus();
+  }
+
+  // ========================================
+  // PROMPT VERSIONS
+  // ========================================
+
+  @Get('prompts')
+  @ApiOperation({
+    summary: 'List prompt templates',
+    description: 'Current version and changelog of every prompt template.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Prompt templates',
+    type: [PromptTemplateDto],
+  })
+  @ApiResponse({ status: 401, description: 'Invalid admin key' })
+  getPrompts(): PromptTemplateDto[] {
+    return Object.values(PROMPT_REGISTRY).map(
+      ({ type, version, changelog }) => ({ type, version, changelog }),
+    );
+  }
+
+  @Post('rescore')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({
+    summary: 'Re-score under the current prompt versions',
+    description:
+      'Queues re-analysis of outdated project analyses (same commit) and regenerates the hiring reports. Does not touch project locks, company unlocks or credits; a failed re-score keeps the previous result.',
+  })
+  @ApiResponse({
+    status: 202,
+    description: 'Re-score queued',
+    type: StartRescoreResponseDto,
+  })
+  @ApiResponse({ status: 401, description: 'Invalid admin key' })
+  async startRescore(
+    @Body() dto: StartRescoreDto,
+  ): Promise<StartRescoreResponseDto> {
+    return this.assessmentService.startRescore(dto);
+  }
+
+  @Get('rescore')
+  @ApiOperation({
+    summary: 'Re-score progress',
+    description:
+      'Analyses and reports still produced by an older prompt version.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Re-score status',
+    type: RescoreStatusDto,
+  })
+  @ApiResponse({ status: 401, description: 'Invalid admin key' })
+  async getRescoreStatus(): Promise<RescoreStatusDto> {
+    return this.assessmentService.getRescoreStatus();
+  }
+
+  // ========================================
+  // SCORE CALIBRATION
+  // ========================================
+
+  @Get('calibration')
+  @ApiOperation({
+    summary: 'Score calibration',
+    description:
+      'Hiring report score distribution per developer type and prompt version, with drift between consecutive prompt versions.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Calibration report',
+    type: CalibrationReportDto,
+  })
+  @ApiResponse({ status: 401, description: 'Invalid admin key' })
+  async getCalibration(): Promise<CalibrationReportDto> {
+    return this.scoreCalibration.getCalibrationReport();
+  }
+}
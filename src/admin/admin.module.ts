@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { AssessmentModule } from '../developer/assessment/assessment.module';
+import { ReportModule } from '../company/reports/report.module';
+import { AdminController } from './admin.controller';
+
+@Module({
+  imports: [AssessmentModule, ReportModule],
+  controllers: [AdminController],
+})
+export class AdminModule {}
@@ -0,0 +1,302 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from '../prisma/prisma.service';
+import { AiPromptType, Prisma } from '../../prisma/generated/prisma';
+import { PromptType } from './providers';
+import {
+  AiBudgetStatusDto,
+  AiUsageByDayDto,
+  AiUsageByDeveloperDto,
+  AiUsageByPromptVersionDto,
+  AiUsageQueryDto,
+} from './dto';
+
+// Links an AI call to what it was made for
+export interface AiUsageContext {
+  developerId: number;
+  projectAnalysisId?: number;
+  hiringReportId?: number;
+}
+
+export interface AiUsageRecord {
+  promptType: PromptType;
+  promptVersion: string;
+  provider: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number;
+  success: boolean;
+}
+
+/**
+ * Injection token for the AiUsageRecorder AiService reports calls to
+ */
+export const AI_USAGE_RECORDER = Symbol('AI_USAGE_RECORDER');
+
+/**
+ * Where AI calls are recorded: the database (AiUsageService) in the app,
+ * memory in the prompt evaluation
+ */
+export interface AiUsageRecorder {
+  record(
+    usage: AiUsageRecord,
+    context: AiUsageContext | undefined,
+  ): Promise<void>;
+}
+
+// USD per million tokens, matched by model name prefix
+const MODEL_PRICING: { prefix: string; input: number; output: number }[] = [
+  { prefix: 'claude-opus-4', input: 15, output: 75 },
+  { prefix: 'claude-sonnet-4', input: 3, output: 15 },
+  { prefix: 'claude-3-7-sonnet', input: 3, output: 15 },
+  { prefix: 'claude-3-5-sonnet', input: 3, output: 15 },
+  { prefix: 'claude-haiku-4', input: 1, output: 5 },
+  { prefix: 'claude-3-5-haiku', input: 0.8, output: 4 },
+];
+
+const PROMPT_TYPES: Record<PromptType, AiPromptType> = {
+  projectAnalysis: AiPromptType.PROJECT_ANALYSIS,
+  hiringReport: AiPromptType.HIRING_REPORT,
+  fitAnalysis: AiPromptType.FIT_ANALYSIS,
+  interviewKit: AiPromptType.INTERVIEW_KIT,
+};
+
+const DEFAULT_RANGE_DAYS = 30;
+const DEFAULT_DEVELOPER_LIMIT = 50;
+
+/**
+ * Estimated USD cost from list prices
+ * AI_PRICE_INPUT_PER_MTOK / AI_PRICE_OUTPUT_PER_MTOK override the table
+ * (e.g. for self-hosted models); unknown models cost 0
+ */
+export function estimateAiCost(
+  config: ConfigService,
+  model: string,
+  inputTokens: number,
+  outputTokens: number,
+): number {
+  const inputOverride = Number(config.get<string>('AI_PRICE_INPUT_PER_MTOK'));
+  const outputOverride = Number(config.get<string>('AI_PRICE_OUTPUT_PER_MTOK'));
+  const pricing = MODEL_PRICING.find((entry) => model.startsWith(entry.prefix));
+
+  const inputPrice = inputOverride || pricing?.input || 0;
+  const outputPrice = outputOverride || pricing?.output || 0;
+
+  return (inputTokens * inputPrice + outputTokens * outputPrice) / 1_000_000;
+}
+
+/**
+ * Token, latency and cost accounting for AI calls
+ * Also enforces the monthly budget (AI_MONTHLY_BUDGET_USD)
+ */
+@Injectable()
+export class AiUsageService implements AiUsageRecorder {
+  private readonly logger = new Logger(AiUsageService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private config: ConfigService,
+  ) {}
+
+  /**
+   * Persist one AI call
+   * Never throws: losing a usage row must not fail an analysis
+   */
+  async record(
+    usage: AiUsageRecord,
+    context: AiUsageContext | undefined,
+  ): Promise<void> {
+    try {
+      await this.prisma.aiUsage.create({
+        data: {
+          promptType: PROMPT_TYPES[usage.promptType],
+          promptVersion: usage.promptVersion,
+          provider: usage.provider,
+          model: usage.model,
+          inputTokens: usage.inputTokens,
+          outputTokens: usage.outputTokens,
+          latencyMs: usage.latencyMs,
+          estimatedCostUsd: estimateAiCost(
+            this.config,
+            usage.model,
+            usage.inputTokens,
+            usage.outputTokens,
+          ),
+          success: usage.success,
+          developerId: context?.developerId,
+          projectAnalysisId: context?.projectAnalysisId,
+          hiringReportId: context?.hiringReportId,
+        },
+      });
+    } catch (error: unknown) {
+      this.logger.error(
+        `Failed to record AI usage: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Attach a developer's unlinked hiring report calls to the report
+   * The report row only exists after the first generation succeeds
+   */
+  async linkHiringReport(
+    developerId: number,
+    hiringReportId: number,
+  ): Promise<void> {
+    await this.prisma.aiUsage.updateMany({
+      where: {
+        developerId,
+        promptType: AiPromptType.HIRING_REPORT,
+        hiringReportId: null,
+      },
+      data: { hiringReportId },
+    });
+  }
+
+  // ========================================
+  // BUDGET
+  // ========================================
+
+  /**
+   * Spend for the current calendar month (UTC) against the budget
+   */
+  async getBudgetStatus(): Promise<AiBudgetStatusDto> {
+    const now = new Date();
+    const periodStart = new Date(
+      Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1),
+    );
+    const budget = Number(this.config.get<string>('AI_MONTHLY_BUDGET_USD'));
+    const budgetUsd = budget > 0 ? budget : null;
+
+    const spent = await this.prisma.aiUsage.aggregate({
+      where: { createdAt: { gte: periodStart } },
+      _sum: { estimatedCostUsd: true },
+    });
+    const spentUsd = spent._sum.estimatedCostUsd ?? 0;
+
+    return {
+      periodStart,
+      budgetUsd,
+      spentUsd: this.round(spentUsd),
+      remainingUsd:
+        budgetUsd !== null
+          ? this.round(Math.max(0, budgetUsd - spentUsd))
+          : null,
+      exceeded: budgetUsd !== null && spentUsd >= budgetUsd,
+    };
+  }
+
+  // ========================================
+  // AGGREGATES
+  // ========================================
+
+  async getUsageByDay(query: AiUsageQueryDto): Promise<AiUsageByDayDto[]> {
+    const { from, to } = this.getRange(query);
+
+    const rows = await this.prisma.$queryRaw<
+      {
+        day: Date;
+        calls: bigint;
+        failedCalls: bigint;
+        inputTokens: bigint | null;
+        outputTokens: bigint | null;
+        costUsd: number | null;
+      }[]
+    >(Prisma.sql`
+      SELECT date_trunc('day', "createdAt") AS "day",
+             COUNT(*) AS "calls",
+             COUNT(*) FILTER (WHERE NOT "success") AS "failedCalls",
+             SUM("inputTokens") AS "inputTokens",
+             SUM("outputTokens") AS "outputTokens",
+             SUM("estimatedCostUsd") AS "costUsd"
+      FROM "AiUsage"
+      WHERE "createdAt" >= ${from} AND "createdAt" < ${to}
+      GROUP BY 1
+      ORDER BY 1 ASC
+    `);
+
+    return rows.map((row) => ({
+      date: row.day.toISOString().slice(0, 10),
+      calls: Number(row.calls),
+      failedCalls: Number(row.failedCalls),
+      inputTokens: Number(row.inputTokens ?? 0),
+      outputTokens: Number(row.outputTokens ?? 0),
+      costUsd: this.round(row.costUsd ?? 0),
+    }));
+  }
+
+  async getUsageByDeveloper(
+    query: AiUsageQueryDto,
+  ): Promise<AiUsageByDeveloperDto[]> {
+    const { from, to } = this.getRange(query);
+
+    const groups = await this.prisma.aiUsage.groupBy({
+      by: ['developerId'],
+      where: {
+        createdAt: { gte: from, lt: to },
+        developerId: { not: null },
+      },
+      _count: { _all: true },
+      _sum: { inputTokens: true, outputTokens: true, estimatedCostUsd: true },
+      orderBy: { _sum: { estimatedCostUsd: 'desc' } },
+      take: query.limit ?? DEFAULT_DEVELOPER_LIMIT,
+    });
+
+    return groups.map((group) => ({
+      developerId: group.developerId!,
+      calls: group._count._all,
+      inputTokens: group._sum.inputTokens ?? 0,
+      outputTokens: group._sum.outputTokens ?? 0,
+      costUsd: this.round(group._sum.estimatedCostUsd ?? 0),
+    }));
+  }
+
+  async getUsageByPromptVersion(
+    query: AiUsageQueryDto,
+  ): Promise<AiUsageByPromptVersionDto[]> {
+    const { from, to } = this.getRange(query);
+
+    const groups = await this.prisma.aiUsage.groupBy({
+      by: ['promptType', 'promptVersion'],
+      where: { createdAt: { gte: from, lt: to } },
+      _count: { _all: true },
+      _sum: { inputTokens: true, outputTokens: true, estimatedCostUsd: true },
+      _avg: { latencyMs: true },
+      orderBy: [{ promptType: 'asc' }, { promptVersion: 'asc' }],
+    });
+
+    return groups.map((group) => ({
+      promptType: group.promptType,
+      promptVersion: group.promptVersion,
+      calls: group._count._all,
+      inputTokens: group._sum.inputTokens ?? 0,
+      outputTokens: group._sum.outputTokens ?? 0,
+      costUsd: this.round(group._sum.estimatedCostUsd ?? 0),
+      avgLatencyMs: Math.round(group._avg.latencyMs ?? 0),
+    }));
+  }
+
+  // ========================================
+  // PRIVATE HELPER METHODS
+  // ========================================
+
+  /**
+   * Query range, defaulting to the last DEFAULT_RANGE_DAYS days
+   * `to` is inclusive of the whole day
+   */
+  private getRange(query: AiUsageQueryDto): { from: Date; to: Date } {
+    const to = query.to
+      ? new Date(new Date(query.to).getTime() + 24 * 60 * 60 * 1000)
+      : new Date();
+    const from = query.from
+      ? new Date(query.from)
+      : new Date(to.getTime() - DEFAULT_RANGE_DAYS * 24 * 60 * 60 * 1000);
+
+    return { from, to };
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 10000) / 10000;
+  }
+}
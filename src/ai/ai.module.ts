@@ -1,9 +1,21 @@
 import { Module, Global } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { AiService } from './ai.service';
+import { AI_USAGE_RECORDER, AiUsageService } from './ai-usage.service';
+import { LLM_PROVIDER, createLlmProvider } from './providers';
 
 @Global()
 @Module({
-  providers: [AiService],
-  exports: [AiService],
+  providers: [
+    AiService,
+    AiUsageService,
+    { provide: AI_USAGE_RECORDER, useExisting: AiUsageService },
+    {
+      provide: LLM_PROVIDER,
+      inject: [ConfigService],
+      useFactory: createLlmProvider,
+    },
+  ],
+  exports: [AiService, AiUsageService],
 })
 export class AiModule {}
@@ -1,8 +1,99 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Inject, Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import Anthropic from '@anthropic-ai/sdk';
-import { generateProjectAnalysisPrompt } from './prompts/project-analysis.prompt';
-import { generateHiringReportPrompt } from './prompts/hiring-report.prompt';
+import {
+  SecurityScanEvidence,
+  StaticCodeMetrics,
+} from './prompts/project-analysis.prompt';
+import { PROMPT_REGISTRY } from './prompts/prompt-registry';
+import {
+  FitAnalysisJobProfile,
+  FitAnalysisProjectData,
+  FitEvidence,
+} from './prompts/fit-analysis.prompt';
+import { InterviewKitReportData } from './prompts/interview-kit.prompt';
+import { GitHistoryEvidence } from './prompts/git-history.section';
+import {
+  LLM_PROVIDER,
+  LlmProvider,
+  LlmStructuredResponse,
+  LlmToolDefinition,
+  LlmTurn,
+  PromptType,
+} from './providers';
+import {
+  validateJsonSchema,
+  PROJECT_ANALYSIS_SCHEMA,
+  HIRING_REPORT_SCHEMA,
+  FIT_ANALYSIS_SCHEMA,
+  INTERVIEW_KIT_SCHEMA,
+} from './schemas';
+import {
+  AI_USAGE_RECORDER,
+  AiUsageContext,
+  AiUsageRecorder,
+} from './ai-usage.service';
+
+// Times an invalid tool call is sent back to the model for correction
+const MAX_REPAIR_ATTEMPTS = 2;
+// Attempts per AI request when the provider errors or rate-limits
+const MAX_RETRIES = 3;
+
+const PROJECT_ANALYSIS_TOOL = 'submit_project_analysis';
+const HIRING_REPORT_TOOL = 'submit_hiring_report';
+const FIT_ANALYSIS_TOOL = 'submit_fit_analysis';
+const INTERVIEW_KIT_TOOL = 'submit_interview_kit';
+
+interface PromptModelConfig {
+  model: string;
+  maxTokens: number;
+  temperature: number;
+}
+
+const PROMPT_MODEL_DEFAULTS: Record<PromptType, PromptModelConfig> = {
+  projectAnalysis: {
+    model: 'claude-sonnet-4-20250514',
+    maxTokens: 6000,
+    temperature: 0.2,
+  },
+  hiringReport: {
+    model: 'claude-sonnet-4-20250514',
+    maxTokens: 8192,
+    temperature: 0.5,
+  },
+  fitAnalysis: {
+    model: 'claude-sonnet-4-20250514',
+    maxTokens: 3000,
+    temperature: 0.3,
+  },
+  interviewKit: {
+    model: 'claude-sonnet-4-20250514',
+    maxTokens: 4096,
+    temperature: 0.4,
+  },
+};
+
+// Environment variable prefix for per-prompt overrides
+const PROMPT_CONFIG_PREFIX: Record<PromptType, string> = {
+  projectAnalysis: 'AI_PROJECT_ANALYSIS',
+  hiringReport: 'AI_HIRING_REPORT',
+  fitAnalysis: 'AI_FIT_ANALYSIS',
+  interviewKit: 'AI_INTERVIEW_KIT',
+};
+
+// A default applied because the model's output stayed invalid after repair
+export interface NormalizationFallback {
+  field: string; // JSON path, e.g. $.technicalAssessment.codeStructure.rating
+  reason: string;
+  fallback: unknown; // Value used instead
+}
+
+// How much the structured output had to be corrected
+export interface AiOutputQuality {
+  repairAttempts: number;
+  validationErrors: string[]; // Left after the repair loop
+  fallbacks: NormalizationFallback[];
+  lowConfidence: boolean; // Any fallback was applied
+}
 
 // Technical skill rating from project analysis
 export interface TechnicalSkillRating {
@@ -48,6 +139,8 @@ export interface ProjectAnalysisResult {
   securityIssues?: string[];
   riskFlags?: string[];
   errorHandling?: ErrorHandlingAssessment;
+  outputQuality?: AiOutputQuality;
+  promptVersion: string; // Prompt registry version that produced this result
 }
 
 // Tier 2: Hiring Report Result (Company only)
@@ -88,66 +181,371 @@ export interface HiringReportResult {
   techProficiency: Record<string, number>;
   mentoringNeeds: string[];
   growthPotential: string;
+  outputQuality?: AiOutputQuality;
+  promptVersion: string; // Prompt registry version that produced this result
+}
+
+// Job profile fit explanation (Company only)
+export interface FitAnalysisResult {
+  summary: string;
+  gaps: string[];
+  interviewQuestions: string[];
+  outputQuality?: AiOutputQuality;
+  promptVersion: string; // Prompt registry version that produced this result
+}
+
+// One interview question with its scoring rubric
+export interface InterviewKitQuestion {
+  topic: string;
+  source: 'RISK_FLAG' | 'TECHNICAL_IMPROVEMENT' | 'MENTORING_NEED';
+  question: string;
+  goodAnswer: string;
+  redFlags: string[];
+  followUps: string[];
+  minutes: number; // Time budget
+}
+
+// Structured interview from the hiring report (Company only)
+export interface InterviewKitResult {
+  questions: InterviewKitQuestion[];
+  outputQuality?: AiOutputQuality;
+  promptVersion: string; // Prompt registry version that produced this result
+}
+
+/**
+ * Thrown when the AI response can't be parsed into the expected structure
+ */
+export class AiResponseParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AiResponseParseError';
+  }
 }
 
 @Injectable()
 export class AiService {
   private readonly logger = new Logger(AiService.name);
-  private readonly anthropic: Anthropic;
 
-  constructor(private config: ConfigService) {
-    this.anthropic = new Anthropic({
-      apiKey: this.config.getOrThrow('ANTHROPIC_API_KEY'),
+  constructor(
+    private config: ConfigService,
+    @Inject(LLM_PROVIDER) private llm: LlmProvider,
+    @Inject(AI_USAGE_RECORDER) private aiUsage: AiUsageRecorder,
+  ) {}
+
+  /**
+   * Model settings for a prompt type
+   * AI_<PROMPT>_MODEL / _MAX_TOKENS / _TEMPERATURE override the defaults,
+   * AI_MODEL overrides the model for every prompt type
+   */
+  private getPromptConfig(promptType: PromptType): PromptModelConfig {
+    const defaults = PROMPT_MODEL_DEFAULTS[promptType];
+    const prefix = PROMPT_CONFIG_PREFIX[promptType];
+    const maxTokens = Number(this.config.get<string>(`${prefix}_MAX_TOKENS`));
+    const temperature = this.config.get<string>(`${prefix}_TEMPERATURE`);
+
+    return {
+      model:
+        this.config.get<string>(`${prefix}_MODEL`) ||
+        this.config.get<string>('AI_MODEL') ||
+        defaults.model,
+      maxTokens: maxTokens > 0 ? maxTokens : defaults.maxTokens,
+      temperature:
+        temperature && !Number.isNaN(Number(temperature))
+          ? Number(temperature)
+          : defaults.temperature,
+    };
+  }
+
+  /**
+   * Ask the model to answer through a tool whose input is the result schema
+   * Validation errors are returned to the model as a failed tool result,
+   * up to MAX_REPAIR_ATTEMPTS times. The last input is returned even if it
+   * is still invalid, so the caller can normalize it and record fallbacks
+   * Every call (including repairs and failures) is recorded in AiUsage
+   */
+  private async requestStructuredOutput(request: {
+    promptType: PromptType;
+    system: string;
+    prompt: string;
+    tool: LlmToolDefinition;
+    forceTool: boolean; // false lets the model reason in text before the call
+    usageContext?: AiUsageContext;
+  }): Promise<{
+    output: Record<string, unknown> | null;
+    validationErrors: string[];
+    repairAttempts: number;
+  }> {
+    const promptConfig = this.getPromptConfig(request.promptType);
+    const turns: LlmTurn[] = [{ role: 'user', text: request.prompt }];
+    const toolName = request.tool.name;
+    let output: Record<string, unknown> | null = null;
+    let validationErrors: string[] = [];
+
+    for (let repair = 0; repair <= MAX_REPAIR_ATTEMPTS; repair++) {
+      const usage = {
+        promptType: request.promptType,
+        promptVersion: PROMPT_REGISTRY[request.promptType].version,
+        provider: this.llm.name,
+        model: promptConfig.model,
+      };
+      const startedAt = Date.now();
+      let response: LlmStructuredResponse;
+
+      try {
+        response = await this.llm.generateStructured({
+          promptType: request.promptType,
+          ...promptConfig,
+          system: request.system,
+          turns,
+          tool: request.tool,
+          forceTool: request.forceTool,
+        });
+      } catch (error) {
+        await this.aiUsage.record(
+          {
+            ...usage,
+            inputTokens: 0,
+            outputTokens: 0,
+            latencyMs: Date.now() - startedAt,
+            success: false,
+          },
+          request.usageContext,
+        );
+        throw error;
+      }
+
+      await this.aiUsage.record(
+        {
+          ...usage,
+          inputTokens: response.usage?.inputTokens ?? 0,
+          outputTokens: response.usage?.outputTokens ?? 0,
+          latencyMs: Date.now() - startedAt,
+          success: true,
+        },
+        request.usageContext,
+      );
+
+      if (response.toolCall) {
+        output = response.toolCall.input;
+        validationErrors = validateJsonSchema(request.tool.schema, output);
+      } else {
+        validationErrors = [`${toolName} was not called with valid input`];
+      }
+
+      if (validationErrors.length === 0) {
+        return { output, validationErrors, repairAttempts: repair };
+      }
+
+      if (repair === MAX_REPAIR_ATTEMPTS) break;
+
+      this.logger.warn(
+        `Invalid ${toolName} output (repair ${repair + 1}/${MAX_REPAIR_ATTEMPTS}): ${validationErrors.join('; ')}`,
+      );
+
+      const correction = `Your output failed validation:\n${validationErrors.map((e) => `- ${e}`).join('\n')}\nCall ${toolName} again with the complete, corrected input.`;
+
+      turns.push({
+        role: 'assistant',
+        text: response.text,
+        toolCall: response.toolCall,
+      });
+      turns.push(
+        response.toolCall
+          ? {
+              role: 'toolResult',
+              toolCallId: response.toolCall.id,
+              content: correction,
+              isError: true,
+            }
+          : { role: 'user', text: correction },
+      );
+    }
+
+    return {
+      output,
+      validationErrors,
+      repairAttempts: MAX_REPAIR_ATTEMPTS,
+    };
+  }
+
+  /**
+   * Value from an allowed set, or the fallback (recorded)
+   */
+  private pickEnum<T extends string>(
+    value: unknown,
+    allowed: readonly T[],
+    fallback: T,
+    field: string,
+    fallbacks: NormalizationFallback[],
+  ): T {
+    if (allowed.includes(value as T)) return value as T;
+
+    fallbacks.push({
+      field,
+      reason: `Invalid value ${JSON.stringify(value)}`,
+      fallback,
     });
+    return fallback;
+  }
+
+  /**
+   * String array capped at max items; anything else becomes [] (recorded)
+   */
+  private pickStringList(
+    value: unknown,
+    max: number,
+    field: string,
+    fallbacks: NormalizationFallback[],
+  ): string[] {
+    if (!Array.isArray(value)) {
+      if (value !== undefined) {
+        fallbacks.push({ field, reason: 'Not an array', fallback: [] });
+      }
+      return [];
+    }
+
+    const strings = value.filter((item) => typeof item === 'string');
+    if (strings.length !== value.length) {
+      fallbacks.push({
+        field,
+        reason: 'Dropped non-string items',
+        fallback: strings,
+      });
+    }
+    return strings.slice(0, max);
+  }
+
+  /**
+   * String value, or the fallback (recorded)
+   */
+  private pickString(
+    value: unknown,
+    fallback: string,
+    field: string,
+    fallbacks: NormalizationFallback[],
+  ): string {
+    if (typeof value === 'string') return value;
+
+    fallbacks.push({ field, reason: 'Missing or not a string', fallback });
+    return fallback;
   }
 
   /**
-   * Extract JSON from AI response - handles various formats
+   * Integer clamped to a range; missing values use the fallback (recorded)
    */
-  private extractJson(content: string): string {
-    // Try to find JSON object in the response
-    const jsonMatch = content.match(/\{[\s\S]*\}/);
-    if (jsonMatch) {
-      return jsonMatch[0];
+  private pickScore(
+    value: unknown,
+    min: number,
+    max: number,
+    fallback: number,
+    field: string,
+    fallbacks: NormalizationFallback[],
+  ): number {
+    if (typeof value !== 'number' || Number.isNaN(value)) {
+      fallbacks.push({ field, reason: 'Missing or not a number', fallback });
+      return fallback;
+    }
+
+    const clamped = Math.round(Math.min(max, Math.max(min, value)));
+    if (clamped !== value) {
+      fallbacks.push({
+        field,
+        reason: `Out of range: ${value}`,
+        fallback: clamped,
+      });
     }
+    return clamped;
+  }
+
+  /**
+   * Run an AI request, retrying rate limits and transient failures
+   * Rate limits back off exponentially; unusable output is thrown right away
+   * since the repair loop already had its chances
+   * @param label - Request name for the logs
+   * @param failure - Message of the error thrown once retries run out
+   */
+  private async withRetry<T>(
+    label: string,
+    failure: string,
+    request: (attempt: number) => Promise<T>,
+  ): Promise<T> {
+    for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
+      try {
+        return await request(attempt);
+      } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : String(error);
+        const isRateLimit =
+          (error as { status?: unknown } | null)?.status === 429 ||
+          message.includes('Rate limit') ||
+          message.includes('overloaded');
+
+        if (isRateLimit && attempt < MAX_RETRIES) {
+          const waitTime = Math.pow(2, attempt) * 5000;
+          this.logger.warn(
+            `Rate limit hit (attempt ${attempt}/${MAX_RETRIES}). Waiting ${waitTime / 1000}s...`,
+          );
+          await new Promise((resolve) => setTimeout(resolve, waitTime));
+          continue;
+        }
+
+        if (error instanceof AiResponseParseError) {
+          this.logger.error(`Unusable AI output: ${error.message}`);
+          throw error;
+        }
 
-    // Clean response - remove analysis tags and markdown blocks
-    let cleaned = content
-      .trim()
-      .replace(/<analysis>[\s\S]*?<\/analysis>/gi, '')
-      .replace(/<thinking>[\s\S]*?<\/thinking>/gi, '')
-      .replace(/^```json\s*/i, '')
-      .replace(/^```\s*/i, '')
-      .replace(/```\s*$/i, '')
-      .trim();
-
-    // If still not starting with {, try to find the JSON object
-    if (!cleaned.startsWith('{')) {
-      const jsonStart = cleaned.indexOf('{');
-      if (jsonStart !== -1) {
-        cleaned = cleaned.substring(jsonStart);
+        if (attempt === MAX_RETRIES) {
+          this.logger.error(
+            `${label} failed after ${MAX_RETRIES} attempts: ${message}`,
+          );
+          throw new Error(failure);
+        }
       }
     }
 
-    return cleaned;
+    throw new Error(failure);
   }
 
   /**
-   * Validate and normalize technical assessment structure
+   * Object value as a record; anything else reads as an empty one
    */
-  private normalizeSkillRating(rating: any): TechnicalSkillRating | undefined {
-    if (!rating || typeof rating !== 'object') return undefined;
+  private pickRecord(value: unknown): Record<string, unknown> {
+    return value && typeof value === 'object' && !Array.isArray(value)
+      ? (value as Record<string, unknown>)
+      : {};
+  }
 
-    const validRatings = ['STRONG', 'ADEQUATE', 'WEAK'];
-    const normalizedRating = validRatings.includes(rating.rating)
-      ? rating.rating
-      : 'ADEQUATE';
+  /**
+   * Validate and normalize technical assessment structure
+   */
+  private normalizeSkillRating(
+    value: unknown,
+    field: string,
+    fallbacks: NormalizationFallback[],
+  ): TechnicalSkillRating {
+    if (!value || typeof value !== 'object') {
+      const fallback: TechnicalSkillRating = {
+        rating: 'ADEQUATE',
+        observations: [],
+      };
+      fallbacks.push({ field, reason: 'Missing', fallback });
+      return fallback;
+    }
 
+    const rating = this.pickRecord(value);
     return {
-      rating: normalizedRating as 'STRONG' | 'ADEQUATE' | 'WEAK',
-      observations: Array.isArray(rating.observations)
-        ? rating.observations.slice(0, 5)
-        : [],
+      rating: this.pickEnum(
+        rating.rating,
+        ['STRONG', 'ADEQUATE', 'WEAK'] as const,
+        'ADEQUATE',
+        `${field}.rating`,
+        fallbacks,
+      ),
+      observations: this.pickStringList(
+        rating.observations,
+        5,
+        `${field}.observations`,
+        fallbacks,
+      ),
     };
   }
 
@@ -164,176 +562,200 @@ export class AiService {
       projectType: string;
       languages: string[];
       isFullstackByStructure?: boolean;
+      rootPaths?: string[];
+      unverifiableOrigin?: boolean;
+      codeMetrics?: StaticCodeMetrics;
+      gitHistory?: GitHistoryEvidence;
+      securityScan?: SecurityScanEvidence;
+      focusAreas?: string[];
     },
     developerContext?: {
       developerType?: string | null;
       experiences?: Array<{ tech: string; months: number }>;
     },
+    usageContext?: AiUsageContext,
   ): Promise<ProjectAnalysisResult> {
-    const prompt = generateProjectAnalysisPrompt(
+    const template = PROMPT_REGISTRY.projectAnalysis;
+    const prompt = template.generate(
       codeSnippets,
       fileCount,
       metadata,
       developerContext,
     );
 
-    const maxRetries = 3;
-
-    for (let attempt = 1; attempt <= maxRetries; attempt++) {
-      try {
+    return this.withRetry(
+      'Project analysis',
+      'Failed to analyze project with AI',
+      async (attempt) => {
         this.logger.log(
-          `Analyzing project (attempt ${attempt}/${maxRetries}): ${metadata?.name || 'Unknown'}`,
+          `Analyzing project (attempt ${attempt}/${MAX_RETRIES}): ${metadata?.name || 'Unknown'}`,
         );
 
-        const response = await this.anthropic.messages.create({
-          model: 'claude-sonnet-4-20250514',
-          max_tokens: 6000,
-          temperature: 0.2,
-          system:
-            'You are an expert code reviewer. First provide your analysis in <analysis> tags, then output ONLY valid JSON. The analysis should show your scoring calculation step by step.',
-          messages: [{ role: 'user', content: prompt }],
-        });
-
-        const content =
-          response.content[0].type === 'text' ? response.content[0].text : '{}';
-
-        // Extract JSON from response
-        const jsonString = this.extractJson(content);
-
-        // Log first 200 chars for debugging
-        this.logger.debug(
-          `AI response preview: ${jsonString.substring(0, 200)}...`,
-        );
-
-        const parsed = JSON.parse(jsonString);
+        const { output, validationErrors, repairAttempts } =
+          await this.requestStructuredOutput({
+            promptType: 'projectAnalysis',
+            system: `You are an expert code reviewer. First provide your analysis in <analysis> tags, showing your scoring calculation step by step, then submit the result by calling the ${PROJECT_ANALYSIS_TOOL} tool.`,
+            prompt,
+            tool: {
+              name: PROJECT_ANALYSIS_TOOL,
+              description:
+                'Submit the structured evaluation of the project. Call exactly once, after your <analysis>.',
+              schema: PROJECT_ANALYSIS_SCHEMA,
+            },
+            forceTool: false,
+            usageContext,
+          });
 
-        // Validate required fields
+        // Without these there is nothing meaningful to fall back to
         if (
-          typeof parsed.score !== 'number' ||
-          !Array.isArray(parsed.strengths) ||
-          !Array.isArray(parsed.weaknesses)
+          !output ||
+          typeof output.score !== 'number' ||
+          !Array.isArray(output.strengths) ||
+          !Array.isArray(output.weaknesses)
         ) {
-          throw new Error('Invalid AI response structure');
+          throw new AiResponseParseError(
+            `Invalid AI response structure: ${validationErrors.join('; ')}`,
+          );
         }
 
         this.logger.log(
-          `Successfully analyzed project: ${metadata?.name}, score: ${parsed.score}`,
+          `Successfully analyzed project: ${metadata?.name}, score: ${output.score}`,
         );
 
-        // Build technical assessment if available
-        let technicalAssessment: TechnicalAssessment | undefined;
-        if (parsed.technicalAssessment) {
-          const ta = parsed.technicalAssessment;
-          technicalAssessment = {
-            codeStructure: this.normalizeSkillRating(ta.codeStructure) || {
-              rating: 'ADEQUATE',
-              observations: [],
-            },
-            coreFundamentals: this.normalizeSkillRating(
-              ta.coreFundamentals,
-            ) || {
-              rating: 'ADEQUATE',
-              observations: [],
-            },
-            problemSolving: this.normalizeSkillRating(ta.problemSolving) || {
-              rating: 'ADEQUATE',
-              observations: [],
-            },
-            toolingPractices: this.normalizeSkillRating(
-              ta.toolingPractices,
-            ) || {
-              rating: 'ADEQUATE',
-              observations: [],
-            },
-          };
-        }
+        const fallbacks: NormalizationFallback[] = [];
+        const ta = this.pickRecord(output.technicalAssessment);
+        const as = this.pickRecord(output.authenticitySignals);
+        const eh = this.pickRecord(output.errorHandling);
 
-        // Build authenticity signals if available
-        let authenticitySignals: AuthenticitySignals | undefined;
-        if (parsed.authenticitySignals) {
-          const as = parsed.authenticitySignals;
-          const validLevels = ['HIGH', 'MEDIUM', 'LOW'];
-          authenticitySignals = {
-            level: validLevels.includes(as.level) ? as.level : 'MEDIUM',
-            positiveIndicators: Array.isArray(as.positiveIndicators)
-              ? as.positiveIndicators.slice(0, 5)
-              : [],
-            concerningIndicators: Array.isArray(as.concerningIndicators)
-              ? as.concerningIndicators.slice(0, 5)
-              : [],
-          };
-        }
+        const technicalAssessment: TechnicalAssessment = {
+          codeStructure: this.normalizeSkillRating(
+            ta.codeStructure,
+            '$.technicalAssessment.codeStructure',
+            fallbacks,
+          ),
+          coreFundamentals: this.normalizeSkillRating(
+            ta.coreFundamentals,
+            '$.technicalAssessment.coreFundamentals',
+            fallbacks,
+          ),
+          problemSolving: this.normalizeSkillRating(
+            ta.problemSolving,
+            '$.technicalAssessment.problemSolving',
+            fallbacks,
+          ),
+          toolingPractices: this.normalizeSkillRating(
+            ta.toolingPractices,
+            '$.technicalAssessment.toolingPractices',
+            fallbacks,
+          ),
+        };
 
-        // Build error handling assessment if available
-        let errorHandling: ErrorHandlingAssessment | undefined;
-        if (parsed.errorHandling) {
-          const eh = parsed.errorHandling;
-          const validQualities = ['GOOD', 'PARTIAL', 'POOR', 'NONE'];
-          errorHandling = {
-            quality: validQualities.includes(eh.quality)
-              ? eh.quality
-              : 'PARTIAL',
-            observations: eh.observations || '',
-          };
-        }
+        const authenticitySignals: AuthenticitySignals = {
+          level: this.pickEnum(
+            as.level,
+            ['HIGH', 'MEDIUM', 'LOW'] as const,
+            'MEDIUM',
+            '$.authenticitySignals.level',
+            fallbacks,
+          ),
+          positiveIndicators: this.pickStringList(
+            as.positiveIndicators,
+            5,
+            '$.authenticitySignals.positiveIndicators',
+            fallbacks,
+          ),
+          concerningIndicators: this.pickStringList(
+            as.concerningIndicators,
+            5,
+            '$.authenticitySignals.concerningIndicators',
+            fallbacks,
+          ),
+        };
+
+        const errorHandling: ErrorHandlingAssessment = {
+          quality: this.pickEnum(
+            eh.quality,
+            ['GOOD', 'PARTIAL', 'POOR', 'NONE'] as const,
+            'PARTIAL',
+            '$.errorHandling.quality',
+            fallbacks,
+          ),
+          observations: this.pickString(
+            eh.observations,
+            '',
+            '$.errorHandling.observations',
+            fallbacks,
+          ),
+        };
 
         return {
-          score: Math.min(100, Math.max(0, parsed.score)),
-          potentialMismatch: parsed.potentialMismatch ?? false,
-          mismatchReason: parsed.mismatchReason || null,
-          strengths: parsed.strengths.slice(0, 5),
-          weaknesses: parsed.weaknesses.slice(0, 5),
-          strengthsSummary: parsed.strengthsSummary || '',
-          weaknessesSummary: parsed.weaknessesSummary || '',
-          codeOrganization: parsed.codeOrganization || '',
-          techStack: parsed.techStack || [],
-          // New structured data
+          score: this.pickScore(output.score, 0, 100, 0, '$.score', fallbacks),
+          potentialMismatch: output.potentialMismatch === true,
+          mismatchReason:
+            typeof output.mismatchReason === 'string'
+              ? output.mismatchReason
+              : null,
+          strengths: this.pickStringList(
+            output.strengths,
+            5,
+            '$.strengths',
+            fallbacks,
+          ),
+          weaknesses: this.pickStringList(
+            output.weaknesses,
+            5,
+            '$.weaknesses',
+            fallbacks,
+          ),
+          strengthsSummary: this.pickString(
+            output.strengthsSummary,
+            '',
+            '$.strengthsSummary',
+            fallbacks,
+          ),
+          weaknessesSummary: this.pickString(
+            output.weaknessesSummary,
+            '',
+            '$.weaknessesSummary',
+            fallbacks,
+          ),
+          codeOrganization: this.pickString(
+            output.codeOrganization,
+            '',
+            '$.codeOrganization',
+            fallbacks,
+          ),
+          techStack: this.pickStringList(
+            output.techStack,
+            50,
+            '$.techStack',
+            fallbacks,
+          ),
           technicalAssessment,
           authenticitySignals,
-          securityIssues: Array.isArray(parsed.securityIssues)
-            ? parsed.securityIssues.slice(0, 10)
-            : [],
-          riskFlags: Array.isArray(parsed.riskFlags)
-            ? parsed.riskFlags.slice(0, 10)
-            : [],
+          securityIssues: this.pickStringList(
+            output.securityIssues,
+            10,
+            '$.securityIssues',
+            fallbacks,
+          ),
+          riskFlags: this.pickStringList(
+            output.riskFlags,
+            10,
+            '$.riskFlags',
+            fallbacks,
+          ),
           errorHandling,
+          outputQuality: {
+            repairAttempts,
+            validationErrors,
+            fallbacks,
+            lowConfidence: fallbacks.length > 0,
+          },
+          promptVersion: template.version,
         };
-      } catch (error: any) {
-        const isRateLimit =
-          error?.status === 429 ||
-          error?.message?.includes('Rate limit') ||
-          error?.message?.includes('overloaded');
-
-        const isJsonError = error?.message?.includes('JSON');
-
-        if (isRateLimit && attempt < maxRetries) {
-          const waitTime = Math.pow(2, attempt) * 5000;
-          this.logger.warn(
-            `Rate limit hit (attempt ${attempt}/${maxRetries}). Waiting ${waitTime / 1000}s...`,
-          );
-          await new Promise((resolve) => setTimeout(resolve, waitTime));
-          continue;
-        }
-
-        // Retry on JSON parsing errors too
-        if (isJsonError && attempt < maxRetries) {
-          this.logger.warn(
-            `JSON parsing failed (attempt ${attempt}/${maxRetries}): ${error?.message}. Retrying...`,
-          );
-          await new Promise((resolve) => setTimeout(resolve, 2000));
-          continue;
-        }
-
-        if (attempt === maxRetries) {
-          this.logger.error(
-            `Project analysis failed after ${maxRetries} attempts: ${error?.message}`,
-          );
-          throw new Error('Failed to analyze project with AI');
-        }
-      }
-    }
-
-    throw new Error('Failed to analyze project with AI');
+      },
+    );
   }
 
   /**
@@ -357,6 +779,8 @@ export class AiService {
       securityIssues?: string[];
       riskFlags?: string[];
       errorHandling?: ErrorHandlingAssessment;
+      gitHistory?: GitHistoryEvidence | null;
+      unverifiableOrigin?: boolean;
     }>,
     developerProfile: {
       firstName?: string;
@@ -364,127 +788,374 @@ export class AiService {
       developerType?: string | null;
       techExperiences?: Array<{ stackName: string; months: number }>;
     },
+    usageContext?: AiUsageContext,
   ): Promise<HiringReportResult> {
-    const prompt = generateHiringReportPrompt(projects, developerProfile);
+    const template = PROMPT_REGISTRY.hiringReport;
+    const prompt = template.generate(projects, developerProfile);
 
-    const maxRetries = 3;
-
-    for (let attempt = 1; attempt <= maxRetries; attempt++) {
-      try {
-        const response = await this.anthropic.messages.create({
-          model: 'claude-sonnet-4-20250514',
-          max_tokens: 8192,
-          temperature: 0.5,
-          system:
-            'You are a senior technical advisor providing hiring recommendations for junior developers (0-3 years). Your report must help recruiters answer: "Can I safely move this junior forward?" Be objective, specific, and actionable. You MUST respond with ONLY valid JSON. No explanations, no markdown code blocks, no text before or after the JSON. Just the raw JSON object.',
-          messages: [{ role: 'user', content: prompt }],
-        });
-
-        const content =
-          response.content[0].type === 'text' ? response.content[0].text : '{}';
+    return this.withRetry(
+      'Hiring report generation',
+      'Failed to generate hiring report with AI',
+      async () => {
+        const { output, validationErrors, repairAttempts } =
+          await this.requestStructuredOutput({
+            promptType: 'hiringReport',
+            system: `You are a senior technical advisor providing hiring recommendations for junior developers (0-3 years). Your report must help recruiters answer: "Can I safely move this junior forward?" Be objective, specific, and actionable. Submit the report by calling the ${HIRING_REPORT_TOOL} tool.`,
+            prompt,
+            tool: {
+              name: HIRING_REPORT_TOOL,
+              description: 'Submit the complete hiring report.',
+              schema: HIRING_REPORT_SCHEMA,
+            },
+            forceTool: true,
+            usageContext,
+          });
 
-        // Extract JSON from response using helper
-        const jsonString = this.extractJson(content);
+        if (!output) {
+          throw new AiResponseParseError(
+            `No hiring report in AI response: ${validationErrors.join('; ')}`,
+          );
+        }
 
-        // Log first 200 chars for debugging
-        this.logger.debug(
-          `Hiring report response preview: ${jsonString.substring(0, 200)}...`,
+        const fallbacks: NormalizationFallback[] = [];
+        const overallScore = this.pickScore(
+          output.overallScore,
+          0,
+          100,
+          50,
+          '$.overallScore',
+          fallbacks,
         );
+        const bandFromScore =
+          overallScore >= 75
+            ? 'STRONG_JUNIOR'
+            : overallScore >= 50
+              ? 'AVERAGE_JUNIOR'
+              : 'RISKY_JUNIOR';
 
-        const parsed = JSON.parse(jsonString);
+        const breakdown = this.pickRecord(output.technicalBreakdown);
+        const breakdownArea = (area: string) => {
+          const value = this.pickRecord(breakdown[area]);
+          const field = `$.technicalBreakdown.${area}`;
+          return {
+            summary: this.pickString(
+              value.summary,
+              '',
+              `${field}.summary`,
+              fallbacks,
+            ),
+            strengths: this.pickStringList(
+              value.strengths,
+              10,
+              `${field}.strengths`,
+              fallbacks,
+            ),
+            improvements: this.pickStringList(
+              value.improvements,
+              10,
+              `${field}.improvements`,
+              fallbacks,
+            ),
+          };
+        };
 
-        // Validate recommendation enum
-        const validRecommendations = [
-          'SAFE_TO_INTERVIEW',
-          'INTERVIEW_WITH_CAUTION',
-          'NOT_READY',
-        ];
-        if (!validRecommendations.includes(parsed.recommendation)) {
-          parsed.recommendation = 'INTERVIEW_WITH_CAUTION';
+        const techProficiency: Record<string, number> = {};
+        if (
+          output.techProficiency &&
+          typeof output.techProficiency === 'object'
+        ) {
+          for (const [tech, level] of Object.entries(output.techProficiency)) {
+            techProficiency[tech] = this.pickScore(
+              level,
+              1,
+              10,
+              5,
+              `$.techProficiency.${tech}`,
+              fallbacks,
+            );
+          }
+        } else {
+          fallbacks.push({
+            field: '$.techProficiency',
+            reason: 'Missing or not an object',
+            fallback: {},
+          });
         }
 
-        // Validate junior level enum
-        const validLevels = [
-          'ABOVE_EXPECTED',
-          'WITHIN_EXPECTED',
-          'BELOW_EXPECTED',
-        ];
-        if (!validLevels.includes(parsed.juniorLevel)) {
-          parsed.juniorLevel = 'WITHIN_EXPECTED';
-        }
+        return {
+          recommendation: this.pickEnum(
+            output.recommendation,
+            [
+              'SAFE_TO_INTERVIEW',
+              'INTERVIEW_WITH_CAUTION',
+              'NOT_READY',
+            ] as const,
+            'INTERVIEW_WITH_CAUTION',
+            '$.recommendation',
+            fallbacks,
+          ),
+          recommendationReasons: this.pickStringList(
+            output.recommendationReasons,
+            10,
+            '$.recommendationReasons',
+            fallbacks,
+          ),
+          juniorLevel: this.pickEnum(
+            output.juniorLevel,
+            ['ABOVE_EXPECTED', 'WITHIN_EXPECTED', 'BELOW_EXPECTED'] as const,
+            'WITHIN_EXPECTED',
+            '$.juniorLevel',
+            fallbacks,
+          ),
+          juniorLevelContext: this.pickString(
+            output.juniorLevelContext,
+            'Junior Developer',
+            '$.juniorLevelContext',
+            fallbacks,
+          ),
+          technicalBreakdown: {
+            codeStructure: breakdownArea('codeStructure'),
+            coreFundamentals: breakdownArea('coreFundamentals'),
+            problemSolving: breakdownArea('problemSolving'),
+            toolingPractices: breakdownArea('toolingPractices'),
+          },
+          riskFlags: this.pickStringList(
+            output.riskFlags,
+            10,
+            '$.riskFlags',
+            fallbacks,
+          ),
+          authenticitySignal: this.pickEnum(
+            output.authenticitySignal,
+            ['HIGH', 'MEDIUM', 'LOW'] as const,
+            'MEDIUM',
+            '$.authenticitySignal',
+            fallbacks,
+          ),
+          authenticityExplanation: this.pickString(
+            output.authenticityExplanation,
+            '',
+            '$.authenticityExplanation',
+            fallbacks,
+          ),
+          interviewQuestions: this.pickStringList(
+            output.interviewQuestions,
+            10,
+            '$.interviewQuestions',
+            fallbacks,
+          ),
+          overallScore,
+          scoreBand: this.pickEnum(
+            output.scoreBand,
+            ['STRONG_JUNIOR', 'AVERAGE_JUNIOR', 'RISKY_JUNIOR'] as const,
+            bandFromScore,
+            '$.scoreBand',
+            fallbacks,
+          ),
+          conclusion: this.pickString(
+            output.conclusion,
+            '',
+            '$.conclusion',
+            fallbacks,
+          ),
+          techProficiency,
+          mentoringNeeds: this.pickStringList(
+            output.mentoringNeeds,
+            10,
+            '$.mentoringNeeds',
+            fallbacks,
+          ),
+          growthPotential: this.pickString(
+            output.growthPotential,
+            '',
+            '$.growthPotential',
+            fallbacks,
+          ),
+          outputQuality: {
+            repairAttempts,
+            validationErrors,
+            fallbacks,
+            lowConfidence: fallbacks.length > 0,
+          },
+          promptVersion: template.version,
+        };
+      },
+    );
+  }
 
-        // Validate score band
-        const validBands = ['STRONG_JUNIOR', 'AVERAGE_JUNIOR', 'RISKY_JUNIOR'];
-        if (!validBands.includes(parsed.scoreBand)) {
-          const score = parsed.overallScore || 50;
-          if (score >= 75) parsed.scoreBand = 'STRONG_JUNIOR';
-          else if (score >= 50) parsed.scoreBand = 'AVERAGE_JUNIOR';
-          else parsed.scoreBand = 'RISKY_JUNIOR';
-        }
+  /**
+   * Explain a developer's fit for a job profile
+   * Works from stored project analyses only; the fit score itself is
+   * computed by the caller and passed in as evidence
+   */
+  async generateFitAnalysis(
+    jobProfile: FitAnalysisJobProfile,
+    fit: FitEvidence,
+    projects: FitAnalysisProjectData[],
+    developerType?: string | null,
+    usageContext?: AiUsageContext,
+  ): Promise<FitAnalysisResult> {
+    const template = PROMPT_REGISTRY.fitAnalysis;
+    const prompt = template.generate(jobProfile, fit, projects, developerType);
 
-        // Validate authenticity signal
-        const validSignals = ['HIGH', 'MEDIUM', 'LOW'];
-        if (!validSignals.includes(parsed.authenticitySignal)) {
-          parsed.authenticitySignal = 'MEDIUM';
+    return this.withRetry(
+      'Fit analysis',
+      'Failed to generate fit analysis with AI',
+      async () => {
+        const { output, validationErrors, repairAttempts } =
+          await this.requestStructuredOutput({
+            promptType: 'fitAnalysis',
+            system: `You are a senior technical recruiter matching junior developers (0-3 years) to a specific role. Be specific, evidence-based and fair. Submit the result by calling the ${FIT_ANALYSIS_TOOL} tool.`,
+            prompt,
+            tool: {
+              name: FIT_ANALYSIS_TOOL,
+              description: 'Submit the job profile fit analysis.',
+              schema: FIT_ANALYSIS_SCHEMA,
+            },
+            forceTool: true,
+            usageContext,
+          });
+
+        if (!output) {
+          throw new AiResponseParseError(
+            `No fit analysis in AI response: ${validationErrors.join('; ')}`,
+          );
         }
 
+        const fallbacks: NormalizationFallback[] = [];
+
         return {
-          recommendation: parsed.recommendation,
-          recommendationReasons: parsed.recommendationReasons || [],
-          juniorLevel: parsed.juniorLevel,
-          juniorLevelContext: parsed.juniorLevelContext || 'Junior Developer',
-          technicalBreakdown: parsed.technicalBreakdown || {
-            codeStructure: { summary: '', strengths: [], improvements: [] },
-            coreFundamentals: { summary: '', strengths: [], improvements: [] },
-            problemSolving: { summary: '', strengths: [], improvements: [] },
-            toolingPractices: { summary: '', strengths: [], improvements: [] },
+          summary: this.pickString(output.summary, '', '$.summary', fallbacks),
+          gaps: this.pickStringList(output.gaps, 10, '$.gaps', fallbacks),
+          interviewQuestions: this.pickStringList(
+            output.interviewQuestions,
+            6,
+            '$.interviewQuestions',
+            fallbacks,
+          ),
+          outputQuality: {
+            repairAttempts,
+            validationErrors,
+            fallbacks,
+            lowConfidence: fallbacks.length > 0,
           },
-          riskFlags: parsed.riskFlags || [],
-          authenticitySignal: parsed.authenticitySignal,
-          authenticityExplanation: parsed.authenticityExplanation || '',
-          interviewQuestions: parsed.interviewQuestions || [],
-          overallScore: Math.min(100, Math.max(0, parsed.overallScore || 50)),
-          scoreBand: parsed.scoreBand,
-          conclusion: parsed.conclusion || '',
-          techProficiency: parsed.techProficiency || {},
-          mentoringNeeds: parsed.mentoringNeeds || [],
-          growthPotential: parsed.growthPotential || '',
+          promptVersion: template.version,
         };
-      } catch (error: any) {
-        const isRateLimit =
-          error?.status === 429 ||
-          error?.message?.includes('Rate limit') ||
-          error?.message?.includes('overloaded');
+      },
+    );
+  }
 
-        const isJsonError = error?.message?.includes('JSON');
+  /**
+   * Generate a structured interview kit from a hiring report
+   * Questions without question text are dropped (recorded as fallbacks)
+   */
+  async generateInterviewKit(
+    report: InterviewKitReportData,
+    usageContext?: AiUsageContext,
+  ): Promise<InterviewKitResult> {
+    const template = PROMPT_REGISTRY.interviewKit;
+    const prompt = template.generate(report);
 
-        if (isRateLimit && attempt < maxRetries) {
-          const waitTime = Math.pow(2, attempt) * 5000;
-          this.logger.warn(
-            `Rate limit hit (attempt ${attempt}/${maxRetries}). Waiting ${waitTime / 1000}s...`,
-          );
-          await new Promise((resolve) => setTimeout(resolve, waitTime));
-          continue;
-        }
+    return this.withRetry(
+      'Interview kit generation',
+      'Failed to generate interview kit with AI',
+      async () => {
+        const { output, validationErrors, repairAttempts } =
+          await this.requestStructuredOutput({
+            promptType: 'interviewKit',
+            system: `You are a senior engineer who trains interviewers to assess junior developers (0-3 years). Write practical questions with clear scoring guidance. Submit the kit by calling the ${INTERVIEW_KIT_TOOL} tool.`,
+            prompt,
+            tool: {
+              name: INTERVIEW_KIT_TOOL,
+              description: 'Submit the complete interview kit.',
+              schema: INTERVIEW_KIT_SCHEMA,
+            },
+            forceTool: true,
+            usageContext,
+          });
 
-        // Retry on JSON parsing errors too
-        if (isJsonError && attempt < maxRetries) {
-          this.logger.warn(
-            `JSON parsing failed (attempt ${attempt}/${maxRetries}): ${error?.message}. Retrying...`,
+        if (!output || !Array.isArray(output.questions)) {
+          throw new AiResponseParseError(
+            `No interview kit in AI response: ${validationErrors.join('; ')}`,
           );
-          await new Promise((resolve) => setTimeout(resolve, 2000));
-          continue;
         }
 
-        if (attempt === maxRetries) {
-          this.logger.error(
-            `Hiring report generation failed after ${maxRetries} attempts: ${error?.message}`,
+        const fallbacks: NormalizationFallback[] = [];
+        const questions: InterviewKitQuestion[] = [];
+
+        output.questions.slice(0, 8).forEach((item: unknown, index: number) => {
+          const field = `$.questions[${index}]`;
+          const value = this.pickRecord(item);
+          if (typeof value.question !== 'string') {
+            fallbacks.push({
+              field,
+              reason: 'Missing question',
+              fallback: null,
+            });
+            return;
+          }
+
+          questions.push({
+            topic: this.pickString(
+              value.topic,
+              '',
+              `${field}.topic`,
+              fallbacks,
+            ),
+            source: this.pickEnum(
+              value.source,
+              ['RISK_FLAG', 'TECHNICAL_IMPROVEMENT', 'MENTORING_NEED'] as const,
+              'TECHNICAL_IMPROVEMENT',
+              `${field}.source`,
+              fallbacks,
+            ),
+            question: value.question,
+            goodAnswer: this.pickString(
+              value.goodAnswer,
+              '',
+              `${field}.goodAnswer`,
+              fallbacks,
+            ),
+            redFlags: this.pickStringList(
+              value.redFlags,
+              3,
+              `${field}.redFlags`,
+              fallbacks,
+            ),
+            followUps: this.pickStringList(
+              value.followUps,
+              3,
+              `${field}.followUps`,
+              fallbacks,
+            ),
+            minutes: this.pickScore(
+              value.minutes,
+              2,
+              20,
+              5,
+              `${field}.minutes`,
+              fallbacks,
+            ),
+          });
+        });
+
+        if (questions.length === 0) {
+          throw new AiResponseParseError(
+            'Interview kit has no usable questions',
           );
-          throw new Error('Failed to generate hiring report with AI');
         }
-      }
-    }
 
-    throw new Error('Failed to generate hiring report with AI');
+        return {
+          questions,
+          outputQuality: {
+            repairAttempts,
+            validationErrors,
+            fallbacks,
+            lowConfidence: fallbacks.length > 0,
+          },
+          promptVersion: template.version,
+        };
+      },
+    );
   }
 }
@@ -0,0 +1,119 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsDateString, IsInt, IsOptional, Max, Min } from 'class-validator';
+
+export class AiUsageQueryDto {
+  @ApiPropertyOptional({
+    description: 'Start date (inclusive), defaults to 30 days before `to`',
+    example: '2026-10-01',
+  })
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @ApiPropertyOptional({
+    description: 'End date (inclusive), defaults to now',
+    example: '2026-10-31',
+  })
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+
+  @ApiPropertyOptional({
+    description: 'Max rows (by-developer only)',
+    default: 50,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(500)
+  limit?: number;
+}
+
+export class AiUsageByDayDto {
+  @ApiProperty({ example: '2026-10-19' })
+  date: string;
+
+  @ApiProperty({ description: 'AI calls, including repair turns' })
+  calls: number;
+
+  @ApiProperty({ description: 'Calls that threw (rate limits, timeouts...)' })
+  failedCalls: number;
+
+  @ApiProperty()
+  inputTokens: number;
+
+  @ApiProperty()
+  outputTokens: number;
+
+  @ApiProperty({ description: 'Estimated cost in USD' })
+  costUsd: number;
+}
+
+export class AiUsageByDeveloperDto {
+  @ApiProperty()
+  developerId: number;
+
+  @ApiProperty()
+  calls: number;
+
+  @ApiProperty()
+  inputTokens: number;
+
+  @ApiProperty()
+  outputTokens: number;
+
+  @ApiProperty({ description: 'Estimated cost in USD' })
+  costUsd: number;
+}
+
+export class AiUsageByPromptVersionDto {
+  @ApiProperty({
+    enum: [
+      'PROJECT_ANALYSIS',
+      'HIRING_REPORT',
+      'FIT_ANALYSIS',
+      'INTERVIEW_KIT',
+    ],
+  })
+  promptType: string;
+
+  @ApiProperty({ example: '1.0.0' })
+  promptVersion: string;
+
+  @ApiProperty()
+  calls: number;
+
+  @ApiProperty()
+  inputTokens: number;
+
+  @ApiProperty()
+  outputTokens: number;
+
+  @ApiProperty({ description: 'Estimated cost in USD' })
+  costUsd: number;
+
+  @ApiProperty({ description: 'Average call latency' })
+  avgLatencyMs: number;
+}
+
+export class AiBudgetStatusDto {
+  @ApiProperty({ description: 'Start of the current budget month (UTC)' })
+  periodStart: Date;
+
+  @ApiProperty({
+    description: 'AI_MONTHLY_BUDGET_USD, null when unlimited',
+    nullable: true,
+  })
+  budgetUsd: number | null;
+
+  @ApiProperty({ description: 'Estimated spend this month' })
+  spentUsd: number;
+
+  @ApiProperty({ nullable: true })
+  remainingUsd: number | null;
+
+  @ApiProperty({ description: 'Analysis queue is paused while true' })
+  exceeded: boolean;
+}
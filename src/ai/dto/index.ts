@@ -0,0 +1,2 @@
+export * from './ai-usage.dto';
+export * from './prompt-template.dto';
@@ -0,0 +1,25 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class PromptChangelogEntryDto {
+  @ApiProperty({ example: '1.0.0' })
+  version: string;
+
+  @ApiProperty({ example: '2026-10-19' })
+  date: string;
+
+  @ApiProperty({ type: [String] })
+  changes: string[];
+}
+
+export class PromptTemplateDto {
+  @ApiProperty({
+    enum: ['projectAnalysis', 'hiringReport', 'fitAnalysis', 'interviewKit'],
+  })
+  type: string;
+
+  @ApiProperty({ description: 'Current semantic version', example: '1.0.0' })
+  version: string;
+
+  @ApiProperty({ type: [PromptChangelogEntryDto], description: 'Newest first' })
+  changelog: PromptChangelogEntryDto[];
+}
@@ -0,0 +1,138 @@
+import { existsSync, readdirSync, readFileSync, statSync } from 'fs';
+import { join, relative, sep } from 'path';
+import { RepoFile } from '../../github/github.service';
+
+// Used when an expectation doesn't set its own
+export const DEFAULT_SCORE_TOLERANCE = 10;
+export const DEFAULT_MAX_STD_DEV = 8;
+
+export interface ScoreExpectation {
+  score: number; // Golden score (mean over runs)
+  tolerance?: number; // Allowed distance from score
+  maxStdDev?: number; // Allowed spread across runs
+}
+
+/**
+ * samples/<id>/sample.json - the repository itself is samples/<id>/repo/
+ */
+export interface EvalSampleDefinition {
+  project: {
+    name: string;
+    description: string;
+    projectType: string;
+    languages: string[];
+  };
+  developer?: {
+    developerType?: string | null;
+    experiences?: Array<{ tech: string; months: number }>;
+  };
+  expected: ScoreExpectation;
+}
+
+export interface EvalSample extends EvalSampleDefinition {
+  id: string;
+  files: RepoFile[];
+  allPaths: string[]; // Every path left after ignore rules
+}
+
+/**
+ * Entry of candidates.json - a developer made of one or more samples
+ */
+export interface EvalCandidate {
+  id: string;
+  profile: {
+    firstName?: string;
+    lastName?: string;
+    developerType?: string | null;
+    techExperiences?: Array<{ stackName: string; months: number }>;
+  };
+  samples: string[];
+  expected: {
+    overallScore: ScoreExpectation;
+    recommendation: string[]; // Any of these is accepted
+    juniorLevel: string[];
+  };
+}
+
+export interface EvalCorpus {
+  dir: string;
+  samples: EvalSample[];
+  candidates: EvalCandidate[];
+}
+
+/**
+ * Read the corpus from disk
+ * @param dir - Corpus root (contains samples/ and candidates.json)
+ * @param isIncludedPath - Repository ignore rules, as applied to GitHub fetches
+ */
+export const loadEvalCorpus = (
+  dir: string,
+  isIncludedPath: (path: string, size: number) => boolean,
+): EvalCorpus => {
+  const samplesDir = join(dir, 'samples');
+  if (!existsSync(samplesDir)) {
+    throw new Error(`No samples directory in corpus ${dir}`);
+  }
+
+  const samples = readdirSync(samplesDir)
+    .filter((id) => statSync(join(samplesDir, id)).isDirectory())
+    .sort()
+    .map((id) => {
+      const sampleDir = join(samplesDir, id);
+      const definition = JSON.parse(
+        readFileSync(join(sampleDir, 'sample.json'), 'utf8'),
+      ) as EvalSampleDefinition;
+      const repoDir = join(sampleDir, 'repo');
+
+      const files = listFiles(repoDir)
+        .map((fullPath) => {
+          const path = relative(repoDir, fullPath).split(sep).join('/');
+          const size = statSync(fullPath).size;
+          return { path, size, fullPath };
+        })
+        .filter((file) => isIncludedPath(file.path, file.size))
+        .map(
+          (file): RepoFile => ({
+            name: file.path.split('/').pop()!,
+            path: file.path,
+            type: 'file',
+            size: file.size,
+            content: readFileSync(file.fullPath, 'utf8'),
+          }),
+        );
+
+      if (files.length === 0) {
+        throw new Error(`Sample ${id} has no code files in ${repoDir}`);
+      }
+
+      return {
+        ...definition,
+        id,
+        files,
+        allPaths: files.map((file) => file.path),
+      };
+    });
+
+  const candidatesFile = join(dir, 'candidates.json');
+  const candidates = existsSync(candidatesFile)
+    ? (JSON.parse(readFileSync(candidatesFile, 'utf8')) as EvalCandidate[])
+    : [];
+
+  const sampleIds = new Set(samples.map((sample) => sample.id));
+  for (const candidate of candidates) {
+    const missing = candidate.samples.filter((id) => !sampleIds.has(id));
+    if (missing.length > 0) {
+      throw new Error(
+        `Candidate ${candidate.id} references unknown samples: ${missing.join(', ')}`,
+      );
+    }
+  }
+
+  return { dir, samples, candidates };
+};
+
+const listFiles = (dir: string): string[] =>
+  readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const fullPath = join(dir, entry.name);
+    return entry.isDirectory() ? listFiles(fullPath) : [fullPath];
+  });
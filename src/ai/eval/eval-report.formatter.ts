@@ -0,0 +1,70 @@
+import { EvalCheck, EvalReport } from './prompt-eval.service';
+
+/**
+ * Markdown diff report: one table per prompt, then every failed check
+ */
+export const formatEvalReport = (report: EvalReport): string => {
+  const lines: string[] = [
+    report.smokeCheck
+      ? `# Stub smoke check ${report.passed ? 'PASSED' : 'FAILED'}`
+      : `# Prompt evaluation ${report.passed ? 'PASSED' : 'FAILED'}`,
+    '',
+    ...(report.smokeCheck
+      ? [
+          'Canned stub answers: scores are not compared with the goldens and say nothing about the prompts.',
+          '',
+        ]
+      : []),
+    `- Provider: ${report.provider} (${report.usage.models.join(', ') || 'no calls'})`,
+    `- Prompt versions: projectAnalysis ${report.promptVersions.projectAnalysis}, hiringReport ${report.promptVersions.hiringReport}`,
+    `- Runs per item: ${report.runs}`,
+    `- AI calls: ${report.usage.calls} (${report.usage.failedCalls} failed), ${report.usage.inputTokens} input / ${report.usage.outputTokens} output tokens, ~$${report.usage.costUsd}`,
+    '',
+    '## Project analysis',
+    '',
+    '| Sample | Expected | Mean | Std dev | Scores | Result |',
+    '| --- | --- | --- | --- | --- | --- |',
+    ...report.samples.map(
+      (sample) =>
+        `| ${sample.id} | ${findCheck(sample.checks, 'score')} | ${sample.mean ?? '-'} | ${sample.stdDev ?? '-'} | ${sample.scores.join(', ') || '-'} | ${sample.passed ? 'pass' : 'FAIL'} |`,
+    ),
+  ];
+
+  if (report.candidates.length > 0) {
+    lines.push(
+      '',
+      '## Hiring report',
+      '',
+      '| Candidate | Expected score | Mean | Std dev | Recommendation | Junior level | Result |',
+      '| --- | --- | --- | --- | --- | --- | --- |',
+      ...report.candidates.map(
+        (candidate) =>
+          `| ${candidate.id} | ${findCheck(candidate.checks, 'overallScore')} | ${candidate.mean ?? '-'} | ${candidate.stdDev ?? '-'} | ${candidate.recommendations.join(', ') || '-'} | ${candidate.juniorLevels.join(', ') || '-'} | ${candidate.passed ? 'pass' : 'FAIL'} |`,
+      ),
+    );
+  }
+
+  const failures = [...report.samples, ...report.candidates].flatMap((item) =>
+    item.checks
+      .filter((check) => !check.passed)
+      .map(
+        (check) =>
+          `- ${item.id} ${check.name}: expected ${check.expected}, got ${check.actual}`,
+      ),
+  );
+  const errors = [...report.samples, ...report.candidates].flatMap((item) =>
+    item.errors.map((error) => `- ${item.id} ${error}`),
+  );
+
+  if (failures.length > 0) {
+    lines.push('', '## Failed checks', '', ...failures);
+  }
+  if (errors.length > 0) {
+    lines.push('', '## Errors', '', ...errors);
+  }
+
+  return lines.join('\n') + '\n';
+};
+
+const findCheck = (checks: EvalCheck[], name: string): string =>
+  checks.find((check) => check.name === name)?.expected ?? '-';
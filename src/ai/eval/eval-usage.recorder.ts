@@ -0,0 +1,55 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  AiUsageRecord,
+  AiUsageRecorder,
+  estimateAiCost,
+} from '../ai-usage.service';
+
+export interface EvalUsageSummary {
+  calls: number;
+  failedCalls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  models: string[];
+}
+
+/**
+ * Keeps AI usage in memory so evaluations run without a database
+ */
+@Injectable()
+export class EvalUsageRecorder implements AiUsageRecorder {
+  private readonly records: AiUsageRecord[] = [];
+
+  constructor(private config: ConfigService) {}
+
+  async record(usage: AiUsageRecord): Promise<void> {
+    this.records.push(usage);
+    return Promise.resolve();
+  }
+
+  summarize(): EvalUsageSummary {
+    return {
+      calls: this.records.length,
+      failedCalls: this.records.filter((record) => !record.success).length,
+      inputTokens: this.records.reduce((sum, r) => sum + r.inputTokens, 0),
+      outputTokens: this.records.reduce((sum, r) => sum + r.outputTokens, 0),
+      costUsd:
+        Math.round(
+          this.records.reduce(
+            (sum, r) =>
+              sum +
+              estimateAiCost(
+                this.config,
+                r.model,
+                r.inputTokens,
+                r.outputTokens,
+              ),
+            0,
+          ) * 10000,
+        ) / 10000,
+      models: [...new Set(this.records.map((record) => record.model))],
+    };
+  }
+}
@@ -0,0 +1,38 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { AiService } from '../ai.service';
+import { AI_USAGE_RECORDER } from '../ai-usage.service';
+import { LLM_PROVIDER, createLlmProvider } from '../providers';
+import { GithubService } from '../../github/github.service';
+import { FileSelectionService } from '../../developer/assessment/file-selection.service';
+import { CodeMetricsService } from '../../developer/assessment/code-metrics.service';
+import { EvalUsageRecorder } from './eval-usage.recorder';
+import { PromptEvalService } from './prompt-eval.service';
+
+/**
+ * Standalone context for the prompt evaluation CLI
+ * No database: usage is recorded in memory
+ */
+@Module({
+  imports: [
+    ConfigModule.forRoot({
+      isGlobal: true,
+      envFilePath: '.env',
+    }),
+  ],
+  providers: [
+    AiService,
+    EvalUsageRecorder,
+    { provide: AI_USAGE_RECORDER, useExisting: EvalUsageRecorder },
+    {
+      provide: LLM_PROVIDER,
+      inject: [ConfigService],
+      useFactory: createLlmProvider,
+    },
+    GithubService,
+    FileSelectionService,
+    CodeMetricsService,
+    PromptEvalService,
+  ],
+})
+export class EvalModule {}
@@ -0,0 +1,419 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { AiService, ProjectAnalysisResult } from '../ai.service';
+import { LLM_PROVIDER, LlmProvider } from '../providers';
+import { getPromptVersion } from '../prompts/prompt-registry';
+import { GithubService } from '../../github/github.service';
+import { FileSelectionService } from '../../developer/assessment/file-selection.service';
+import { CodeMetricsService } from '../../developer/assessment/code-metrics.service';
+import {
+  DEFAULT_MAX_STD_DEV,
+  DEFAULT_SCORE_TOLERANCE,
+  EvalCandidate,
+  EvalCorpus,
+  EvalSample,
+  ScoreExpectation,
+} from './eval-corpus';
+import { EvalUsageRecorder, EvalUsageSummary } from './eval-usage.recorder';
+
+export interface EvalCheck {
+  name: string;
+  passed: boolean;
+  expected: string;
+  actual: string;
+}
+
+export interface SampleEvalResult {
+  id: string;
+  scores: number[]; // One per successful run
+  mean: number | null;
+  stdDev: number | null;
+  errors: string[];
+  checks: EvalCheck[];
+  passed: boolean;
+}
+
+export interface CandidateEvalResult {
+  id: string;
+  overallScores: number[];
+  recommendations: string[];
+  juniorLevels: string[];
+  mean: number | null;
+  stdDev: number | null;
+  errors: string[];
+  checks: EvalCheck[];
+  passed: boolean;
+}
+
+export interface EvalReport {
+  startedAt: string;
+  finishedAt: string;
+  provider: string;
+  smokeCheck: boolean; // Stub provider: canned answers, goldens not compared
+  promptVersions: { projectAnalysis: string; hiringReport: string };
+  runs: number;
+  samples: SampleEvalResult[];
+  candidates: CandidateEvalResult[];
+  usage: EvalUsageSummary;
+  passed: boolean;
+}
+
+export interface EvalOptions {
+  runs: number; // Times each sample and candidate is evaluated
+  sampleIds?: string[]; // Restrict to these samples (and candidates using only them)
+}
+
+/**
+ * Runs the production analysis path over a local corpus and compares the
+ * results with golden expectations
+ * Files go through the same selection and metrics as a GitHub fetch;
+ * there is no commit history for local samples
+ */
+@Injectable()
+export class PromptEvalService {
+  private readonly logger = new Logger(PromptEvalService.name);
+
+  constructor(
+    private aiService: AiService,
+    private githubService: GithubService,
+    private fileSelection: FileSelectionService,
+    private codeMetrics: CodeMetricsService,
+    @Inject(LLM_PROVIDER) private llm: LlmProvider,
+    private usage: EvalUsageRecorder,
+  ) {}
+
+  async run(corpus: EvalCorpus, options: EvalOptions): Promise<EvalReport> {
+    const startedAt = new Date().toISOString();
+    const smokeCheck = this.llm.name === 'stub';
+    const samples = options.sampleIds
+      ? corpus.samples.filter((s) => options.sampleIds!.includes(s.id))
+      : corpus.samples;
+    const sampleIds = new Set(samples.map((sample) => sample.id));
+    const candidates = corpus.candidates.filter((candidate) =>
+      candidate.samples.every((id) => sampleIds.has(id)),
+    );
+
+    // results[run][sampleId]
+    const results: Map<string, ProjectAnalysisResult>[] = [];
+    const sampleErrors = new Map<string, string[]>();
+    const candidateRuns = new Map<
+      string,
+      { overallScore: number; recommendation: string; juniorLevel: string }[]
+    >();
+    const candidateErrors = new Map<string, string[]>();
+
+    for (let run = 1; run <= options.runs; run++) {
+      const runResults = new Map<string, ProjectAnalysisResult>();
+      results.push(runResults);
+
+      for (const sample of samples) {
+        this.logger.log(`Run ${run}/${options.runs}: sample ${sample.id}`);
+        try {
+          runResults.set(sample.id, await this.analyzeSample(sample));
+        } catch (error: unknown) {
+          this.pushError(sampleErrors, sample.id, run, error);
+        }
+      }
+
+      for (const candidate of candidates) {
+        const analyses = candidate.samples.map((id) => runResults.get(id));
+        if (analyses.some((analysis) => !analysis)) {
+          this.pushError(
+            candidateErrors,
+            candidate.id,
+            run,
+            new Error('A sample analysis failed in this run'),
+          );
+          continue;
+        }
+
+        this.logger.log(
+          `Run ${run}/${options.runs}: candidate ${candidate.id}`,
+        );
+        try {
+          const report = await this.aiService.generateHiringReport(
+            candidate.samples.map((id, index) =>
+              this.toHiringReportProject(
+                samples.find((sample) => sample.id === id)!,
+                analyses[index]!,
+              ),
+            ),
+            candidate.profile,
+          );
+          candidateRuns.set(candidate.id, [
+            ...(candidateRuns.get(candidate.id) ?? []),
+            {
+              overallScore: report.overallScore,
+              recommendation: report.recommendation,
+              juniorLevel: report.juniorLevel,
+            },
+          ]);
+        } catch (error: unknown) {
+          this.pushError(candidateErrors, candidate.id, run, error);
+        }
+      }
+    }
+
+    const sampleResults = samples.map((sample) =>
+      this.evaluateSample(
+        sample,
+        results
+          .map((runResults) => runResults.get(sample.id)?.score)
+          .filter((score): score is number => score !== undefined),
+        sampleErrors.get(sample.id) ?? [],
+        options.runs,
+        smokeCheck,
+      ),
+    );
+    const candidateResults = candidates.map((candidate) =>
+      this.evaluateCandidate(
+        candidate,
+        candidateRuns.get(candidate.id) ?? [],
+        candidateErrors.get(candidate.id) ?? [],
+        options.runs,
+        smokeCheck,
+      ),
+    );
+
+    return {
+      startedAt,
+      finishedAt: new Date().toISOString(),
+      provider: this.llm.name,
+      smokeCheck,
+      promptVersions: {
+        projectAnalysis: getPromptVersion('projectAnalysis'),
+        hiringReport: getPromptVersion('hiringReport'),
+      },
+      runs: options.runs,
+      samples: sampleResults,
+      candidates: candidateResults,
+      usage: this.usage.summarize(),
+      passed:
+        sampleResults.every((result) => result.passed) &&
+        candidateResults.every((result) => result.passed),
+    };
+  }
+
+  // ========================================
+  // PRIVATE HELPER METHODS
+  // ========================================
+
+  /**
+   * Same preparation as AssessmentService.analyzeProject
+   */
+  private async analyzeSample(
+    sample: EvalSample,
+  ): Promise<ProjectAnalysisResult> {
+    const codeMetrics = this.codeMetrics.collect(sample.files, sample.allPaths);
+    const selection = this.fileSelection.select(sample.files);
+
+    return this.aiService.analyzeProject(
+      this.fileSelection.renderForPrompt(selection.files),
+      selection.files.length,
+      {
+        ...sample.project,
+        isFullstackByStructure: this.githubService.detectFullstackByStructure(
+          sample.files,
+        ),
+        codeMetrics,
+      },
+      sample.developer,
+    );
+  }
+
+  private toHiringReportProject(
+    sample: EvalSample,
+    analysis: ProjectAnalysisResult,
+  ) {
+    return {
+      name: sample.project.name,
+      description: sample.project.description,
+      projectType: sample.project.projectType,
+      score: analysis.score,
+      strengths: analysis.strengths,
+      weaknesses: analysis.weaknesses,
+      strengthsSummary: analysis.strengthsSummary,
+      weaknessesSummary: analysis.weaknessesSummary,
+      techStack: analysis.techStack,
+      technicalAssessment: analysis.technicalAssessment,
+      authenticitySignals: analysis.authenticitySignals,
+      securityIssues: analysis.securityIssues || [],
+      riskFlags: analysis.riskFlags || [],
+      errorHandling: analysis.errorHandling,
+    };
+  }
+
+  private evaluateSample(
+    sample: EvalSample,
+    scores: number[],
+    errors: string[],
+    runs: number,
+    smokeCheck: boolean,
+  ): SampleEvalResult {
+    const checks = [
+      ...(smokeCheck
+        ? []
+        : this.checkScores('score', scores, sample.expected, runs)),
+      this.checkNoErrors(errors, runs),
+    ];
+
+    return {
+      id: sample.id,
+      scores,
+      mean: this.mean(scores),
+      stdDev: this.stdDev(scores),
+      errors,
+      checks,
+      passed: checks.every((check) => check.passed),
+    };
+  }
+
+  private evaluateCandidate(
+    candidate: EvalCandidate,
+    reports: {
+      overallScore: number;
+      recommendation: string;
+      juniorLevel: string;
+    }[],
+    errors: string[],
+    runs: number,
+    smokeCheck: boolean,
+  ): CandidateEvalResult {
+    const overallScores = reports.map((report) => report.overallScore);
+    const recommendations = reports.map((report) => report.recommendation);
+    const juniorLevels = reports.map((report) => report.juniorLevel);
+
+    const checks = [
+      ...(smokeCheck
+        ? []
+        : [
+            ...this.checkScores(
+              'overallScore',
+              overallScores,
+              candidate.expected.overallScore,
+              runs,
+            ),
+            this.checkAllowed(
+              'recommendation',
+              recommendations,
+              candidate.expected.recommendation,
+            ),
+            this.checkAllowed(
+              'juniorLevel',
+              juniorLevels,
+              candidate.expected.juniorLevel,
+            ),
+          ]),
+      this.checkNoErrors(errors, runs),
+    ];
+
+    return {
+      id: candidate.id,
+      overallScores,
+      recommendations,
+      juniorLevels,
+      mean: this.mean(overallScores),
+      stdDev: this.stdDev(overallScores),
+      errors,
+      checks,
+      passed: checks.every((check) => check.passed),
+    };
+  }
+
+  /**
+   * Mean within tolerance of the golden score; spread only with 2+ runs
+   */
+  private checkScores(
+    name: string,
+    scores: number[],
+    expected: ScoreExpectation,
+    runs: number,
+  ): EvalCheck[] {
+    const tolerance = expected.tolerance ?? DEFAULT_SCORE_TOLERANCE;
+    const mean = this.mean(scores);
+    const checks: EvalCheck[] = [
+      {
+        name,
+        passed: mean !== null && Math.abs(mean - expected.score) <= tolerance,
+        expected: `${expected.score} ± ${tolerance}`,
+        actual: mean !== null ? `${mean}` : 'no result',
+      },
+    ];
+
+    if (runs > 1) {
+      const maxStdDev = expected.maxStdDev ?? DEFAULT_MAX_STD_DEV;
+      const stdDev = this.stdDev(scores);
+      checks.push({
+        name: `${name} std dev`,
+        passed: stdDev !== null && stdDev <= maxStdDev,
+        expected: `<= ${maxStdDev}`,
+        actual: stdDev !== null ? `${stdDev}` : 'no result',
+      });
+    }
+
+    return checks;
+  }
+
+  private checkAllowed(
+    name: string,
+    values: string[],
+    allowed: string[],
+  ): EvalCheck {
+    const unexpected = values.filter((value) => !allowed.includes(value));
+
+    return {
+      name,
+      passed: values.length > 0 && unexpected.length === 0,
+      expected: allowed.join(' | '),
+      actual: values.length > 0 ? this.countValues(values) : 'no result',
+    };
+  }
+
+  private checkNoErrors(errors: string[], runs: number): EvalCheck {
+    return {
+      name: 'errors',
+      passed: errors.length === 0,
+      expected: '0',
+      actual: `${errors.length}/${runs} runs`,
+    };
+  }
+
+  private pushError(
+    errors: Map<string, string[]>,
+    id: string,
+    run: number,
+    error: unknown,
+  ): void {
+    const message = error instanceof Error ? error.message : String(error);
+    this.logger.warn(`Run ${run}: ${id} failed: ${message}`);
+    errors.set(id, [...(errors.get(id) ?? []), `Run ${run}: ${message}`]);
+  }
+
+  // e.g. "SAFE_TO_INTERVIEW x2, NOT_READY x1"
+  private countValues(values: string[]): string {
+    const counts = new Map<string, number>();
+    for (const value of values) {
+      counts.set(value, (counts.get(value) ?? 0) + 1);
+    }
+    return [...counts.entries()]
+      .map(([value, count]) => `${value} x${count}`)
+      .join(', ');
+  }
+
+  private mean(values: number[]): number | null {
+    if (values.length === 0) return null;
+    return this.round(values.reduce((sum, v) => sum + v, 0) / values.length);
+  }
+
+  // Population standard deviation
+  private stdDev(values: number[]): number | null {
+    if (values.length === 0) return null;
+    const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+    const variance =
+      values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length;
+    return this.round(Math.sqrt(variance));
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
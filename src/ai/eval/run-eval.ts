@@ -0,0 +1,80 @@
+/**
+ * Prompt evaluation CLI
+ *
+ * Runs project analysis and hiring report prompts over the checked-in corpus
+ * with the configured provider (LLM_PROVIDER) and compares the results with
+ * golden expectations. With LLM_PROVIDER=stub it is only a smoke check of
+ * the pipeline: canned answers aren't compared with the goldens.
+ *
+ *   npm run eval:prompts -- --runs 3
+ *   npm run eval:prompts -- --sample express-notes-api --out eval-report.md
+ *
+ * Options:
+ *   --corpus <dir>   Corpus root (default: eval/corpus)
+ *   --runs <n>       Runs per sample, for variance (default: 1)
+ *   --sample <id>    Only this sample; repeatable
+ *   --out <file>     Also write the report (.json for the raw report)
+ *
+ * Exits with code 1 when an expectation fails (an error, for a smoke check).
+ */
+
+import 'dotenv/config';
+import { writeFileSync } from 'fs';
+import { resolve } from 'path';
+import { parseArgs } from 'util';
+import { NestFactory } from '@nestjs/core';
+import { GithubService } from '../../github/github.service';
+import { EvalModule } from './eval.module';
+import { loadEvalCorpus } from './eval-corpus';
+import { PromptEvalService } from './prompt-eval.service';
+import { formatEvalReport } from './eval-report.formatter';
+
+async function bootstrap() {
+  const { values } = parseArgs({
+    options: {
+      corpus: { type: 'string', default: 'eval/corpus' },
+      runs: { type: 'string', default: '1' },
+      sample: { type: 'string', multiple: true },
+      out: { type: 'string' },
+    },
+  });
+
+  const runs = Number(values.runs);
+  if (!Number.isInteger(runs) || runs < 1) {
+    throw new Error(`--runs must be a positive integer (got ${values.runs})`);
+  }
+
+  const app = await NestFactory.createApplicationContext(EvalModule, {
+    logger: ['log', 'warn', 'error'],
+  });
+
+  try {
+    const corpus = loadEvalCorpus(resolve(values.corpus!), (path, size) =>
+      app.get(GithubService).isIncludedPath(path, size),
+    );
+    const report = await app
+      .get(PromptEvalService)
+      .run(corpus, { runs, sampleIds: values.sample });
+    const markdown = formatEvalReport(report);
+
+    process.stdout.write(`\n${markdown}`);
+
+    if (values.out) {
+      writeFileSync(
+        values.out,
+        values.out.endsWith('.json')
+          ? JSON.stringify(report, null, 2)
+          : markdown,
+      );
+    }
+
+    process.exitCode = report.passed ? 0 : 1;
+  } finally {
+    await app.close();
+  }
+}
+
+bootstrap().catch((error: unknown) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -1,2 +1,6 @@
 export * from './ai.module';
 export * from './ai.service';
+export * from './providers';
+export * from './ai-usage.service';
+export * from './dto';
+export * from './prompts/prompt-registry';
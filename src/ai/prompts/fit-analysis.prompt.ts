@@ -0,0 +1,159 @@
+/**
+ * Fit Analysis Prompt - Job profile fit
+ *
+ * Explains how a developer's existing project analyses match a company's job
+ * profile. The fit score and the stack/practice/seniority matching are
+ * computed before this prompt; the model turns them into evidence-based gaps
+ * and interview questions tailored to the role. No code is sent.
+ */
+
+interface TechnicalSkillRating {
+  rating: 'STRONG' | 'ADEQUATE' | 'WEAK';
+  observations: string[];
+}
+
+export interface FitAnalysisProjectData {
+  name: string;
+  projectType: string;
+  score: number;
+  techStack: string[];
+  strengths: string[];
+  weaknesses: string[];
+  technicalAssessment?: {
+    codeStructure: TechnicalSkillRating;
+    coreFundamentals: TechnicalSkillRating;
+    problemSolving: TechnicalSkillRating;
+    toolingPractices: TechnicalSkillRating;
+  };
+  errorHandling?: { quality: string; observations: string };
+  securityIssues?: string[];
+  riskFlags?: string[];
+}
+
+export interface FitAnalysisJobProfile {
+  name: string;
+  description?: string | null;
+  requiredStacks: string[];
+  seniority: string; // ENTRY, JUNIOR, STRONG_JUNIOR
+  mustHavePractices: string[];
+}
+
+export interface FitEvidence {
+  fitScore: number;
+  matchedStacks: string[];
+  missingStacks: string[];
+  practices: { practice: string; evidence: string; detail: string }[];
+  expectedSeniority: string;
+  observedSeniority: string;
+}
+
+export const generateFitAnalysisPrompt = (
+  jobProfile: FitAnalysisJobProfile,
+  fit: FitEvidence,
+  projects: FitAnalysisProjectData[],
+  developerType?: string | null,
+): string => {
+  const projectsSection = projects
+    .map((project, index) => {
+      const assessment = project.technicalAssessment
+        ? `
+  <technical_assessment>
+    <code_structure rating="${project.technicalAssessment.codeStructure.rating}" />
+    <core_fundamentals rating="${project.technicalAssessment.coreFundamentals.rating}" />
+    <problem_solving rating="${project.technicalAssessment.problemSolving.rating}" />
+    <tooling_practices rating="${project.technicalAssessment.toolingPractices.rating}">
+${project.technicalAssessment.toolingPractices.observations.map((o) => `      <observation>${o}</observation>`).join('\n')}
+    </tooling_practices>
+  </technical_assessment>`
+        : '';
+
+      const errorHandling = project.errorHandling
+        ? `
+  <error_handling quality="${project.errorHandling.quality}">${project.errorHandling.observations}</error_handling>`
+        : '';
+
+      const concerns = [
+        ...(project.securityIssues ?? []).map(
+          (s) => `    <security_issue>${s}</security_issue>`,
+        ),
+        ...(project.riskFlags ?? []).map(
+          (r) => `    <risk_flag>${r}</risk_flag>`,
+        ),
+      ];
+
+      return `
+<project index="${index + 1}" name="${project.name}" type="${project.projectType}" score="${project.score}">
+  <tech_stack>${project.techStack.join(', ')}</tech_stack>
+  <strengths>
+${project.strengths.map((s) => `    <item>${s}</item>`).join('\n')}
+  </strengths>
+  <weaknesses>
+${project.weaknesses.map((w) => `    <item>${w}</item>`).join('\n')}
+  </weaknesses>${assessment}${errorHandling}${
+    concerns.length > 0
+      ? `
+  <concerns>
+${concerns.join('\n')}
+  </concerns>`
+      : ''
+  }
+</project>`;
+    })
+    .join('\n');
+
+  return `
+<context>
+A company is evaluating a junior developer (0-3 years) for a specific role.
+The developer's projects were already analyzed; you only see those analyses.
+Explain how well the developer fits THIS role, not how good they are in general.
+</context>
+
+<job_profile name="${jobProfile.name}">
+  <description>${jobProfile.description || 'Not provided'}</description>
+  <required_stacks>${jobProfile.requiredStacks.join(', ') || 'None'}</required_stacks>
+  <seniority_expectation>${jobProfile.seniority}</seniority_expectation>
+  <must_have_practices>${jobProfile.mustHavePractices.join(', ') || 'None'}</must_have_practices>
+</job_profile>
+
+<computed_fit score="${fit.fitScore}">
+  <matched_stacks>${fit.matchedStacks.join(', ') || 'None'}</matched_stacks>
+  <missing_stacks>${fit.missingStacks.join(', ') || 'None'}</missing_stacks>
+  <practices>
+${fit.practices.map((p) => `    <practice name="${p.practice}" evidence="${p.evidence}">${p.detail}</practice>`).join('\n')}
+  </practices>
+  <seniority expected="${fit.expectedSeniority}" observed="${fit.observedSeniority}" />
+</computed_fit>
+
+<developer type="${developerType || 'Not specified'}">
+${projectsSection}
+</developer>
+
+<instructions>
+The fit score is already computed - do not recompute or contradict it.
+
+1. SUMMARY: 2-3 sentences on how well the developer matches this role and why.
+
+2. GAPS: Each gap between the job profile and the evidence, most important first.
+   - Every missing stack and every PARTIAL or MISSING practice is a gap
+   - Add role-relevant weaknesses from the analyses (e.g. weak error handling for a backend role)
+   - Say what the evidence shows, e.g. "No tests in any project; testing is a must-have"
+   - Absence of evidence is not proof of absence: phrase it as "not demonstrated"
+   - Return an empty list only if there is genuinely nothing to probe
+
+3. INTERVIEW QUESTIONS: 3-6 questions tailored to the role.
+   - Probe the gaps first: can the developer close them quickly?
+   - Reference their projects by name where possible
+   - Validate the matched stacks with practical, role-specific questions
+   - No trick questions
+</instructions>
+
+<output_format>
+Submit the result by calling the submit_fit_analysis tool with:
+
+{
+  "summary": "<2-3 sentences>",
+  "gaps": ["<gap 1>", "<gap 2>", ...],
+  "interviewQuestions": ["<question 1>", "<question 2>", ...]
+}
+</output_format>`.trim();
+};
@@ -0,0 +1,48 @@
+/**
+ * Git History Section - shared by the Tier 1 and Tier 2 prompts
+ *
+ * Renders the deterministic commit-history signals so the model can ground
+ * its authenticity assessment in evidence rather than code style alone.
+ */
+
+export interface GitHistoryEvidence {
+  commitCount: number;
+  truncated: boolean;
+  firstCommitAt: string | null;
+  lastCommitAt: string | null;
+  activeSpanDays: number;
+  activeDays: number;
+  longestGapDays: number;
+  cadence: 'STEADY' | 'BURSTY' | 'SINGLE_SESSION';
+  authorMatchRatio: number;
+  largeCommits: { sha: string; message: string; additions: number }[];
+  initialCommitShare: number | null;
+  isFork: boolean;
+  forkParent: string | null;
+  templateRepository: string | null;
+  level: 'HIGH' | 'MEDIUM' | 'LOW';
+  positiveIndicators: string[];
+  concerningIndicators: string[];
+}
+
+export const generateGitHistorySection = (
+  history: GitHistoryEvidence,
+  indent = '',
+): string =>
+  `<git_history computed_level="${history.level}">
+  <commits count="${history.commitCount}"${history.truncated ? ' truncated="true"' : ''} />
+  <timeline first="${history.firstCommitAt ?? 'unknown'}" last="${history.lastCommitAt ?? 'unknown'}" span_days="${history.activeSpanDays}" active_days="${history.activeDays}" longest_gap_days="${history.longestGapDays}" cadence="${history.cadence}" />
+  <author_match_ratio>${history.authorMatchRatio}</author_match_ratio>
+  ${history.initialCommitShare !== null ? `<initial_commit_share>${history.initialCommitShare}</initial_commit_share>` : ''}
+  ${history.largeCommits.map((c) => `<large_commit sha="${c.sha.slice(0, 7)}" additions="${c.additions}">${c.message}</large_commit>`).join('\n  ')}
+  <origin fork="${history.isFork}"${history.forkParent ? ` parent="${history.forkParent}"` : ''}${history.templateRepository ? ` template="${history.templateRepository}"` : ''} />
+  <positive_indicators>
+${history.positiveIndicators.map((i) => `    <item>${i}</item>`).join('\n')}
+  </positive_indicators>
+  <concerning_indicators>
+${history.concerningIndicators.map((i) => `    <item>${i}</item>`).join('\n')}
+  </concerning_indicators>
+</git_history>`
+    .split('\n')
+    .map((line) => indent + line)
+    .join('\n');
@@ -9,6 +9,11 @@
  * accurate, data-driven hiring recommendations.
  */
 
+import {
+  GitHistoryEvidence,
+  generateGitHistorySection,
+} from './git-history.section';
+
 interface TechnicalSkillRating {
   rating: 'STRONG' | 'ADEQUATE' | 'WEAK';
   observations: string[];
@@ -48,6 +53,8 @@ interface ProjectAnalysisData {
   securityIssues?: string[];
   riskFlags?: string[];
   errorHandling?: ErrorHandlingAssessment;
+  gitHistory?: GitHistoryEvidence | null;
+  unverifiableOrigin?: boolean; // Uploaded archive: no repository or history backs it
 }
 
 interface TechExperience {
@@ -101,6 +108,11 @@ ${project.authenticitySignals.concerningIndicators.map((i) => `      <item>${i}<
   </authenticity_signals>`
         : '';
 
+      // Build git history section if available
+      const gitHistorySection = project.gitHistory
+        ? `\n${generateGitHistorySection(project.gitHistory, '  ')}`
+        : '';
+
       // Build security issues section if available
       const securitySection =
         project.securityIssues && project.securityIssues.length > 0
@@ -131,7 +143,7 @@ ${project.riskFlags.map((r) => `    <flag>${r}</flag>`).join('\n')}
 <project index="${index + 1}">
   <name>${project.name}</name>
   <description>${project.description}</description>
-  <type>${project.projectType}</type>
+  <type>${project.projectType}</type>${project.unverifiableOrigin ? '\n  <origin>uploaded_archive (unverifiable)</origin>' : ''}
   <score>${project.score}</score>
   <tech_stack>${project.techStack.join(', ')}</tech_stack>
   <strengths>
@@ -144,6 +156,7 @@ ${project.weaknesses.map((w) => `    <item>${w}</item>`).join('\n')}
   <weaknesses_summary>${project.weaknessesSummary}</weaknesses_summary>
 ${technicalSection}
 ${authenticitySection}
+${gitHistorySection}
 ${securitySection}
 ${riskSection}
 ${errorSection}
@@ -352,6 +365,12 @@ Tone: Factual, not judgmental. These help prepare interviewers.
 
 ## 5. AUTHENTICITY & CONFIDENCE SIGNAL
 Synthesize the authenticity signals from project analyses.
+Where a project has <git_history>, treat it as hard evidence: cite its
+concrete facts (commit span, author match, large dumps, fork/template origin)
+in the explanation.
+Where a project's <origin> is an uploaded archive, no history backs it and
+its authorship can't be verified: say so in the explanation and suggest a
+walkthrough of that project in the interview guidance.
 Estimate confidence in candidate's understanding of their own work:
 - "HIGH" - Code shows clear understanding, consistent patterns
 - "MEDIUM" - Mixed signals, some areas seem learned vs understood
@@ -411,9 +430,7 @@ NOT_READY when:
 </language_guidelines>
 
 <output_format>
-IMPORTANT: You MUST output ONLY valid JSON. No explanations, no markdown code blocks, no text before or after the JSON. Just the raw JSON object.
-
-Your response must be exactly this JSON structure (nothing else):
+Submit the report by calling the submit_hiring_report tool. Its input must follow exactly this structure:
 
 {
   "recommendation": "SAFE_TO_INTERVIEW | INTERVIEW_WITH_CAUTION | NOT_READY",
@@ -466,6 +483,5 @@ Your response must be exactly this JSON structure (nothing else):
   "growthPotential": "<1-2 sentences on learning trajectory>"
 }
 
-Output ONLY the JSON object. No other text.
 </output_format>`.trim();
 };
@@ -0,0 +1,107 @@
+/**
+ * Interview Kit Prompt
+ *
+ * Turns the weak spots of a hiring report (risk flags, technical improvement
+ * areas and mentoring needs) into a structured interview: each question
+ * comes with a rubric (good answer, red flags), follow-ups and a time budget.
+ * Works from the stored report only; no code is sent.
+ */
+
+// Total interview time the kit is planned for
+export const INTERVIEW_KIT_TARGET_MINUTES = 45;
+
+interface TechnicalSkillSection {
+  summary: string;
+  strengths: string[];
+  improvements: string[];
+}
+
+export interface InterviewKitReportData {
+  juniorLevelContext?: string | null;
+  developerType?: string | null;
+  recommendation: string;
+  riskFlags: string[];
+  technicalBreakdown?: {
+    codeStructure: TechnicalSkillSection;
+    coreFundamentals: TechnicalSkillSection;
+    problemSolving: TechnicalSkillSection;
+    toolingPractices: TechnicalSkillSection;
+  } | null;
+  mentoringNeeds: string[];
+  projects: { name: string; techStack: string[] }[];
+}
+
+export const generateInterviewKitPrompt = (
+  report: InterviewKitReportData,
+): string => {
+  const improvements = report.technicalBreakdown
+    ? Object.entries(report.technicalBreakdown)
+        .flatMap(([area, section]) =>
+          section.improvements.map(
+            (improvement) =>
+              `    <improvement area="${area}">${improvement}</improvement>`,
+          ),
+        )
+        .join('\n')
+    : '';
+
+  return `
+<context>
+A company is preparing a technical interview with a junior developer (0-3 years).
+Their projects were already assessed. Build an interview kit that lets an
+interviewer who has not read the code validate the weak spots of the assessment
+and score each answer consistently.
+</context>
+
+<candidate type="${report.developerType || 'Not specified'}" level="${report.juniorLevelContext || 'Junior Developer'}" recommendation="${report.recommendation}">
+  <projects>
+${report.projects.map((p) => `    <project name="${p.name}">${p.techStack.join(', ')}</project>`).join('\n')}
+  </projects>
+  <risk_flags>
+${report.riskFlags.map((f) => `    <flag>${f}</flag>`).join('\n')}
+  </risk_flags>
+  <technical_improvements>
+${improvements}
+  </technical_improvements>
+  <mentoring_needs>
+${report.mentoringNeeds.map((m) => `    <need>${m}</need>`).join('\n')}
+  </mentoring_needs>
+</candidate>
+
+<instructions>
+Write 4-8 questions, most important first. The kit must fit in ${INTERVIEW_KIT_TARGET_MINUTES} minutes in total.
+
+For each question:
+- topic: 2-5 words, e.g. "Error handling in APIs"
+- source: RISK_FLAG, TECHNICAL_IMPROVEMENT or MENTORING_NEED - the input it probes
+- question: open, practical, referencing a project by name where possible
+- goodAnswer: what a solid junior answer covers (2-3 sentences), so a non-expert can score it
+- redFlags: 1-3 answer patterns that confirm the concern
+- followUps: 1-3 follow-up questions to dig deeper or unblock the candidate
+- minutes: time budget (2-20)
+
+Guidelines:
+- Cover every risk flag; then the improvements and mentoring needs that matter most for the role
+- Calibrate expectations to a junior: understanding and reasoning over perfect answers
+- Merge inputs that describe the same weakness into one question
+- No trick questions and no trivia
+</instructions>
+
+<output_format>
+Submit the kit by calling the submit_interview_kit tool with:
+
+{
+  "questions": [
+    {
+      "topic": "<topic>",
+      "source": "RISK_FLAG | TECHNICAL_IMPROVEMENT | MENTORING_NEED",
+      "question": "<question>",
+      "goodAnswer": "<what a good answer covers>",
+      "redFlags": ["<red flag>", ...],
+      "followUps": ["<follow-up>", ...],
+      "minutes": <2-20>
+    }
+  ]
+}
+</output_format>`.trim();
+};
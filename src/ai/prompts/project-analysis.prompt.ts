@@ -8,12 +8,68 @@
  * accurate hiring report generation.
  */
 
+import {
+  GitHistoryEvidence,
+  generateGitHistorySection,
+} from './git-history.section';
+
+/**
+ * Deterministic metrics computed before the AI call
+ * Mirrors CodeMetrics from the assessment module
+ */
+export interface StaticCodeMetrics {
+  linesOfCode: Record<string, number>;
+  totalLinesOfCode: number;
+  fileCount: number;
+  sampledFiles: number;
+  testFileCount: number;
+  testFileRatio: number;
+  complexity: {
+    functionsAnalyzed: number;
+    average: number;
+    max: number;
+    highComplexityFunctions: number;
+  } | null;
+  tooling: {
+    linter: boolean;
+    formatter: boolean;
+    ci: boolean;
+    typescript: boolean;
+    testFramework: boolean;
+  };
+  dependencies: { production: number; development: number } | null;
+  todoCount: number;
+  todoDensity: number;
+}
+
+/**
+ * Deterministic security scan findings, secrets already redacted
+ * Mirrors SecurityFinding from the assessment module
+ */
+export interface SecurityScanEvidence {
+  findings: {
+    type: string;
+    rule: string;
+    severity: string;
+    file: string;
+    line: number | null;
+    message: string;
+  }[];
+  truncated: boolean;
+}
+
 interface ProjectMetadata {
   name: string;
   description: string;
   projectType: string;
   languages: string[];
   isFullstackByStructure?: boolean;
+  rootPaths?: string[]; // Monorepo directories the project consists of
+  unverifiableOrigin?: boolean; // Uploaded archive: no repository or history backs it
+  codeMetrics?: StaticCodeMetrics;
+  gitHistory?: GitHistoryEvidence;
+  securityScan?: SecurityScanEvidence;
+  focusAreas?: string[]; // Improvement plan tasks the developer marked done
 }
 
 interface DeveloperExperience {
@@ -42,9 +98,50 @@ export const generateProjectAnalysisPrompt = (
   <detected_languages>${metadata.languages.join(', ')}</detected_languages>
   ${metadata.isFullstackByStructure ? '<fullstack_structure>true</fullstack_structure>' : ''}
   ${metadata.isFullstackByStructure ? '<note>This project has BOTH client and server code. Do NOT flag as mismatch if declared as FULLSTACK.</note>' : ''}
+  ${metadata.rootPaths?.length ? `<analyzed_paths>${metadata.rootPaths.join(', ')}</analyzed_paths>` : ''}
+  ${metadata.rootPaths?.length ? '<note>The project is these directories of a monorepo. Files outside them were not provided; do not penalize their absence (e.g. a root README or CI config).</note>' : ''}
+  ${metadata.unverifiableOrigin ? '<origin>uploaded_archive</origin>' : ''}
+  ${metadata.unverifiableOrigin ? '<note>The code was uploaded as an archive instead of shared from a repository. There is no commit history and its authorship cannot be verified. Score code quality as usual; in step 7, judge authenticity from the code alone and list the unverifiable origin as a concerning indicator.</note>' : ''}
 </project_metadata>`
     : '';
 
+  const metrics = metadata?.codeMetrics;
+  const metricsSection = metrics
+    ? `<static_metrics>
+  <note>Measured deterministically from the repository. Treat these as facts - do not contradict them (e.g. do not claim tests exist when test_files is 0). Line counts cover ${metrics.sampledFiles} of ${metrics.fileCount} files.</note>
+  <lines_of_code total="${metrics.totalLinesOfCode}">${Object.entries(
+    metrics.linesOfCode,
+  )
+    .map(([language, lines]) => `${language}: ${lines}`)
+    .join(', ')}</lines_of_code>
+  <test_files count="${metrics.testFileCount}" ratio_to_source="${metrics.testFileRatio}" />
+  ${metrics.complexity ? `<cyclomatic_complexity functions="${metrics.complexity.functionsAnalyzed}" average="${metrics.complexity.average}" max="${metrics.complexity.max}" above_10="${metrics.complexity.highComplexityFunctions}" />` : ''}
+  <tooling linter="${metrics.tooling.linter}" formatter="${metrics.tooling.formatter}" ci="${metrics.tooling.ci}" typescript="${metrics.tooling.typescript}" test_framework="${metrics.tooling.testFramework}" />
+  ${metrics.dependencies ? `<dependencies production="${metrics.dependencies.production}" development="${metrics.dependencies.development}" />` : ''}
+  <todo_comments count="${metrics.todoCount}" per_1000_lines="${metrics.todoDensity}" />
+</static_metrics>`
+    : '';
+
+  const gitHistorySection = metadata?.gitHistory
+    ? `${generateGitHistorySection(metadata.gitHistory)}
+<git_history_note>Commit history was analyzed deterministically. Weigh it heavily in step 7: a single-commit dump, a fork/template origin or commits by other authors are strong authenticity concerns; sustained commits by the developer are strong positive evidence. If your authenticity level differs from computed_level, explain why in the indicators.</git_history_note>`
+    : '';
+
+  const securityScan = metadata?.securityScan;
+  const securitySection = securityScan?.findings.length
+    ? `<security_scan>
+  <note>Found by a deterministic scanner (secret patterns, dangerous code patterns, known-vulnerable dependency versions). Treat these as facts and include the significant ones in securityIssues, naming the file. Findings in test files are less severe.${securityScan.truncated ? ' Only the most severe findings are listed.' : ''}</note>
+${securityScan.findings.map((f) => `  <finding severity="${f.severity}" type="${f.type}" rule="${f.rule}" file="${f.file}"${f.line !== null ? ` line="${f.line}"` : ''}>${f.message}</finding>`).join('\n')}
+</security_scan>`
+    : '';
+
+  const focusSection = metadata?.focusAreas?.length
+    ? `<focus_areas>
+  <note>This is a focused re-analysis. The developer worked on the findings below from the previous analysis and marked them done. Check each one specifically: mention it under strengths if it is resolved, keep it under weaknesses (or securityIssues) if it is not. Then evaluate the rest of the project as usual.</note>
+${metadata.focusAreas.map((area) => `  <area>${area}</area>`).join('\n')}
+</focus_areas>`
+    : '';
+
   const experienceSection =
     developerExperience && developerExperience.length > 0
       ? `
@@ -166,6 +263,10 @@ A low score with constructive feedback is MORE valuable than an inflated score.
 </when_to_give_low_scores>
 
 ${metadataSection}
+${metricsSection}
+${gitHistorySection}
+${securitySection}
+${focusSection}
 
 ${developerTypeSection}
 
@@ -374,7 +475,7 @@ First, think through your evaluation step by step in <analysis> tags:
 9. Security/Risk issues found: [List any]
 </analysis>
 
-Then output ONLY valid JSON (no markdown, no code blocks):
+Then call the submit_project_analysis tool with this structure:
 
 {
   "score": <number 0-100 - calculated from your analysis>,
@@ -434,6 +535,6 @@ Before submitting, verify:
 6. Did I assess all 4 technical skill areas?
 7. Did I evaluate authenticity signals?
 8. Did I document security issues and risk flags?
-9. Is my output clean JSON after the analysis tags?
+9. Did I submit the result through the submit_project_analysis tool after the analysis tags?
 </final_checklist>`.trim();
 };
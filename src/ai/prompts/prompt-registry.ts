@@ -0,0 +1,173 @@
+/**
+ * Prompt Registry
+ *
+ * Every prompt template has a semantic version, stored on the analyses and
+ * reports it produces so results from different prompts are never mixed up.
+ *
+ * When changing a template, add a changelog entry at the top:
+ * - MAJOR: scores are not comparable with the previous version
+ * - MINOR: new evidence or output fields, scoring rules unchanged
+ * - PATCH: wording fixes with no expected effect on results
+ */
+
+import { PromptType } from '../providers';
+import { generateProjectAnalysisPrompt } from './project-analysis.prompt';
+import { generateHiringReportPrompt } from './hiring-report.prompt';
+import { generateFitAnalysisPrompt } from './fit-analysis.prompt';
+import { generateInterviewKitPrompt } from './interview-kit.prompt';
+
+export interface PromptChangelogEntry {
+  version: string; // Semantic version, e.g. 1.2.0
+  date: string; // YYYY-MM-DD
+  changes: string[];
+}
+
+export interface PromptTemplate<TGenerate> {
+  type: PromptType;
+  version: string; // Latest changelog entry
+  changelog: PromptChangelogEntry[]; // Newest first
+  generate: TGenerate;
+}
+
+const SEMVER = /^\d+\.\d+\.\d+$/;
+
+const PROJECT_ANALYSIS_CHANGELOG: PromptChangelogEntry[] = [
+  {
+    version: '1.4.0',
+    date: '2026-10-19',
+    changes: ['Origin note for projects uploaded as an archive'],
+  },
+  {
+    version: '1.3.0',
+    date: '2026-10-19',
+    changes: ['Analyzed paths of monorepo sub-path projects'],
+  },
+  {
+    version: '1.2.0',
+    date: '2026-10-19',
+    changes: ['Security scan findings in the prompt'],
+  },
+  {
+    version: '1.1.0',
+    date: '2026-10-19',
+    changes: ['Focus areas for focused re-analyses from the improvement plan'],
+  },
+  {
+    version: '1.0.0',
+    date: '2026-10-19',
+    changes: [
+      'First versioned release',
+      'Result submitted through the submit_project_analysis tool',
+      'Static code metrics and commit history evidence in the prompt',
+    ],
+  },
+];
+
+const HIRING_REPORT_CHANGELOG: PromptChangelogEntry[] = [
+  {
+    version: '1.1.0',
+    date: '2026-10-19',
+    changes: ['Unverifiable origin of projects uploaded as an archive'],
+  },
+  {
+    version: '1.0.0',
+    date: '2026-10-19',
+    changes: [
+      'First versioned release',
+      'Result submitted through the submit_hiring_report tool',
+      'Commit history evidence per project',
+    ],
+  },
+];
+
+const FIT_ANALYSIS_CHANGELOG: PromptChangelogEntry[] = [
+  {
+    version: '1.0.0',
+    date: '2026-10-19',
+    changes: [
+      'First versioned release',
+      'Result submitted through the submit_fit_analysis tool',
+      'Gaps and interview questions from the computed job profile fit',
+    ],
+  },
+];
+
+const INTERVIEW_KIT_CHANGELOG: PromptChangelogEntry[] = [
+  {
+    version: '1.0.0',
+    date: '2026-10-19',
+    changes: [
+      'First versioned release',
+      'Result submitted through the submit_interview_kit tool',
+      'Questions with rubric, follow-ups and time budget from the hiring report',
+    ],
+  },
+];
+
+const defineTemplate = <TGenerate>(
+  type: PromptType,
+  changelog: PromptChangelogEntry[],
+  generate: TGenerate,
+): PromptTemplate<TGenerate> => {
+  const invalid = changelog.find((entry) => !SEMVER.test(entry.version));
+  if (changelog.length === 0 || invalid) {
+    throw new Error(
+      `Prompt ${type} needs a changelog with semantic versions (got ${invalid?.version ?? 'none'})`,
+    );
+  }
+
+  return { type, version: changelog[0].version, changelog, generate };
+};
+
+export const PROMPT_REGISTRY: {
+  projectAnalysis: PromptTemplate<typeof generateProjectAnalysisPrompt>;
+  hiringReport: PromptTemplate<typeof generateHiringReportPrompt>;
+  fitAnalysis: PromptTemplate<typeof generateFitAnalysisPrompt>;
+  interviewKit: PromptTemplate<typeof generateInterviewKitPrompt>;
+} = {
+  projectAnalysis: defineTemplate(
+    'projectAnalysis',
+    PROJECT_ANALYSIS_CHANGELOG,
+    generateProjectAnalysisPrompt,
+  ),
+  hiringReport: defineTemplate(
+    'hiringReport',
+    HIRING_REPORT_CHANGELOG,
+    generateHiringReportPrompt,
+  ),
+  fitAnalysis: defineTemplate(
+    'fitAnalysis',
+    FIT_ANALYSIS_CHANGELOG,
+    generateFitAnalysisPrompt,
+  ),
+  interviewKit: defineTemplate(
+    'interviewKit',
+    INTERVIEW_KIT_CHANGELOG,
+    generateInterviewKitPrompt,
+  ),
+};
+
+/**
+ * Current version of a prompt template
+ */
+export const getPromptVersion = (type: PromptType): string =>
+  PROMPT_REGISTRY[type].version;
+
+/**
+ * Semantic version order; null (before prompt versioning) sorts first
+ */
+export const comparePromptVersions = (
+  a: string | null,
+  b: string | null,
+): number => {
+  if (a === b) return 0;
+  if (a === null) return -1;
+  if (b === null) return 1;
+
+  const left = a.split('.').map(Number);
+  const right = b.split('.').map(Number);
+  for (let i = 0; i < 3; i++) {
+    if (left[i] !== right[i]) return left[i] - right[i];
+  }
+  return 0;
+};
@@ -0,0 +1,96 @@
+import Anthropic from '@anthropic-ai/sdk';
+import {
+  LlmProvider,
+  LlmStructuredRequest,
+  LlmStructuredResponse,
+  LlmTurn,
+} from './llm-provider.interface';
+
+/**
+ * Anthropic Messages API with tool use
+ */
+export class AnthropicLlmProvider implements LlmProvider {
+  readonly name = 'anthropic';
+  private readonly client: Anthropic;
+
+  constructor(apiKey: string) {
+    this.client = new Anthropic({ apiKey });
+  }
+
+  async generateStructured(
+    request: LlmStructuredRequest,
+  ): Promise<LlmStructuredResponse> {
+    const response = await this.client.messages.create({
+      model: request.model,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      system: request.system,
+      messages: request.turns.map((turn) => this.toMessage(turn)),
+      tools: [
+        {
+          name: request.tool.name,
+          description: request.tool.description,
+          input_schema: request.tool.schema as Anthropic.Tool.InputSchema,
+        },
+      ],
+      tool_choice: request.forceTool
+        ? { type: 'tool', name: request.tool.name }
+        : { type: 'auto' },
+    });
+
+    const toolUse = response.content.find(
+      (block): block is Anthropic.ToolUseBlock =>
+        block.type === 'tool_use' && block.name === request.tool.name,
+    );
+
+    return {
+      text: response.content
+        .filter((block): block is Anthropic.TextBlock => block.type === 'text')
+        .map((block) => block.text)
+        .join('\n'),
+      toolCall: toolUse
+        ? {
+            id: toolUse.id,
+            name: toolUse.name,
+            input: toolUse.input as Record<string, unknown>,
+          }
+        : null,
+      usage: {
+        inputTokens: response.usage.input_tokens,
+        outputTokens: response.usage.output_tokens,
+      },
+    };
+  }
+
+  private toMessage(turn: LlmTurn): Anthropic.MessageParam {
+    switch (turn.role) {
+      case 'user':
+        return { role: 'user', content: turn.text };
+      case 'assistant': {
+        const content: Anthropic.ContentBlockParam[] = [];
+        if (turn.text) content.push({ type: 'text', text: turn.text });
+        if (turn.toolCall) {
+          content.push({
+            type: 'tool_use',
+            id: turn.toolCall.id,
+            name: turn.toolCall.name,
+            input: turn.toolCall.input,
+          });
+        }
+        return { role: 'assistant', content };
+      }
+      case 'toolResult':
+        return {
+          role: 'user',
+          content: [
+            {
+              type: 'tool_result',
+              tool_use_id: turn.toolCallId,
+              is_error: turn.isError,
+              content: turn.content,
+            },
+          ],
+        };
+    }
+  }
+}
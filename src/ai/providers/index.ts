@@ -0,0 +1,5 @@
+export * from './llm-provider.interface';
+export * from './llm-provider.factory';
+export * from './anthropic.provider';
+export * from './openai-compatible.provider';
+export * from './stub.provider';
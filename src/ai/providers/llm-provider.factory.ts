@@ -0,0 +1,51 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { LlmProvider } from './llm-provider.interface';
+import { AnthropicLlmProvider } from './anthropic.provider';
+import { OpenAiCompatibleLlmProvider } from './openai-compatible.provider';
+import {
+  DEFAULT_FIXTURES_DIR,
+  RecordingLlmProvider,
+  StubLlmProvider,
+} from './stub.provider';
+
+/**
+ * Build the provider selected by LLM_PROVIDER (anthropic by default)
+ * Only the selected provider's credentials are required
+ */
+export function createLlmProvider(config: ConfigService): LlmProvider {
+  const logger = new Logger('LlmProvider');
+  const providerName = config.get<string>('LLM_PROVIDER') || 'anthropic';
+  const fixturesDir =
+    config.get<string>('LLM_FIXTURES_DIR') || DEFAULT_FIXTURES_DIR;
+
+  let provider: LlmProvider;
+  switch (providerName) {
+    case 'anthropic':
+      provider = new AnthropicLlmProvider(
+        config.getOrThrow<string>('ANTHROPIC_API_KEY'),
+      );
+      break;
+    case 'openai-compatible':
+      provider = new OpenAiCompatibleLlmProvider(
+        config.getOrThrow<string>('LLM_BASE_URL'),
+        config.get<string>('LLM_API_KEY'),
+      );
+      break;
+    case 'stub':
+      provider = new StubLlmProvider(fixturesDir);
+      break;
+    default:
+      throw new Error(
+        `Unknown LLM_PROVIDER "${providerName}" (expected anthropic, openai-compatible or stub)`,
+      );
+  }
+
+  if (config.get<string>('LLM_RECORD_FIXTURES') === 'true') {
+    provider = new RecordingLlmProvider(provider, fixturesDir);
+  }
+
+  logger.log(`Using LLM provider: ${provider.name}`);
+
+  return provider;
+}
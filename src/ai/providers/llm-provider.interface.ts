@@ -0,0 +1,80 @@
+import { JsonSchema } from '../schemas';
+
+/**
+ * Injection token for the active LlmProvider
+ */
+export const LLM_PROVIDER = Symbol('LLM_PROVIDER');
+
+export type PromptType =
+  | 'projectAnalysis'
+  | 'hiringReport'
+  | 'fitAnalysis'
+  | 'interviewKit';
+
+export interface LlmToolDefinition {
+  name: string;
+  description: string;
+  schema: JsonSchema;
+}
+
+export interface LlmToolCall {
+  id: string;
+  name: string;
+  input: Record<string, unknown>;
+}
+
+// One step of a conversation, independent of any vendor's message format
+export type LlmTurn =
+  | { role: 'user'; text: string }
+  | { role: 'assistant'; text: string; toolCall: LlmToolCall | null }
+  | {
+      role: 'toolResult';
+      toolCallId: string;
+      content: string;
+      isError: boolean;
+    };
+
+export interface LlmStructuredRequest {
+  promptType: PromptType;
+  model: string;
+  maxTokens: number;
+  temperature: number;
+  system: string;
+  turns: LlmTurn[];
+  tool: LlmToolDefinition;
+  forceTool: boolean; // false lets the model write text before the call
+}
+
+export interface LlmTokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface LlmStructuredResponse {
+  text: string; // Any text written alongside the tool call
+  toolCall: LlmToolCall | null; // null when the tool wasn't (validly) called
+  usage: LlmTokenUsage | null; // null when the backend doesn't report it
+}
+
+/**
+ * A model backend that can answer through a single tool call
+ */
+export interface LlmProvider {
+  readonly name: string;
+  generateStructured(
+    request: LlmStructuredRequest,
+  ): Promise<LlmStructuredResponse>;
+}
+
+/**
+ * HTTP error from a provider, carries the status for rate limit handling
+ */
+export class LlmHttpError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string,
+  ) {
+    super(message);
+    this.name = 'LlmHttpError';
+  }
+}
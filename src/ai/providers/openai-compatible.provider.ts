@@ -0,0 +1,146 @@
+import {
+  LlmHttpError,
+  LlmProvider,
+  LlmStructuredRequest,
+  LlmStructuredResponse,
+  LlmTurn,
+} from './llm-provider.interface';
+
+// Self-hosted models can be slow on large prompts
+const REQUEST_TIMEOUT_MS = 5 * 60 * 1000;
+
+interface ChatToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+interface ChatMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | null;
+  tool_calls?: ChatToolCall[];
+  tool_call_id?: string;
+}
+
+interface ChatCompletionResponse {
+  choices?: { message?: ChatMessage }[];
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+}
+
+/**
+ * Any server implementing the OpenAI chat completions API with function
+ * calling (vLLM, Ollama, LM Studio, llama.cpp server...)
+ */
+export class OpenAiCompatibleLlmProvider implements LlmProvider {
+  readonly name = 'openai-compatible';
+
+  constructor(
+    private readonly baseUrl: string,
+    private readonly apiKey?: string,
+  ) {}
+
+  async generateStructured(
+    request: LlmStructuredRequest,
+  ): Promise<LlmStructuredResponse> {
+    const response = await fetch(
+      `${this.baseUrl.replace(/\/$/, '')}/chat/completions`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model: request.model,
+          max_tokens: request.maxTokens,
+          temperature: request.temperature,
+          messages: [
+            { role: 'system', content: request.system },
+            ...request.turns.map((turn) => this.toMessage(turn)),
+          ],
+          tools: [
+            {
+              type: 'function',
+              function: {
+                name: request.tool.name,
+                description: request.tool.description,
+                parameters: request.tool.schema,
+              },
+            },
+          ],
+          tool_choice: request.forceTool
+            ? { type: 'function', function: { name: request.tool.name } }
+            : 'auto',
+        }),
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      },
+    );
+
+    if (!response.ok) {
+      throw new LlmHttpError(
+        response.status,
+        `LLM request failed (${response.status}): ${(await response.text()).slice(0, 500)}`,
+      );
+    }
+
+    const data = (await response.json()) as ChatCompletionResponse;
+    const message = data.choices?.[0]?.message;
+    const call = message?.tool_calls?.find(
+      (toolCall) => toolCall.function.name === request.tool.name,
+    );
+
+    return {
+      text: message?.content ?? '',
+      toolCall: call ? this.parseToolCall(call) : null,
+      usage: data.usage
+        ? {
+            inputTokens: data.usage.prompt_tokens ?? 0,
+            outputTokens: data.usage.completion_tokens ?? 0,
+          }
+        : null,
+    };
+  }
+
+  private parseToolCall(call: ChatToolCall): LlmStructuredResponse['toolCall'] {
+    try {
+      return {
+        id: call.id,
+        name: call.function.name,
+        input: JSON.parse(call.function.arguments) as Record<string, unknown>,
+      };
+    } catch {
+      // Arguments that aren't JSON count as no call, the repair loop asks again
+      return null;
+    }
+  }
+
+  private toMessage(turn: LlmTurn): ChatMessage {
+    switch (turn.role) {
+      case 'user':
+        return { role: 'user', content: turn.text };
+      case 'assistant':
+        return {
+          role: 'assistant',
+          content: turn.text || null,
+          tool_calls: turn.toolCall
+            ? [
+                {
+                  id: turn.toolCall.id,
+                  type: 'function',
+                  function: {
+                    name: turn.toolCall.name,
+                    arguments: JSON.stringify(turn.toolCall.input),
+                  },
+                },
+              ]
+            : undefined,
+        };
+      case 'toolResult':
+        return {
+          role: 'tool',
+          tool_call_id: turn.toolCallId,
+          content: turn.content,
+        };
+    }
+  }
+}
@@ -0,0 +1,92 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  LlmProvider,
+  LlmStructuredRequest,
+  LlmStructuredResponse,
+} from './llm-provider.interface';
+
+// Bundled fixtures, used when LLM_FIXTURES_DIR is not set
+export const DEFAULT_FIXTURES_DIR = path.join(__dirname, '..', 'fixtures');
+
+/**
+ * Fixture file name for a request
+ * Hashes everything that shapes the answer except sampling settings, so a
+ * recording stays valid when only model/temperature change
+ */
+export function fixtureKey(request: LlmStructuredRequest): string {
+  return createHash('sha256')
+    .update(
+      JSON.stringify({
+        system: request.system,
+        turns: request.turns,
+        tool: request.tool.name,
+      }),
+    )
+    .digest('hex')
+    .slice(0, 16);
+}
+
+/**
+ * Deterministic offline provider replaying recorded responses
+ * Looks up <dir>/<promptType>/<fixtureKey>.json, then
+ * <dir>/<promptType>/default.json
+ */
+export class StubLlmProvider implements LlmProvider {
+  readonly name = 'stub';
+
+  constructor(private readonly fixturesDir: string) {}
+
+  async generateStructured(
+    request: LlmStructuredRequest,
+  ): Promise<LlmStructuredResponse> {
+    const promptDir = path.join(this.fixturesDir, request.promptType);
+    const candidates = [
+      path.join(promptDir, `${fixtureKey(request)}.json`),
+      path.join(promptDir, 'default.json'),
+    ];
+
+    const fixturePath = candidates.find((candidate) =>
+      fs.existsSync(candidate),
+    );
+    if (!fixturePath) {
+      throw new Error(
+        `No LLM fixture for ${request.promptType} (looked for ${candidates.join(', ')})`,
+      );
+    }
+
+    const content = await fs.promises.readFile(fixturePath, 'utf8');
+    const fixture = JSON.parse(content) as LlmStructuredResponse;
+    return { ...fixture, usage: fixture.usage ?? null };
+  }
+}
+
+/**
+ * Wraps a real provider and saves every response as a stub fixture
+ */
+export class RecordingLlmProvider implements LlmProvider {
+  readonly name: string;
+
+  constructor(
+    private readonly inner: LlmProvider,
+    private readonly fixturesDir: string,
+  ) {
+    this.name = `${inner.name}+recording`;
+  }
+
+  async generateStructured(
+    request: LlmStructuredRequest,
+  ): Promise<LlmStructuredResponse> {
+    const response = await this.inner.generateStructured(request);
+
+    const promptDir = path.join(this.fixturesDir, request.promptType);
+    await fs.promises.mkdir(promptDir, { recursive: true });
+    await fs.promises.writeFile(
+      path.join(promptDir, `${fixtureKey(request)}.json`),
+      JSON.stringify(response, null, 2),
+    );
+
+    return response;
+  }
+}
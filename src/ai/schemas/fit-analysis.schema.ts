@@ -0,0 +1,17 @@
+import { JsonSchema } from './json-schema';
+
+const stringList: JsonSchema = { type: 'array', items: { type: 'string' } };
+
+/**
+ * Tool input schema for FitAnalysisResult (job profile fit)
+ */
+export const FIT_ANALYSIS_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    summary: { type: 'string' },
+    gaps: stringList,
+    interviewQuestions: { ...stringList, minItems: 3 },
+  },
+  required: ['summary', 'gaps', 'interviewQuestions'],
+  additionalProperties: false,
+};
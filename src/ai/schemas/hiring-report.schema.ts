@@ -0,0 +1,83 @@
+import { JsonSchema } from './json-schema';
+
+const stringList: JsonSchema = { type: 'array', items: { type: 'string' } };
+
+const breakdownArea: JsonSchema = {
+  type: 'object',
+  properties: {
+    summary: { type: 'string' },
+    strengths: stringList,
+    improvements: stringList,
+  },
+  required: ['summary', 'strengths', 'improvements'],
+  additionalProperties: false,
+};
+
+/**
+ * Tool input schema for HiringReportResult (Tier 2)
+ */
+export const HIRING_REPORT_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    recommendation: {
+      type: 'string',
+      enum: ['SAFE_TO_INTERVIEW', 'INTERVIEW_WITH_CAUTION', 'NOT_READY'],
+    },
+    recommendationReasons: { ...stringList, minItems: 1 },
+    juniorLevel: {
+      type: 'string',
+      enum: ['ABOVE_EXPECTED', 'WITHIN_EXPECTED', 'BELOW_EXPECTED'],
+    },
+    juniorLevelContext: { type: 'string' },
+    technicalBreakdown: {
+      type: 'object',
+      properties: {
+        codeStructure: breakdownArea,
+        coreFundamentals: breakdownArea,
+        problemSolving: breakdownArea,
+        toolingPractices: breakdownArea,
+      },
+      required: [
+        'codeStructure',
+        'coreFundamentals',
+        'problemSolving',
+        'toolingPractices',
+      ],
+      additionalProperties: false,
+    },
+    riskFlags: stringList,
+    authenticitySignal: { type: 'string', enum: ['HIGH', 'MEDIUM', 'LOW'] },
+    authenticityExplanation: { type: 'string' },
+    interviewQuestions: { ...stringList, minItems: 1 },
+    overallScore: { type: 'integer', minimum: 0, maximum: 100 },
+    scoreBand: {
+      type: 'string',
+      enum: ['STRONG_JUNIOR', 'AVERAGE_JUNIOR', 'RISKY_JUNIOR'],
+    },
+    conclusion: { type: 'string' },
+    techProficiency: {
+      type: 'object',
+      additionalProperties: { type: 'integer', minimum: 1, maximum: 10 },
+    },
+    mentoringNeeds: stringList,
+    growthPotential: { type: 'string' },
+  },
+  required: [
+    'recommendation',
+    'recommendationReasons',
+    'juniorLevel',
+    'juniorLevelContext',
+    'technicalBreakdown',
+    'riskFlags',
+    'authenticitySignal',
+    'authenticityExplanation',
+    'interviewQuestions',
+    'overallScore',
+    'scoreBand',
+    'conclusion',
+    'techProficiency',
+    'mentoringNeeds',
+    'growthPotential',
+  ],
+  additionalProperties: false,
+};
@@ -0,0 +1,5 @@
+export * from './json-schema';
+export * from './project-analysis.schema';
+export * from './hiring-report.schema';
+export * from './fit-analysis.schema';
+export * from './interview-kit.schema';
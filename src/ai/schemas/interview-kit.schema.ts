@@ -0,0 +1,46 @@
+import { JsonSchema } from './json-schema';
+
+const stringList: JsonSchema = { type: 'array', items: { type: 'string' } };
+
+const kitQuestion: JsonSchema = {
+  type: 'object',
+  properties: {
+    topic: { type: 'string' },
+    source: {
+      type: 'string',
+      enum: ['RISK_FLAG', 'TECHNICAL_IMPROVEMENT', 'MENTORING_NEED'],
+    },
+    question: { type: 'string' },
+    goodAnswer: { type: 'string' },
+    redFlags: { ...stringList, minItems: 1 },
+    followUps: { ...stringList, minItems: 1 },
+    minutes: { type: 'integer', minimum: 2, maximum: 20 },
+  },
+  required: [
+    'topic',
+    'source',
+    'question',
+    'goodAnswer',
+    'redFlags',
+    'followUps',
+    'minutes',
+  ],
+  additionalProperties: false,
+};
+
+/**
+ * Tool input schema for InterviewKitResult
+ */
+export const INTERVIEW_KIT_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    questions: {
+      type: 'array',
+      items: kitQuestion,
+      minItems: 3,
+      maxItems: 8,
+    },
+  },
+  required: ['questions'],
+  additionalProperties: false,
+};
@@ -0,0 +1,130 @@
+/**
+ * Minimal JSON Schema support for AI tool input
+ * Covers the subset the output schemas use: type, enum, properties,
+ * required, items, minimum/maximum and additionalProperties
+ */
+
+type JsonSchemaType =
+  | 'object'
+  | 'array'
+  | 'string'
+  | 'number'
+  | 'integer'
+  | 'boolean'
+  | 'null';
+
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  description?: string;
+  enum?: readonly (string | number | boolean | null)[];
+  properties?: Record<string, JsonSchema>;
+  required?: readonly string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  minimum?: number;
+  maximum?: number;
+}
+
+const MAX_REPORTED_ERRORS = 20;
+
+/**
+ * Validate a value against a schema
+ * @returns Human-readable errors (JSON path + problem), empty when valid
+ */
+export function validateJsonSchema(
+  schema: JsonSchema,
+  value: unknown,
+  path = '$',
+): string[] {
+  const errors: string[] = [];
+  collectErrors(schema, value, path, errors);
+  return errors.slice(0, MAX_REPORTED_ERRORS);
+}
+
+function typeOf(value: unknown): JsonSchemaType {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? 'integer' : 'number';
+  }
+  return typeof value as JsonSchemaType;
+}
+
+function collectErrors(
+  schema: JsonSchema,
+  value: unknown,
+  path: string,
+  errors: string[],
+): void {
+  if (schema.type) {
+    const allowed = Array.isArray(schema.type) ? schema.type : [schema.type];
+    const actual = typeOf(value);
+    const matches =
+      allowed.includes(actual) ||
+      (actual === 'integer' && allowed.includes('number'));
+
+    if (!matches) {
+      errors.push(`${path}: expected ${allowed.join(' | ')}, got ${actual}`);
+      return;
+    }
+  }
+
+  if (schema.enum && !schema.enum.includes(value as string)) {
+    errors.push(
+      `${path}: must be one of ${schema.enum.map((v) => JSON.stringify(v)).join(', ')}`,
+    );
+    return;
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${path}: must be >= ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${path}: must be <= ${schema.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${path}: must have at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(`${path}: must have at most ${schema.maxItems} items`);
+    }
+    if (schema.items) {
+      value.forEach((item, index) =>
+        collectErrors(schema.items!, item, `${path}[${index}]`, errors),
+      );
+    }
+    return;
+  }
+
+  if (typeOf(value) === 'object') {
+    const record = value as Record<string, unknown>;
+
+    for (const key of schema.required ?? []) {
+      if (!(key in record)) {
+        errors.push(`${path}.${key}: is required`);
+      }
+    }
+
+    for (const [key, child] of Object.entries(record)) {
+      const childSchema = schema.properties?.[key];
+      if (childSchema) {
+        collectErrors(childSchema, child, `${path}.${key}`, errors);
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key}: is not allowed`);
+      } else if (typeof schema.additionalProperties === 'object') {
+        collectErrors(
+          schema.additionalProperties,
+          child,
+          `${path}.${key}`,
+          errors,
+        );
+      }
+    }
+  }
+}
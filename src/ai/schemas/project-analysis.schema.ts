@@ -0,0 +1,89 @@
+import { JsonSchema } from './json-schema';
+
+const stringList = (maxItems: number): JsonSchema => ({
+  type: 'array',
+  items: { type: 'string' },
+  maxItems,
+});
+
+const skillRating: JsonSchema = {
+  type: 'object',
+  properties: {
+    rating: { type: 'string', enum: ['STRONG', 'ADEQUATE', 'WEAK'] },
+    observations: stringList(5),
+  },
+  required: ['rating', 'observations'],
+  additionalProperties: false,
+};
+
+/**
+ * Tool input schema for ProjectAnalysisResult (Tier 1)
+ */
+export const PROJECT_ANALYSIS_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    score: { type: 'integer', minimum: 0, maximum: 100 },
+    potentialMismatch: { type: 'boolean' },
+    mismatchReason: { type: ['string', 'null'] },
+    strengths: { ...stringList(5), minItems: 1 },
+    weaknesses: { ...stringList(5), minItems: 1 },
+    strengthsSummary: { type: 'string' },
+    weaknessesSummary: { type: 'string' },
+    codeOrganization: { type: 'string' },
+    techStack: { type: 'array', items: { type: 'string' } },
+    technicalAssessment: {
+      type: 'object',
+      properties: {
+        codeStructure: skillRating,
+        coreFundamentals: skillRating,
+        problemSolving: skillRating,
+        toolingPractices: skillRating,
+      },
+      required: [
+        'codeStructure',
+        'coreFundamentals',
+        'problemSolving',
+        'toolingPractices',
+      ],
+      additionalProperties: false,
+    },
+    authenticitySignals: {
+      type: 'object',
+      properties: {
+        level: { type: 'string', enum: ['HIGH', 'MEDIUM', 'LOW'] },
+        positiveIndicators: stringList(5),
+        concerningIndicators: stringList(5),
+      },
+      required: ['level', 'positiveIndicators', 'concerningIndicators'],
+      additionalProperties: false,
+    },
+    securityIssues: stringList(10),
+    riskFlags: stringList(10),
+    errorHandling: {
+      type: 'object',
+      properties: {
+        quality: { type: 'string', enum: ['GOOD', 'PARTIAL', 'POOR', 'NONE'] },
+        observations: { type: 'string' },
+      },
+      required: ['quality', 'observations'],
+      additionalProperties: false,
+    },
+  },
+  required: [
+    'score',
+    'potentialMismatch',
+    'mismatchReason',
+    'strengths',
+    'weaknesses',
+    'strengthsSummary',
+    'weaknessesSummary',
+    'codeOrganization',
+    'techStack',
+    'technicalAssessment',
+    'authenticitySignals',
+    'securityIssues',
+    'riskFlags',
+    'errorHandling',
+  ],
+  additionalProperties: false,
+};
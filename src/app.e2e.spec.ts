@@ -0,0 +1,131 @@
+import { INestApplication, RequestMethod, Type } from '@nestjs/common';
+import { METHOD_METADATA, PATH_METADATA } from '@nestjs/common/constants';
+import { ModulesContainer, Reflector } from '@nestjs/core';
+import { JwtService } from '@nestjs/jwt';
+import { Test } from '@nestjs/testing';
+import * as request from 'supertest';
+import { AppModule } from './app.module';
+import { IS_PUBLIC_KEY } from './common/decorators';
+import { JwtPayload } from './common/types';
+import { PrismaService } from './prisma/prisma.service';
+
+const JWT_ACCESS_SECRET = 'e2e-access-secret';
+
+interface Route {
+  method: string;
+  path: string;
+}
+
+/**
+ * Role separation across the whole API: every non-public company route
+ * must refuse a developer token and every developer route a company token.
+ * Routes are read from the controllers, so new ones are covered as added.
+ * Guards reject before any handler runs, so no database is needed.
+ */
+describe('Role guards (e2e)', () => {
+  let app: INestApplication;
+  let routes: Route[];
+
+  beforeAll(async () => {
+    Object.assign(process.env, {
+      JWT_ACCESS_SECRET,
+      JWT_REFRESH_SECRET: 'e2e-refresh-secret',
+      ENCRYPTION_SECRET_KEY: '0'.repeat(64),
+      GITHUB_APP_ID: '1',
+      GITHUB_APP_PRIVATE_KEY: 'e2e-private-key',
+      STRIPE_SECRET_KEY: 'sk_test_e2e',
+      LLM_PROVIDER: 'stub',
+    });
+
+    const moduleRef = await Test.createTestingModule({
+      imports: [AppModule],
+    })
+      .overrideProvider(PrismaService)
+      .useValue({ $connect: jest.fn(), $disconnect: jest.fn() })
+      .compile();
+
+    app = moduleRef.createNestApplication({ logger: false });
+    await app.init();
+
+    routes = listProtectedRoutes(app);
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it.each([
+    ['company', 'DEVELOPER'],
+    ['developer', 'COMPANY'],
+  ] as const)('rejects every %s route for a %s token', async (area, role) => {
+    const areaRoutes = routes.filter((route) =>
+      route.path.startsWith(`/${area}/`),
+    );
+    expect(areaRoutes.length).toBeGreaterThan(10);
+
+    const token = signToken(role);
+    const allowed: string[] = [];
+
+    for (const route of areaRoutes) {
+      const response = await request(app.getHttpServer())
+        [route.method](route.path)
+        .set('Authorization', `Bearer ${token}`);
+
+      if (response.status !== 403) {
+        allowed.push(`${route.method.toUpperCase()} ${route.path}`);
+      }
+    }
+
+    expect(allowed).toEqual([]);
+  });
+});
+
+function signToken(role: JwtPayload['role']): string {
+  const payload: JwtPayload = {
+    sub: 1,
+    tableId: 1,
+    email: `${role.toLowerCase()}@example.com`,
+    role,
+  };
+  return new JwtService().sign(payload, { secret: JWT_ACCESS_SECRET });
+}
+
+/**
+ * Every route not marked @Public(), with path parameters filled in
+ */
+function listProtectedRoutes(app: INestApplication): Route[] {
+  const reflector = app.get(Reflector);
+  const routes: Route[] = [];
+
+  for (const module of app.get(ModulesContainer).values()) {
+    for (const controller of module.controllers.values()) {
+      const metatype = controller.metatype as Type<object>;
+      const prototype = metatype.prototype as Record<string, unknown>;
+      const controllerPath = reflector.get<string>(PATH_METADATA, metatype);
+
+      for (const name of Object.getOwnPropertyNames(prototype)) {
+        const handler = prototype[name];
+        if (name === 'constructor' || typeof handler !== 'function') continue;
+
+        const handlerPath = reflector.get<string>(PATH_METADATA, handler);
+        const method = reflector.get<RequestMethod>(METHOD_METADATA, handler);
+        if (handlerPath === undefined || method === undefined) continue;
+
+        const isPublic = reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, [
+          handler,
+          metatype,
+        ]);
+        if (isPublic) continue;
+
+        const path = `/${controllerPath}/${handlerPath}`
+          .replace(/\/+/g, '/')
+          .replace(/\/$/, '')
+          .replace(/:\w+/g, '1');
+
+        routes.push({ method: RequestMethod[method].toLowerCase(), path });
+      }
+    }
+  }
+
+  return routes;
+}
@@ -8,9 +8,12 @@ import { DeveloperModule } from './developer/developer.module';
 import { EmailModule } from './email/email.module';
 import { EncryptionModule } from './encryption/encryption.module';
 import { GithubModule } from './github/github.module';
+import { SourceHostsModule } from './source-hosts/source-hosts.module';
 import { AiModule } from './ai/ai.module';
 import { NotificationModule } from './notifications/notification.module';
-import { AtGuard } from './common/guards';
+import { AdminModule } from './admin/admin.module';
+import { EventsModule } from './events/events.module';
+import { AtGuard, RolesGuard } from './common/guards';
 
 @Module({
   imports: [
@@ -23,10 +26,13 @@ import { AtGuard } from './common/guards';
     EmailModule,
     EncryptionModule,
     GithubModule,
+    SourceHostsModule,
     AiModule,
     NotificationModule,
+    EventsModule,
     CompanyModule,
     DeveloperModule,
+    AdminModule,
   ],
   controllers: [],
   providers: [
@@ -34,6 +40,10 @@ import { AtGuard } from './common/guards';
       provide: APP_GUARD,
       useClass: AtGuard,
     },
+    {
+      provide: APP_GUARD,
+      useClass: RolesGuard,
+    },
   ],
 })
 export class AppModule {}
@@ -26,11 +26,17 @@ import {
   VerifyEmailDto,
   VerifyEmailResponseDto,
 } from './dto';
-import { Public, GetCurrentUserId, GetCurrentUser } from '../common/decorators';
+import {
+  Public,
+  GetCurrentUserId,
+  GetCurrentUser,
+  Roles,
+} from '../common/decorators';
 import { RtGuard } from '../common/guards';
 import { setAuthCookies, clearAuthCookies } from '../common/utils';
 
 @ApiTags('Auth')
+@Roles('COMPANY', 'DEVELOPER')
 @Controller('auth')
 export class AuthController {
   constructor(private authService: AuthService) {}
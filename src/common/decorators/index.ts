@@ -2,3 +2,4 @@ export * from './public.decorator';
 export * from './get-current-user-id.decorator';
 export * from './get-current-user.decorator';
 export * from './get-current-user-table-id.decorator';
+export * from './roles.decorator';
@@ -0,0 +1,6 @@
+import { SetMetadata } from '@nestjs/common';
+import { JwtPayload } from '../types';
+
+export const ROLES_KEY = 'roles';
+export const Roles = (...roles: JwtPayload['role'][]) =>
+  SetMetadata(ROLES_KEY, roles);
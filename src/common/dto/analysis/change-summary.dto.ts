@@ -0,0 +1,46 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * What changed in a repository between two analyses
+ * Computed from the file manifests recorded on ProjectAnalysis
+ */
+export class ChangeSummaryDto {
+  @ApiProperty({ description: 'Commit analyzed previously' })
+  fromCommitSha: string;
+
+  @ApiProperty({ description: 'Commit analyzed now' })
+  toCommitSha: string;
+
+  @ApiProperty({ description: 'Number of files added' })
+  addedCount: number;
+
+  @ApiProperty({ description: 'Number of files removed' })
+  removedCount: number;
+
+  @ApiProperty({ description: 'Number of files modified' })
+  modifiedCount: number;
+
+  @ApiProperty({
+    type: [String],
+    description: 'Added file paths (first 50)',
+  })
+  added: string[];
+
+  @ApiProperty({
+    type: [String],
+    description: 'Removed file paths (first 50)',
+  })
+  removed: string[];
+
+  @ApiProperty({
+    type: [String],
+    description: 'Modified file paths (first 50)',
+  })
+  modified: string[];
+
+  @ApiProperty({
+    description: 'Previous score, for comparison',
+    nullable: true,
+  })
+  previousScore: number | null;
+}
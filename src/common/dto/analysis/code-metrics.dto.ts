@@ -0,0 +1,91 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class ComplexityMetricsDto {
+  @ApiProperty({ description: 'JS/TS functions measured' })
+  functionsAnalyzed: number;
+
+  @ApiProperty({ description: 'Average cyclomatic complexity' })
+  average: number;
+
+  @ApiProperty({ description: 'Highest cyclomatic complexity' })
+  max: number;
+
+  @ApiProperty({ description: 'Functions with complexity above 10' })
+  highComplexityFunctions: number;
+}
+
+export class ToolingMetricsDto {
+  @ApiProperty({ description: 'Linter configured' })
+  linter: boolean;
+
+  @ApiProperty({ description: 'Formatter configured' })
+  formatter: boolean;
+
+  @ApiProperty({ description: 'CI pipeline configured' })
+  ci: boolean;
+
+  @ApiProperty({ description: 'TypeScript configured' })
+  typescript: boolean;
+
+  @ApiProperty({ description: 'Test framework configured' })
+  testFramework: boolean;
+}
+
+export class DependencyMetricsDto {
+  @ApiProperty({ description: 'Production dependencies in package.json' })
+  production: number;
+
+  @ApiProperty({ description: 'Dev dependencies in package.json' })
+  development: number;
+}
+
+/**
+ * Deterministic code metrics, computed without AI
+ */
+export class CodeMetricsDto {
+  @ApiProperty({
+    description: 'Non-blank lines of code per language',
+    type: 'object',
+    additionalProperties: { type: 'number' },
+    example: { TypeScript: 4210, CSS: 380 },
+  })
+  linesOfCode: Record<string, number>;
+
+  @ApiProperty({ description: 'Total non-blank lines of code' })
+  totalLinesOfCode: number;
+
+  @ApiProperty({ description: 'Files in the repository after ignore rules' })
+  fileCount: number;
+
+  @ApiProperty({ description: 'Files whose content was measured' })
+  sampledFiles: number;
+
+  @ApiProperty({ description: 'Number of test files' })
+  testFileCount: number;
+
+  @ApiProperty({ description: 'Test files per source file' })
+  testFileRatio: number;
+
+  @ApiProperty({
+    type: ComplexityMetricsDto,
+    description: 'Cyclomatic complexity estimates (JS/TS only)',
+    nullable: true,
+  })
+  complexity: ComplexityMetricsDto | null;
+
+  @ApiProperty({ type: ToolingMetricsDto })
+  tooling: ToolingMetricsDto;
+
+  @ApiProperty({
+    type: DependencyMetricsDto,
+    description: 'Dependency counts from the root package.json',
+    nullable: true,
+  })
+  dependencies: DependencyMetricsDto | null;
+
+  @ApiProperty({ description: 'TODO/FIXME comments found' })
+  todoCount: number;
+
+  @ApiProperty({ description: 'TODO/FIXME comments per 1,000 lines' })
+  todoDensity: number;
+}
@@ -0,0 +1,97 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class CommitAuthorDto {
+  @ApiProperty({ example: 'Jane Doe' })
+  name: string;
+
+  @ApiProperty({ example: 'janedoe', nullable: true })
+  login: string | null;
+
+  @ApiProperty({ example: 42 })
+  commits: number;
+
+  @ApiProperty({ description: 'Author matches the developer identity' })
+  matchesDeveloper: boolean;
+}
+
+export class LargeCommitDto {
+  @ApiProperty({ example: 'a1b2c3d4e5f6a7b8c9d0e1f2a3b4c5d6e7f8a9b0' })
+  sha: string;
+
+  @ApiProperty({ example: '2026-03-14T10:22:00Z' })
+  date: string;
+
+  @ApiProperty({ example: 'Initial commit' })
+  message: string;
+
+  @ApiProperty({ example: 5400 })
+  additions: number;
+}
+
+/**
+ * Commit-history evidence behind the authenticity signal
+ */
+export class GitHistoryDto {
+  @ApiProperty({ description: 'Commits analyzed', example: 87 })
+  commitCount: number;
+
+  @ApiProperty({ description: 'History was longer than the analyzed window' })
+  truncated: boolean;
+
+  @ApiProperty({ example: '2026-01-05T09:12:00Z', nullable: true })
+  firstCommitAt: string | null;
+
+  @ApiProperty({ example: '2026-04-18T17:40:00Z', nullable: true })
+  lastCommitAt: string | null;
+
+  @ApiProperty({ description: 'Days between first and last commit' })
+  activeSpanDays: number;
+
+  @ApiProperty({ description: 'Distinct days with commits' })
+  activeDays: number;
+
+  @ApiProperty({ description: 'Longest pause between commits, in days' })
+  longestGapDays: number;
+
+  @ApiProperty({ enum: ['STEADY', 'BURSTY', 'SINGLE_SESSION'] })
+  cadence: 'STEADY' | 'BURSTY' | 'SINGLE_SESSION';
+
+  @ApiProperty({
+    description: 'Share of commits attributed to the developer (0-1)',
+    example: 0.95,
+  })
+  authorMatchRatio: number;
+
+  @ApiProperty({ type: [CommitAuthorDto] })
+  authors: CommitAuthorDto[];
+
+  @ApiProperty({
+    type: [LargeCommitDto],
+    description: 'Sampled commits adding 2000+ lines at once',
+  })
+  largeCommits: LargeCommitDto[];
+
+  @ApiProperty({
+    description: 'Share of sampled additions made in the first commit (0-1)',
+    nullable: true,
+  })
+  initialCommitShare: number | null;
+
+  @ApiProperty()
+  isFork: boolean;
+
+  @ApiProperty({ example: 'someone/original-repo', nullable: true })
+  forkParent: string | null;
+
+  @ApiProperty({ example: 'vercel/next-template', nullable: true })
+  templateRepository: string | null;
+
+  @ApiProperty({ enum: ['HIGH', 'MEDIUM', 'LOW'] })
+  level: 'HIGH' | 'MEDIUM' | 'LOW';
+
+  @ApiProperty({ type: [String] })
+  positiveIndicators: string[];
+
+  @ApiProperty({ type: [String] })
+  concerningIndicators: string[];
+}
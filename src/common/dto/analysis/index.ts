@@ -0,0 +1,17 @@
+export { ChangeSummaryDto } from './change-summary.dto';
+export {
+  CodeMetricsDto,
+  ComplexityMetricsDto,
+  ToolingMetricsDto,
+  DependencyMetricsDto,
+} from './code-metrics.dto';
+export {
+  GitHistoryDto,
+  CommitAuthorDto,
+  LargeCommitDto,
+} from './git-history.dto';
+export {
+  SecurityScanDto,
+  SecurityFindingDto,
+  SecuritySummaryDto,
+} from './security-scan.dto';
@@ -0,0 +1,93 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * Security scan counts, without file paths or excerpts
+ */
+export class SecuritySummaryDto {
+  @ApiProperty({ description: 'Critical findings' })
+  critical: number;
+
+  @ApiProperty({ description: 'High severity findings' })
+  high: number;
+
+  @ApiProperty({ description: 'Medium severity findings' })
+  medium: number;
+
+  @ApiProperty({ description: 'Low severity findings' })
+  low: number;
+
+  @ApiProperty({
+    description: 'Committed secrets, env files and private keys',
+  })
+  secrets: number;
+
+  @ApiProperty({
+    description: 'Dangerous code patterns (eval, SQL concatenation...)',
+  })
+  dangerousPatterns: number;
+
+  @ApiProperty({ description: 'Dependencies with a known vulnerability' })
+  vulnerableDependencies: number;
+}
+
+export class SecurityFindingDto {
+  @ApiProperty({
+    enum: [
+      'SECRET',
+      'SENSITIVE_FILE',
+      'DANGEROUS_PATTERN',
+      'VULNERABLE_DEPENDENCY',
+    ],
+  })
+  type: string;
+
+  @ApiProperty({
+    description: 'Rule or advisory that matched',
+    example: 'aws-access-key',
+  })
+  rule: string;
+
+  @ApiProperty({ enum: ['CRITICAL', 'HIGH', 'MEDIUM', 'LOW'] })
+  severity: string;
+
+  @ApiProperty({ description: 'File path in the repository' })
+  file: string;
+
+  @ApiProperty({
+    description: 'Line number (null for file-level findings)',
+    nullable: true,
+  })
+  line: number | null;
+
+  @ApiProperty({ description: 'What was found' })
+  message: string;
+
+  @ApiProperty({
+    description: 'Offending line, secrets redacted',
+    nullable: true,
+  })
+  excerpt: string | null;
+}
+
+/**
+ * Deterministic security scan, computed without AI
+ */
+export class SecurityScanDto {
+  @ApiProperty({ type: [SecurityFindingDto], description: 'Most severe first' })
+  findings: SecurityFindingDto[];
+
+  @ApiProperty({ type: SecuritySummaryDto })
+  summary: SecuritySummaryDto;
+
+  @ApiProperty({ description: 'Downloaded files scanned for content rules' })
+  scannedFiles: number;
+
+  @ApiProperty({
+    description: 'Date of the bundled vulnerability advisory snapshot',
+    example: '2026-10-19',
+  })
+  advisorySnapshot: string;
+
+  @ApiProperty({ description: 'More findings than could be stored' })
+  truncated: boolean;
+}
@@ -0,0 +1,37 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { timingSafeEqual } from 'crypto';
+
+export const ADMIN_KEY_HEADER = 'x-admin-key';
+
+/**
+ * Protects operator endpoints with the ADMIN_API_KEY shared secret
+ * Admin routes are @Public(), so this is their only check
+ */
+@Injectable()
+export class AdminKeyGuard implements CanActivate {
+  constructor(private config: ConfigService) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const expected = this.config.get<string>('ADMIN_API_KEY');
+    const request = context.switchToHttp().getRequest();
+    const provided = request.headers[ADMIN_KEY_HEADER] as string | undefined;
+
+    if (!expected || !provided || !this.safeEqual(provided, expected)) {
+      throw new UnauthorizedException('Invalid admin key');
+    }
+
+    return true;
+  }
+
+  private safeEqual(a: string, b: string): boolean {
+    const bufA = Buffer.from(a);
+    const bufB = Buffer.from(b);
+    return bufA.length === bufB.length && timingSafeEqual(bufA, bufB);
+  }
+}
@@ -1,2 +1,4 @@
 export * from './at.guard';
 export * from './rt.guard';
+export * from './roles.guard';
+export * from './admin-key.guard';
@@ -4,6 +4,7 @@ import { ReportModule } from './reports/report.module';
 import { PipelineModule } from './pipeline/pipeline.module';
 import { ProfileModule } from './profile/profile.module';
 import { TagModule } from './tags/tag.module';
+import { JobProfileModule } from './job-profiles/job-profile.module';
 
 @Module({
   imports: [
@@ -12,6 +13,7 @@ import { TagModule } from './tags/tag.module';
     PipelineModule,
     ProfileModule,
     TagModule,
+    JobProfileModule,
   ],
   exports: [
     CreditModule,
@@ -19,6 +21,7 @@ import { TagModule } from './tags/tag.module';
     PipelineModule,
     ProfileModule,
     TagModule,
+    JobProfileModule,
   ],
 })
 export class CompanyModule {}
@@ -29,9 +29,10 @@ import {
   PurchaseValidationDto,
   BillingCountryDto,
 } from './dto';
-import { GetCurrentUserTableId, Public } from '../../common/decorators';
+import { GetCurrentUserTableId, Public, Roles } from '../../common/decorators';
 
 @ApiTags('Company Credits')
+@Roles('COMPANY')
 @Controller('company/credits')
 export class CreditController {
   constructor(
@@ -0,0 +1,160 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class FitStacksDto {
+  @ApiProperty({ description: 'Share of required stacks found (0-100)' })
+  score: number;
+
+  @ApiProperty({ description: 'Weight from the job profile' })
+  weight: number;
+
+  @ApiProperty({ type: [String] })
+  matched: string[];
+
+  @ApiProperty({ type: [String] })
+  missing: string[];
+}
+
+export class FitPracticeDto {
+  @ApiProperty({
+    enum: [
+      'TESTING',
+      'TYPESCRIPT',
+      'LINTING',
+      'CI',
+      'ERROR_HANDLING',
+      'SECURITY',
+    ],
+  })
+  practice: string;
+
+  @ApiProperty({ enum: ['DEMONSTRATED', 'PARTIAL', 'MISSING'] })
+  evidence: string;
+
+  @ApiProperty({
+    description: 'What the analyses show',
+    example: '12 test files in notes-api',
+  })
+  detail: string;
+}
+
+export class FitPracticesDto {
+  @ApiProperty({ description: 'Must-have practices demonstrated (0-100)' })
+  score: number;
+
+  @ApiProperty({ description: 'Weight from the job profile' })
+  weight: number;
+
+  @ApiProperty({ type: [FitPracticeDto] })
+  items: FitPracticeDto[];
+}
+
+export class FitSeniorityDto {
+  @ApiProperty({ description: 'Seniority match (0-100)' })
+  score: number;
+
+  @ApiProperty({ description: 'Weight from the job profile' })
+  weight: number;
+
+  @ApiProperty({ enum: ['ENTRY', 'JUNIOR', 'STRONG_JUNIOR'] })
+  expected: string;
+
+  @ApiProperty({ enum: ['ENTRY', 'JUNIOR', 'STRONG_JUNIOR'] })
+  observed: string;
+}
+
+export class FitCodeQualityDto {
+  @ApiProperty({ description: 'Average project score (0-100)' })
+  score: number;
+
+  @ApiProperty({ description: 'Weight from the job profile' })
+  weight: number;
+
+  @ApiProperty({ description: 'Number of analyzed projects' })
+  projectCount: number;
+}
+
+/**
+ * Dimension scores behind the fit score
+ */
+export class FitBreakdownDto {
+  @ApiProperty()
+  stacks: FitStacksDto;
+
+  @ApiProperty()
+  practices: FitPracticesDto;
+
+  @ApiProperty()
+  seniority: FitSeniorityDto;
+
+  @ApiProperty()
+  codeQuality: FitCodeQualityDto;
+}
+
+/**
+ * Fit of a developer for a job profile
+ */
+export class FitAnalysisDto {
+  @ApiProperty({ description: 'Fit analysis ID' })
+  id: number;
+
+  @ApiProperty({ description: 'Job profile ID' })
+  jobProfileId: number;
+
+  @ApiProperty({ description: 'Job profile name' })
+  jobProfileName: string;
+
+  @ApiProperty({ description: 'Developer ID' })
+  developerId: number;
+
+  @ApiProperty({ description: 'Fit score (0-100)' })
+  fitScore: number;
+
+  @ApiProperty({ description: 'Dimension scores behind the fit score' })
+  breakdown: FitBreakdownDto;
+
+  @ApiProperty({ description: 'How well the developer fits the role' })
+  summary: string;
+
+  @ApiProperty({
+    description: 'Gaps between the role and the evidence, most important first',
+    type: [String],
+  })
+  gaps: string[];
+
+  @ApiProperty({
+    description: 'Interview questions tailored to the role',
+    type: [String],
+  })
+  interviewQuestions: string[];
+
+  @ApiProperty({
+    description: 'Defaults were applied to invalid AI output',
+  })
+  lowConfidence: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Prompt registry version that produced the analysis',
+    example: '1.0.0',
+  })
+  promptVersion?: string;
+
+  @ApiProperty({
+    description:
+      'The job profile or the hiring report changed since the analysis was generated',
+  })
+  isStale: boolean;
+
+  @ApiProperty({ description: 'When the analysis was generated' })
+  generatedAt: Date;
+}
+
+/**
+ * Fit analyses for a job profile, best fit first
+ */
+export class FitAnalysisListDto {
+  @ApiProperty({ type: [FitAnalysisDto] })
+  fitAnalyses: FitAnalysisDto[];
+
+  @ApiProperty({ description: 'Total number of fit analyses' })
+  total: number;
+}
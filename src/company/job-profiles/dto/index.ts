@@ -0,0 +1,5 @@
+export * from './job-profile.dto';
+export * from './job-profile-list.dto';
+export * from './create-job-profile.dto';
+export * from './update-job-profile.dto';
+export * from './fit-analysis.dto';
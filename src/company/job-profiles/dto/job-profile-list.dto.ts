@@ -0,0 +1,13 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { JobProfileDto } from './job-profile.dto';
+
+/**
+ * List of job profiles for a company
+ */
+export class JobProfileListDto {
+  @ApiProperty({ description: 'List of job profiles', type: [JobProfileDto] })
+  jobProfiles: JobProfileDto[];
+
+  @ApiProperty({ description: 'Total number of job profiles' })
+  total: number;
+}
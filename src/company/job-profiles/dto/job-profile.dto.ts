@@ -0,0 +1,114 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsInt, IsOptional, Max, Min } from 'class-validator';
+
+/**
+ * Relative weight of each fit dimension (0-10)
+ */
+export class JobProfileWeightsDto {
+  @ApiPropertyOptional({
+    description: 'Weight of the required stacks',
+    default: 4,
+    minimum: 0,
+    maximum: 10,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(10)
+  stacks: number;
+
+  @ApiPropertyOptional({
+    description: 'Weight of the must-have practices',
+    default: 3,
+    minimum: 0,
+    maximum: 10,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(10)
+  practices: number;
+
+  @ApiPropertyOptional({
+    description: 'Weight of the seniority expectation',
+    default: 2,
+    minimum: 0,
+    maximum: 10,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(10)
+  seniority: number;
+
+  @ApiPropertyOptional({
+    description: 'Weight of the average project score',
+    default: 1,
+    minimum: 0,
+    maximum: 10,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(10)
+  codeQuality: number;
+}
+
+/**
+ * Single job profile response
+ */
+export class JobProfileDto {
+  @ApiProperty({ description: 'Job profile ID' })
+  id: number;
+
+  @ApiProperty({ description: 'Company ID' })
+  companyId: number;
+
+  @ApiProperty({
+    description: 'Job profile name',
+    example: 'Junior Backend (Node.js)',
+  })
+  name: string;
+
+  @ApiPropertyOptional({ description: 'Role description' })
+  description?: string;
+
+  @ApiProperty({
+    description: 'Stacks the role requires',
+    type: [String],
+    example: ['Node.js', 'PostgreSQL'],
+  })
+  requiredStacks: string[];
+
+  @ApiProperty({
+    description: 'Seniority expectation',
+    enum: ['ENTRY', 'JUNIOR', 'STRONG_JUNIOR'],
+  })
+  seniority: string;
+
+  @ApiProperty({
+    description: 'Practices the role requires',
+    enum: [
+      'TESTING',
+      'TYPESCRIPT',
+      'LINTING',
+      'CI',
+      'ERROR_HANDLING',
+      'SECURITY',
+    ],
+    isArray: true,
+  })
+  mustHavePractices: string[];
+
+  @ApiProperty({ description: 'Fit dimension weights' })
+  weights: JobProfileWeightsDto;
+
+  @ApiProperty({ description: 'Number of fit analyses for this profile' })
+  fitAnalysisCount: number;
+
+  @ApiProperty({ description: 'Job profile created at' })
+  createdAt: Date;
+
+  @ApiProperty({ description: 'Job profile last updated at' })
+  updatedAt: Date;
+}
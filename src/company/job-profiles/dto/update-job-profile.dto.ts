@@ -0,0 +1,78 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import {
+  EngineeringPractice,
+  JobSeniority,
+} from '../../../../prisma/generated/prisma';
+import { JobProfileWeightsDto } from './job-profile.dto';
+
+/**
+ * Update an existing job profile
+ */
+export class UpdateJobProfileDto {
+  @ApiPropertyOptional({
+    description: 'Job profile name',
+    example: 'Junior Backend (Node.js)',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name?: string;
+
+  @ApiPropertyOptional({ description: 'Role description' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  description?: string;
+
+  @ApiPropertyOptional({
+    description: 'Stacks the role requires',
+    type: [String],
+    example: ['Node.js', 'PostgreSQL'],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(20)
+  @IsString({ each: true })
+  @IsNotEmpty({ each: true })
+  @MaxLength(50, { each: true })
+  requiredStacks?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Seniority expectation',
+    enum: JobSeniority,
+  })
+  @IsOptional()
+  @IsEnum(JobSeniority)
+  seniority?: JobSeniority;
+
+  @ApiPropertyOptional({
+    description: 'Practices the role requires',
+    enum: EngineeringPractice,
+    isArray: true,
+  })
+  @IsOptional()
+  @IsArray()
+  @IsEnum(EngineeringPractice, { each: true })
+  mustHavePractices?: EngineeringPractice[];
+
+  @ApiPropertyOptional({
+    description: 'Fit dimension weights (missing weights keep their value)',
+    type: JobProfileWeightsDto,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => JobProfileWeightsDto)
+  weights?: Partial<JobProfileWeightsDto>;
+}
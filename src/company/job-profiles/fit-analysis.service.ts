@@ -0,0 +1,589 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { PrismaService } from '../../prisma/prisma.service';
+import { AiService, ProjectAnalysisResult } from '../../ai/ai.service';
+import { AiUsageService } from '../../ai/ai-usage.service';
+import { StaticCodeMetrics } from '../../ai/prompts/project-analysis.prompt';
+import { ProjectAnalysisStatus } from '../../../prisma/generated/prisma';
+import {
+  FitAnalysisDto,
+  FitAnalysisListDto,
+  FitBreakdownDto,
+  FitPracticeDto,
+  JobProfileWeightsDto,
+} from './dto';
+
+// Seniority levels in ascending order
+const SENIORITY_LEVELS = ['ENTRY', 'JUNIOR', 'STRONG_JUNIOR'];
+
+const JUNIOR_LEVEL_TO_SENIORITY: Record<string, string> = {
+  BELOW_EXPECTED: 'ENTRY',
+  WITHIN_EXPECTED: 'JUNIOR',
+  ABOVE_EXPECTED: 'STRONG_JUNIOR',
+};
+
+const EVIDENCE_SCORES: Record<string, number> = {
+  DEMONSTRATED: 1,
+  PARTIAL: 0.5,
+  MISSING: 0,
+};
+
+// A completed project analysis as used for the fit
+interface AnalyzedProject {
+  name: string;
+  projectType: string;
+  score: number;
+  techStack: string[];
+  strengths: string[];
+  weaknesses: string[];
+  raw: ProjectAnalysisResult | null;
+  codeMetrics: StaticCodeMetrics | null;
+}
+
+type FitAnalysisWithProfile = {
+  id: number;
+  jobProfileId: number;
+  developerId: number;
+  fitScore: number;
+  breakdown: unknown;
+  summary: string;
+  gaps: string[];
+  interviewQuestions: string[];
+  lowConfidence: boolean;
+  promptVersion: string | null;
+  generatedAt: Date;
+  jobProfile: { name: string; updatedAt: Date };
+};
+
+/**
+ * Fit of a developer for a company's job profile
+ * The fit score is computed from the stored project analyses (no code is
+ * fetched); the AI only explains the gaps and suggests interview questions
+ */
+@Injectable()
+export class FitAnalysisService {
+  private readonly logger = new Logger(FitAnalysisService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private aiService: AiService,
+    private aiUsage: AiUsageService,
+  ) {}
+
+  /**
+   * Generate (or regenerate) the fit analysis for a developer
+   * Requires the developer's report to be unlocked by the company
+   */
+  async generateFitAnalysis(
+    companyId: number,
+    jobProfileId: number,
+    developerId: number,
+  ): Promise<FitAnalysisDto> {
+    const jobProfile = await this.prisma.jobProfile.findFirst({
+      where: { id: jobProfileId, companyId },
+    });
+
+    if (!jobProfile) {
+      throw new NotFoundException('Job profile not found');
+    }
+
+    await this.assertReportAccess(companyId, developerId);
+
+    const developer = await this.prisma.developer.findUniqueOrThrow({
+      where: { id: developerId },
+      include: {
+        projects: { include: { analysis: true } },
+        hiringReport: { select: { juniorLevel: true, updatedAt: true } },
+        technicalProfile: { select: { developerType: true } },
+      },
+    });
+
+    const projects: AnalyzedProject[] = developer.projects
+      .filter((p) => p.analysis?.status === ProjectAnalysisStatus.COMPLETE)
+      .map((p) => ({
+        name: p.name,
+        projectType: p.projectType,
+        score: p.analysis!.score || 0,
+        techStack: p.techStack,
+        strengths: p.analysis!.strengths,
+        weaknesses: p.analysis!.areasForImprovement,
+        raw: p.analysis!.rawAnalysis as unknown as ProjectAnalysisResult | null,
+        codeMetrics: p.analysis!
+          .codeMetrics as unknown as StaticCodeMetrics | null,
+      }));
+
+    if (projects.length === 0) {
+      throw new BadRequestException(
+        'Developer has no completed project analyses',
+      );
+    }
+
+    const budget = await this.aiUsage.getBudgetStatus();
+    if (budget.exceeded) {
+      throw new ServiceUnavailableException(
+        'Monthly AI budget reached. Please try again next month.',
+      );
+    }
+
+    const breakdown = this.computeBreakdown(
+      {
+        requiredStacks: jobProfile.requiredStacks,
+        mustHavePractices: jobProfile.mustHavePractices,
+        seniority: jobProfile.seniority,
+        weights: jobProfile.weights as unknown as JobProfileWeightsDto,
+      },
+      projects,
+      developer.hiringReport?.juniorLevel ?? null,
+    );
+    const fitScore = this.computeFitScore(breakdown);
+
+    this.logger.log(
+      `Generating fit analysis for developer ${developerId}, job profile ${jobProfileId} (fit ${fitScore})`,
+    );
+
+    const result = await this.aiService.generateFitAnalysis(
+      {
+        name: jobProfile.name,
+        description: jobProfile.description,
+        requiredStacks: jobProfile.requiredStacks,
+        seniority: jobProfile.seniority,
+        mustHavePractices: jobProfile.mustHavePractices,
+      },
+      {
+        fitScore,
+        matchedStacks: breakdown.stacks.matched,
+        missingStacks: breakdown.stacks.missing,
+        practices: breakdown.practices.items,
+        expectedSeniority: breakdown.seniority.expected,
+        observedSeniority: breakdown.seniority.observed,
+      },
+      projects.map((project) => ({
+        name: project.name,
+        projectType: project.projectType,
+        score: project.score,
+        techStack: project.techStack,
+        strengths: project.strengths,
+        weaknesses: project.weaknesses,
+        technicalAssessment: project.raw?.technicalAssessment,
+        errorHandling: project.raw?.errorHandling,
+        securityIssues: project.raw?.securityIssues || [],
+        riskFlags: project.raw?.riskFlags || [],
+      })),
+      developer.technicalProfile?.developerType || null,
+      { developerId },
+    );
+
+    const data = {
+      fitScore,
+      breakdown: JSON.parse(JSON.stringify(breakdown)),
+      summary: result.summary,
+      gaps: result.gaps,
+      interviewQuestions: result.interviewQuestions,
+      lowConfidence: result.outputQuality?.lowConfidence ?? false,
+      promptVersion: result.promptVersion,
+      generatedAt: new Date(),
+    };
+
+    const saved = await this.prisma.fitAnalysis.upsert({
+      where: {
+        jobProfileId_developerId: { jobProfileId, developerId },
+      },
+      create: { jobProfileId, developerId, ...data },
+      update: data,
+      include: { jobProfile: { select: { name: true, updatedAt: true } } },
+    });
+
+    return this.mapToDto(saved, developer.hiringReport?.updatedAt ?? null);
+  }
+
+  /**
+   * Get the stored fit analysis for a developer
+   */
+  async getFitAnalysis(
+    companyId: number,
+    jobProfileId: number,
+    developerId: number,
+  ): Promise<FitAnalysisDto> {
+    await this.assertReportAccess(companyId, developerId);
+
+    const fitAnalysis = await this.prisma.fitAnalysis.findFirst({
+      where: { jobProfileId, developerId, jobProfile: { companyId } },
+      include: {
+        jobProfile: { select: { name: true, updatedAt: true } },
+        developer: {
+          select: { hiringReport: { select: { updatedAt: true } } },
+        },
+      },
+    });
+
+    if (!fitAnalysis) {
+      throw new NotFoundException('Fit analysis not found');
+    }
+
+    return this.mapToDto(
+      fitAnalysis,
+      fitAnalysis.developer.hiringReport?.updatedAt ?? null,
+    );
+  }
+
+  /**
+   * Fit analyses of a job profile, best fit first
+   * Developers no longer visible to companies are left out
+   */
+  async getFitAnalysesForProfile(
+    companyId: number,
+    jobProfileId: number,
+  ): Promise<FitAnalysisListDto> {
+    const jobProfile = await this.prisma.jobProfile.findFirst({
+      where: { id: jobProfileId, companyId },
+    });
+
+    if (!jobProfile) {
+      throw new NotFoundException('Job profile not found');
+    }
+
+    const fitAnalyses = await this.prisma.fitAnalysis.findMany({
+      where: { jobProfileId, developer: { isVisible: true } },
+      include: {
+        jobProfile: { select: { name: true, updatedAt: true } },
+        developer: {
+          select: { hiringReport: { select: { updatedAt: true } } },
+        },
+      },
+      orderBy: [{ fitScore: 'desc' }, { generatedAt: 'desc' }],
+    });
+
+    return {
+      fitAnalyses: fitAnalyses.map((fitAnalysis) =>
+        this.mapToDto(
+          fitAnalysis,
+          fitAnalysis.developer.hiringReport?.updatedAt ?? null,
+        ),
+      ),
+      total: fitAnalyses.length,
+    };
+  }
+
+  /**
+   * All of a company's fit analyses for one developer (pipeline entry)
+   * Callers check that the report is unlocked
+   */
+  async getFitAnalysesForDeveloper(
+    companyId: number,
+    developerId: number,
+  ): Promise<FitAnalysisDto[]> {
+    const fitAnalyses = await this.prisma.fitAnalysis.findMany({
+      where: { developerId, jobProfile: { companyId } },
+      include: {
+        jobProfile: { select: { name: true, updatedAt: true } },
+        developer: {
+          select: { hiringReport: { select: { updatedAt: true } } },
+        },
+      },
+      orderBy: { fitScore: 'desc' },
+    });
+
+    return fitAnalyses.map((fitAnalysis) =>
+      this.mapToDto(
+        fitAnalysis,
+        fitAnalysis.developer.hiringReport?.updatedAt ?? null,
+      ),
+    );
+  }
+
+  // ========================================
+  // PRIVATE HELPER METHODS
+  // ========================================
+
+  /**
+   * Fit analyses are built on the report, so they need the same access
+   */
+  private async assertReportAccess(
+    companyId: number,
+    developerId: number,
+  ): Promise<void> {
+    const developer = await this.prisma.developer.findUnique({
+      where: { id: developerId },
+      select: { isVisible: true },
+    });
+
+    if (!developer) {
+      throw new NotFoundException('Developer not found');
+    }
+
+    if (!developer.isVisible) {
+      throw new ForbiddenException(
+        'Developer profile is no longer visible to companies',
+      );
+    }
+
+    const unlock = await this.prisma.unlockedReport.findUnique({
+      where: {
+        companyId_developerId: { companyId, developerId },
+      },
+    });
+
+    if (!unlock) {
+      throw new ForbiddenException(
+        'You have not unlocked this report. Please unlock it first.',
+      );
+    }
+  }
+
+  private mapToDto(
+    fitAnalysis: FitAnalysisWithProfile,
+    hiringReportUpdatedAt: Date | null,
+  ): FitAnalysisDto {
+    return {
+      id: fitAnalysis.id,
+      jobProfileId: fitAnalysis.jobProfileId,
+      jobProfileName: fitAnalysis.jobProfile.name,
+      developerId: fitAnalysis.developerId,
+      fitScore: fitAnalysis.fitScore,
+      breakdown: fitAnalysis.breakdown as FitBreakdownDto,
+      summary: fitAnalysis.summary,
+      gaps: fitAnalysis.gaps,
+      interviewQuestions: fitAnalysis.interviewQuestions,
+      lowConfidence: fitAnalysis.lowConfidence,
+      promptVersion: fitAnalysis.promptVersion || undefined,
+      isStale:
+        fitAnalysis.jobProfile.updatedAt > fitAnalysis.generatedAt ||
+        (hiringReportUpdatedAt !== null &&
+          hiringReportUpdatedAt > fitAnalysis.generatedAt),
+      generatedAt: fitAnalysis.generatedAt,
+    };
+  }
+
+  /**
+   * Score each fit dimension from the analyses (0-100)
+   */
+  private computeBreakdown(
+    jobProfile: {
+      requiredStacks: string[];
+      mustHavePractices: string[];
+      seniority: string;
+      weights: JobProfileWeightsDto;
+    },
+    projects: AnalyzedProject[],
+    juniorLevel: string | null,
+  ): FitBreakdownDto {
+    const { weights } = jobProfile;
+
+    // Stacks: the AI-detected stack and the declared project stack count
+    const evidenceStacks = new Set(
+      projects
+        .flatMap((p) => [...p.techStack, ...(p.raw?.techStack ?? [])])
+        .map((stack) => this.normalizeStack(stack)),
+    );
+    const matched = jobProfile.requiredStacks.filter((stack) =>
+      evidenceStacks.has(this.normalizeStack(stack)),
+    );
+    const missing = jobProfile.requiredStacks.filter(
+      (stack) => !matched.includes(stack),
+    );
+
+    // Practices: demonstrated in at least one project
+    const practices = jobProfile.mustHavePractices.map((practice) =>
+      this.assessPractice(practice, projects),
+    );
+
+    // Seniority: the hiring report level, else the average project score
+    const averageScore =
+      projects.reduce((sum, p) => sum + p.score, 0) / projects.length;
+    const observed =
+      (juniorLevel && JUNIOR_LEVEL_TO_SENIORITY[juniorLevel]) ||
+      (averageScore >= 75
+        ? 'STRONG_JUNIOR'
+        : averageScore >= 50
+          ? 'JUNIOR'
+          : 'ENTRY');
+    const levelsBelow =
+      SENIORITY_LEVELS.indexOf(jobProfile.seniority) -
+      SENIORITY_LEVELS.indexOf(observed);
+
+    return {
+      stacks: {
+        score: this.percentage(
+          matched.length,
+          jobProfile.requiredStacks.length,
+        ),
+        weight: weights.stacks,
+        matched,
+        missing,
+      },
+      practices: {
+        score:
+          practices.length > 0
+            ? Math.round(
+                (practices.reduce(
+                  (sum, p) => sum + EVIDENCE_SCORES[p.evidence],
+                  0,
+                ) /
+                  practices.length) *
+                  100,
+              )
+            : 100,
+        weight: weights.practices,
+        items: practices,
+      },
+      seniority: {
+        score: levelsBelow <= 0 ? 100 : levelsBelow === 1 ? 50 : 0,
+        weight: weights.seniority,
+        expected: jobProfile.seniority,
+        observed,
+      },
+      codeQuality: {
+        score: Math.round(averageScore),
+        weight: weights.codeQuality,
+        projectCount: projects.length,
+      },
+    };
+  }
+
+  /**
+   * Weighted average of the dimension scores
+   */
+  private computeFitScore(breakdown: FitBreakdownDto): number {
+    const dimensions = [
+      breakdown.stacks,
+      breakdown.practices,
+      breakdown.seniority,
+      breakdown.codeQuality,
+    ];
+    const totalWeight = dimensions.reduce((sum, d) => sum + d.weight, 0);
+    if (totalWeight === 0) return 0;
+
+    return Math.round(
+      dimensions.reduce((sum, d) => sum + d.score * d.weight, 0) / totalWeight,
+    );
+  }
+
+  /**
+   * Best evidence of a practice across projects
+   * SECURITY is the exception: any security issue counts against it
+   */
+  private assessPractice(
+    practice: string,
+    projects: AnalyzedProject[],
+  ): FitPracticeDto {
+    if (practice === 'SECURITY') {
+      const affected = projects.filter(
+        (p) => (p.raw?.securityIssues ?? []).length > 0,
+      );
+      return affected.length === 0
+        ? {
+            practice,
+            evidence: 'DEMONSTRATED',
+            detail: 'No security issues found',
+          }
+        : {
+            practice,
+            evidence: 'MISSING',
+            detail: `Security issues in ${affected.map((p) => p.name).join(', ')}`,
+          };
+    }
+
+    const assessments = projects.map((project) =>
+      this.assessProjectPractice(practice, project),
+    );
+    const best = assessments.reduce((a, b) =>
+      EVIDENCE_SCORES[b.evidence] > EVIDENCE_SCORES[a.evidence] ? b : a,
+    );
+
+    return { practice, ...best };
+  }
+
+  private assessProjectPractice(
+    practice: string,
+    project: AnalyzedProject,
+  ): Omit<FitPracticeDto, 'practice'> {
+    const tooling = project.codeMetrics?.tooling;
+    const missing = (detail: string) => ({ evidence: 'MISSING', detail });
+
+    switch (practice) {
+      case 'TESTING': {
+        const testFiles = project.codeMetrics?.testFileCount ?? 0;
+        if (tooling?.testFramework && testFiles > 0) {
+          return {
+            evidence: 'DEMONSTRATED',
+            detail: `${testFiles} test files in ${project.name}`,
+          };
+        }
+        if (tooling?.testFramework || testFiles > 0) {
+          return {
+            evidence: 'PARTIAL',
+            detail: tooling?.testFramework
+              ? `Test framework configured but no test files in ${project.name}`
+              : `${testFiles} test files without a test framework in ${project.name}`,
+          };
+        }
+        return missing('No tests in any project');
+      }
+      case 'TYPESCRIPT':
+        return tooling?.typescript ||
+          project.techStack.some(
+            (stack) => this.normalizeStack(stack) === 'typescript',
+          )
+          ? {
+              evidence: 'DEMONSTRATED',
+              detail: `TypeScript in ${project.name}`,
+            }
+          : missing('No TypeScript project');
+      case 'LINTING':
+        if (tooling?.linter && tooling.formatter) {
+          return {
+            evidence: 'DEMONSTRATED',
+            detail: `Linter and formatter in ${project.name}`,
+          };
+        }
+        return tooling?.linter || tooling?.formatter
+          ? {
+              evidence: 'PARTIAL',
+              detail: `${tooling.linter ? 'Linter' : 'Formatter'} only in ${project.name}`,
+            }
+          : missing('No linter or formatter configured');
+      case 'CI':
+        return tooling?.ci
+          ? {
+              evidence: 'DEMONSTRATED',
+              detail: `CI pipeline in ${project.name}`,
+            }
+          : missing('No CI pipeline configured');
+      case 'ERROR_HANDLING': {
+        const quality = project.raw?.errorHandling?.quality;
+        if (quality === 'GOOD') {
+          return {
+            evidence: 'DEMONSTRATED',
+            detail: `Good error handling in ${project.name}`,
+          };
+        }
+        return quality === 'PARTIAL'
+          ? {
+              evidence: 'PARTIAL',
+              detail: `Partial error handling in ${project.name}`,
+            }
+          : missing('Error handling is poor or missing');
+      }
+      default:
+        return missing('No evidence');
+    }
+  }
+
+  /**
+   * Comparable stack name: "Node.js", "NodeJS" and "node" all match
+   */
+  private normalizeStack(stack: string): string {
+    const normalized = stack.toLowerCase().replace(/[\s._-]/g, '');
+    return normalized.replace(/js$/, '') || normalized;
+  }
+
+  private percentage(part: number, total: number): number {
+    return total > 0 ? Math.round((part / total) * 100) : 100;
+  }
+}
@@ -0,0 +1,5 @@
+export * from './job-profile.module';
+export * from './job-profile.service';
+export * from './fit-analysis.service';
+export * from './job-profile.controller';
+export * from './dto';
@@ -0,0 +1,203 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  ParseIntPipe,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { JobProfileService } from './job-profile.service';
+import { FitAnalysisService } from './fit-analysis.service';
+import {
+  JobProfileDto,
+  JobProfileListDto,
+  CreateJobProfileDto,
+  UpdateJobProfileDto,
+  FitAnalysisDto,
+  FitAnalysisListDto,
+} from './dto';
+import { GetCurrentUserTableId, Roles } from 'src/common/decorators';
+
+@ApiTags('Company Job Profiles')
+@ApiBearerAuth()
+@Roles('COMPANY')
+@Controller('company/job-profiles')
+export class JobProfileController {
+  constructor(
+    private readonly jobProfileService: JobProfileService,
+    private readonly fitAnalysisService: FitAnalysisService,
+  ) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Get all job profiles for the company' })
+  @ApiResponse({
+    status: 200,
+    description: 'List of job profiles',
+    type: JobProfileListDto,
+  })
+  async getJobProfiles(
+    @GetCurrentUserTableId() companyId: number,
+  ): Promise<JobProfileListDto> {
+    return this.jobProfileService.getJobProfiles(companyId);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a single job profile by ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Job profile details',
+    type: JobProfileDto,
+  })
+  @ApiResponse({ status: 404, description: 'Job profile not found' })
+  async getJobProfile(
+    @GetCurrentUserTableId() companyId: number,
+    @Param('id', ParseIntPipe) jobProfileId: number,
+  ): Promise<JobProfileDto> {
+    return this.jobProfileService.getJobProfile(companyId, jobProfileId);
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Create a new job profile' })
+  @ApiResponse({
+    status: 201,
+    description: 'Job profile created',
+    type: JobProfileDto,
+  })
+  @ApiResponse({ status: 400, description: 'All weights are zero' })
+  @ApiResponse({
+    status: 409,
+    description: 'Job profile with this name already exists',
+  })
+  async createJobProfile(
+    @GetCurrentUserTableId() companyId: number,
+    @Body() dto: CreateJobProfileDto,
+  ): Promise<JobProfileDto> {
+    return this.jobProfileService.createJobProfile(companyId, dto);
+  }
+
+  @Patch(':id')
+  @ApiOperation({
+    summary: 'Update a job profile',
+    description: 'Existing fit analyses are kept and marked as stale',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Job profile updated',
+    type: JobProfileDto,
+  })
+  @ApiResponse({ status: 400, description: 'All weights are zero' })
+  @ApiResponse({ status: 404, description: 'Job profile not found' })
+  @ApiResponse({
+    status: 409,
+    description: 'Job profile with this name already exists',
+  })
+  async updateJobProfile(
+    @GetCurrentUserTableId() companyId: number,
+    @Param('id', ParseIntPipe) jobProfileId: number,
+    @Body() dto: UpdateJobProfileDto,
+  ): Promise<JobProfileDto> {
+    return this.jobProfileService.updateJobProfile(
+      companyId,
+      jobProfileId,
+      dto,
+    );
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete a job profile and its fit analyses' })
+  @ApiResponse({ status: 204, description: 'Job profile deleted' })
+  @ApiResponse({ status: 404, description: 'Job profile not found' })
+  async deleteJobProfile(
+    @GetCurrentUserTableId() companyId: number,
+    @Param('id', ParseIntPipe) jobProfileId: number,
+  ): Promise<void> {
+    return this.jobProfileService.deleteJobProfile(companyId, jobProfileId);
+  }
+
+  // ========================================
+  // FIT ANALYSIS
+  // ========================================
+
+  @Get(':id/fit')
+  @ApiOperation({ summary: 'Get fit analyses for a job profile, best first' })
+  @ApiResponse({
+    status: 200,
+    description: 'List of fit analyses',
+    type: FitAnalysisListDto,
+  })
+  @ApiResponse({ status: 404, description: 'Job profile not found' })
+  async getFitAnalyses(
+    @GetCurrentUserTableId() companyId: number,
+    @Param('id', ParseIntPipe) jobProfileId: number,
+  ): Promise<FitAnalysisListDto> {
+    return this.fitAnalysisService.getFitAnalysesForProfile(
+      companyId,
+      jobProfileId,
+    );
+  }
+
+  @Get(':id/fit/:developerId')
+  @ApiOperation({ summary: "Get a developer's fit for a job profile" })
+  @ApiResponse({
+    status: 200,
+    description: 'Fit analysis',
+    type: FitAnalysisDto,
+  })
+  @ApiResponse({ status: 403, description: 'Report not unlocked' })
+  @ApiResponse({ status: 404, description: 'Fit analysis not found' })
+  async getFitAnalysis(
+    @GetCurrentUserTableId() companyId: number,
+    @Param('id', ParseIntPipe) jobProfileId: number,
+    @Param('developerId', ParseIntPipe) developerId: number,
+  ): Promise<FitAnalysisDto> {
+    return this.fitAnalysisService.getFitAnalysis(
+      companyId,
+      jobProfileId,
+      developerId,
+    );
+  }
+
+  @Post(':id/fit/:developerId')
+  @ApiOperation({
+    summary: 'Generate a fit analysis',
+    description:
+      'Scores the developer against the job profile from the existing project analyses (no code is re-fetched) and generates gaps and tailored interview questions. Regenerates an existing analysis.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Fit analysis generated',
+    type: FitAnalysisDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Developer has no completed project analyses',
+  })
+  @ApiResponse({ status: 403, description: 'Report not unlocked' })
+  @ApiResponse({
+    status: 404,
+    description: 'Job profile or developer not found',
+  })
+  @ApiResponse({ status: 503, description: 'Monthly AI budget reached' })
+  async generateFitAnalysis(
+    @GetCurrentUserTableId() companyId: number,
+    @Param('id', ParseIntPipe) jobProfileId: number,
+    @Param('developerId', ParseIntPipe) developerId: number,
+  ): Promise<FitAnalysisDto> {
+    return this.fitAnalysisService.generateFitAnalysis(
+      companyId,
+      jobProfileId,
+      developerId,
+    );
+  }
+}
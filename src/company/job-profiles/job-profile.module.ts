@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { JobProfileController } from './job-profile.controller';
+import { JobProfileService } from './job-profile.service';
+import { FitAnalysisService } from './fit-analysis.service';
+import { PrismaModule } from '../../prisma/prisma.module';
+
+@Module({
+  imports: [PrismaModule],
+  controllers: [JobProfileController],
+  providers: [JobProfileService, FitAnalysisService],
+  exports: [JobProfileService, FitAnalysisService],
+})
+export class JobProfileModule {}
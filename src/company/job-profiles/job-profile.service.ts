@@ -0,0 +1,268 @@
+import {
+  Injectable,
+  NotFoundException,
+  ConflictException,
+  BadRequestException,
+} from '@nestjs/common';
+import { PrismaService } from '../../prisma/prisma.service';
+import {
+  JobProfileDto,
+  JobProfileListDto,
+  JobProfileWeightsDto,
+  CreateJobProfileDto,
+  UpdateJobProfileDto,
+} from './dto';
+
+export const DEFAULT_JOB_PROFILE_WEIGHTS: JobProfileWeightsDto = {
+  stacks: 4,
+  practices: 3,
+  seniority: 2,
+  codeQuality: 1,
+};
+
+type JobProfileWithCount = {
+  id: number;
+  companyId: number;
+  name: string;
+  description: string | null;
+  requiredStacks: string[];
+  seniority: string;
+  mustHavePractices: string[];
+  weights: unknown;
+  createdAt: Date;
+  updatedAt: Date;
+  _count: { fitAnalyses: number };
+};
+
+@Injectable()
+export class JobProfileService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Get all job profiles for a company
+   */
+  async getJobProfiles(companyId: number): Promise<JobProfileListDto> {
+    const jobProfiles = await this.prisma.jobProfile.findMany({
+      where: { companyId },
+      include: {
+        _count: {
+          select: { fitAnalyses: true },
+        },
+      },
+      orderBy: { name: 'asc' },
+    });
+
+    return {
+      jobProfiles: jobProfiles.map((profile) => this.mapToDto(profile)),
+      total: jobProfiles.length,
+    };
+  }
+
+  /**
+   * Get a single job profile by ID
+   */
+  async getJobProfile(
+    companyId: number,
+    jobProfileId: number,
+  ): Promise<JobProfileDto> {
+    const jobProfile = await this.prisma.jobProfile.findFirst({
+      where: { id: jobProfileId, companyId },
+      include: {
+        _count: {
+          select: { fitAnalyses: true },
+        },
+      },
+    });
+
+    if (!jobProfile) {
+      throw new NotFoundException('Job profile not found');
+    }
+
+    return this.mapToDto(jobProfile);
+  }
+
+  /**
+   * Create a new job profile
+   */
+  async createJobProfile(
+    companyId: number,
+    dto: CreateJobProfileDto,
+  ): Promise<JobProfileDto> {
+    const existing = await this.prisma.jobProfile.findUnique({
+      where: {
+        companyId_name: { companyId, name: dto.name },
+      },
+    });
+
+    if (existing) {
+      throw new ConflictException(
+        'A job profile with this name already exists',
+      );
+    }
+
+    const jobProfile = await this.prisma.jobProfile.create({
+      data: {
+        companyId,
+        name: dto.name,
+        description: dto.description,
+        requiredStacks: this.uniqueStacks(dto.requiredStacks),
+        seniority: dto.seniority,
+        mustHavePractices: [...new Set(dto.mustHavePractices ?? [])],
+        weights: JSON.parse(
+          JSON.stringify(
+            this.mergeWeights(DEFAULT_JOB_PROFILE_WEIGHTS, dto.weights),
+          ),
+        ),
+      },
+      include: {
+        _count: {
+          select: { fitAnalyses: true },
+        },
+      },
+    });
+
+    return this.mapToDto(jobProfile);
+  }
+
+  /**
+   * Update an existing job profile
+   * Existing fit analyses are kept and reported as stale
+   */
+  async updateJobProfile(
+    companyId: number,
+    jobProfileId: number,
+    dto: UpdateJobProfileDto,
+  ): Promise<JobProfileDto> {
+    const jobProfile = await this.prisma.jobProfile.findFirst({
+      where: { id: jobProfileId, companyId },
+    });
+
+    if (!jobProfile) {
+      throw new NotFoundException('Job profile not found');
+    }
+
+    // If changing name, check for conflicts
+    if (dto.name && dto.name !== jobProfile.name) {
+      const existing = await this.prisma.jobProfile.findUnique({
+        where: {
+          companyId_name: { companyId, name: dto.name },
+        },
+      });
+
+      if (existing) {
+        throw new ConflictException(
+          'A job profile with this name already exists',
+        );
+      }
+    }
+
+    const updated = await this.prisma.jobProfile.update({
+      where: { id: jobProfileId },
+      data: {
+        ...(dto.name && { name: dto.name }),
+        ...(dto.description !== undefined && {
+          description: dto.description || null,
+        }),
+        ...(dto.requiredStacks && {
+          requiredStacks: this.uniqueStacks(dto.requiredStacks),
+        }),
+        ...(dto.seniority && { seniority: dto.seniority }),
+        ...(dto.mustHavePractices && {
+          mustHavePractices: [...new Set(dto.mustHavePractices)],
+        }),
+        ...(dto.weights && {
+          weights: JSON.parse(
+            JSON.stringify(
+              this.mergeWeights(
+                jobProfile.weights as unknown as JobProfileWeightsDto,
+                dto.weights,
+              ),
+            ),
+          ),
+        }),
+      },
+      include: {
+        _count: {
+          select: { fitAnalyses: true },
+        },
+      },
+    });
+
+    return this.mapToDto(updated);
+  }
+
+  /**
+   * Delete a job profile
+   */
+  async deleteJobProfile(
+    companyId: number,
+    jobProfileId: number,
+  ): Promise<void> {
+    const jobProfile = await this.prisma.jobProfile.findFirst({
+      where: { id: jobProfileId, companyId },
+    });
+
+    if (!jobProfile) {
+      throw new NotFoundException('Job profile not found');
+    }
+
+    // Cascade delete will remove its fit analyses
+    await this.prisma.jobProfile.delete({
+      where: { id: jobProfileId },
+    });
+  }
+
+  // ========================================
+  // PRIVATE HELPER METHODS
+  // ========================================
+
+  private mapToDto(jobProfile: JobProfileWithCount): JobProfileDto {
+    return {
+      id: jobProfile.id,
+      companyId: jobProfile.companyId,
+      name: jobProfile.name,
+      description: jobProfile.description || undefined,
+      requiredStacks: jobProfile.requiredStacks,
+      seniority: jobProfile.seniority,
+      mustHavePractices: jobProfile.mustHavePractices,
+      weights: jobProfile.weights as JobProfileWeightsDto,
+      fitAnalysisCount: jobProfile._count.fitAnalyses,
+      createdAt: jobProfile.createdAt,
+      updatedAt: jobProfile.updatedAt,
+    };
+  }
+
+  /**
+   * Apply the provided weights; at least one must stay above zero
+   */
+  private mergeWeights(
+    current: JobProfileWeightsDto,
+    changes: Partial<JobProfileWeightsDto> | undefined,
+  ): JobProfileWeightsDto {
+    const weights: JobProfileWeightsDto = {
+      stacks: changes?.stacks ?? current.stacks,
+      practices: changes?.practices ?? current.practices,
+      seniority: changes?.seniority ?? current.seniority,
+      codeQuality: changes?.codeQuality ?? current.codeQuality,
+    };
+
+    if (Object.values(weights).every((weight) => weight === 0)) {
+      throw new BadRequestException('At least one weight must be above zero');
+    }
+
+    return weights;
+  }
+
+  // Case-insensitive de-duplication, keeping the first spelling
+  private uniqueStacks(stacks: string[]): string[] {
+    const seen = new Set<string>();
+    return stacks
+      .map((stack) => stack.trim())
+      .filter((stack) => {
+        const key = stack.toLowerCase();
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+  }
+}
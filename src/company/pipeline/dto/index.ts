@@ -6,3 +6,4 @@ export * from './set-pipeline-tags.dto';
 export * from './update-notes.dto';
 export * from './create-invitation.dto';
 export * from './invitation-info.dto';
+export * from './interview-score.dto';
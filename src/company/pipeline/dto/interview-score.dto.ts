@@ -0,0 +1,97 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+/**
+ * Score for one interview kit question
+ */
+export class SetInterviewScoreDto {
+  @ApiProperty({ description: 'Interview kit question ID', example: 'q1' })
+  @IsString()
+  @IsNotEmpty()
+  questionId: string;
+
+  @ApiProperty({
+    description:
+      '1 = red flags confirmed, 3 = partly matches the good answer, 5 = matches or exceeds it',
+    minimum: 1,
+    maximum: 5,
+  })
+  @IsInt()
+  @Min(1)
+  @Max(5)
+  score: number;
+
+  @ApiPropertyOptional({
+    description: 'Interviewer notes (max 2000 chars)',
+    maxLength: 2000,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  notes?: string;
+}
+
+/**
+ * Record interview scores (other questions keep their score)
+ */
+export class SetInterviewScoresDto {
+  @ApiProperty({ type: [SetInterviewScoreDto] })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(20)
+  @ValidateNested({ each: true })
+  @Type(() => SetInterviewScoreDto)
+  scores: SetInterviewScoreDto[];
+}
+
+export class InterviewScoreDto {
+  @ApiProperty({ example: 'q1' })
+  questionId: string;
+
+  @ApiProperty({ description: 'Question text when it was scored' })
+  question: string;
+
+  @ApiProperty({ minimum: 1, maximum: 5 })
+  score: number;
+
+  @ApiPropertyOptional()
+  notes?: string;
+
+  @ApiProperty()
+  updatedAt: Date;
+}
+
+/**
+ * Interview scores recorded against a pipeline entry
+ */
+export class InterviewScorecardDto {
+  @ApiProperty({ description: 'Pipeline entry ID' })
+  pipelineEntryId: number;
+
+  @ApiProperty({ type: [InterviewScoreDto] })
+  scores: InterviewScoreDto[];
+
+  @ApiProperty({ description: 'Questions in the current interview kit' })
+  questionCount: number;
+
+  @ApiProperty({ description: 'Questions of the current kit with a score' })
+  scoredCount: number;
+
+  @ApiPropertyOptional({
+    description: 'Average score (1-5) over all recorded scores',
+  })
+  averageScore?: number;
+}
@@ -1,4 +1,5 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { FitAnalysisDto } from '../../job-profiles/dto';
 
 /**
  * Developer info for pipeline entry
@@ -137,4 +138,11 @@ export class PipelineEntryDto {
     enum: ['PENDING', 'EXPIRED', 'TRACKED'],
   })
   invitationStatus?: 'PENDING' | 'EXPIRED' | 'TRACKED';
+
+  // Job profile fit (single entry, unlocked reports only)
+  @ApiPropertyOptional({
+    description: 'Fit analyses for the company job profiles, best fit first',
+    type: [FitAnalysisDto],
+  })
+  fitAnalyses?: FitAnalysisDto[];
 }
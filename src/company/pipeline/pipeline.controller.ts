@@ -3,6 +3,7 @@ import {
   Get,
   Post,
   Patch,
+  Put,
   Delete,
   Param,
   Body,
@@ -11,6 +12,8 @@ import {
   HttpCode,
   HttpStatus,
   NotFoundException,
+  Sse,
+  MessageEvent,
 } from '@nestjs/common';
 import {
   ApiTags,
@@ -20,7 +23,8 @@ import {
   ApiParam,
   ApiQuery,
 } from '@nestjs/swagger';
-import { GetCurrentUserTableId, Public } from '../../common/decorators';
+import { Observable } from 'rxjs';
+import { GetCurrentUserTableId, Public, Roles } from '../../common/decorators';
 import { PipelineService } from './pipeline.service';
 import {
   PipelineEntryDto,
@@ -32,10 +36,13 @@ import {
   CreateInvitationDto,
   UpdateNotesDto,
   InvitationInfoDto,
+  SetInterviewScoresDto,
+  InterviewScorecardDto,
 } from './dto';
 
 @ApiTags('Company - Pipeline')
 @ApiBearerAuth()
+@Roles('COMPANY')
 @Controller('company/pipeline')
 export class PipelineController {
   constructor(private pipelineService: PipelineService) {}
@@ -95,6 +102,19 @@ export class PipelineController {
     return this.pipelineService.getPipelineStats(companyId);
   }
 
+  @Sse('events')
+  @ApiOperation({
+    summary: 'Stream pipeline stage changes (Server-Sent Events)',
+    description:
+      "Pushes a pipeline.stage event whenever one of the company's candidates changes stage. Sends a heartbeat every 25s.",
+  })
+  @ApiResponse({ status: 200, description: 'text/event-stream' })
+  streamEvents(
+    @GetCurrentUserTableId() companyId: number,
+  ): Observable<MessageEvent> {
+    return this.pipelineService.streamEvents(companyId);
+  }
+
   @Post('invite')
   @HttpCode(HttpStatus.CREATED)
   @ApiOperation({
@@ -162,7 +182,8 @@ export class PipelineController {
   @Get(':entryId')
   @ApiOperation({
     summary: 'Get single pipeline entry',
-    description: 'Get pipeline entry by ID',
+    description:
+      'Get pipeline entry by ID, with job profile fit analyses once the report is unlocked',
   })
   @ApiParam({ name: 'entryId', description: 'Pipeline entry ID' })
   @ApiResponse({
@@ -235,6 +256,65 @@ export class PipelineController {
     return this.pipelineService.setTags(companyId, entryId, dto.tagIds);
   }
 
+  @Get(':entryId/interview-scores')
+  @ApiOperation({
+    summary: 'Get interview scores',
+    description:
+      'Per-question interview scores recorded against the interview kit of the developer',
+  })
+  @ApiParam({ name: 'entryId', description: 'Pipeline entry ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Interview scorecard',
+    type: InterviewScorecardDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Report not unlocked',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Pipeline entry not found',
+  })
+  async getInterviewScores(
+    @GetCurrentUserTableId() companyId: number,
+    @Param('entryId', ParseIntPipe) entryId: number,
+  ): Promise<InterviewScorecardDto> {
+    return this.pipelineService.getInterviewScores(companyId, entryId);
+  }
+
+  @Put(':entryId/interview-scores')
+  @ApiOperation({
+    summary: 'Record interview scores',
+    description:
+      'Score interview kit questions from 1 to 5. Questions not sent keep their score.',
+  })
+  @ApiParam({ name: 'entryId', description: 'Pipeline entry ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Scores recorded',
+    type: InterviewScorecardDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'No interview kit yet or unknown question ID',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Report not unlocked',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Pipeline entry not found',
+  })
+  async setInterviewScores(
+    @GetCurrentUserTableId() companyId: number,
+    @Param('entryId', ParseIntPipe) entryId: number,
+    @Body() dto: SetInterviewScoresDto,
+  ): Promise<InterviewScorecardDto> {
+    return this.pipelineService.setInterviewScores(companyId, entryId, dto);
+  }
+
   @Delete(':entryId')
   @HttpCode(HttpStatus.NO_CONTENT)
   @ApiOperation({
@@ -1,8 +1,11 @@
 import { Module } from '@nestjs/common';
 import { PipelineController, InvitationPublicController } from './pipeline.controller';
 import { PipelineService } from './pipeline.service';
+import { JobProfileModule } from '../job-profiles/job-profile.module';
+import { ReportModule } from '../reports/report.module';
 
 @Module({
+  imports: [JobProfileModule, ReportModule],
   controllers: [PipelineController, InvitationPublicController],
   providers: [PipelineService],
   exports: [PipelineService],
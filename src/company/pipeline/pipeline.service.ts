@@ -4,9 +4,14 @@ import {
   BadRequestException,
   ForbiddenException,
   ConflictException,
+  MessageEvent,
 } from '@nestjs/common';
+import { Observable } from 'rxjs';
 import { PrismaService } from '../../prisma/prisma.service';
 import { EmailService } from '../../email/email.service';
+import { RealtimeEventsService } from '../../events';
+import { FitAnalysisService } from '../job-profiles/fit-analysis.service';
+import { InterviewKitService } from '../reports/interview-kit.service';
 import { PipelineStage } from '../../../prisma/generated/prisma';
 import {
   PipelineEntryDto,
@@ -18,6 +23,8 @@ import {
   CreateInvitationDto,
   UpdateNotesDto,
   InvitationInfoDto,
+  SetInterviewScoresDto,
+  InterviewScorecardDto,
 } from './dto';
 
 // Type for pipeline entry with includes used in mapping (registered developers)
@@ -54,8 +61,18 @@ export class PipelineService {
   constructor(
     private prisma: PrismaService,
     private emailService: EmailService,
+    private realtimeEvents: RealtimeEventsService,
+    private fitAnalysisService: FitAnalysisService,
+    private interviewKitService: InterviewKitService,
   ) {}
 
+  /**
+   * Live pipeline stage changes for the company's candidates
+   */
+  streamEvents(companyId: number): Observable<MessageEvent> {
+    return this.realtimeEvents.companyStream(companyId);
+  }
+
   /**
    * Compute invitation status from entry data
    */
@@ -784,6 +801,16 @@ export class PipelineService {
       },
     });
 
+    if (entry.stage !== stage) {
+      this.realtimeEvents.emitToCompany(companyId, {
+        type: 'pipeline.stage',
+        entryId,
+        developerId: entry.developerId,
+        stage,
+        previousStage: entry.stage,
+      });
+    }
+
     // Check if unlocked
     const unlocked = await this.prisma.unlockedReport.findUnique({
       where: {
@@ -872,7 +899,7 @@ export class PipelineService {
       isUnlocked = !!unlocked;
     }
 
-    return this.mapEntryToDto(
+    const dto = this.mapEntryToDto(
       {
         ...entry,
         developer: entry.developer
@@ -884,6 +911,17 @@ export class PipelineService {
       },
       isUnlocked,
     );
+
+    // Job profile fit is shown next to the unlocked report
+    if (entry.developerId && isUnlocked) {
+      dto.fitAnalyses =
+        await this.fitAnalysisService.getFitAnalysesForDeveloper(
+          companyId,
+          entry.developerId,
+        );
+    }
+
+    return dto;
   }
 
   /**
@@ -934,7 +972,7 @@ export class PipelineService {
       },
     });
 
-    return this.mapEntryToDto(
+    const dto = this.mapEntryToDto(
       {
         ...entry,
         developer: entry.developer
@@ -946,6 +984,17 @@ export class PipelineService {
       },
       !!unlocked,
     );
+
+    // Job profile fit is shown next to the unlocked report
+    if (unlocked) {
+      dto.fitAnalyses =
+        await this.fitAnalysisService.getFitAnalysesForDeveloper(
+          companyId,
+          developerId,
+        );
+    }
+
+    return dto;
   }
 
   /**
@@ -1052,6 +1101,71 @@ export class PipelineService {
     ) as Promise<PipelineEntryDto>;
   }
 
+  /**
+   * Get the interview scorecard for a pipeline entry
+   */
+  async getInterviewScores(
+    companyId: number,
+    entryId: number,
+  ): Promise<InterviewScorecardDto> {
+    const entry = await this.findScorableEntry(companyId, entryId);
+    return this.buildScorecard(entry.id, entry.developerId);
+  }
+
+  /**
+   * Record per-question interview scores against the current interview kit
+   */
+  async setInterviewScores(
+    companyId: number,
+    entryId: number,
+    dto: SetInterviewScoresDto,
+  ): Promise<InterviewScorecardDto> {
+    const entry = await this.findScorableEntry(companyId, entryId);
+
+    const questions = await this.interviewKitService.findQuestions(
+      entry.developerId,
+    );
+    if (!questions) {
+      throw new BadRequestException(
+        'No interview kit for this developer. Generate it first.',
+      );
+    }
+
+    const questionById = new Map(questions.map((q) => [q.id, q.question]));
+    const unknown = dto.scores.filter((s) => !questionById.has(s.questionId));
+    if (unknown.length > 0) {
+      throw new BadRequestException(
+        `Unknown interview kit question: ${unknown.map((s) => s.questionId).join(', ')}`,
+      );
+    }
+
+    await this.prisma.$transaction(
+      dto.scores.map((s) => {
+        const data = {
+          question: questionById.get(s.questionId)!,
+          score: s.score,
+          notes: s.notes || null,
+        };
+        return this.prisma.interviewScore.upsert({
+          where: {
+            pipelineEntryId_questionId: {
+              pipelineEntryId: entry.id,
+              questionId: s.questionId,
+            },
+          },
+          create: {
+            pipelineEntryId: entry.id,
+            questionId: s.questionId,
+            ...data,
+          },
+          update: data,
+        });
+      }),
+    );
+
+    return this.buildScorecard(entry.id, entry.developerId);
+  }
+
   /**
    * Helper to map assessment status to pipeline stage
    */
@@ -1071,4 +1185,75 @@ export class PipelineService {
         return PipelineStage.INVITED;
     }
   }
+
+  /**
+   * Interview scores need a registered developer with an unlocked report
+   */
+  private async findScorableEntry(
+    companyId: number,
+    entryId: number,
+  ): Promise<{ id: number; developerId: number }> {
+    const entry = await this.prisma.pipelineEntry.findFirst({
+      where: { id: entryId, companyId },
+      select: { id: true, developerId: true },
+    });
+
+    if (!entry) {
+      throw new NotFoundException('Pipeline entry not found');
+    }
+
+    if (!entry.developerId) {
+      throw new BadRequestException(
+        'Candidate has not registered yet, no interview kit available',
+      );
+    }
+
+    const unlocked = await this.prisma.unlockedReport.findUnique({
+      where: {
+        companyId_developerId: { companyId, developerId: entry.developerId },
+      },
+    });
+
+    if (!unlocked) {
+      throw new ForbiddenException(
+        'You have not unlocked this report. Please unlock it first.',
+      );
+    }
+
+    return { id: entry.id, developerId: entry.developerId };
+  }
+
+  private async buildScorecard(
+    pipelineEntryId: number,
+    developerId: number,
+  ): Promise<InterviewScorecardDto> {
+    const [scores, questions] = await Promise.all([
+      this.prisma.interviewScore.findMany({
+        where: { pipelineEntryId },
+        orderBy: { questionId: 'asc' },
+      }),
+      this.interviewKitService.findQuestions(developerId),
+    ]);
+
+    const currentIds = new Set((questions ?? []).map((q) => q.id));
+    const average =
+      scores.length > 0
+        ? scores.reduce((sum, s) => sum + s.score, 0) / scores.length
+        : undefined;
+
+    return {
+      pipelineEntryId,
+      scores: scores.map((s) => ({
+        questionId: s.questionId,
+        question: s.question,
+        score: s.score,
+        notes: s.notes || undefined,
+        updatedAt: s.updatedAt,
+      })),
+      questionCount: currentIds.size,
+      scoredCount: scores.filter((s) => currentIds.has(s.questionId)).length,
+      averageScore:
+        average !== undefined ? Math.round(average * 10) / 10 : undefined,
+    };
+  }
 }
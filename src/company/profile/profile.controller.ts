@@ -11,10 +11,11 @@ import {
   UpdateCompanyProfileDto,
   ChangePasswordDto,
 } from './dto';
-import { GetCurrentUserTableId } from 'src/common/decorators';
+import { GetCurrentUserTableId, Roles } from 'src/common/decorators';
 
 @ApiTags('Company Profile')
 @ApiBearerAuth()
+@Roles('COMPANY')
 @Controller('company/profile')
 export class ProfileController {
   constructor(private profileService: ProfileService) {}
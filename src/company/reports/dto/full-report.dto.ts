@@ -1,4 +1,11 @@
 import { ApiProperty } from '@nestjs/swagger';
+import {
+  ChangeSummaryDto,
+  CodeMetricsDto,
+  GitHistoryDto,
+  SecuritySummaryDto,
+} from '../../../common/dto';
+import { ScorePercentileDto } from './score-calibration.dto';
 
 export class ProjectAnalysisDto {
   @ApiProperty({ description: 'Project ID' })
@@ -7,8 +14,23 @@ export class ProjectAnalysisDto {
   @ApiProperty({ description: 'Project name' })
   name: string;
 
-  @ApiProperty({ description: 'GitHub URL' })
-  githubUrl: string;
+  @ApiProperty({
+    description: 'Repository URL (null for archive uploads)',
+    nullable: true,
+  })
+  githubUrl: string | null;
+
+  @ApiProperty({
+    description: 'Where the code came from (repository host or ARCHIVE)',
+    example: 'GITHUB',
+  })
+  sourceHost: string;
+
+  @ApiProperty({
+    description:
+      'Uploaded as an archive: no repository or commit history backs the code, so its authorship cannot be verified',
+  })
+  unverifiableOrigin: boolean;
 
   @ApiProperty({ description: 'Project type', example: 'FULLSTACK' })
   projectType: string;
@@ -48,6 +70,53 @@ export class ProjectAnalysisDto {
 
   @ApiProperty({ description: 'Analysis completion date' })
   completedAt: Date;
+
+  @ApiProperty({ description: 'Commit SHA that was analyzed', nullable: true })
+  commitSha: string | null;
+
+  @ApiProperty({
+    description: 'Branch or tag the analyzed commit was resolved from',
+    nullable: true,
+  })
+  gitRef: string | null;
+
+  @ApiProperty({
+    type: ChangeSummaryDto,
+    description: 'What changed since the previous analysis',
+    nullable: true,
+  })
+  changeSummary: ChangeSummaryDto | null;
+
+  @ApiProperty({
+    type: CodeMetricsDto,
+    description:
+      'Deterministic code metrics measured alongside the AI analysis',
+    nullable: true,
+  })
+  codeMetrics: CodeMetricsDto | null;
+
+  @ApiProperty({
+    type: GitHistoryDto,
+    description: 'Commit history evidence behind the authenticity signal',
+    nullable: true,
+  })
+  gitHistory: GitHistoryDto | null;
+
+  @ApiProperty({
+    type: SecuritySummaryDto,
+    description:
+      'Security scan counts; findings themselves are shown to the developer only',
+    nullable: true,
+  })
+  securitySummary: SecuritySummaryDto | null;
+
+  @ApiProperty({
+    description:
+      'Prompt version that produced the analysis (null before prompt versioning)',
+    example: '1.0.0',
+    nullable: true,
+  })
+  promptVersion: string | null;
 }
 
 /**
@@ -124,6 +193,29 @@ export class TechnicalBreakdownDto {
   toolingPractices: TechnicalSkillSectionDto;
 }
 
+/**
+ * Default applied because the AI output stayed invalid after repair
+ */
+export class AiFallbackDto {
+  @ApiProperty({
+    description: 'Where the fallback was applied',
+    example: 'PROJECT:my-todo-app',
+  })
+  source: string;
+
+  @ApiProperty({
+    description: 'JSON path of the field',
+    example: '$.technicalAssessment.codeStructure.rating',
+  })
+  field: string;
+
+  @ApiProperty({ example: 'Invalid value "GREAT"' })
+  reason: string;
+
+  @ApiProperty({ description: 'Value used instead', example: 'ADEQUATE' })
+  fallback: unknown;
+}
+
 /**
  * Tier 2: Hiring report (company only) - follows TECHNICAL_REPORT_SPECS.md
  */
@@ -234,6 +326,32 @@ export class HiringReportDto {
   })
   growthPotential: string | null;
 
+  // AI output quality
+  @ApiProperty({
+    description:
+      'Some fields fell back to defaults because the AI output was invalid',
+  })
+  lowConfidence: boolean;
+
+  @ApiProperty({ type: [AiFallbackDto] })
+  aiFallbacks: AiFallbackDto[];
+
+  @ApiProperty({
+    type: ScorePercentileDto,
+    description:
+      'Percentile of overallScore among assessed developers of the same type and prompt version (null while too few)',
+    nullable: true,
+  })
+  scorePercentile: ScorePercentileDto | null;
+
+  @ApiProperty({
+    description:
+      'Prompt version that produced the report (null before prompt versioning)',
+    example: '1.0.0',
+    nullable: true,
+  })
+  promptVersion: string | null;
+
   @ApiProperty({ description: 'Report generation date' })
   generatedAt: Date;
 }
@@ -2,3 +2,5 @@ export * from './report-preview.dto';
 export * from './full-report.dto';
 export * from './unlock-response.dto';
 export * from './batch-reports.dto';
+export * from './score-calibration.dto';
+export * from './interview-kit.dto';
@@ -0,0 +1,77 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+/**
+ * One interview question with its scoring rubric
+ */
+export class InterviewKitQuestionDto {
+  @ApiProperty({
+    description: 'Question ID, used to record scores',
+    example: 'q1',
+  })
+  id: string;
+
+  @ApiProperty({ example: 'Error handling in APIs' })
+  topic: string;
+
+  @ApiProperty({
+    description: 'Report input the question probes',
+    enum: ['RISK_FLAG', 'TECHNICAL_IMPROVEMENT', 'MENTORING_NEED'],
+  })
+  source: string;
+
+  @ApiProperty()
+  question: string;
+
+  @ApiProperty({ description: 'What a good junior answer covers' })
+  goodAnswer: string;
+
+  @ApiProperty({
+    description: 'Answer patterns that confirm the concern',
+    type: [String],
+  })
+  redFlags: string[];
+
+  @ApiProperty({ type: [String] })
+  followUps: string[];
+
+  @ApiProperty({ description: 'Time budget in minutes' })
+  minutes: number;
+}
+
+/**
+ * Structured interview generated from the hiring report
+ */
+export class InterviewKitDto {
+  @ApiProperty({ description: 'Developer ID' })
+  developerId: number;
+
+  @ApiProperty({
+    description: 'Questions, most important first',
+    type: [InterviewKitQuestionDto],
+  })
+  questions: InterviewKitQuestionDto[];
+
+  @ApiProperty({ description: 'Sum of the question time budgets (minutes)' })
+  totalMinutes: number;
+
+  @ApiProperty({
+    description:
+      'Scoring scale for every question: 1 = red flags confirmed, 3 = partly matches the good answer, 5 = matches or exceeds it',
+    example: '1-5',
+  })
+  scoreScale: string;
+
+  @ApiProperty({
+    description: 'Defaults were applied to invalid AI output',
+  })
+  lowConfidence: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Prompt registry version that produced the kit',
+    example: '1.0.0',
+  })
+  promptVersion?: string;
+
+  @ApiProperty({ description: 'When the kit was generated' })
+  generatedAt: Date;
+}
@@ -1,4 +1,5 @@
 import { ApiProperty } from '@nestjs/swagger';
+import { ScorePercentileDto } from './score-calibration.dto';
 
 /**
  * Project info for report preview (limited info)
@@ -39,6 +40,14 @@ export class ReportPreviewDto {
   @ApiProperty({ description: 'Overall technical score (0-100)' })
   overallScore: number;
 
+  @ApiProperty({
+    type: ScorePercentileDto,
+    description:
+      'Percentile among assessed developers of the same type and prompt version (null while too few)',
+    nullable: true,
+  })
+  scorePercentile: ScorePercentileDto | null;
+
   @ApiProperty({ description: 'Number of projects analyzed' })
   projectCount: number;
 
@@ -54,6 +63,12 @@ export class ReportPreviewDto {
   })
   juniorLevel: string;
 
+  @ApiProperty({
+    description:
+      'Some report fields fell back to defaults because the AI output was invalid',
+  })
+  lowConfidence: boolean;
+
   @ApiProperty({ description: 'Project previews (limited info)' })
   projects: ProjectPreviewDto[];
 
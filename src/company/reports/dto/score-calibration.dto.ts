@@ -0,0 +1,103 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * Where a hiring report score sits among comparable assessed developers
+ */
+export class ScorePercentileDto {
+  @ApiProperty({
+    description:
+      'Percentile rank of the overall score (0-100), higher is better',
+    example: 82,
+  })
+  percentile: number;
+
+  @ApiProperty({ description: 'Developers in the comparison group' })
+  cohortSize: number;
+
+  @ApiProperty({ description: 'Compared within this developer type' })
+  developerType: string;
+
+  @ApiProperty({
+    description:
+      'Compared within reports from this prompt version (null before prompt versioning)',
+    nullable: true,
+  })
+  promptVersion: string | null;
+}
+
+export class ScoreCohortDto {
+  @ApiProperty({ example: 'BACKEND' })
+  developerType: string;
+
+  @ApiProperty({ nullable: true, example: '1.0.0' })
+  promptVersion: string | null;
+
+  @ApiProperty({ description: 'Assessed developers in the cohort' })
+  count: number;
+
+  @ApiProperty({
+    description: 'Enough developers for percentiles to be shown',
+  })
+  calibrated: boolean;
+
+  @ApiProperty()
+  mean: number;
+
+  @ApiProperty()
+  stdDev: number;
+
+  @ApiProperty({
+    description: 'Score at the 10th, 25th, 50th, 75th and 90th percentile',
+    type: [Number],
+  })
+  quantiles: number[];
+
+  @ApiProperty({
+    description:
+      'Share of reports rated ABOVE_EXPECTED (the prompt targets 0.10-0.15)',
+  })
+  aboveExpectedShare: number;
+}
+
+export class ScoreDriftDto {
+  @ApiProperty({ example: 'BACKEND' })
+  developerType: string;
+
+  @ApiProperty({ nullable: true, example: '1.0.0' })
+  fromVersion: string | null;
+
+  @ApiProperty({ example: '1.1.0' })
+  toVersion: string;
+
+  @ApiProperty({ description: 'Mean score difference (to - from)' })
+  meanShift: number;
+
+  @ApiProperty({
+    description:
+      'Kolmogorov-Smirnov statistic: largest gap between the two score distributions (0-1)',
+  })
+  ksStatistic: number;
+
+  @ApiProperty({ description: 'Both cohorts are large enough to compare' })
+  sufficientData: boolean;
+
+  @ApiProperty({ description: 'Distribution shifted noticeably' })
+  drifted: boolean;
+}
+
+export class CalibrationReportDto {
+  @ApiProperty({ description: 'When the distribution was computed' })
+  computedAt: Date;
+
+  @ApiProperty({ description: 'Minimum cohort size for percentiles' })
+  minCohortSize: number;
+
+  @ApiProperty({ type: [ScoreCohortDto] })
+  cohorts: ScoreCohortDto[];
+
+  @ApiProperty({
+    type: [ScoreDriftDto],
+    description: 'Each prompt version compared with the previous one',
+  })
+  drift: ScoreDriftDto[];
+}
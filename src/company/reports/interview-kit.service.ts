@@ -0,0 +1,136 @@
+import {
+  Injectable,
+  Logger,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { PrismaService } from '../../prisma/prisma.service';
+import { AiService } from '../../ai/ai.service';
+import { AiUsageService } from '../../ai/ai-usage.service';
+import { FullReportDto, InterviewKitDto, InterviewKitQuestionDto } from './dto';
+
+const SCORE_SCALE = '1-5';
+
+/**
+ * Structured interview kits built from hiring reports
+ * A kit only depends on the report, so it is shared by every company that
+ * unlocked it and regenerated once the report is newer
+ */
+@Injectable()
+export class InterviewKitService {
+  private readonly logger = new Logger(InterviewKitService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private aiService: AiService,
+    private aiUsage: AiUsageService,
+  ) {}
+
+  /**
+   * Kit for an unlocked report, generated on first use
+   * @param report - From ReportService.getFullReport (access already checked)
+   */
+  async getInterviewKit(report: FullReportDto): Promise<InterviewKitDto> {
+    const developerId = report.developer.id;
+
+    const [kit, hiringReport] = await Promise.all([
+      this.prisma.interviewKit.findUnique({ where: { developerId } }),
+      this.prisma.hiringReport.findUniqueOrThrow({
+        where: { developerId },
+        select: {
+          updatedAt: true,
+          developer: {
+            select: { technicalProfile: { select: { developerType: true } } },
+          },
+        },
+      }),
+    ]);
+
+    if (kit && kit.generatedAt >= hiringReport.updatedAt) {
+      return this.mapToDto(kit);
+    }
+
+    const budget = await this.aiUsage.getBudgetStatus();
+    if (budget.exceeded) {
+      throw new ServiceUnavailableException(
+        'Monthly AI budget reached. Please try again next month.',
+      );
+    }
+
+    this.logger.log(
+      `${kit ? 'Regenerating' : 'Generating'} interview kit for developer ${developerId}`,
+    );
+
+    const result = await this.aiService.generateInterviewKit(
+      {
+        juniorLevelContext: report.hiringReport.juniorLevelContext,
+        developerType:
+          hiringReport.developer.technicalProfile?.developerType || null,
+        recommendation: report.hiringReport.recommendation,
+        riskFlags: report.hiringReport.riskFlags,
+        technicalBreakdown: report.hiringReport.technicalBreakdown,
+        mentoringNeeds: report.hiringReport.mentoringNeeds,
+        projects: report.projectAnalyses.map((project) => ({
+          name: project.name,
+          techStack: project.techStack,
+        })),
+      },
+      { developerId },
+    );
+
+    const questions: InterviewKitQuestionDto[] = result.questions.map(
+      (question, index) => ({ id: `q${index + 1}`, ...question }),
+    );
+    const data = {
+      questions: JSON.parse(JSON.stringify(questions)),
+      totalMinutes: questions.reduce((sum, q) => sum + q.minutes, 0),
+      lowConfidence: result.outputQuality?.lowConfidence ?? false,
+      promptVersion: result.promptVersion,
+      generatedAt: new Date(),
+    };
+
+    const saved = await this.prisma.interviewKit.upsert({
+      where: { developerId },
+      create: { developerId, ...data },
+      update: data,
+    });
+
+    return this.mapToDto(saved);
+  }
+
+  /**
+   * Stored kit questions, without generating one
+   */
+  async findQuestions(
+    developerId: number,
+  ): Promise<InterviewKitQuestionDto[] | null> {
+    const kit = await this.prisma.interviewKit.findUnique({
+      where: { developerId },
+      select: { questions: true },
+    });
+
+    return kit ? (kit.questions as unknown as InterviewKitQuestionDto[]) : null;
+  }
+
+  // ========================================
+  // PRIVATE HELPER METHODS
+  // ========================================
+
+  private mapToDto(kit: {
+    developerId: number;
+    questions: unknown;
+    totalMinutes: number;
+    lowConfidence: boolean;
+    promptVersion: string | null;
+    generatedAt: Date;
+  }): InterviewKitDto {
+    return {
+      developerId: kit.developerId,
+      questions: kit.questions as InterviewKitQuestionDto[],
+      totalMinutes: kit.totalMinutes,
+      scoreScale: SCORE_SCALE,
+      lowConfidence: kit.lowConfidence,
+      promptVersion: kit.promptVersion || undefined,
+      generatedAt: kit.generatedAt,
+    };
+  }
+}
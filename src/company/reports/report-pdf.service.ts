@@ -1,6 +1,6 @@
 import { Injectable, OnModuleDestroy } from '@nestjs/common';
 import puppeteer, { Browser } from 'puppeteer';
-import { FullReportDto } from './dto';
+import { FullReportDto, InterviewKitDto, InterviewKitQuestionDto } from './dto';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -66,11 +66,27 @@ export class ReportPdfService implements OnModuleDestroy {
    * Generate PDF from full report - single continuous page
    */
   async generateReportPdf(report: FullReportDto): Promise<Buffer> {
+    return this.renderPdf(this.generateHtml(report));
+  }
+
+  /**
+   * Generate interview kit PDF with a blank score line per question
+   */
+  async generateInterviewKitPdf(
+    report: FullReportDto,
+    kit: InterviewKitDto,
+  ): Promise<Buffer> {
+    return this.renderPdf(this.generateInterviewKitHtml(report, kit));
+  }
+
+  /**
+   * Render HTML to a single continuous A4-wide page
+   */
+  private async renderPdf(html: string): Promise<Buffer> {
     const browser = await this.getBrowser();
     const page = await browser.newPage();
 
     try {
-      const html = this.generateHtml(report);
       await page.setContent(html, { waitUntil: 'networkidle0' });
 
       // Get the full height of the content
@@ -97,7 +113,6 @@ export class ReportPdfService implements OnModuleDestroy {
    */
   private generateHtml(report: FullReportDto): string {
     const { developer, hiringReport, projectAnalyses } = report;
-    const logoBase64 = this.getLogoBase64();
 
     const developerName =
       developer.firstName && developer.lastName
@@ -121,15 +136,7 @@ export class ReportPdfService implements OnModuleDestroy {
 <body>
   <div class="report">
     <!-- Header with Juniob branding -->
-    <header class="header">
-      <div class="header-brand">
-        <img src="${logoBase64}" alt="Juniob" class="header-logo" />
-      </div>
-      <div class="header-info">
-        <span class="header-title">Technical Assessment Report</span>
-        <span class="header-date">${new Date().toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })}</span>
-      </div>
-    </header>
+    ${this.renderHeader('Technical Assessment Report')}
 
     <!-- Developer Profile Card -->
     <section class="profile-card">
@@ -220,9 +227,133 @@ export class ReportPdfService implements OnModuleDestroy {
     ${this.renderProjects(projectAnalyses)}
 
     <!-- Footer -->
+    ${this.renderFooter()}
+  </div>
+</body>
+</html>
+    `;
+  }
+
+  /**
+   * Generate HTML template for the interview kit with Juniob branding
+   */
+  private generateInterviewKitHtml(
+    report: FullReportDto,
+    kit: InterviewKitDto,
+  ): string {
+    const { developer } = report;
+
+    const developerName =
+      developer.firstName && developer.lastName
+        ? `${developer.firstName} ${developer.lastName}`
+        : 'Developer';
+
+    return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <title>Interview Kit - ${developerName}</title>
+  <style>
+    ${this.getStyles()}
+    ${this.getInterviewKitStyles()}
+  </style>
+</head>
+<body>
+  <div class="report">
+    <!-- Header with Juniob branding -->
+    ${this.renderHeader('Interview Kit')}
+
+    <!-- Developer Profile Card -->
+    <section class="profile-card">
+      <div class="profile-content">
+        <div class="profile-info">
+          <h1 class="profile-name">${this.escapeHtml(developerName)}</h1>
+          <div class="profile-meta">
+            <span class="profile-email">${this.escapeHtml(developer.email)}</span>
+            <span>${kit.questions.length} questions &middot; ${kit.totalMinutes} min &middot; Score ${kit.scoreScale}</span>
+          </div>
+        </div>
+      </div>
+    </section>
+
+    <!-- Questions -->
+    ${kit.questions.map((question, index) => this.renderKitQuestion(question, index)).join('')}
+
+    <!-- Footer -->
+    ${this.renderFooter()}
+  </div>
+</body>
+</html>
+    `;
+  }
+
+  private renderKitQuestion(
+    question: InterviewKitQuestionDto,
+    index: number,
+  ): string {
+    return `
+    <section class="section">
+      <div class="section-header">
+        <h2 class="section-title">${index + 1}. ${this.escapeHtml(question.topic)}</h2>
+        <span class="section-badge">${this.formatKitSource(question.source)}</span>
+        <span class="section-badge">${question.minutes} min</span>
+      </div>
+
+      <div class="kit-content">
+        <p class="kit-question-text">${this.escapeHtml(question.question)}</p>
+
+        <div class="kit-rubric">
+          <div class="interview-box">
+            <h3>Good Answer</h3>
+            <p>${this.escapeHtml(question.goodAnswer)}</p>
+          </div>
+          <div class="risk-box">
+            <h3>Red Flags</h3>
+            <ul>${question.redFlags.map((f) => `<li>${this.escapeHtml(f)}</li>`).join('')}</ul>
+          </div>
+        </div>
+
+        ${
+          question.followUps.length
+            ? `
+        <div class="interview-box">
+          <h3>Follow-ups</h3>
+          <ol>${question.followUps.map((f) => `<li>${this.escapeHtml(f)}</li>`).join('')}</ol>
+        </div>
+        `
+            : ''
+        }
+
+        <div class="kit-score">
+          <span class="kit-score-label">Score</span>
+          ${[1, 2, 3, 4, 5].map((n) => `<span class="kit-score-box">${n}</span>`).join('')}
+          <span class="kit-score-notes">Notes</span>
+        </div>
+      </div>
+    </section>
+    `;
+  }
+
+  private renderHeader(title: string): string {
+    return `
+    <header class="header">
+      <div class="header-brand">
+        <img src="${this.getLogoBase64()}" alt="Juniob" class="header-logo" />
+      </div>
+      <div class="header-info">
+        <span class="header-title">${title}</span>
+        <span class="header-date">${new Date().toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })}</span>
+      </div>
+    </header>
+    `;
+  }
+
+  private renderFooter(): string {
+    return `
     <footer class="footer">
       <div class="footer-brand">
-        <img src="${logoBase64}" alt="Juniob" class="footer-logo" />
+        <img src="${this.getLogoBase64()}" alt="Juniob" class="footer-logo" />
         <div class="footer-tagline">
           <span class="footer-tagline-main">Junior developer assessment platform</span>
           <span class="footer-tagline-sub">Automated technical assessments</span>
@@ -234,9 +365,6 @@ export class ReportPdfService implements OnModuleDestroy {
         <span>Confidential Report</span>
       </div>
     </footer>
-  </div>
-</body>
-</html>
     `;
   }
 
@@ -494,6 +622,7 @@ export class ReportPdfService implements OnModuleDestroy {
               <div class="project-info">
                 <h3 class="project-name">${this.escapeHtml(project.name)}</h3>
                 <span class="project-type">${project.projectType}</span>
+                ${project.unverifiableOrigin ? '<span class="project-origin" title="Uploaded as an archive: no repository or commit history backs this code">Unverified origin</span>' : ''}
               </div>
               <div class="project-score project-score--${this.getScoreColor(project.score)}">
                 ${project.score}
@@ -548,6 +677,8 @@ export class ReportPdfService implements OnModuleDestroy {
                     : ''
                 }
               </div>
+
+              ${this.renderSecuritySummary(project.securitySummary)}
             </div>
           </div>
         `,
@@ -558,6 +689,60 @@ export class ReportPdfService implements OnModuleDestroy {
     `;
   }
 
+  /**
+   * Scan counts only: file paths and secrets stay with the developer
+   */
+  private renderSecuritySummary(
+    summary: FullReportDto['projectAnalyses'][number]['securitySummary'],
+  ): string {
+    if (!summary) return '';
+
+    const severities = [
+      { label: 'Critical', count: summary.critical, color: 'error' },
+      { label: 'High', count: summary.high, color: 'error' },
+      { label: 'Medium', count: summary.medium, color: 'warning' },
+      { label: 'Low', count: summary.low, color: 'muted' },
+    ].filter((severity) => severity.count > 0);
+
+    if (!severities.length) {
+      return `
+              <div class="project-security">
+                <span class="security-label">Security scan</span>
+                <span class="security-clean">No findings</span>
+              </div>`;
+    }
+
+    const types = [
+      { count: summary.secrets, one: 'secret', many: 'secrets' },
+      {
+        count: summary.dangerousPatterns,
+        one: 'dangerous pattern',
+        many: 'dangerous patterns',
+      },
+      {
+        count: summary.vulnerableDependencies,
+        one: 'vulnerable dependency',
+        many: 'vulnerable dependencies',
+      },
+    ]
+      .filter((type) => type.count > 0)
+      .map(
+        (type) => `${type.count} ${type.count !== 1 ? type.many : type.one}`,
+      );
+
+    return `
+              <div class="project-security">
+                <span class="security-label">Security scan</span>
+                ${severities
+                  .map(
+                    (severity) =>
+                      `<span class="security-chip security-chip--${severity.color}">${severity.count} ${severity.label}</span>`,
+                  )
+                  .join('')}
+                <span class="security-types">${types.join(' · ')}</span>
+              </div>`;
+  }
+
   private getStyles(): string {
     return `
       @import url('https://fonts.googleapis.com/css2?family=Inter:wght@400;500;600;700&display=swap');
@@ -1266,6 +1451,15 @@ export class ReportPdfService implements OnModuleDestroy {
         border-radius: 6px;
       }
 
+      .project-origin {
+        font-size: 8px;
+        text-transform: uppercase;
+        color: ${BRAND.warning};
+        background: rgba(245, 158, 11, 0.08);
+        padding: 3px 8px;
+        border-radius: 6px;
+      }
+
       .project-score {
         width: 36px;
         height: 36px;
@@ -1361,6 +1555,38 @@ export class ReportPdfService implements OnModuleDestroy {
         margin-bottom: 0;
       }
 
+      .project-security {
+        display: flex;
+        flex-wrap: wrap;
+        align-items: center;
+        gap: 6px;
+        margin-top: 12px;
+        padding-top: 10px;
+        border-top: 1px solid ${BRAND.borderLight};
+        font-size: 9px;
+      }
+
+      .security-label {
+        font-weight: 600;
+        text-transform: uppercase;
+        letter-spacing: 0.5px;
+        color: ${BRAND.textMuted};
+      }
+
+      .security-clean { color: ${BRAND.success}; }
+
+      .security-chip {
+        padding: 2px 8px;
+        border-radius: 6px;
+        font-weight: 600;
+      }
+
+      .security-chip--error { background: ${BRAND.errorLight}; color: ${BRAND.error}; }
+      .security-chip--warning { background: ${BRAND.warningLight}; color: ${BRAND.warning}; }
+      .security-chip--muted { background: ${BRAND.bgSecondary}; color: ${BRAND.textMuted}; }
+
+      .security-types { color: ${BRAND.textSecondary}; }
+
       /* ========================================= */
       /* Footer - Subtle branding */
       /* ========================================= */
@@ -1417,6 +1643,73 @@ export class ReportPdfService implements OnModuleDestroy {
     `;
   }
 
+  private getInterviewKitStyles(): string {
+    return `
+      /* ========================================= */
+      /* Interview Kit */
+      /* ========================================= */
+      .kit-content {
+        display: flex;
+        flex-direction: column;
+        gap: 12px;
+        padding: 16px;
+      }
+
+      .kit-question-text {
+        font-size: 11px;
+        font-weight: 600;
+        color: ${BRAND.textPrimary};
+      }
+
+      .kit-rubric {
+        display: grid;
+        grid-template-columns: 1fr 1fr;
+        gap: 12px;
+      }
+
+      .kit-rubric p {
+        font-size: 10px;
+        color: ${BRAND.textSecondary};
+      }
+
+      .kit-score {
+        display: flex;
+        align-items: center;
+        gap: 8px;
+        padding-top: 12px;
+        border-top: 1px dashed ${BRAND.borderLight};
+      }
+
+      .kit-score-label {
+        font-size: 10px;
+        font-weight: 600;
+        color: ${BRAND.textPrimary};
+      }
+
+      .kit-score-box {
+        display: inline-flex;
+        align-items: center;
+        justify-content: center;
+        width: 22px;
+        height: 22px;
+        border: 1px solid ${BRAND.borderLight};
+        border-radius: 6px;
+        font-size: 9px;
+        color: ${BRAND.textMuted};
+      }
+
+      .kit-score-notes {
+        flex: 1;
+        height: 22px;
+        margin-left: 8px;
+        padding-left: 6px;
+        border-bottom: 1px solid ${BRAND.borderLight};
+        font-size: 9px;
+        color: ${BRAND.textMuted};
+      }
+    `;
+  }
+
   private getRecommendationConfig(recommendation: string): {
     color: string;
     label: string;
@@ -1481,6 +1774,15 @@ export class ReportPdfService implements OnModuleDestroy {
     return band.replace(/_/g, ' ').replace(/\b\w/g, (l) => l.toUpperCase());
   }
 
+  private formatKitSource(source: string): string {
+    const labels: Record<string, string> = {
+      RISK_FLAG: 'Risk Flag',
+      TECHNICAL_IMPROVEMENT: 'Technical Improvement',
+      MENTORING_NEED: 'Mentoring Need',
+    };
+    return labels[source] || source;
+  }
+
   private formatAuthenticitySignal(signal: string): string {
     const labels: Record<string, string> = {
       HIGH: 'High Confidence',
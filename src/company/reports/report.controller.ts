@@ -20,23 +20,27 @@ import {
   ApiProduces,
 } from '@nestjs/swagger';
 import { Response } from 'express';
-import { GetCurrentUserTableId } from '../../common/decorators';
+import { GetCurrentUserTableId, Roles } from '../../common/decorators';
 import { ReportService } from './report.service';
 import { ReportPdfService } from './report-pdf.service';
+import { InterviewKitService } from './interview-kit.service';
 import {
   ReportPreviewDto,
   FullReportDto,
   UnlockReportResponseDto,
   BatchReportsDto,
+  InterviewKitDto,
 } from './dto';
 
 @ApiTags('Company - Reports')
 @ApiBearerAuth()
+@Roles('COMPANY')
 @Controller('company/reports')
 export class ReportController {
   constructor(
     private reportService: ReportService,
     private reportPdfService: ReportPdfService,
+    private interviewKitService: InterviewKitService,
   ) {}
 
   @Get('batch')
@@ -133,6 +137,94 @@ export class ReportController {
     res.send(pdfBuffer);
   }
 
+  @Get(':developerId/interview-kit')
+  @ApiOperation({
+    summary: 'Get interview kit built from the report (requires unlock)',
+    description:
+      'Questions with a rubric (good answer, red flags), follow-ups and a time budget, generated from the risk flags, technical improvements and mentoring needs. Generated on first request and again once the report is updated.',
+  })
+  @ApiParam({ name: 'developerId', description: 'Developer ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Interview kit',
+    type: InterviewKitDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Report not unlocked',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Developer not found',
+  })
+  @ApiResponse({
+    status: 503,
+    description: 'Monthly AI budget reached',
+  })
+  async getInterviewKit(
+    @GetCurrentUserTableId() companyId: number,
+    @Param('developerId', ParseIntPipe) developerId: number,
+  ): Promise<InterviewKitDto> {
+    const fullReport = await this.reportService.getFullReport(
+      companyId,
+      developerId,
+    );
+
+    return this.interviewKitService.getInterviewKit(fullReport);
+  }
+
+  @Get(':developerId/interview-kit/pdf')
+  @ApiOperation({ summary: 'Download interview kit as PDF (requires unlock)' })
+  @ApiParam({ name: 'developerId', description: 'Developer ID' })
+  @ApiProduces('application/pdf')
+  @ApiResponse({
+    status: 200,
+    description: 'PDF file download',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Report not unlocked',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Developer not found',
+  })
+  @ApiResponse({
+    status: 503,
+    description: 'Monthly AI budget reached',
+  })
+  async downloadInterviewKitPdf(
+    @GetCurrentUserTableId() companyId: number,
+    @Param('developerId', ParseIntPipe) developerId: number,
+    @Res() res: Response,
+  ): Promise<void> {
+    const fullReport = await this.reportService.getFullReport(
+      companyId,
+      developerId,
+    );
+    const kit = await this.interviewKitService.getInterviewKit(fullReport);
+
+    const pdfBuffer = await this.reportPdfService.generateInterviewKitPdf(
+      fullReport,
+      kit,
+    );
+
+    const developerName =
+      fullReport.developer.firstName && fullReport.developer.lastName
+        ? `${fullReport.developer.firstName}_${fullReport.developer.lastName}`
+        : `developer_${developerId}`;
+
+    const filename = `juniob_interview_kit_${developerName}_${new Date().toISOString().split('T')[0]}.pdf`;
+
+    res.set({
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `attachment; filename="${filename}"`,
+      'Content-Length': pdfBuffer.length,
+    });
+
+    res.send(pdfBuffer);
+  }
+
   @Get(':developerId/preview')
   @ApiOperation({ summary: 'Get report preview (no unlock required)' })
   @ApiParam({ name: 'developerId', description: 'Developer ID' })
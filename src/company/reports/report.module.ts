@@ -2,12 +2,19 @@ import { Module } from '@nestjs/common';
 import { ReportController } from './report.controller';
 import { ReportService } from './report.service';
 import { ReportPdfService } from './report-pdf.service';
+import { ScoreCalibrationService } from './score-calibration.service';
+import { InterviewKitService } from './interview-kit.service';
 import { CreditModule } from '../credits/credit.module';
 
 @Module({
   imports: [CreditModule],
   controllers: [ReportController],
-  providers: [ReportService, ReportPdfService],
-  exports: [ReportService],
+  providers: [
+    ReportService,
+    ReportPdfService,
+    ScoreCalibrationService,
+    InterviewKitService,
+  ],
+  exports: [ReportService, ScoreCalibrationService, InterviewKitService],
 })
 export class ReportModule {}
@@ -6,6 +6,14 @@ import {
 } from '@nestjs/common';
 import { PrismaService } from '../../prisma/prisma.service';
 import { CreditService } from '../credits/credit.service';
+import { ScoreCalibrationService } from './score-calibration.service';
+import { RealtimeEventsService } from '../../events';
+import {
+  ChangeSummaryDto,
+  CodeMetricsDto,
+  GitHistoryDto,
+  SecurityScanDto,
+} from '../../common/dto';
 import {
   ReportPreviewDto,
   ProjectPreviewDto,
@@ -14,6 +22,7 @@ import {
   ProjectAnalysisDto,
   HiringReportDto,
   TechnicalBreakdownDto,
+  AiFallbackDto,
   UnlockReportResponseDto,
   BatchReportsDto,
   BatchReportItemDto,
@@ -23,6 +32,7 @@ import {
   AssessmentStatus,
   PipelineStage,
   ProjectAnalysisStatus,
+  SourceHost,
 } from '../../../prisma/generated/prisma';
 
 @Injectable()
@@ -30,6 +40,8 @@ export class ReportService {
   constructor(
     private prisma: PrismaService,
     private creditService: CreditService,
+    private realtimeEvents: RealtimeEventsService,
+    private scoreCalibration: ScoreCalibrationService,
   ) {}
 
   /**
@@ -70,9 +82,12 @@ export class ReportService {
           select: {
             overallScore: true,
             juniorLevel: true,
+            lowConfidence: true,
+            promptVersion: true,
             generatedAt: true,
           },
         },
+        technicalProfile: { select: { developerType: true } },
       },
     });
 
@@ -120,9 +135,15 @@ export class ReportService {
       firstName: developer.firstName,
       lastName: developer.lastName,
       overallScore: developer.hiringReport.overallScore,
+      scorePercentile: await this.scoreCalibration.getPercentile(
+        developer.technicalProfile?.developerType,
+        developer.hiringReport.promptVersion,
+        developer.hiringReport.overallScore,
+      ),
       projectCount: developer.projects.length,
       techStack,
       juniorLevel: developer.hiringReport.juniorLevel,
+      lowConfidence: developer.hiringReport.lowConfidence,
       projects,
       isUnlocked,
       assessedAt: developer.hiringReport.generatedAt,
@@ -201,7 +222,14 @@ export class ReportService {
     });
 
     // Update pipeline stage if there's a pipeline entry for this company-developer
-    await this.prisma.pipelineEntry.upsert({
+    const previousEntry = await this.prisma.pipelineEntry.findUnique({
+      where: {
+        companyId_developerId: { companyId, developerId },
+      },
+      select: { stage: true },
+    });
+
+    const entry = await this.prisma.pipelineEntry.upsert({
       where: {
         companyId_developerId: { companyId, developerId },
       },
@@ -215,6 +243,14 @@ export class ReportService {
       },
     });
 
+    this.realtimeEvents.emitToCompany(companyId, {
+      type: 'pipeline.stage',
+      entryId: entry.id,
+      developerId,
+      stage: PipelineStage.UNLOCKED,
+      previousStage: previousEntry?.stage,
+    });
+
     return {
       success: true,
       message: 'Report unlocked successfully',
@@ -301,6 +337,8 @@ export class ReportService {
         id: p.id,
         name: p.name,
         githubUrl: p.githubUrl,
+        sourceHost: p.sourceHost,
+        unverifiableOrigin: p.sourceHost === SourceHost.ARCHIVE,
         projectType: p.projectType,
         description: p.description,
         techStack: p.techStack,
@@ -310,6 +348,17 @@ export class ReportService {
         codeOrganization: p.analysis!.codeOrganization,
         bestPractices: p.analysis!.bestPractices,
         completedAt: p.analysis!.completedAt ?? p.analysis!.createdAt,
+        commitSha: p.analysis!.commitSha,
+        gitRef: p.analysis!.gitRef,
+        changeSummary: p.analysis!
+          .changeSummary as unknown as ChangeSummaryDto | null,
+        codeMetrics: p.analysis!
+          .codeMetrics as unknown as CodeMetricsDto | null,
+        gitHistory: p.analysis!.gitHistory as unknown as GitHistoryDto | null,
+        securitySummary:
+          (p.analysis!.securityScan as unknown as SecurityScanDto | null)
+            ?.summary ?? null,
+        promptVersion: p.analysis!.promptVersion,
       }));
 
     // Map hiring report - follows TECHNICAL_REPORT_SPECS.md order
@@ -333,6 +382,11 @@ export class ReportService {
       // 7. Technical Confidence Score (SECONDARY)
       overallScore: developer.hiringReport.overallScore,
       scoreBand: developer.hiringReport.scoreBand,
+      scorePercentile: await this.scoreCalibration.getPercentile(
+        developer.technicalProfile?.developerType,
+        developer.hiringReport.promptVersion,
+        developer.hiringReport.overallScore,
+      ),
       // Summary & Additional
       conclusion: developer.hiringReport.conclusion,
       techProficiency: developer.hiringReport.techProficiency as Record<
@@ -341,6 +395,13 @@ export class ReportService {
       > | null,
       mentoringNeeds: developer.hiringReport.mentoringNeeds,
       growthPotential: developer.hiringReport.growthPotential,
+      // AI output quality
+      lowConfidence: developer.hiringReport.lowConfidence,
+      aiFallbacks:
+        (developer.hiringReport.aiFallbacks as unknown as
+          | AiFallbackDto[]
+          | null) ?? [],
+      promptVersion: developer.hiringReport.promptVersion,
       generatedAt: developer.hiringReport.generatedAt,
     };
 
@@ -0,0 +1,265 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { PrismaService } from '../../prisma/prisma.service';
+import { comparePromptVersions } from '../../ai/prompts/prompt-registry';
+import {
+  CalibrationReportDto,
+  ScoreCohortDto,
+  ScoreDriftDto,
+  ScorePercentileDto,
+} from './dto';
+
+// Percentiles are hidden below this many developers in a cohort
+const MIN_COHORT_SIZE = 20;
+// The distribution is recomputed at most this often
+const CACHE_TTL_MS = 10 * 60 * 1000;
+// A new prompt version drifted when either threshold is reached
+const DRIFT_MEAN_SHIFT = 5;
+const DRIFT_KS_STATISTIC = 0.2;
+const QUANTILES = [10, 25, 50, 75, 90];
+
+interface Cohort {
+  developerType: string;
+  promptVersion: string | null;
+  scores: number[]; // Ascending
+  aboveExpected: number;
+}
+
+interface Distribution {
+  computedAt: Date;
+  cohorts: Map<string, Cohort>;
+}
+
+/**
+ * Percentile ranks for hiring report scores
+ * Cohorts are assessed developers of the same DeveloperType whose report
+ * came from the same prompt version, so scores are only ranked against
+ * scores produced the same way
+ */
+@Injectable()
+export class ScoreCalibrationService {
+  private readonly logger = new Logger(ScoreCalibrationService.name);
+  private distribution: Distribution | null = null;
+
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Percentile of a score in its cohort, or null while the cohort is too small
+   */
+  async getPercentile(
+    developerType: string | null | undefined,
+    promptVersion: string | null,
+    score: number,
+  ): Promise<ScorePercentileDto | null> {
+    if (!developerType) return null;
+
+    const { cohorts } = await this.getDistribution();
+    const cohort = cohorts.get(this.cohortKey(developerType, promptVersion));
+
+    if (!cohort || cohort.scores.length < MIN_COHORT_SIZE) {
+      return null;
+    }
+
+    return {
+      percentile: this.percentileRank(cohort.scores, score),
+      cohortSize: cohort.scores.length,
+      developerType,
+      promptVersion,
+    };
+  }
+
+  /**
+   * Score distribution per cohort and drift between prompt versions (admin)
+   */
+  async getCalibrationReport(): Promise<CalibrationReportDto> {
+    const { computedAt, cohorts } = await this.getDistribution(true);
+    const sorted = [...cohorts.values()].sort(
+      (a, b) =>
+        a.developerType.localeCompare(b.developerType) ||
+        comparePromptVersions(a.promptVersion, b.promptVersion),
+    );
+
+    return {
+      computedAt,
+      minCohortSize: MIN_COHORT_SIZE,
+      cohorts: sorted.map((cohort) => this.describeCohort(cohort)),
+      drift: this.computeDrift(sorted),
+    };
+  }
+
+  /**
+   * Log prompt versions whose score distribution shifted (hourly)
+   */
+  @Cron(CronExpression.EVERY_HOUR)
+  async checkDrift(): Promise<void> {
+    const { drift } = await this.getCalibrationReport();
+
+    for (const entry of drift.filter((d) => d.drifted)) {
+      this.logger.warn(
+        `Score drift for ${entry.developerType}: ${entry.fromVersion ?? 'unversioned'} -> ${entry.toVersion} (mean ${entry.meanShift > 0 ? '+' : ''}${entry.meanShift}, KS ${entry.ksStatistic})`,
+      );
+    }
+  }
+
+  // ========================================
+  // PRIVATE HELPER METHODS
+  // ========================================
+
+  private async getDistribution(refresh = false): Promise<Distribution> {
+    if (
+      !refresh &&
+      this.distribution &&
+      Date.now() - this.distribution.computedAt.getTime() < CACHE_TTL_MS
+    ) {
+      return this.distribution;
+    }
+
+    const rows = await this.prisma.$queryRaw<
+      {
+        developerType: string;
+        promptVersion: string | null;
+        score: number;
+        juniorLevel: string;
+        count: number;
+      }[]
+    >`
+      SELECT tp."developerType"::text AS "developerType",
+             hr."promptVersion",
+             hr."overallScore" AS "score",
+             hr."juniorLevel"::text AS "juniorLevel",
+             COUNT(*)::int AS "count"
+      FROM "HiringReport" hr
+      JOIN "Developer" d ON d."id" = hr."developerId"
+      JOIN "TechnicalProfile" tp ON tp."developerId" = hr."developerId"
+      WHERE d."assessmentStatus" = 'ASSESSED'::"AssessmentStatus"
+      GROUP BY 1, 2, 3, 4
+    `;
+
+    const cohorts = new Map<string, Cohort>();
+    for (const row of rows) {
+      const key = this.cohortKey(row.developerType, row.promptVersion);
+      const cohort = cohorts.get(key) ?? {
+        developerType: row.developerType,
+        promptVersion: row.promptVersion,
+        scores: [],
+        aboveExpected: 0,
+      };
+
+      for (let i = 0; i < row.count; i++) {
+        cohort.scores.push(row.score);
+      }
+      if (row.juniorLevel === 'ABOVE_EXPECTED') {
+        cohort.aboveExpected += row.count;
+      }
+      cohorts.set(key, cohort);
+    }
+
+    for (const cohort of cohorts.values()) {
+      cohort.scores.sort((a, b) => a - b);
+    }
+
+    this.distribution = { computedAt: new Date(), cohorts };
+    return this.distribution;
+  }
+
+  private describeCohort(cohort: Cohort): ScoreCohortDto {
+    const { scores } = cohort;
+    const mean = this.mean(scores);
+    const variance =
+      scores.reduce((sum, s) => sum + (s - mean) ** 2, 0) / scores.length;
+
+    return {
+      developerType: cohort.developerType,
+      promptVersion: cohort.promptVersion,
+      count: scores.length,
+      calibrated: scores.length >= MIN_COHORT_SIZE,
+      mean: this.round(mean),
+      stdDev: this.round(Math.sqrt(variance)),
+      quantiles: QUANTILES.map((q) => this.quantile(scores, q)),
+      aboveExpectedShare: this.round(cohort.aboveExpected / scores.length),
+    };
+  }
+
+  /**
+   * Compare each prompt version with the previous one per developer type
+   * @param cohorts - Sorted by developer type, then prompt version
+   */
+  private computeDrift(cohorts: Cohort[]): ScoreDriftDto[] {
+    const drift: ScoreDriftDto[] = [];
+
+    for (let i = 1; i < cohorts.length; i++) {
+      const from = cohorts[i - 1];
+      const to = cohorts[i];
+      if (from.developerType !== to.developerType) continue;
+
+      const meanShift = this.round(
+        this.mean(to.scores) - this.mean(from.scores),
+      );
+      const ksStatistic = this.round(this.ksStatistic(from.scores, to.scores));
+      const sufficientData =
+        from.scores.length >= MIN_COHORT_SIZE &&
+        to.scores.length >= MIN_COHORT_SIZE;
+
+      drift.push({
+        developerType: to.developerType,
+        fromVersion: from.promptVersion,
+        toVersion: to.promptVersion!,
+        meanShift,
+        ksStatistic,
+        sufficientData,
+        drifted:
+          sufficientData &&
+          (Math.abs(meanShift) >= DRIFT_MEAN_SHIFT ||
+            ksStatistic >= DRIFT_KS_STATISTIC),
+      });
+    }
+
+    return drift;
+  }
+
+  /**
+   * Mid-rank percentile: share of the cohort below the score, counting
+   * ties as half
+   */
+  private percentileRank(sorted: number[], score: number): number {
+    const below = sorted.filter((s) => s < score).length;
+    const equal = sorted.filter((s) => s === score).length;
+    return Math.round(((below + equal / 2) / sorted.length) * 100);
+  }
+
+  // Nearest-rank quantile
+  private quantile(sorted: number[], percentile: number): number {
+    const rank = Math.ceil((percentile / 100) * sorted.length);
+    return sorted[Math.min(sorted.length - 1, Math.max(0, rank - 1))];
+  }
+
+  /**
+   * Largest gap between the empirical CDFs of two sorted samples
+   */
+  private ksStatistic(a: number[], b: number[]): number {
+    let i = 0;
+    let j = 0;
+    let max = 0;
+
+    while (i < a.length && j < b.length) {
+      const value = Math.min(a[i], b[j]);
+      while (i < a.length && a[i] === value) i++;
+      while (j < b.length && b[j] === value) j++;
+      max = Math.max(max, Math.abs(i / a.length - j / b.length));
+    }
+
+    return max;
+  }
+
+  private cohortKey(developerType: string, promptVersion: string | null) {
+    return `${developerType}:${promptVersion ?? ''}`;
+  }
+
+  private mean(values: number[]): number {
+    return values.reduce((sum, v) => sum + v, 0) / values.length;
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -18,10 +18,11 @@ import {
 } from '@nestjs/swagger';
 import { TagService } from './tag.service';
 import { TagDto, TagListDto, CreateTagDto, UpdateTagDto } from './dto';
-import { GetCurrentUserTableId } from 'src/common/decorators';
+import { GetCurrentUserTableId, Roles } from 'src/common/decorators';
 
 @ApiTags('Company Tags')
 @ApiBearerAuth()
+@Roles('COMPANY')
 @Controller('company/tags')
 export class TagController {
   constructor(private readonly tagService: TagService) {}
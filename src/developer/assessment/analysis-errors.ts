@@ -0,0 +1,66 @@
+import { AnalysisErrorType } from '../../../prisma/generated/prisma';
+import { AiResponseParseError } from '../../ai/ai.service';
+
+/**
+ * Thrown when the developer's access to the repository host is missing or
+ * revoked (GitHub App installation, GitLab/Bitbucket connection)
+ */
+export class GithubAuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GithubAuthError';
+  }
+}
+
+/**
+ * Thrown when a repository has no code files worth analyzing
+ */
+export class EmptyRepositoryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EmptyRepositoryError';
+  }
+}
+
+/**
+ * What the developer should do first for each failure type
+ */
+export const ANALYSIS_ERROR_HINTS: Record<AnalysisErrorType, string> = {
+  GITHUB_AUTH:
+    'Reconnect your GitHub, GitLab or Bitbucket account and make sure you still have access to the repository.',
+  EMPTY_REPOSITORY:
+    'Push your source code to the default branch; we could not find any code files to analyze.',
+  AI_PARSE_ERROR:
+    'Our AI reviewer returned an unreadable result. This is usually temporary, so retry the analysis.',
+  STALLED: 'The analysis was interrupted on our side. Retry the analysis.',
+  UNKNOWN: 'Something went wrong while analyzing. Retry the analysis.',
+};
+
+/**
+ * Map an analysis failure to an AnalysisErrorType
+ */
+export function classifyAnalysisError(error: unknown): AnalysisErrorType {
+  if (error instanceof GithubAuthError) {
+    return AnalysisErrorType.GITHUB_AUTH;
+  }
+
+  if (error instanceof EmptyRepositoryError) {
+    return AnalysisErrorType.EMPTY_REPOSITORY;
+  }
+
+  if (error instanceof AiResponseParseError) {
+    return AnalysisErrorType.AI_PARSE_ERROR;
+  }
+
+  // Octokit request errors carry the HTTP status
+  const status = (error as { status?: number } | null)?.status;
+  if (status === 401 || status === 403) {
+    return AnalysisErrorType.GITHUB_AUTH;
+  }
+  if (status === 409) {
+    // GitHub answers 409 "Git Repository is empty"
+    return AnalysisErrorType.EMPTY_REPOSITORY;
+  }
+
+  return AnalysisErrorType.UNKNOWN;
+}
@@ -0,0 +1,315 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { hostname } from 'os';
+import { PrismaService } from '../../prisma/prisma.service';
+import {
+  AnalysisJob,
+  AnalysisJobStatus,
+  Prisma,
+} from '../../../prisma/generated/prisma';
+
+// A claimed job stays invisible to other workers for this long
+// Renewed by heartbeats while the job runs, so only a dead worker's lock expires
+const VISIBILITY_TIMEOUT_MS = 5 * 60 * 1000;
+const HEARTBEAT_MS = 60 * 1000;
+const BASE_BACKOFF_MS = 30 * 1000;
+const MAX_BACKOFF_MS = 30 * 60 * 1000;
+
+export interface AnalysisJobFailure {
+  willRetry: boolean;
+  nextRunAt: Date | null;
+}
+
+/**
+ * Postgres-backed queue for Tier 1 project analyses
+ * Jobs are claimed with SELECT ... FOR UPDATE SKIP LOCKED, so concurrent
+ * workers (or server instances) never pick up the same job twice
+ */
+@Injectable()
+export class AnalysisQueueService {
+  private readonly logger = new Logger(AnalysisQueueService.name);
+  private readonly workerId = `${hostname()}-${process.pid}`;
+
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Queue a project for analysis
+   * Reuses the existing job if one is already queued or running; the partial
+   * unique indexes on AnalysisJob settle concurrent enqueues
+   * A developer request takes over a queued re-score, and follows a running
+   * one with its own job so the developer's analysis still happens
+   * @param options.rescore - Bulk re-score job (see AnalysisJob.rescore)
+   * @param options.focused - Focused re-analysis (see AnalysisJob.focused)
+   */
+  async enqueue(
+    projectId: number,
+    options: { rescore?: boolean; focused?: boolean } = {},
+  ): Promise<AnalysisJob> {
+    const existing = await this.prisma.analysisJob.findMany({
+      where: {
+        projectId,
+        status: { in: [AnalysisJobStatus.QUEUED, AnalysisJobStatus.RUNNING] },
+      },
+    });
+    const queued = existing.find(
+      (job) => job.status === AnalysisJobStatus.QUEUED,
+    );
+    const running = existing.find(
+      (job) => job.status === AnalysisJobStatus.RUNNING,
+    );
+
+    if (queued) {
+      if (queued.rescore && !options.rescore) {
+        return this.prisma.analysisJob.update({
+          where: { id: queued.id },
+          data: { rescore: false, focused: options.focused ?? false },
+        });
+      }
+      return queued;
+    }
+
+    if (running && (!running.rescore || options.rescore)) {
+      return running;
+    }
+
+    let job: AnalysisJob;
+    try {
+      job = await this.prisma.analysisJob.create({
+        data: {
+          projectId,
+          rescore: options.rescore ?? false,
+          focused: options.focused ?? false,
+        },
+      });
+    } catch (error: unknown) {
+      // A concurrent enqueue created the job first
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        return this.prisma.analysisJob.findFirstOrThrow({
+          where: { projectId, status: AnalysisJobStatus.QUEUED },
+        });
+      }
+      throw error;
+    }
+
+    this.logger.log(
+      `Enqueued ${job.rescore ? 're-score' : job.focused ? 'focused analysis' : 'analysis'} job ${job.id} for project ${projectId}`,
+    );
+
+    return job;
+  }
+
+  /**
+   * Claim the next runnable job
+   * Picks QUEUED jobs whose backoff has elapsed, and RUNNING jobs whose
+   * visibility timeout expired (their worker died mid-analysis) while they
+   * have attempts left; the others are failed by failExhausted
+   * A follow-up job waits until the project's running job is done
+   * Developer submissions go before bulk re-score jobs
+   */
+  async claimNext(): Promise<AnalysisJob | null> {
+    const lockedUntil = new Date(Date.now() + VISIBILITY_TIMEOUT_MS);
+
+    const jobs = await this.prisma.$queryRaw<AnalysisJob[]>`
+      UPDATE "AnalysisJob"
+      SET "status" = 'RUNNING'::"AnalysisJobStatus",
+          "attempts" = "attempts" + 1,
+          "lockedUntil" = ${lockedUntil},
+          "lockedBy" = ${this.workerId},
+          "updatedAt" = NOW()
+      WHERE "id" = (
+        SELECT "id" FROM "AnalysisJob"
+        WHERE ("status" = 'QUEUED'::"AnalysisJobStatus" AND "runAt" <= NOW()
+               AND NOT EXISTS (
+                 SELECT 1 FROM "AnalysisJob" AS "active"
+                 WHERE "active"."projectId" = "AnalysisJob"."projectId"
+                   AND "active"."status" = 'RUNNING'::"AnalysisJobStatus"
+               ))
+           OR ("status" = 'RUNNING'::"AnalysisJobStatus" AND "lockedUntil" < NOW()
+               AND "attempts" < "maxAttempts")
+        ORDER BY "rescore" ASC, "runAt" ASC
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING *
+    `;
+
+    return jobs[0] ?? null;
+  }
+
+  /**
+   * Keep renewing a claimed job's lock until the returned function is called
+   * An analysis that outlives the visibility timeout would otherwise be
+   * handed to a second worker while the first is still running it
+   */
+  holdLock(job: AnalysisJob): () => void {
+    const timer = setInterval(() => {
+      this.prisma.analysisJob
+        .updateMany({
+          where: {
+            id: job.id,
+            status: AnalysisJobStatus.RUNNING,
+            lockedBy: this.workerId,
+          },
+          data: { lockedUntil: new Date(Date.now() + VISIBILITY_TIMEOUT_MS) },
+        })
+        .then(({ count }) => {
+          if (count === 0) {
+            this.logger.warn(`Lost the lock on job ${job.id}`);
+          }
+        })
+        .catch((error: unknown) => {
+          this.logger.warn(
+            `Failed to renew the lock on job ${job.id}: ${(error as Error).message}`,
+          );
+        });
+    }, HEARTBEAT_MS);
+
+    return () => clearInterval(timer);
+  }
+
+  /**
+   * Mark a job as succeeded
+   */
+  async complete(jobId: number): Promise<void> {
+    await this.prisma.analysisJob.updateMany({
+      where: { id: jobId, lockedBy: this.workerId },
+      data: {
+        status: AnalysisJobStatus.SUCCEEDED,
+        lockedUntil: null,
+        lastError: null,
+      },
+    });
+  }
+
+  /**
+   * Record a failed attempt
+   * Re-queues with exponential backoff until maxAttempts is reached, unless
+   * a follow-up job is already queued for the project and replaces the retry
+   */
+  async fail(
+    job: AnalysisJob,
+    errorMessage: string,
+  ): Promise<AnalysisJobFailure> {
+    const followUp = await this.prisma.analysisJob.count({
+      where: {
+        projectId: job.projectId,
+        status: AnalysisJobStatus.QUEUED,
+        id: { not: job.id },
+      },
+    });
+    const willRetry = job.attempts < job.maxAttempts && followUp === 0;
+    const nextRunAt = willRetry
+      ? new Date(Date.now() + this.getBackoffMs(job.attempts))
+      : null;
+
+    await this.prisma.analysisJob.updateMany({
+      where: { id: job.id, lockedBy: this.workerId },
+      data: {
+        status: willRetry ? AnalysisJobStatus.QUEUED : AnalysisJobStatus.FAILED,
+        runAt: nextRunAt ?? undefined,
+        lockedUntil: null,
+        lastError: errorMessage,
+      },
+    });
+
+    return { willRetry, nextRunAt };
+  }
+
+  /**
+   * Fail RUNNING jobs whose worker died on their last attempt
+   * claimNext doesn't reclaim them, so a job that crashes its worker every
+   * time ends here instead of running forever
+   * @returns The failed jobs
+   */
+  async failExhausted(): Promise<AnalysisJob[]> {
+    const jobs = await this.prisma.$queryRaw<AnalysisJob[]>`
+      UPDATE "AnalysisJob"
+      SET "status" = 'FAILED'::"AnalysisJobStatus",
+          "lockedUntil" = NULL,
+          "lastError" = 'Worker stopped responding on every attempt',
+          "updatedAt" = NOW()
+      WHERE "status" = 'RUNNING'::"AnalysisJobStatus"
+        AND "lockedUntil" < NOW()
+        AND "attempts" >= "maxAttempts"
+      RETURNING *
+    `;
+
+    for (const job of jobs) {
+      this.logger.warn(
+        `Failed job ${job.id} for project ${job.projectId} after ${job.attempts} attempts`,
+      );
+    }
+
+    return jobs;
+  }
+
+  /**
+   * Queued developer jobs in the order they will be claimed
+   * Re-score jobs run silently and are not listed
+   */
+  async listQueued(): Promise<{ projectId: number; developerId: number }[]> {
+    const jobs = await this.prisma.analysisJob.findMany({
+      where: { status: AnalysisJobStatus.QUEUED, rescore: false },
+      orderBy: { runAt: 'asc' },
+      select: { projectId: true, project: { select: { developerId: true } } },
+    });
+
+    return jobs.map((job) => ({
+      projectId: job.projectId,
+      developerId: job.project.developerId,
+    }));
+  }
+
+  /**
+   * Most recent job for a project, if any
+   */
+  async findLatest(projectId: number): Promise<AnalysisJob | null> {
+    return this.prisma.analysisJob.findFirst({
+      where: { projectId },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * Whether any of the projects still has a queued or running job
+   */
+  async hasOpenJobs(projectIds: number[]): Promise<boolean> {
+    const count = await this.prisma.analysisJob.count({
+      where: {
+        projectId: { in: projectIds },
+        status: { in: [AnalysisJobStatus.QUEUED, AnalysisJobStatus.RUNNING] },
+      },
+    });
+
+    return count > 0;
+  }
+
+  /**
+   * Give up on any open job for a project without further retries
+   */
+  async abandon(projectId: number, reason: string): Promise<void> {
+    await this.prisma.analysisJob.updateMany({
+      where: {
+        projectId,
+        status: { in: [AnalysisJobStatus.QUEUED, AnalysisJobStatus.RUNNING] },
+      },
+      data: {
+        status: AnalysisJobStatus.FAILED,
+        lockedUntil: null,
+        lastError: reason,
+      },
+    });
+  }
+
+  /**
+   * Backoff after the given attempt: 30s, 1m, 2m, 4m... capped at 30m
+   */
+  private getBackoffMs(attempts: number): number {
+    return Math.min(
+      BASE_BACKOFF_MS * Math.pow(2, Math.max(0, attempts - 1)),
+      MAX_BACKOFF_MS,
+    );
+  }
+}
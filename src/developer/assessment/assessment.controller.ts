@@ -10,30 +10,49 @@ import {
   HttpCode,
   HttpStatus,
   UseGuards,
+  Sse,
+  MessageEvent,
+  UseInterceptors,
+  UploadedFile,
 } from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
 import {
   ApiTags,
   ApiOperation,
   ApiResponse,
   ApiBearerAuth,
   ApiParam,
+  ApiConsumes,
+  ApiBody,
 } from '@nestjs/swagger';
+import { Observable } from 'rxjs';
 import { AssessmentService } from './assessment.service';
+import { ImprovementPlanService } from './improvement-plan.service';
 import {
   CreateProjectDto,
+  CreateArchiveProjectDto,
   ProjectResponseDto,
   ProjectListResponseDto,
   AssessmentStatusDto,
+  ImprovementPlanDto,
+  ImprovementTaskDto,
+  UpdateImprovementTaskDto,
+  ProjectSecurityScanDto,
 } from './dto';
 import { AtGuard } from '../../common/guards';
-import { GetCurrentUserTableId } from 'src/common/decorators';
+import { GetCurrentUserTableId, Roles } from 'src/common/decorators';
+import { MAX_ARCHIVE_SIZE } from '../../source-hosts';
 
 @ApiTags('Developer Assessment')
+@Roles('DEVELOPER')
 @Controller('developer/assessment')
 @UseGuards(AtGuard)
 @ApiBearerAuth('access-token')
 export class AssessmentController {
-  constructor(private assessmentService: AssessmentService) {}
+  constructor(
+    private assessmentService: AssessmentService,
+    private improvementPlanService: ImprovementPlanService,
+  ) {}
 
   // ========================================
   // ASSESSMENT STATUS
@@ -73,6 +92,19 @@ export class AssessmentController {
     };
   }
 
+  @Sse('events')
+  @ApiOperation({
+    summary: 'Stream assessment progress (Server-Sent Events)',
+    description:
+      'Pushes assessment status changes, queue position and analysis phase (FETCHING_REPO, SELECTING_FILES, AI_CALL, SAVING) per project, and hiring report progress. Sends the current state on connect and a heartbeat every 25s.',
+  })
+  @ApiResponse({ status: 200, description: 'text/event-stream' })
+  streamEvents(
+    @GetCurrentUserTableId() developerId: number,
+  ): Observable<MessageEvent> {
+    return this.assessmentService.streamEvents(developerId);
+  }
+
   // ========================================
   // PROJECT MANAGEMENT
   // ========================================
@@ -106,6 +138,29 @@ export class AssessmentController {
     return this.assessmentService.getProject(developerId, projectId);
   }
 
+  @Get('projects/:id/security')
+  @ApiOperation({
+    summary: 'Get security scan findings for a project',
+    description:
+      'Committed secrets, dangerous code patterns and vulnerable dependencies with file and line. Only visible to the developer; companies see the counts. Secrets found here must be rotated: removing them from the repository does not remove them from git history.',
+  })
+  @ApiParam({ name: 'id', description: 'Project ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Security scan retrieved',
+    type: ProjectSecurityScanDto,
+  })
+  @ApiResponse({ status: 404, description: 'Project not found' })
+  async getProjectSecurityScan(
+    @GetCurrentUserTableId() developerId: number,
+    @Param('id', ParseIntPipe) projectId: number,
+  ): Promise<ProjectSecurityScanDto> {
+    return this.assessmentService.getProjectSecurityScan(
+      developerId,
+      projectId,
+    );
+  }
+
   @Post('projects')
   @HttpCode(HttpStatus.CREATED)
   @ApiOperation({
@@ -133,6 +188,100 @@ export class AssessmentController {
     return this.assessmentService.createProject(developerId, dto);
   }
 
+  @Post('projects/archive')
+  @HttpCode(HttpStatus.CREATED)
+  @UseInterceptors(
+    FileInterceptor('archive', { limits: { fileSize: MAX_ARCHIVE_SIZE } }),
+  )
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({ type: CreateArchiveProjectDto })
+  @ApiOperation({
+    summary: 'Create a project from an uploaded archive',
+    description:
+      'Upload the code as a .zip, .tar or .tar.gz archive when it cannot be shared from a repository host. No history backs an archive, so reports mark its origin as unverifiable. Max 3 projects per developer.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Project created and queued for analysis',
+    type: ProjectResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Invalid input, unreadable archive, no code files or project limit exceeded',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Archive already uploaded',
+  })
+  @ApiResponse({ status: 413, description: 'Archive too large' })
+  async createArchiveProject(
+    @GetCurrentUserTableId() developerId: number,
+    @Body() dto: CreateArchiveProjectDto,
+    @UploadedFile() archive: Express.Multer.File,
+  ): Promise<ProjectResponseDto> {
+    return this.assessmentService.createArchiveProject(
+      developerId,
+      dto,
+      archive,
+    );
+  }
+
+  @Post('projects/:id/retry')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Retry a failed project analysis',
+    description:
+      'Re-queue a FAILED analysis. Limited to one retry per hour per developer.',
+  })
+  @ApiParam({ name: 'id', description: 'Project ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Analysis re-queued',
+    type: ProjectResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Analysis is not failed or GitHub is not connected',
+  })
+  @ApiResponse({ status: 404, description: 'Project not found' })
+  @ApiResponse({ status: 429, description: 'Retry cooldown still active' })
+  async retryProjectAnalysis(
+    @GetCurrentUserTableId() developerId: number,
+    @Param('id', ParseIntPipe) projectId: number,
+  ): Promise<ProjectResponseDto> {
+    return this.assessmentService.retryProjectAnalysis(developerId, projectId);
+  }
+
+  @Post('projects/:id/focused-analysis')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Request a focused re-analysis',
+    description:
+      'Re-analyze the latest code, checking the improvement plan tasks marked done first. Available once the 30-day lock has ended; the new result starts a new lock.',
+  })
+  @ApiParam({ name: 'id', description: 'Project ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Analysis queued',
+    type: ProjectResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Analysis not complete or no task marked done',
+  })
+  @ApiResponse({ status: 403, description: 'Project is locked' })
+  @ApiResponse({ status: 404, description: 'Project not found' })
+  async requestFocusedAnalysis(
+    @GetCurrentUserTableId() developerId: number,
+    @Param('id', ParseIntPipe) projectId: number,
+  ): Promise<ProjectResponseDto> {
+    return this.assessmentService.requestFocusedAnalysis(
+      developerId,
+      projectId,
+    );
+  }
+
   @Patch('projects/:id/name')
   @ApiOperation({
     summary: 'Update project name',
@@ -175,4 +324,46 @@ export class AssessmentController {
   ): Promise<void> {
     return this.assessmentService.deleteProject(developerId, projectId);
   }
+
+  // ========================================
+  // IMPROVEMENT PLAN
+  // ========================================
+
+  @Get('improvement-plan')
+  @ApiOperation({
+    summary: 'Get improvement plan',
+    description:
+      'Prioritized tasks with file references, built from the weaknesses, error handling and security findings of each completed analysis',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Improvement plan retrieved',
+    type: ImprovementPlanDto,
+  })
+  async getImprovementPlan(
+    @GetCurrentUserTableId() developerId: number,
+  ): Promise<ImprovementPlanDto> {
+    return this.improvementPlanService.getImprovementPlan(developerId);
+  }
+
+  @Patch('improvement-plan/tasks/:taskId')
+  @ApiOperation({ summary: 'Mark an improvement task done or not done' })
+  @ApiParam({ name: 'taskId', description: 'Improvement task ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Task updated',
+    type: ImprovementTaskDto,
+  })
+  @ApiResponse({ status: 404, description: 'Task not found' })
+  async updateImprovementTask(
+    @GetCurrentUserTableId() developerId: number,
+    @Param('taskId', ParseIntPipe) taskId: number,
+    @Body() dto: UpdateImprovementTaskDto,
+  ): Promise<ImprovementTaskDto> {
+    return this.improvementPlanService.setTaskDone(
+      developerId,
+      taskId,
+      dto.done,
+    );
+  }
 }
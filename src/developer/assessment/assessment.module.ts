@@ -2,11 +2,25 @@ import { Module } from '@nestjs/common';
 import { ScheduleModule } from '@nestjs/schedule';
 import { AssessmentController } from './assessment.controller';
 import { AssessmentService } from './assessment.service';
+import { AnalysisQueueService } from './analysis-queue.service';
+import { FileSelectionService } from './file-selection.service';
+import { CodeMetricsService } from './code-metrics.service';
+import { GitHistoryService } from './git-history.service';
+import { ImprovementPlanService } from './improvement-plan.service';
+import { SecurityScanService } from './security-scan.service';
 
 @Module({
   imports: [ScheduleModule.forRoot()],
   controllers: [AssessmentController],
-  providers: [AssessmentService],
+  providers: [
+    AssessmentService,
+    AnalysisQueueService,
+    FileSelectionService,
+    CodeMetricsService,
+    GitHistoryService,
+    ImprovementPlanService,
+    SecurityScanService,
+  ],
   exports: [AssessmentService],
 })
 export class AssessmentModule {}
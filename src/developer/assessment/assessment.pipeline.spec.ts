@@ -0,0 +1,219 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { readFileSync } from 'fs';
+import { Octokit } from 'octokit';
+import { join } from 'path';
+import { AppModule } from '../../app.module';
+import { DEFAULT_FIXTURES_DIR } from '../../ai/providers/stub.provider';
+import { GithubAppService } from '../../github/github-app.service';
+import {
+  GithubService,
+  RepoFetchResult,
+  RepoFile,
+} from '../../github/github.service';
+import { PrismaService } from '../../prisma/prisma.service';
+import { AssessmentService } from './assessment.service';
+import { ProjectType } from './dto';
+
+const GITHUB_URL = 'https://github.com/pipeline/notes-api';
+const COMMIT_SHA = 'a'.repeat(40);
+
+// The repository served in place of GitHub
+const REPO_FILES: RepoFile[] = [
+  {
+    path: 'package.json',
+    content: JSON.stringify({
+      name: 'notes-api',
+      dependencies: { express: '^4.19.2' },
+    }),
+  },
+  {
+    path: 'src/app.js',
+    content: [
+      "const express = require('express');",
+      "const notes = require('./routes/notes');",
+      '',
+      'const app = express();',
+      'app.use(express.json());',
+      "app.use('/notes', notes);",
+      '',
+      'module.exports = app;',
+    ].join('\n'),
+  },
+  {
+    path: 'src/routes/notes.js',
+    content: [
+      "const { Router } = require('express');",
+      '',
+      'const router = Router();',
+      'const notes = [];',
+      '',
+      "router.get('/', (req, res) => res.json(notes));",
+      '',
+      "router.post('/', (req, res) => {",
+      '  if (!req.body.title) {',
+      "    return res.status(400).json({ error: 'title is required' });",
+      '  }',
+      '  const note = { id: notes.length + 1, title: req.body.title };',
+      '  notes.push(note);',
+      '  res.status(201).json(note);',
+      '});',
+      '',
+      'module.exports = router;',
+    ].join('\n'),
+  },
+].map(({ path, content }) => ({
+  name: path.split('/').pop()!,
+  path,
+  type: 'file' as const,
+  size: Buffer.byteLength(content),
+  content,
+}));
+
+/**
+ * The whole assessment pipeline on a real database with the stub provider:
+ * project creation, queue claim, analysis and hiring report
+ */
+describe('Assessment pipeline', () => {
+  let moduleRef: TestingModule;
+  let prisma: PrismaService;
+  let assessmentService: AssessmentService;
+
+  beforeAll(async () => {
+    Object.assign(process.env, {
+      DATABASE_URL: process.env.TEST_DATABASE_URL,
+      JWT_ACCESS_SECRET: 'pipeline-access-secret',
+      JWT_REFRESH_SECRET: 'pipeline-refresh-secret',
+      ENCRYPTION_SECRET_KEY: '0'.repeat(64),
+      GITHUB_APP_ID: '1',
+      GITHUB_APP_PRIVATE_KEY: 'pipeline-private-key',
+      STRIPE_SECRET_KEY: 'sk_test_pipeline',
+      LLM_PROVIDER: 'stub',
+    });
+
+    // Not initialized: no schedulers, the test drives the queue itself
+    moduleRef = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    prisma = moduleRef.get(PrismaService);
+    assessmentService = moduleRef.get(AssessmentService);
+
+    const githubAppService = moduleRef.get(GithubAppService);
+    jest.spyOn(githubAppService, 'hasInstallation').mockResolvedValue(true);
+    jest
+      .spyOn(githubAppService, 'isRepositoryAuthorized')
+      .mockResolvedValue(true);
+    jest
+      .spyOn(githubAppService, 'getAuthenticatedOctokit')
+      .mockResolvedValue({} as Octokit);
+
+    const githubService = moduleRef.get(GithubService);
+    jest.spyOn(githubService, 'validateRepository').mockResolvedValue({
+      owner: 'pipeline',
+      repo: 'notes-api',
+      isPrivate: false,
+      defaultBranch: 'main',
+    });
+    jest
+      .spyOn(githubService, 'listRepoLanguages')
+      .mockResolvedValue(['JavaScript']);
+    jest
+      .spyOn(githubService, 'fetchRepositoryStructure')
+      .mockResolvedValue(repoFetchResult());
+    jest
+      .spyOn(githubService, 'fetchCommitHistory')
+      .mockRejectedValue(new Error('No history in this test'));
+  });
+
+  afterAll(async () => {
+    await moduleRef.close();
+  });
+
+  it('takes a project from creation to a hiring report', async () => {
+    const { developer } = await prisma.user.create({
+      data: {
+        email: 'pipeline@example.com',
+        hashedPassword: 'unused',
+        role: 'DEVELOPER',
+        developer: { create: { firstName: 'Pipeline' } },
+      },
+      select: { developer: true },
+    });
+    const developerId = developer!.id;
+
+    // The queue is drained below rather than by the kick on creation
+    jest
+      .spyOn(assessmentService, 'processAnalysisQueue')
+      .mockResolvedValueOnce(undefined);
+
+    const project = await assessmentService.createProject(developerId, {
+      name: 'Notes API',
+      githubUrl: GITHUB_URL,
+      projectType: ProjectType.BACKEND,
+    });
+
+    const queued = await prisma.analysisJob.findFirstOrThrow({
+      where: { projectId: project.id },
+    });
+    expect(queued.status).toBe('QUEUED');
+
+    // Claims the job, analyzes the project and generates the report
+    await assessmentService.processAnalysisQueue();
+
+    const job = await prisma.analysisJob.findUniqueOrThrow({
+      where: { id: queued.id },
+    });
+    expect(job.status).toBe('SUCCEEDED');
+
+    const analysis = await prisma.projectAnalysis.findUniqueOrThrow({
+      where: { projectId: project.id },
+    });
+    expect(analysis.status).toBe('COMPLETE');
+    expect(analysis.commitSha).toBe(COMMIT_SHA);
+    expect(analysis.filesFetched).toBe(REPO_FILES.length);
+    expect(analysis.score).toBe(readFixture('projectAnalysis').score);
+
+    const report = await prisma.hiringReport.findUniqueOrThrow({
+      where: { developerId },
+    });
+    const expectedReport = readFixture('hiringReport');
+    expect(report.overallScore).toBe(expectedReport.overallScore);
+    expect(report.recommendation).toBe(expectedReport.recommendation);
+
+    const assessed = await prisma.developer.findUniqueOrThrow({
+      where: { id: developerId },
+    });
+    expect(assessed.assessmentStatus).toBe('ASSESSED');
+  });
+});
+
+function repoFetchResult(): RepoFetchResult {
+  return {
+    files: REPO_FILES,
+    manifest: REPO_FILES.map(({ path, size }, index) => ({
+      path,
+      sha: String(index).repeat(40),
+      size,
+    })),
+    commitSha: COMMIT_SHA,
+    ref: 'main',
+    totalFiles: REPO_FILES.length,
+    truncated: false,
+    requestCount: 0,
+    rateLimit: null,
+    flaggedPaths: [],
+  };
+}
+
+/**
+ * Tool input of a bundled default fixture
+ */
+function readFixture(promptType: string): Record<string, unknown> {
+  const fixture = JSON.parse(
+    readFileSync(
+      join(DEFAULT_FIXTURES_DIR, promptType, 'default.json'),
+      'utf8',
+    ),
+  ) as { toolCall: { input: Record<string, unknown> } };
+  return fixture.toolCall.input;
+}
@@ -1,26 +1,62 @@
 import {
   Injectable,
   Logger,
+  MessageEvent,
   BadRequestException,
   NotFoundException,
   ForbiddenException,
   ConflictException,
   UnauthorizedException,
+  HttpException,
+  HttpStatus,
 } from '@nestjs/common';
-import { Cron, CronExpression } from '@nestjs/schedule';
+import { Cron, CronExpression, Interval } from '@nestjs/schedule';
+import { Observable, concat, from, mergeMap } from 'rxjs';
 import { PrismaService } from '../../prisma/prisma.service';
-import { GithubService, RepoFile } from '../../github/github.service';
-import { GithubAppService } from '../../github/github-app.service';
+import { GithubService, RepoManifestEntry } from '../../github/github.service';
+import { ChangeSummaryDto, SecurityScanDto } from '../../common/dto';
+import {
+  ArchiveService,
+  ArchiveUpload,
+  SOURCE_HOST_LABELS,
+  SourceHostClient,
+  SourceHostService,
+} from '../../source-hosts';
 import {
   AiService,
   ProjectAnalysisResult,
   HiringReportResult,
 } from '../../ai/ai.service';
+import { AiUsageService } from '../../ai/ai-usage.service';
+import { getPromptVersion } from '../../ai/prompts/prompt-registry';
+import { AnalysisQueueService } from './analysis-queue.service';
+import { FileSelectionService } from './file-selection.service';
+import { CodeMetrics, CodeMetricsService } from './code-metrics.service';
+import { GitHistoryService, GitHistorySignals } from './git-history.service';
+import { ImprovementPlanService } from './improvement-plan.service';
+import { SecurityScanService } from './security-scan.service';
+import {
+  RealtimeEventsService,
+  AnalysisPhase,
+  ProjectProgressEvent,
+} from '../../events';
+import {
+  ANALYSIS_ERROR_HINTS,
+  EmptyRepositoryError,
+  GithubAuthError,
+  classifyAnalysisError,
+} from './analysis-errors';
 import {
   CreateProjectDto,
+  CreateArchiveProjectDto,
   ProjectResponseDto,
   ProjectListResponseDto,
   AssessmentStatusDto,
+  StuckAnalysisDto,
+  StartRescoreDto,
+  StartRescoreResponseDto,
+  RescoreStatusDto,
+  ProjectSecurityScanDto,
 } from './dto';
 import {
   AssessmentStatus,
@@ -30,11 +66,33 @@ import {
   ProjectAnalysis,
   HireRecommendation,
   JuniorLevel,
-  PipelineStage,
+  AnalysisJob,
+  AnalysisErrorType,
+  AnalysisJobStatus,
+  SourceHost,
 } from '../../../prisma/generated/prisma';
 
 const MAX_PROJECTS = 3;
 const LOCK_DAYS = 30;
+const ANALYSIS_QUEUE_POLL_MS = 15 * 1000;
+// Raw download budget per project; FileSelectionService then trims it
+// down to the AI token budget
+const MAX_CONTENT_SIZE = 400000;
+const MAX_FILES = 200;
+// Commit history window for authenticity signals
+const MAX_HISTORY_COMMITS = 300;
+const DETAILED_HISTORY_COMMITS = 20;
+// Paths listed per category in a change summary
+const MAX_CHANGED_PATHS = 50;
+// An analysis still ANALYZING after this long is considered abandoned, unless
+// a worker still holds its job's lock (see AnalysisQueueService.holdLock)
+const STALE_ANALYSIS_MS = 30 * 60 * 1000;
+const DEFAULT_MAX_ATTEMPTS = 5;
+// Minimum time between manual retries of failed analyses, per developer
+const RETRY_COOLDOWN_MS = 60 * 60 * 1000;
+// Bulk re-score: developers per admin request, reports per cron run
+const DEFAULT_RESCORE_LIMIT = 100;
+const RESCORE_REPORTS_PER_RUN = 20;
 
 // Type for project with analysis included
 interface ProjectWithAnalysis extends TechnicalProject {
@@ -65,12 +123,23 @@ function getErrorMessage(error: unknown): string {
 @Injectable()
 export class AssessmentService {
   private readonly logger = new Logger(AssessmentService.name);
+  private isProcessingQueue = false;
+  private aiBudgetPaused = false;
 
   constructor(
     private prisma: PrismaService,
     private githubService: GithubService,
-    private githubAppService: GithubAppService,
+    private sourceHostService: SourceHostService,
+    private archiveService: ArchiveService,
     private aiService: AiService,
+    private analysisQueue: AnalysisQueueService,
+    private realtimeEvents: RealtimeEventsService,
+    private fileSelection: FileSelectionService,
+    private codeMetrics: CodeMetricsService,
+    private gitHistory: GitHistoryService,
+    private aiUsage: AiUsageService,
+    private improvementPlan: ImprovementPlanService,
+    private securityScan: SecurityScanService,
   ) {}
 
   /**
@@ -109,6 +178,37 @@ export class AssessmentService {
     return this.mapProjectToResponse(project);
   }
 
+  /**
+   * Security scan findings for a project (developer only)
+   * Companies see the counts in the report, never the files or excerpts
+   */
+  async getProjectSecurityScan(
+    developerId: number,
+    projectId: number,
+  ): Promise<ProjectSecurityScanDto> {
+    const project = await this.prisma.technicalProject.findFirst({
+      where: { id: projectId, developerId },
+      select: {
+        analysis: { select: { securityScan: true, commitSha: true } },
+      },
+    });
+
+    if (!project) {
+      throw new NotFoundException('Project not found');
+    }
+
+    const scan = (project.analysis?.securityScan ??
+      null) as unknown as SecurityScanDto | null;
+
+    return {
+      projectId,
+      commitSha: project.analysis?.commitSha ?? undefined,
+      scan,
+      // Deleting a committed secret doesn't revoke it: it stays in git history
+      rotateSecrets: !!scan && scan.summary.secrets > 0,
+    };
+  }
+
   /**
    * Create a new technical project
    */
@@ -116,69 +216,91 @@ export class AssessmentService {
     developerId: number,
     dto: CreateProjectDto,
   ): Promise<ProjectResponseDto> {
-    // Check project limit
-    const existingCount = await this.prisma.technicalProject.count({
-      where: { developerId },
-    });
+    await this.checkProjectLimit(developerId);
 
-    if (existingCount >= MAX_PROJECTS) {
-      throw new BadRequestException(
-        `You can only have up to ${MAX_PROJECTS} projects. Delete one before adding a new project.`,
-      );
-    }
+    const location = this.sourceHostService.parseRepoUrl(dto.githubUrl);
+    const repoFullName = location.fullName;
+    const hostLabel = SOURCE_HOST_LABELS[location.host];
+    const isGithub = location.host === SourceHost.GITHUB;
 
-    // Check if developer has GitHub App installed
-    const hasInstallation =
-      await this.githubAppService.hasInstallation(developerId);
-    if (!hasInstallation) {
+    // Check if developer has connected the repository's host
+    const hasConnection = await this.sourceHostService.hasConnection(
+      developerId,
+      location.host,
+    );
+    if (!hasConnection) {
       throw new UnauthorizedException(
-        'Please connect your GitHub account first. Go to Settings > GitHub to install the Juniob GitHub App.',
+        isGithub
+          ? 'Please connect your GitHub account first. Go to Settings > GitHub to install the Juniob GitHub App.'
+          : `Please connect your ${hostLabel} account first. Go to Settings > ${hostLabel} to connect it.`,
       );
     }
 
-    // Check if repository is in the authorized list
-    const repoFullName = this.githubService.getRepoFullName(dto.githubUrl);
-    const isAuthorized = await this.githubAppService.isRepositoryAuthorized(
+    // Get a client authenticated as the developer
+    const client = await this.sourceHostService.getClient(
       developerId,
-      repoFullName,
+      location,
     );
+    if (!client) {
+      throw new UnauthorizedException(
+        `Failed to authenticate with ${hostLabel}. Please reconnect your ${hostLabel} account.`,
+      );
+    }
 
+    // Check that the developer granted access to the repository
+    const isAuthorized = await client.isAuthorized();
     if (!isAuthorized) {
       throw new ForbiddenException(
-        `Repository "${repoFullName}" is not authorized. Please add it to your Juniob GitHub App installation.`,
+        isGithub
+          ? `Repository "${repoFullName}" is not authorized. Please add it to your Juniob GitHub App installation.`
+          : `Repository "${repoFullName}" is not authorized. Your ${hostLabel} account needs write access to it.`,
       );
     }
 
-    // Get authenticated Octokit
-    const octokit =
-      await this.githubAppService.getAuthenticatedOctokit(developerId);
-    if (!octokit) {
-      throw new UnauthorizedException(
-        'Failed to authenticate with GitHub. Please reconnect your GitHub account.',
-      );
+    // Validate repository
+    await client.validateRepository();
+
+    // Validate the requested branch/tag
+    if (dto.ref) {
+      try {
+        await client.resolveRef(dto.ref);
+      } catch {
+        throw new BadRequestException(
+          `Branch or tag "${dto.ref}" not found in ${repoFullName}`,
+        );
+      }
     }
 
-    // Validate GitHub repository
-    const { owner, repo } = await this.githubService.validateRepository(
-      octokit,
-      dto.githubUrl,
-    );
+    // Validate the monorepo root paths
+    const rootPaths = this.normalizeRootPaths(dto.rootPaths);
+    const missingPaths = await client.findMissingPaths(rootPaths, dto.ref);
+    if (missingPaths.length > 0) {
+      throw new BadRequestException(
+        `Root path${missingPaths.length === 1 ? '' : 's'} not found in ${repoFullName}: ${missingPaths.join(', ')}`,
+      );
+    }
 
-    // Check for duplicate repository
-    const existingRepo = await this.prisma.technicalProject.findFirst({
-      where: { developerId, githubUrl: dto.githubUrl },
+    // Check for duplicate repository (a monorepo can be added once per
+    // set of root paths that don't overlap)
+    const repoKey = this.sourceHostService.getRepoKey(location);
+    const sameRepoProjects = await this.prisma.technicalProject.findMany({
+      where: { developerId, repoKey },
+      select: { rootPaths: true },
     });
+    const duplicate = sameRepoProjects.find((existing) =>
+      this.rootPathsOverlap(existing.rootPaths, rootPaths),
+    );
 
-    if (existingRepo) {
-      throw new ConflictException('You have already added this repository');
+    if (duplicate) {
+      throw new ConflictException(
+        duplicate.rootPaths.length === 0 && rootPaths.length === 0
+          ? 'You have already added this repository'
+          : 'You have already added this repository with overlapping root paths',
+      );
     }
 
     // Get languages for initial tech stack
-    const languages = await this.githubService.listRepoLanguages(
-      octokit,
-      owner,
-      repo,
-    );
+    const languages = await client.listRepoLanguages();
 
     // Create project with pending analysis
     const project = await this.prisma.technicalProject.create({
@@ -186,9 +308,13 @@ export class AssessmentService {
         developerId,
         name: dto.name,
         githubUrl: dto.githubUrl,
+        repoKey,
+        sourceHost: location.host,
         projectType: dto.projectType as ProjectType,
         description: dto.description,
         uiUrl: dto.uiUrl,
+        gitRef: dto.ref,
+        rootPaths,
         techStack: languages,
         analysis: {
           create: {
@@ -202,6 +328,11 @@ export class AssessmentService {
     // Update developer status to PROJECTS_SUBMITTED if was REGISTERING
     await this.updateDeveloperStatus(developerId);
 
+    // Queue the analysis and start it right away instead of waiting for the next poll
+    await this.analysisQueue.enqueue(project.id);
+    await this.publishQueuePositions();
+    this.kickAnalysisQueue();
+
     this.logger.log(
       `Created project ${project.id} for developer ${developerId}`,
     );
@@ -209,6 +340,82 @@ export class AssessmentService {
     return this.mapProjectToResponse(project);
   }
 
+  /**
+   * Create a technical project from an uploaded archive
+   * For code that can't be shared from a repository host; without history
+   * its origin can't be verified, which reports point out
+   */
+  async createArchiveProject(
+    developerId: number,
+    dto: CreateArchiveProjectDto,
+    file: ArchiveUpload | undefined,
+  ): Promise<ProjectResponseDto> {
+    if (!file) {
+      throw new BadRequestException('Please upload the project archive');
+    }
+
+    await this.checkProjectLimit(developerId);
+
+    // Rejects unreadable or empty archives before anything is created
+    const archive = await this.archiveService.store(developerId, file);
+
+    // Check for duplicate upload (the hash is only known once stored)
+    const duplicate = await this.prisma.technicalProject.findFirst({
+      where: { developerId, archiveSha256: archive.sha256 },
+      select: { id: true },
+    });
+
+    if (duplicate) {
+      await this.archiveService.delete(archive.key);
+      throw new ConflictException('You have already uploaded this archive');
+    }
+
+    // No host reports languages for an archive: measure them instead
+    const languages = this.languagesByLinesOfCode(
+      this.codeMetrics.collect(
+        archive.files,
+        archive.files.map((f) => f.path),
+      ),
+    );
+
+    // Create project with pending analysis
+    const project = await this.prisma.technicalProject.create({
+      data: {
+        developerId,
+        name: dto.name,
+        sourceHost: SourceHost.ARCHIVE,
+        projectType: dto.projectType as ProjectType,
+        description: dto.description,
+        uiUrl: dto.uiUrl,
+        archiveKey: archive.key,
+        archiveName: archive.name,
+        archiveSize: archive.size,
+        archiveSha256: archive.sha256,
+        techStack: languages,
+        analysis: {
+          create: {
+            status: ProjectAnalysisStatus.PENDING,
+          },
+        },
+      },
+      include: { analysis: true },
+    });
+
+    // Update developer status to PROJECTS_SUBMITTED if was REGISTERING
+    await this.updateDeveloperStatus(developerId);
+
+    // Queue the analysis and start it right away instead of waiting for the next poll
+    await this.analysisQueue.enqueue(project.id);
+    await this.publishQueuePositions();
+    this.kickAnalysisQueue();
+
+    this.logger.log(
+      `Created archive project ${project.id} for developer ${developerId}`,
+    );
+
+    return this.mapProjectToResponse(project);
+  }
+
   /**
    * Update a project's name (only name can be changed while locked)
    */
@@ -235,6 +442,157 @@ export class AssessmentService {
     return this.mapProjectToResponse(updated);
   }
 
+  /**
+   * Retry a FAILED project analysis
+   * Rate limited per developer so retries can't be used to burn AI budget
+   */
+  async retryProjectAnalysis(
+    developerId: number,
+    projectId: number,
+  ): Promise<ProjectResponseDto> {
+    const project = await this.prisma.technicalProject.findFirst({
+      where: { id: projectId, developerId },
+      include: { analysis: true, developer: true },
+    });
+
+    if (!project) {
+      throw new NotFoundException('Project not found');
+    }
+
+    if (project.analysis?.status !== ProjectAnalysisStatus.FAILED) {
+      throw new BadRequestException('Only failed analyses can be retried');
+    }
+
+    const lastRetryAt = project.developer.lastAnalysisRetryAt;
+    if (lastRetryAt) {
+      const nextAllowedAt = lastRetryAt.getTime() + RETRY_COOLDOWN_MS;
+      if (nextAllowedAt > Date.now()) {
+        const minutesLeft = Math.ceil((nextAllowedAt - Date.now()) / 60000);
+        throw new HttpException(
+          `You can retry again in ${minutesLeft} minute${minutesLeft === 1 ? '' : 's'}`,
+          HttpStatus.TOO_MANY_REQUESTS,
+        );
+      }
+    }
+
+    // Don't spend a retry on something that will fail the same way
+    // (an archive has no host connection to check)
+    if (
+      project.analysis.errorType === AnalysisErrorType.GITHUB_AUTH &&
+      project.sourceHost !== SourceHost.ARCHIVE
+    ) {
+      const location = this.sourceHostService.parseRepoUrl(project.githubUrl!);
+      const client = await this.sourceHostService.getClient(
+        developerId,
+        location,
+      );
+      if (!client) {
+        const hostLabel = SOURCE_HOST_LABELS[location.host];
+        throw new BadRequestException(
+          location.host === SourceHost.GITHUB
+            ? 'GitHub App not installed. Please reconnect GitHub before retrying.'
+            : `${hostLabel} not connected. Please reconnect ${hostLabel} before retrying.`,
+        );
+      }
+    }
+
+    await this.prisma.developer.update({
+      where: { id: developerId },
+      data: { lastAnalysisRetryAt: new Date() },
+    });
+
+    const updated = await this.prisma.technicalProject.update({
+      where: { id: projectId },
+      data: {
+        analysis: {
+          update: {
+            status: ProjectAnalysisStatus.PENDING,
+            retryCount: 0,
+            errorMessage: null,
+            errorType: null,
+            startedAt: null,
+          },
+        },
+      },
+      include: { analysis: true },
+    });
+
+    await this.analysisQueue.enqueue(projectId);
+    await this.publishQueuePositions();
+    this.kickAnalysisQueue();
+
+    this.logger.log(
+      `Developer ${developerId} retried analysis for project ${projectId}`,
+    );
+
+    return this.mapProjectToResponse(updated);
+  }
+
+  /**
+   * Re-analyze a project focusing on the improvement plan tasks marked done
+   * Only after the lock period expires; the new result starts a new lock
+   */
+  async requestFocusedAnalysis(
+    developerId: number,
+    projectId: number,
+  ): Promise<ProjectResponseDto> {
+    const project = await this.prisma.technicalProject.findFirst({
+      where: { id: projectId, developerId },
+      include: { analysis: true },
+    });
+
+    if (!project) {
+      throw new NotFoundException('Project not found');
+    }
+
+    if (project.analysis?.status !== ProjectAnalysisStatus.COMPLETE) {
+      throw new BadRequestException(
+        'Only completed analyses can be re-analyzed',
+      );
+    }
+
+    if (this.isProjectLocked(project.lockedUntil)) {
+      throw new ForbiddenException(
+        `A focused re-analysis is available ${LOCK_DAYS} days after the last analysis.`,
+      );
+    }
+
+    const doneTasks = await this.improvementPlan.countDoneTasks(
+      project.analysis.id,
+    );
+    if (doneTasks === 0) {
+      throw new BadRequestException(
+        'Mark at least one improvement plan task as done first',
+      );
+    }
+
+    const updated = await this.prisma.technicalProject.update({
+      where: { id: projectId },
+      data: {
+        analysis: {
+          update: {
+            status: ProjectAnalysisStatus.PENDING,
+            retryCount: 0,
+            errorMessage: null,
+            errorType: null,
+            startedAt: null,
+          },
+        },
+      },
+      include: { analysis: true },
+    });
+
+    await this.analysisQueue.enqueue(projectId, { focused: true });
+    await this.publishQueuePositions();
+    this.kickAnalysisQueue();
+
+    this.logger.log(
+      `Developer ${developerId} requested a focused re-analysis of project ${projectId} (${doneTasks} tasks done)`,
+    );
+
+    return this.mapProjectToResponse(updated);
+  }
+
   /**
    * Delete a project (only after lock period expires)
    */
@@ -257,6 +615,10 @@ export class AssessmentService {
       where: { id: projectId },
     });
 
+    if (project.archiveKey) {
+      await this.archiveService.delete(project.archiveKey);
+    }
+
     // Update developer status - may need regeneration
     await this.handleProjectDeletion(developerId);
 
@@ -366,9 +728,11 @@ export class AssessmentService {
           update: {
             status: ProjectAnalysisStatus.PENDING,
             errorMessage: null,
+            errorType: null,
             retryCount: 0,
           },
         });
+        await this.analysisQueue.enqueue(project.id);
       }
     }
 
@@ -381,79 +745,275 @@ export class AssessmentService {
     // Sync pipeline entries
     await this.syncPipelineStage(developerId, 'PROJECTS_SUBMITTED');
 
+    await this.publishQueuePositions();
+    this.kickAnalysisQueue();
+
     this.logger.log(
       `Triggered report regeneration for developer ${developerId}`,
     );
   }
 
+  /**
+   * Live assessment events for a developer
+   * Starts with a snapshot (current status and queue positions) so clients
+   * don't have to poll GET status first
+   */
+  streamEvents(developerId: number): Observable<MessageEvent> {
+    const snapshot = from(this.getEventSnapshot(developerId)).pipe(
+      mergeMap((events) => from(events)),
+    );
+
+    return concat(snapshot, this.realtimeEvents.developerStream(developerId));
+  }
+
+  /**
+   * List analyses stuck in ANALYZING past the stale threshold (admin)
+   */
+  async getStuckAnalyses(): Promise<StuckAnalysisDto[]> {
+    const now = Date.now();
+    const stale = await this.findStaleAnalyses();
+
+    return Promise.all(
+      stale.map(async (analysis) => {
+        const job = await this.analysisQueue.findLatest(analysis.projectId);
+        const startedAt = analysis.startedAt ?? analysis.updatedAt;
+
+        return {
+          projectId: analysis.projectId,
+          projectName: analysis.project.name,
+          githubUrl: analysis.project.githubUrl,
+          developerId: analysis.project.developerId,
+          developerStatus: analysis.project.developer.assessmentStatus,
+          startedAt: analysis.startedAt ?? undefined,
+          stuckForMinutes: Math.floor((now - startedAt.getTime()) / 60000),
+          retryCount: job?.attempts ?? analysis.retryCount,
+          jobStatus: job?.status,
+          lastError: job?.lastError ?? analysis.errorMessage ?? undefined,
+        };
+      }),
+    );
+  }
+
   // ========================================
-  // CRON JOBS FOR ANALYSIS PROCESSING
+  // PROMPT VERSION RE-SCORE (ADMIN)
   // ========================================
 
   /**
-   * Process pending project analyses (every 5 minutes)
-   * Only picks up PENDING projects - ANALYZING means already in progress
+   * Re-run outdated analyses and reports under the current prompt versions
+   * Re-scores use the stored commit, don't touch the 30-day lock, company
+   * unlocks or credits, and keep the previous result if they fail
    */
-  @Cron(CronExpression.EVERY_5_MINUTES)
-  async processAnalysisQueue(): Promise<void> {
-    this.logger.log('Checking for projects pending analysis...');
+  async startRescore(dto: StartRescoreDto): Promise<StartRescoreResponseDto> {
+    const projectAnalysisVersion = getPromptVersion('projectAnalysis');
+    const hiringReportVersion = getPromptVersion('hiringReport');
+    const outdatedAnalysis = this.outdatedVersionFilter(projectAnalysisVersion);
 
-    // Only query for PENDING status - ANALYZING means already being processed
-    const pendingAnalyses = await this.prisma.projectAnalysis.findMany({
+    const developers = await this.prisma.developer.findMany({
       where: {
-        status: ProjectAnalysisStatus.PENDING,
-      },
-      include: {
-        project: {
-          include: {
-            developer: {
-              include: {
-                technicalProfile: {
-                  include: { techExperiences: true },
+        id: dto.developerIds ? { in: dto.developerIds } : undefined,
+        assessmentStatus: AssessmentStatus.ASSESSED,
+        hiringReport: { isNot: null },
+        OR: [
+          { hiringReport: this.outdatedVersionFilter(hiringReportVersion) },
+          {
+            projects: {
+              some: {
+                analysis: {
+                  status: ProjectAnalysisStatus.COMPLETE,
+                  ...outdatedAnalysis,
                 },
               },
             },
           },
-        },
+        ],
       },
-      orderBy: { createdAt: 'asc' },
-      take: 5,
+      include: { projects: { include: { analysis: true } } },
+      orderBy: { id: 'asc' },
+      take: dto.limit ?? DEFAULT_RESCORE_LIMIT,
     });
 
-    if (pendingAnalyses.length === 0) {
-      this.logger.log('No projects pending analysis');
-      return;
+    let jobsQueued = 0;
+    for (const developer of developers) {
+      await this.prisma.hiringReport.update({
+        where: { developerId: developer.id },
+        data: { rescorePending: true },
+      });
+
+      for (const project of developer.projects) {
+        if (
+          project.analysis?.status === ProjectAnalysisStatus.COMPLETE &&
+          project.analysis.promptVersion !== projectAnalysisVersion
+        ) {
+          await this.analysisQueue.enqueue(project.id, { rescore: true });
+          jobsQueued++;
+        }
+      }
     }
 
-    this.logger.log(`Processing ${pendingAnalyses.length} projects...`);
+    this.logger.log(
+      `Re-score started for ${developers.length} developers (${jobsQueued} projects) under analysis ${projectAnalysisVersion} / report ${hiringReportVersion}`,
+    );
+
+    this.kickAnalysisQueue();
 
-    for (const analysis of pendingAnalyses) {
-      try {
-        await this.analyzeProject(analysis.projectId);
+    return {
+      developers: developers.length,
+      jobsQueued,
+      projectAnalysisVersion,
+      hiringReportVersion,
+    };
+  }
 
-        // Check if all projects for this developer are now analyzed
-        await this.checkAndGenerateHiringReport(analysis.project.developerId);
+  /**
+   * Progress of re-scoring towards the current prompt versions (admin)
+   */
+  async getRescoreStatus(): Promise<RescoreStatusDto> {
+    const projectAnalysisVersion = getPromptVersion('projectAnalysis');
+    const hiringReportVersion = getPromptVersion('hiringReport');
+
+    const [outdatedAnalyses, outdatedReports, openJobs, pendingReports] =
+      await Promise.all([
+        this.prisma.projectAnalysis.count({
+          where: {
+            status: ProjectAnalysisStatus.COMPLETE,
+            ...this.outdatedVersionFilter(projectAnalysisVersion),
+          },
+        }),
+        this.prisma.hiringReport.count({
+          where: this.outdatedVersionFilter(hiringReportVersion),
+        }),
+        this.prisma.analysisJob.count({
+          where: {
+            rescore: true,
+            status: {
+              in: [AnalysisJobStatus.QUEUED, AnalysisJobStatus.RUNNING],
+            },
+          },
+        }),
+        this.prisma.hiringReport.count({ where: { rescorePending: true } }),
+      ]);
 
-        // Rate limit protection
-        await new Promise((resolve) => setTimeout(resolve, 3000));
-      } catch (error: unknown) {
-        this.logger.error(
-          `Failed to analyze project ${analysis.projectId}: ${getErrorMessage(error)}`,
-        );
-      }
-    }
+    return {
+      projectAnalysisVersion,
+      hiringReportVersion,
+      outdatedAnalyses,
+      outdatedReports,
+      openJobs,
+      pendingReports,
+    };
   }
 
+  // ========================================
+  // CRON JOBS FOR ANALYSIS PROCESSING
+  // ========================================
+
   /**
-   * Check for developers needing hiring report regeneration (every 10 minutes)
+   * Recover analyses left in ANALYZING by a crashed worker (every 5 minutes)
+   * Re-queues them while attempts remain, otherwise marks them FAILED,
+   * then re-syncs the developer status and pipeline stage
    */
-  @Cron(CronExpression.EVERY_10_MINUTES)
-  async processHiringReportGeneration(): Promise<void> {
-    this.logger.log('Checking for developers needing hiring report...');
+  @Cron(CronExpression.EVERY_5_MINUTES)
+  async recoverStuckAnalyses(): Promise<void> {
+    // Jobs that crashed their worker on every attempt: their analyses have
+    // stalled however recently the last attempt started
+    const exhausted = await this.analysisQueue.failExhausted();
+    const stale = await this.findStaleAnalyses(
+      exhausted.map((job) => job.projectId),
+    );
 
-    // Find developers with all projects analyzed but no hiring report
-    const developers = await this.prisma.developer.findMany({
-      where: {
+    if (stale.length === 0) {
+      return;
+    }
+
+    this.logger.warn(`Recovering ${stale.length} stuck analyses...`);
+
+    const developerIds = new Set<number>();
+
+    for (const analysis of stale) {
+      try {
+        const job = await this.analysisQueue.findLatest(analysis.projectId);
+        const attempts = job?.attempts ?? analysis.retryCount;
+        const maxAttempts = job?.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+        const startedAt = analysis.startedAt?.toISOString() ?? 'unknown time';
+        const willRetry = attempts < maxAttempts;
+        const reason = willRetry
+          ? `Analysis stalled (started ${startedAt}); re-queued`
+          : `Analysis stalled (started ${startedAt}) after ${attempts} attempts`;
+
+        await this.prisma.projectAnalysis.update({
+          where: { id: analysis.id },
+          data: {
+            status: willRetry
+              ? ProjectAnalysisStatus.PENDING
+              : ProjectAnalysisStatus.FAILED,
+            retryCount: attempts,
+            errorMessage: reason,
+            errorType: AnalysisErrorType.STALLED,
+            startedAt: null,
+          },
+        });
+
+        if (willRetry) {
+          await this.analysisQueue.enqueue(analysis.projectId);
+        } else {
+          await this.analysisQueue.abandon(analysis.projectId, reason);
+        }
+
+        developerIds.add(analysis.project.developerId);
+
+        this.logger.warn(`Project ${analysis.projectId}: ${reason}`);
+      } catch (error: unknown) {
+        this.logger.error(
+          `Failed to recover analysis for project ${analysis.projectId}: ${getErrorMessage(error)}`,
+        );
+      }
+    }
+
+    for (const developerId of developerIds) {
+      await this.resyncAnalyzingDeveloper(developerId);
+    }
+
+    this.kickAnalysisQueue();
+  }
+
+  /**
+   * Drain the analysis job queue
+   * Polls on a short interval and is also kicked as soon as a job is enqueued.
+   * Jobs are claimed with SKIP LOCKED, so several instances can run this safely.
+   * Jobs stay queued while the monthly AI budget is exceeded.
+   */
+  @Interval(ANALYSIS_QUEUE_POLL_MS)
+  async processAnalysisQueue(): Promise<void> {
+    if (this.isProcessingQueue) return;
+    this.isProcessingQueue = true;
+
+    try {
+      while (await this.hasAiBudget()) {
+        const job = await this.analysisQueue.claimNext();
+        if (!job) break;
+
+        await this.publishQueuePositions();
+        await this.runAnalysisJob(job);
+      }
+    } catch (error: unknown) {
+      this.logger.error(
+        `Failed to process analysis queue: ${getErrorMessage(error)}`,
+      );
+    } finally {
+      this.isProcessingQueue = false;
+    }
+  }
+
+  /**
+   * Check for developers needing hiring report regeneration (every 10 minutes)
+   */
+  @Cron(CronExpression.EVERY_10_MINUTES)
+  async processHiringReportGeneration(): Promise<void> {
+    this.logger.log('Checking for developers needing hiring report...');
+
+    // Find developers with all projects analyzed but no hiring report
+    const developers = await this.prisma.developer.findMany({
+      where: {
         assessmentStatus: {
           in: [AssessmentStatus.PROJECTS_SUBMITTED, AssessmentStatus.ANALYZING],
         },
@@ -473,6 +1033,9 @@ export class AssessmentService {
       );
 
       if (allAnalyzed && developer.projects.length > 0) {
+        // The remaining developers are picked up once the budget resets
+        if (!(await this.hasAiBudget())) return;
+
         try {
           await this.generateHiringReport(developer.id);
         } catch (error: unknown) {
@@ -484,16 +1047,159 @@ export class AssessmentService {
     }
   }
 
+  /**
+   * Regenerate re-scored reports whose analyses are done (every 10 minutes)
+   * Covers hiring-report-only version bumps, where no project job runs
+   */
+  @Cron(CronExpression.EVERY_10_MINUTES)
+  async processRescoredReports(): Promise<void> {
+    const pending = await this.prisma.hiringReport.findMany({
+      where: { rescorePending: true },
+      select: { developerId: true },
+      orderBy: { updatedAt: 'asc' },
+      take: RESCORE_REPORTS_PER_RUN,
+    });
+
+    for (const { developerId } of pending) {
+      if (!(await this.hasAiBudget())) return;
+
+      try {
+        await this.regenerateRescoredReport(developerId);
+      } catch (error: unknown) {
+        this.logger.error(
+          `Failed to regenerate re-scored report for developer ${developerId}: ${getErrorMessage(error)}`,
+        );
+      }
+    }
+  }
+
   // ========================================
   // PRIVATE HELPER METHODS
   // ========================================
 
-  private async analyzeProject(projectId: number): Promise<void> {
+  private async checkProjectLimit(developerId: number): Promise<void> {
+    const existingCount = await this.prisma.technicalProject.count({
+      where: { developerId },
+    });
+
+    if (existingCount >= MAX_PROJECTS) {
+      throw new BadRequestException(
+        `You can only have up to ${MAX_PROJECTS} projects. Delete one before adding a new project.`,
+      );
+    }
+  }
+
+  /**
+   * Languages ordered by measured lines of code, for sources that don't
+   * report any (archives, Bitbucket repositories without a language set)
+   */
+  private languagesByLinesOfCode(metrics: CodeMetrics): string[] {
+    return Object.entries(metrics.linesOfCode)
+      .sort(([, a], [, b]) => b - a)
+      .map(([language]) => language);
+  }
+
+  /**
+   * Trim slashes, drop duplicates and paths inside another listed path
+   */
+  private normalizeRootPaths(rootPaths: string[] = []): string[] {
+    const trimmed = [
+      ...new Set(
+        rootPaths.map((path) => path.trim().replace(/^\/+|\/+$/g, '')),
+      ),
+    ].filter(Boolean);
+
+    return trimmed
+      .filter(
+        (path) =>
+          !trimmed.some(
+            (other) => other !== path && path.startsWith(`${other}/`),
+          ),
+      )
+      .sort();
+  }
+
+  /**
+   * Whether two projects of the same repository cover common files
+   * (no root paths = the whole repository)
+   */
+  private rootPathsOverlap(a: string[], b: string[]): boolean {
+    if (a.length === 0 || b.length === 0) return true;
+
+    return a.some((x) =>
+      b.some((y) => x === y || x.startsWith(`${y}/`) || y.startsWith(`${x}/`)),
+    );
+  }
+
+  /**
+   * Start draining the queue without blocking the caller
+   */
+  private kickAnalysisQueue(): void {
+    void this.processAnalysisQueue();
+  }
+
+  /**
+   * Whether AI calls are still within the monthly budget
+   * Logs once when the queue pauses and once when it resumes
+   */
+  private async hasAiBudget(): Promise<boolean> {
+    const budget = await this.aiUsage.getBudgetStatus();
+
+    if (budget.exceeded !== this.aiBudgetPaused) {
+      this.aiBudgetPaused = budget.exceeded;
+      if (budget.exceeded) {
+        this.logger.warn(
+          `AI budget exceeded ($${budget.spentUsd} of $${budget.budgetUsd}), analysis queue paused`,
+        );
+      } else {
+        this.logger.log('AI budget available, analysis queue resumed');
+      }
+    }
+
+    return !budget.exceeded;
+  }
+
+  private async runAnalysisJob(job: AnalysisJob): Promise<void> {
+    const project = await this.prisma.technicalProject.findUnique({
+      where: { id: job.projectId },
+      select: { developerId: true },
+    });
+
+    if (!project) {
+      return;
+    }
+
+    try {
+      const releaseLock = this.analysisQueue.holdLock(job);
+      try {
+        await this.analyzeProject(job);
+      } finally {
+        releaseLock();
+      }
+
+      if (job.rescore) {
+        await this.regenerateRescoredReport(project.developerId);
+      } else {
+        // Check if all projects for this developer are now analyzed
+        await this.checkAndGenerateHiringReport(project.developerId);
+      }
+    } catch (error: unknown) {
+      this.logger.error(
+        `Failed to analyze project ${job.projectId}: ${getErrorMessage(error)}`,
+      );
+    }
+  }
+
+  private async analyzeProject(job: AnalysisJob): Promise<void> {
+    const projectId = job.projectId;
     const project = await this.prisma.technicalProject.findUnique({
       where: { id: projectId },
       include: {
         developer: {
-          include: { technicalProfile: { include: { techExperiences: true } } },
+          include: {
+            user: true,
+            technicalProfile: { include: { techExperiences: true } },
+          },
         },
       },
     });
@@ -502,91 +1208,156 @@ export class AssessmentService {
       throw new Error(`Project ${projectId} not found`);
     }
 
-    // Update status to ANALYZING
-    await this.prisma.projectAnalysis.update({
-      where: { projectId },
-      data: {
-        status: ProjectAnalysisStatus.ANALYZING,
-        startedAt: new Date(),
-      },
-    });
+    // A re-score leaves the visible state alone until it succeeds
+    const rescore = job.rescore;
+    const emitPhase = (
+      phase: AnalysisPhase,
+      details?: Pick<ProjectProgressEvent, 'filesFound' | 'filesSelected'>,
+    ) => {
+      if (!rescore) {
+        this.emitProjectPhase(project.developerId, projectId, phase, details);
+      }
+    };
 
-    // Update developer status
-    await this.prisma.developer.update({
-      where: { id: project.developerId },
-      data: { assessmentStatus: AssessmentStatus.ANALYZING },
-    });
+    // Inside the try so a failed status update still releases the job
+    try {
+      let previousAnalysis: ProjectAnalysis;
+      if (rescore) {
+        previousAnalysis = await this.prisma.projectAnalysis.findUniqueOrThrow({
+          where: { projectId },
+        });
+      } else {
+        // Update status to ANALYZING
+        previousAnalysis = await this.prisma.projectAnalysis.update({
+          where: { projectId },
+          data: {
+            status: ProjectAnalysisStatus.ANALYZING,
+            startedAt: new Date(),
+          },
+        });
 
-    // Sync pipeline entries
-    await this.syncPipelineStage(project.developerId, 'ANALYZING');
+        // Update developer status
+        await this.prisma.developer.update({
+          where: { id: project.developerId },
+          data: { assessmentStatus: AssessmentStatus.ANALYZING },
+        });
 
-    try {
-      // Get authenticated Octokit for the developer
-      const octokit = await this.githubAppService.getAuthenticatedOctokit(
-        project.developerId,
-      );
+        // Sync pipeline entries
+        await this.syncPipelineStage(project.developerId, 'ANALYZING');
+      }
+
+      emitPhase('FETCHING_REPO');
 
-      if (!octokit) {
-        throw new Error(
-          'GitHub App not installed or token expired. Developer needs to reconnect.',
+      // Focused re-analysis: improvement tasks marked done are re-checked first
+      const focus = job.focused
+        ? await this.improvementPlan.getFocusedAnalysisScope(
+            previousAnalysis.id,
+          )
+        : null;
+      const focusPaths = focus ? new Set(focus.paths) : undefined;
+
+      // Get a client authenticated as the developer on the repository's
+      // host, or over the uploaded archive
+      const client = await this.sourceHostService.getProjectClient(project);
+
+      if (!client) {
+        throw new GithubAuthError(
+          project.sourceHost === SourceHost.GITHUB
+            ? 'GitHub App not installed or token expired. Developer needs to reconnect.'
+            : `${SOURCE_HOST_LABELS[project.sourceHost]} not connected or token revoked. Developer needs to reconnect.`,
         );
       }
 
-      // Fetch repository files
-      const files = await this.githubService.fetchRepositoryStructure(
-        octokit,
-        project.githubUrl,
+      // Fetch repository files (highest priority first, within budget)
+      const fetchResult = await client.fetchRepositoryStructure({
+        maxContentSize: MAX_CONTENT_SIZE,
+        maxFiles: MAX_FILES,
+        // Re-score the exact code the previous result was based on
+        ref: rescore
+          ? (previousAnalysis.commitSha ?? project.gitRef)
+          : project.gitRef,
+        prioritize: (path) =>
+          this.fileSelection.scoreFile(path, focusPaths, project.rootPaths),
+        flagPath: (path) => this.securityScan.isSensitivePath(path),
+        rootPaths: project.rootPaths,
+      });
+
+      // Deterministic metrics, computed before the AI sees anything
+      const codeMetrics = this.codeMetrics.collect(
+        fetchResult.files,
+        fetchResult.manifest.map((file) => file.path),
+      );
+      const securityScan = this.securityScan.scan(
+        fetchResult.files,
+        fetchResult.flaggedPaths,
       );
 
-      if (files.length === 0) {
-        throw new Error('No relevant code files found in repository');
+      // A re-score saves these with its result, so a failed one leaves the
+      // previous analysis as it was
+      const fetchStats = {
+        codeMetrics: JSON.parse(JSON.stringify(codeMetrics)),
+        securityScan: JSON.parse(JSON.stringify(securityScan)),
+        filesTotal: fetchResult.totalFiles,
+        filesFetched: fetchResult.files.length,
+        contentTruncated: fetchResult.truncated,
+        githubRequests: fetchResult.requestCount,
+        rateLimitRemaining: fetchResult.rateLimit?.remaining ?? null,
+      };
+      if (!rescore) {
+        await this.prisma.projectAnalysis.update({
+          where: { projectId },
+          data: fetchStats,
+        });
       }
 
-      // Sort by priority and limit
-      const sortedFiles = files.sort(
-        (a, b) =>
-          this.githubService.getFilePriority(b.path) -
-          this.githubService.getFilePriority(a.path),
-      );
+      emitPhase('SELECTING_FILES', { filesFound: fetchResult.totalFiles });
 
-      const MAX_CONTENT_SIZE = 100000;
-      const MAX_FILES = 75;
+      // Pick files and excerpts within the AI token budget
+      const selection = this.fileSelection.select(
+        fetchResult.files,
+        undefined,
+        focusPaths,
+        project.rootPaths,
+      );
+      const filesToAnalyze = selection.files;
 
-      let totalSize = 0;
-      const filesToAnalyze: RepoFile[] = [];
+      if (filesToAnalyze.length === 0) {
+        throw new EmptyRepositoryError(
+          project.rootPaths.length > 0
+            ? `No relevant code files found in ${project.rootPaths.join(', ')}`
+            : 'No relevant code files found in repository',
+        );
+      }
 
-      for (const file of sortedFiles) {
-        if (filesToAnalyze.length >= MAX_FILES) break;
-        if (totalSize + file.content.length > MAX_CONTENT_SIZE) break;
-        filesToAnalyze.push(file);
-        totalSize += file.content.length;
+      const selectionManifest = JSON.parse(JSON.stringify(selection.manifest));
+      if (!rescore) {
+        await this.prisma.projectAnalysis.update({
+          where: { projectId },
+          data: { selectionManifest },
+        });
       }
 
-      // Create code snippets - use larger file size limit for better context
-      const codeSnippets = filesToAnalyze
-        .map((file) => {
-          const maxFileSize = 8000; // Increased from 5000 for better context
-          const content =
-            file.content.length > maxFileSize
-              ? file.content.slice(0, maxFileSize) + '\n// ... (truncated)'
-              : file.content;
-          return `// File: ${file.path}\n${content}`;
-        })
-        .join('\n\n');
-
-      // Get languages
-      const { owner, repo } = this.githubService.parseGithubUrl(
-        project.githubUrl,
-      );
-      const languages = await this.githubService.listRepoLanguages(
-        octokit,
-        owner,
-        repo,
-      );
+      const codeSnippets = this.fileSelection.renderForPrompt(filesToAnalyze);
+
+      // Get languages (measured when the host reports none)
+      const hostLanguages = await client.listRepoLanguages();
+      const languages =
+        hostLanguages.length > 0
+          ? hostLanguages
+          : this.languagesByLinesOfCode(codeMetrics);
+
+      // Archives have no history to draw signals from
+      const isArchive = project.sourceHost === SourceHost.ARCHIVE;
+      const gitHistory = isArchive
+        ? null
+        : await this.analyzeGitHistory(client, project, fetchResult.commitSha);
 
       // Detect fullstack
       const isFullstackByStructure =
-        this.githubService.detectFullstackByStructure(files);
+        this.githubService.detectFullstackByStructure(
+          fetchResult.files,
+          project.rootPaths,
+        );
 
       // Prepare developer context for AI analysis
       const technicalProfile = project.developer.technicalProfile;
@@ -599,6 +1370,11 @@ export class AssessmentService {
           })) || [],
       };
 
+      emitPhase('AI_CALL', {
+        filesFound: fetchResult.totalFiles,
+        filesSelected: filesToAnalyze.length,
+      });
+
       // Analyze with AI
       const result: ProjectAnalysisResult = await this.aiService.analyzeProject(
         codeSnippets,
@@ -609,8 +1385,38 @@ export class AssessmentService {
           projectType: project.projectType,
           languages,
           isFullstackByStructure,
+          rootPaths: project.rootPaths,
+          unverifiableOrigin: isArchive,
+          codeMetrics,
+          gitHistory: gitHistory ?? undefined,
+          securityScan: {
+            findings: securityScan.findings.map(
+              ({ type, rule, severity, file, line, message }) => ({
+                type,
+                rule,
+                severity,
+                file,
+                line,
+                message,
+              }),
+            ),
+            truncated: securityScan.truncated,
+          },
+          focusAreas: focus?.areas,
         },
         developerContext,
+        {
+          developerId: project.developerId,
+          projectAnalysisId: previousAnalysis.id,
+        },
+      );
+
+      emitPhase('SAVING');
+
+      const changeSummary = this.buildChangeSummary(
+        previousAnalysis,
+        fetchResult.commitSha,
+        fetchResult.manifest,
       );
 
       // Update project with results
@@ -619,18 +1425,23 @@ export class AssessmentService {
         now.getTime() + LOCK_DAYS * 24 * 60 * 60 * 1000,
       );
 
-      await this.prisma.technicalProject.update({
-        where: { id: projectId },
-        data: {
-          techStack: result.techStack.length > 0 ? result.techStack : languages,
-          savedAt: now,
-          lockedUntil,
-        },
-      });
+      // A re-score is not a new submission: the lock is left as it was
+      if (!rescore) {
+        await this.prisma.technicalProject.update({
+          where: { id: projectId },
+          data: {
+            techStack:
+              result.techStack.length > 0 ? result.techStack : languages,
+            savedAt: now,
+            lockedUntil,
+          },
+        });
+      }
 
       await this.prisma.projectAnalysis.update({
         where: { projectId },
         data: {
+          ...(rescore ? { ...fetchStats, selectionManifest } : {}),
           status: ProjectAnalysisStatus.COMPLETE,
           score: result.score,
           strengths: result.strengths,
@@ -640,44 +1451,75 @@ export class AssessmentService {
           rawAnalysis: JSON.parse(JSON.stringify(result)),
           completedAt: now,
           retryCount: 0,
+          errorMessage: null,
+          errorType: null,
+          commitSha: fetchResult.commitSha,
+          gitRef: rescore ? undefined : fetchResult.ref,
+          fileManifest: JSON.parse(JSON.stringify(fetchResult.manifest)),
+          gitHistory: gitHistory
+            ? JSON.parse(JSON.stringify(gitHistory))
+            : null,
+          changeSummary: rescore
+            ? undefined
+            : changeSummary
+              ? JSON.parse(JSON.stringify(changeSummary))
+              : null,
+          promptVersion: result.promptVersion,
         },
       });
 
+      await this.analysisQueue.complete(job.id);
+
+      emitPhase('COMPLETE');
+
       this.logger.log(
         `Successfully analyzed project ${projectId} (score: ${result.score})`,
       );
     } catch (error: unknown) {
-      const analysis = await this.prisma.projectAnalysis.findUnique({
+      const errorMessage = getErrorMessage(error);
+      const { willRetry, nextRunAt } = await this.analysisQueue.fail(
+        job,
+        errorMessage,
+      );
+
+      // The previous result stays in place
+      if (rescore) {
+        this.logger.warn(
+          `Re-score of project ${projectId} failed${willRetry ? `, retrying at ${nextRunAt!.toISOString()}` : ''}: ${errorMessage}`,
+        );
+        throw error;
+      }
+
+      await this.prisma.projectAnalysis.updateMany({
         where: { projectId },
+        data: {
+          status: willRetry
+            ? ProjectAnalysisStatus.PENDING
+            : ProjectAnalysisStatus.FAILED,
+          retryCount: job.attempts,
+          errorMessage,
+          errorType: classifyAnalysisError(error),
+        },
       });
 
-      const newRetryCount = (analysis?.retryCount || 0) + 1;
-      const maxRetries = 3;
-      const errorMessage = getErrorMessage(error);
+      this.emitProjectPhase(
+        project.developerId,
+        projectId,
+        willRetry ? 'QUEUED' : 'FAILED',
+        {
+          message: willRetry
+            ? `Attempt ${job.attempts} failed, retrying at ${nextRunAt!.toISOString()}`
+            : errorMessage,
+        },
+      );
 
-      if (newRetryCount < maxRetries) {
-        await this.prisma.projectAnalysis.update({
-          where: { projectId },
-          data: {
-            status: ProjectAnalysisStatus.PENDING,
-            retryCount: newRetryCount,
-            errorMessage,
-          },
-        });
+      if (willRetry) {
         this.logger.warn(
-          `Project ${projectId} will retry (${maxRetries - newRetryCount} attempts remaining)`,
+          `Project ${projectId} will retry at ${nextRunAt!.toISOString()} (${job.maxAttempts - job.attempts} attempts remaining)`,
         );
       } else {
-        await this.prisma.projectAnalysis.update({
-          where: { projectId },
-          data: {
-            status: ProjectAnalysisStatus.FAILED,
-            retryCount: newRetryCount,
-            errorMessage,
-          },
-        });
         this.logger.error(
-          `Project ${projectId} failed after ${maxRetries} attempts`,
+          `Project ${projectId} failed after ${job.attempts} attempts`,
         );
       }
 
@@ -693,6 +1535,7 @@ export class AssessmentService {
         technicalProfile: {
           include: { techExperiences: true },
         },
+        hiringReport: { select: { id: true } },
       },
     });
 
@@ -723,6 +1566,9 @@ export class AssessmentService {
           securityIssues: raw?.securityIssues || [],
           riskFlags: raw?.riskFlags || [],
           errorHandling: raw?.errorHandling,
+          gitHistory: p.analysis!
+            .gitHistory as unknown as GitHistorySignals | null,
+          unverifiableOrigin: p.sourceHost === SourceHost.ARCHIVE,
         };
       });
 
@@ -734,23 +1580,62 @@ export class AssessmentService {
       `Generating hiring report for developer ${developerId} with ${projectsData.length} projects`,
     );
 
+    this.realtimeEvents.emitToDeveloper(developerId, {
+      type: 'report.progress',
+      phase: 'GENERATING',
+    });
+
     const technicalProfile = developer.technicalProfile;
-    const report: HiringReportResult =
-      await this.aiService.generateHiringReport(projectsData, {
-        firstName: developer.firstName || undefined,
-        lastName: developer.lastName || undefined,
-        developerType: technicalProfile?.developerType || null,
-        techExperiences:
-          technicalProfile?.techExperiences.map((exp) => ({
-            stackName: exp.stackName,
-            months: exp.months,
-          })) || [],
+    let report: HiringReportResult;
+    try {
+      report = await this.aiService.generateHiringReport(
+        projectsData,
+        {
+          firstName: developer.firstName || undefined,
+          lastName: developer.lastName || undefined,
+          developerType: technicalProfile?.developerType || null,
+          techExperiences:
+            technicalProfile?.techExperiences.map((exp) => ({
+              stackName: exp.stackName,
+              months: exp.months,
+            })) || [],
+        },
+        { developerId, hiringReportId: developer.hiringReport?.id },
+      );
+    } catch (error: unknown) {
+      this.realtimeEvents.emitToDeveloper(developerId, {
+        type: 'report.progress',
+        phase: 'FAILED',
       });
+      throw error;
+    }
 
     // Store all AI-generated fields directly (no mapping - enums now match specs)
     const rawReportJson = JSON.parse(JSON.stringify(report));
 
-    await this.prisma.hiringReport.upsert({
+    // Fallbacks applied anywhere in the chain make the report low-confidence
+    const aiFallbacks = [
+      ...(report.outputQuality?.fallbacks ?? []).map((fallback) => ({
+        source: 'HIRING_REPORT',
+        ...fallback,
+      })),
+      ...developer.projects
+        .filter((p) => p.analysis?.status === ProjectAnalysisStatus.COMPLETE)
+        .flatMap((p) => {
+          const raw = p.analysis!
+            .rawAnalysis as unknown as ProjectAnalysisResult | null;
+          return (raw?.outputQuality?.fallbacks ?? []).map((fallback) => ({
+            source: `PROJECT:${p.name}`,
+            ...fallback,
+          }));
+        }),
+    ];
+    const aiQuality = {
+      lowConfidence: aiFallbacks.length > 0,
+      aiFallbacks: JSON.parse(JSON.stringify(aiFallbacks)),
+    };
+
+    const savedReport = await this.prisma.hiringReport.upsert({
       where: { developerId },
       create: {
         developerId,
@@ -778,6 +1663,11 @@ export class AssessmentService {
         techProficiency: report.techProficiency,
         mentoringNeeds: report.mentoringNeeds,
         growthPotential: report.growthPotential,
+        // AI output quality
+        ...aiQuality,
+        // Prompt versioning
+        promptVersion: report.promptVersion,
+        rescorePending: false,
         // Raw for debugging
         rawAnalysis: rawReportJson,
       },
@@ -797,10 +1687,16 @@ export class AssessmentService {
         techProficiency: report.techProficiency,
         mentoringNeeds: report.mentoringNeeds,
         growthPotential: report.growthPotential,
+        ...aiQuality,
+        promptVersion: report.promptVersion,
+        rescorePending: false,
         rawAnalysis: rawReportJson,
       },
     });
 
+    // First generation: usage was recorded before the report existed
+    await this.aiUsage.linkHiringReport(developerId, savedReport.id);
+
     // Update developer status
     await this.prisma.developer.update({
       where: { id: developerId },
@@ -810,6 +1706,11 @@ export class AssessmentService {
     // Sync pipeline entries
     await this.syncPipelineStage(developerId, 'ASSESSED');
 
+    this.realtimeEvents.emitToDeveloper(developerId, {
+      type: 'report.progress',
+      phase: 'COMPLETE',
+    });
+
     this.logger.log(
       `Successfully generated hiring report for developer ${developerId}`,
     );
@@ -831,11 +1732,277 @@ export class AssessmentService {
       (p) => p.analysis?.status === ProjectAnalysisStatus.COMPLETE,
     );
 
-    if (allAnalyzed) {
+    if (!allAnalyzed) {
+      return;
+    }
+
+    // Left to processHiringReportGeneration once the budget allows
+    if (!(await this.hasAiBudget())) {
+      this.logger.warn(
+        `AI budget exceeded, hiring report for developer ${developerId} deferred`,
+      );
+      return;
+    }
+
+    await this.generateHiringReport(developerId);
+  }
+
+  /**
+   * Regenerate a report flagged for re-score once none of the developer's
+   * projects has an open job
+   */
+  private async regenerateRescoredReport(developerId: number): Promise<void> {
+    const developer = await this.prisma.developer.findUnique({
+      where: { id: developerId },
+      include: {
+        projects: { include: { analysis: true } },
+        hiringReport: { select: { rescorePending: true } },
+      },
+    });
+
+    if (!developer?.hiringReport?.rescorePending) {
+      return;
+    }
+
+    const allAnalyzed = developer.projects.every(
+      (p) => p.analysis?.status === ProjectAnalysisStatus.COMPLETE,
+    );
+    const hasOpenJobs = await this.analysisQueue.hasOpenJobs(
+      developer.projects.map((p) => p.id),
+    );
+
+    // Left to processRescoredReports once the budget allows
+    if (allAnalyzed && !hasOpenJobs && (await this.hasAiBudget())) {
       await this.generateHiringReport(developerId);
     }
   }
 
+  /**
+   * Where-filter for rows not produced by the given prompt version
+   * Rows from before the prompt registry have no version
+   */
+  private outdatedVersionFilter(version: string) {
+    return {
+      OR: [{ promptVersion: null }, { promptVersion: { not: version } }],
+    };
+  }
+
+  private async getEventSnapshot(developerId: number): Promise<MessageEvent[]> {
+    const developer = await this.prisma.developer.findUnique({
+      where: { id: developerId },
+      select: { assessmentStatus: true },
+    });
+
+    if (!developer) {
+      return [];
+    }
+
+    const events: MessageEvent[] = [
+      {
+        data: {
+          type: 'assessment.status',
+          status: developer.assessmentStatus,
+        },
+      },
+    ];
+
+    const queued = await this.analysisQueue.listQueued();
+    queued.forEach((job, index) => {
+      if (job.developerId !== developerId) return;
+      events.push({
+        data: {
+          type: 'project.progress',
+          projectId: job.projectId,
+          phase: 'QUEUED',
+          queuePosition: index + 1,
+        },
+      });
+    });
+
+    return events;
+  }
+
+  /**
+   * Commit history signals for a project
+   * Best-effort: a failure here should not fail the whole analysis
+   */
+  private async analyzeGitHistory(
+    client: SourceHostClient,
+    project: TechnicalProject & {
+      developer: {
+        firstName: string | null;
+        lastName: string | null;
+        user: { email: string };
+      };
+    },
+    commitSha: string,
+  ): Promise<GitHistorySignals | null> {
+    try {
+      const history = await client.fetchCommitHistory({
+        sha: commitSha,
+        maxCommits: MAX_HISTORY_COMMITS,
+        detailedCommits: DETAILED_HISTORY_COMMITS,
+      });
+      const { firstName, lastName, user } = project.developer;
+      const fullName = [firstName, lastName].filter(Boolean).join(' ');
+
+      return this.gitHistory.analyze(history, {
+        login: client.accountLogin,
+        email: user.email,
+        name: fullName || null,
+      });
+    } catch (error: unknown) {
+      this.logger.warn(
+        `Git history analysis failed for project ${project.id}: ${getErrorMessage(error)}`,
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Diff the file manifest against the last completed analysis
+   * Returns null for first analyses or when nothing is comparable
+   */
+  private buildChangeSummary(
+    previous: Pick<ProjectAnalysis, 'commitSha' | 'fileManifest' | 'score'>,
+    commitSha: string,
+    manifest: RepoManifestEntry[],
+  ): ChangeSummaryDto | null {
+    if (!previous.commitSha || !Array.isArray(previous.fileManifest)) {
+      return null;
+    }
+
+    const before = new Map(
+      (previous.fileManifest as unknown as RepoManifestEntry[]).map((f) => [
+        f.path,
+        f.sha,
+      ]),
+    );
+    const after = new Map(manifest.map((f) => [f.path, f.sha]));
+
+    const added = [...after.keys()].filter((path) => !before.has(path));
+    const removed = [...before.keys()].filter((path) => !after.has(path));
+    const modified = [...after.keys()].filter(
+      (path) => before.has(path) && before.get(path) !== after.get(path),
+    );
+
+    return {
+      fromCommitSha: previous.commitSha,
+      toCommitSha: commitSha,
+      addedCount: added.length,
+      removedCount: removed.length,
+      modifiedCount: modified.length,
+      added: added.slice(0, MAX_CHANGED_PATHS),
+      removed: removed.slice(0, MAX_CHANGED_PATHS),
+      modified: modified.slice(0, MAX_CHANGED_PATHS),
+      previousScore: previous.score,
+    };
+  }
+
+  private emitProjectPhase(
+    developerId: number,
+    projectId: number,
+    phase: AnalysisPhase,
+    details: Pick<
+      ProjectProgressEvent,
+      'queuePosition' | 'filesFound' | 'filesSelected' | 'message'
+    > = {},
+  ): void {
+    this.realtimeEvents.emitToDeveloper(developerId, {
+      type: 'project.progress',
+      projectId,
+      phase,
+      ...details,
+    });
+  }
+
+  /**
+   * Push the current queue position to every developer with a queued project
+   */
+  private async publishQueuePositions(): Promise<void> {
+    const queued = await this.analysisQueue.listQueued();
+
+    queued.forEach((job, index) => {
+      this.emitProjectPhase(job.developerId, job.projectId, 'QUEUED', {
+        queuePosition: index + 1,
+      });
+    });
+  }
+
+  /**
+   * Analyses in ANALYZING past the stale threshold
+   * @param projectIds - Projects to include regardless of the threshold
+   */
+  private async findStaleAnalyses(projectIds: number[] = []) {
+    const cutoff = new Date(Date.now() - STALE_ANALYSIS_MS);
+
+    return this.prisma.projectAnalysis.findMany({
+      where: {
+        status: ProjectAnalysisStatus.ANALYZING,
+        OR: [
+          { startedAt: { lt: cutoff } },
+          // Rows from before startedAt was tracked
+          { startedAt: null, updatedAt: { lt: cutoff } },
+          { projectId: { in: projectIds } },
+        ],
+        // A long analysis whose worker is alive keeps renewing its lock
+        project: {
+          analysisJobs: {
+            none: {
+              status: AnalysisJobStatus.RUNNING,
+              lockedUntil: { gt: new Date() },
+            },
+          },
+        },
+      },
+      include: {
+        project: {
+          include: { developer: { select: { assessmentStatus: true } } },
+        },
+      },
+      orderBy: { startedAt: 'asc' },
+    });
+  }
+
+  /**
+   * Move a developer out of ANALYZING once none of their projects are
+   * being analyzed any more
+   */
+  private async resyncAnalyzingDeveloper(developerId: number): Promise<void> {
+    const developer = await this.prisma.developer.findUnique({
+      where: { id: developerId },
+      include: {
+        projects: { include: { analysis: true } },
+        hiringReport: true,
+      },
+    });
+
+    if (developer?.assessmentStatus !== AssessmentStatus.ANALYZING) {
+      return;
+    }
+
+    const stillAnalyzing = developer.projects.some(
+      (p) => p.analysis?.status === ProjectAnalysisStatus.ANALYZING,
+    );
+
+    if (stillAnalyzing) {
+      return;
+    }
+
+    // An existing report means this was a regeneration
+    const status = developer.hiringReport
+      ? AssessmentStatus.PENDING_ANALYSIS
+      : AssessmentStatus.PROJECTS_SUBMITTED;
+
+    await this.prisma.developer.update({
+      where: { id: developerId },
+      data: { assessmentStatus: status },
+    });
+
+    // Sync pipeline entries
+    await this.syncPipelineStage(developerId, status);
+  }
+
   private async updateDeveloperStatus(developerId: number): Promise<void> {
     const developer = await this.prisma.developer.findUnique({
       where: { id: developerId },
@@ -855,21 +2022,43 @@ export class AssessmentService {
   /**
    * Sync pipeline stages when developer's assessment status changes
    * Only updates entries not in terminal states (UNLOCKED, HIRED, REJECTED)
+   * Also pushes the change to the developer's and companies' event streams
    */
   private async syncPipelineStage(
     developerId: number,
-    newStage: PipelineStage,
+    newStage: AssessmentStatus,
   ): Promise<void> {
-    await this.prisma.pipelineEntry.updateMany({
+    const entries = await this.prisma.pipelineEntry.findMany({
       where: {
         developerId,
         stage: {
           notIn: ['UNLOCKED', 'HIRED', 'REJECTED'],
         },
       },
+      select: { id: true, companyId: true, stage: true },
+    });
+
+    await this.prisma.pipelineEntry.updateMany({
+      where: { id: { in: entries.map((e) => e.id) } },
       data: { stage: newStage },
     });
 
+    this.realtimeEvents.emitToDeveloper(developerId, {
+      type: 'assessment.status',
+      status: newStage,
+    });
+
+    for (const entry of entries) {
+      if (entry.stage === newStage) continue;
+      this.realtimeEvents.emitToCompany(entry.companyId, {
+        type: 'pipeline.stage',
+        entryId: entry.id,
+        developerId,
+        stage: newStage,
+        previousStage: entry.stage,
+      });
+    }
+
     this.logger.log(
       `Synced pipeline stage for developer ${developerId} to ${newStage}`,
     );
@@ -924,15 +2113,25 @@ export class AssessmentService {
     return {
       id: project.id,
       name: project.name,
-      githubUrl: project.githubUrl,
+      githubUrl: project.githubUrl ?? undefined,
+      sourceHost: project.sourceHost,
+      archiveName: project.archiveName ?? undefined,
       projectType: project.projectType,
       description: project.description ?? undefined,
       uiUrl: project.uiUrl ?? undefined,
+      ref: project.gitRef ?? undefined,
+      rootPaths: project.rootPaths,
       techStack: project.techStack || [],
       savedAt: project.savedAt ?? undefined,
       lockedUntil: project.lockedUntil ?? undefined,
       isLocked,
       lockDaysRemaining,
+      repoAccessRevokedAt: project.repoAccessRevokedAt ?? undefined,
+      lastPushAt: project.lastPushAt ?? undefined,
+      hasNewCommits:
+        !!project.lastPushSha &&
+        !!project.analysis?.commitSha &&
+        project.lastPushSha !== project.analysis.commitSha,
       analysis: project.analysis
         ? {
             status: project.analysis.status,
@@ -941,7 +2140,20 @@ export class AssessmentService {
             areasForImprovement: project.analysis.areasForImprovement,
             codeOrganization: project.analysis.codeOrganization ?? undefined,
             bestPractices: project.analysis.bestPractices,
+            filesFetched: project.analysis.filesFetched ?? undefined,
+            filesTotal: project.analysis.filesTotal ?? undefined,
+            contentTruncated: project.analysis.contentTruncated,
+            commitSha: project.analysis.commitSha ?? undefined,
+            gitRef: project.analysis.gitRef ?? undefined,
+            changeSummary:
+              (project.analysis
+                .changeSummary as unknown as ChangeSummaryDto | null) ??
+              undefined,
             errorMessage: project.analysis.errorMessage ?? undefined,
+            errorType: project.analysis.errorType ?? undefined,
+            errorHint: project.analysis.errorType
+              ? ANALYSIS_ERROR_HINTS[project.analysis.errorType]
+              : undefined,
           }
         : undefined,
       createdAt: project.createdAt,
@@ -0,0 +1,181 @@
+import { RepoFile } from '../../github/github.service';
+import { CodeMetricsService } from './code-metrics.service';
+
+function repoFile(path: string, lines: string[]): RepoFile {
+  const content = lines.join('\n');
+  return {
+    name: path.split('/').pop()!,
+    path,
+    type: 'file',
+    size: content.length,
+    content,
+  };
+}
+
+// Complexity 4: the if, the && and the ternary
+const GRADE = [
+  'export function grade(score, bonus) {',
+  '  if (score > 90 && bonus) {',
+  "    return 'A';",
+  '  }',
+  "  return score > 50 ? 'B' : 'C';",
+  '}',
+];
+
+// Complexity 12: eleven ifs
+const CLASSIFY = [
+  'const classify = (x) => {',
+  ...Array.from({ length: 11 }, (_, i) => `  if (x === ${i}) return ${i};`),
+  '  return -1;',
+  '};',
+];
+
+describe('CodeMetricsService', () => {
+  let service: CodeMetricsService;
+
+  beforeEach(() => {
+    service = new CodeMetricsService();
+  });
+
+  it('counts non-blank lines per language', () => {
+    const metrics = service.collect(
+      [
+        repoFile('src/app.ts', ['const a = 1;', '', '  ', 'export { a };']),
+        repoFile('src/view.tsx', ['export const View = () => null;']),
+        repoFile('scripts/seed.py', ['print("seed")', '']),
+        repoFile('README.md', ['# App', '', 'Docs are not code']),
+      ],
+      ['src/app.ts', 'src/view.tsx', 'scripts/seed.py', 'README.md', 'a.ts'],
+    );
+
+    expect(metrics.linesOfCode).toEqual({ TypeScript: 3, Python: 1 });
+    expect(metrics.totalLinesOfCode).toBe(4);
+    expect(metrics.sampledFiles).toBe(4);
+    expect(metrics.fileCount).toBe(5);
+  });
+
+  it('relates test files to source files across the whole tree', () => {
+    const metrics = service.collect(
+      [],
+      [
+        'src/a.ts',
+        'src/b.ts',
+        'app/c.py',
+        'src/a.spec.ts',
+        'tests/test_c.py',
+        'README.md',
+      ],
+    );
+
+    expect(metrics.testFileCount).toBe(2);
+    expect(metrics.testFileRatio).toBe(0.67);
+  });
+
+  it('estimates cyclomatic complexity per JS/TS function', () => {
+    const metrics = service.collect(
+      [repoFile('src/rules.js', [...GRADE, '', ...CLASSIFY])],
+      ['src/rules.js'],
+    );
+
+    expect(metrics.complexity).toEqual({
+      functionsAnalyzed: 2,
+      average: 8,
+      max: 12,
+      highComplexityFunctions: 1,
+    });
+  });
+
+  it('reports no complexity without JS/TS sources', () => {
+    const metrics = service.collect(
+      [
+        repoFile('app/main.py', [
+          'def main():',
+          '    if True:',
+          '        pass',
+        ]),
+      ],
+      ['app/main.py'],
+    );
+
+    expect(metrics.complexity).toBeNull();
+  });
+
+  it('counts TODOs per thousand lines of code', () => {
+    const metrics = service.collect(
+      [
+        repoFile('src/a.ts', [
+          '// TODO: validate input',
+          ...Array.from({ length: 198 }, (_, i) => `const v${i} = ${i};`),
+          '// FIXME handle errors',
+        ]),
+      ],
+      ['src/a.ts'],
+    );
+
+    expect(metrics.todoCount).toBe(2);
+    expect(metrics.todoDensity).toBe(10);
+  });
+
+  describe('tooling', () => {
+    it('detects tools from config files and root dependencies', () => {
+      const metrics = service.collect(
+        [
+          repoFile('package.json', [
+            JSON.stringify({
+              dependencies: { express: '^4.19.2' },
+              devDependencies: { jest: '^29.0.0', prettier: '^3.0.0' },
+            }),
+          ]),
+        ],
+        [
+          'package.json',
+          '.eslintrc.json',
+          '.github/workflows/ci.yml',
+          'tsconfig.json',
+        ],
+      );
+
+      expect(metrics.tooling).toEqual({
+        linter: true,
+        formatter: true,
+        ci: true,
+        typescript: true,
+        testFramework: true,
+      });
+      expect(metrics.dependencies).toEqual({ production: 1, development: 2 });
+    });
+
+    it('reports missing tools', () => {
+      const metrics = service.collect(
+        [repoFile('index.js', ['console.log("hi");'])],
+        ['index.js'],
+      );
+
+      expect(metrics.tooling).toEqual({
+        linter: false,
+        formatter: false,
+        ci: false,
+        typescript: false,
+        testFramework: false,
+      });
+    });
+
+    it('reads dependencies from the root package.json only', () => {
+      const nested = service.collect(
+        [
+          repoFile('apps/web/package.json', [
+            '{"dependencies":{"react":"18"}}',
+          ]),
+        ],
+        ['apps/web/package.json'],
+      );
+      const invalid = service.collect(
+        [repoFile('package.json', ['{"dependencies":'])],
+        ['package.json'],
+      );
+
+      expect(nested.dependencies).toBeNull();
+      expect(invalid.dependencies).toBeNull();
+    });
+  });
+});
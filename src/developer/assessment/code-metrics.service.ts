@@ -0,0 +1,309 @@
+import { Injectable } from '@nestjs/common';
+import { RepoFile } from '../../github/github.service';
+
+export interface ComplexityMetrics {
+  functionsAnalyzed: number;
+  average: number;
+  max: number;
+  highComplexityFunctions: number; // Functions above HIGH_COMPLEXITY
+}
+
+export interface ToolingMetrics {
+  linter: boolean;
+  formatter: boolean;
+  ci: boolean;
+  typescript: boolean;
+  testFramework: boolean;
+}
+
+export interface DependencyMetrics {
+  production: number;
+  development: number;
+}
+
+interface PackageJson {
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+}
+
+/**
+ * Deterministic metrics for a repository
+ * Line-based metrics cover downloaded files only (see sampledFiles);
+ * path-based metrics (test ratio, tooling) cover the whole manifest
+ */
+export interface CodeMetrics {
+  linesOfCode: Record<string, number>; // Non-blank lines per language
+  totalLinesOfCode: number;
+  fileCount: number; // Files in the repository after ignore rules
+  sampledFiles: number; // Files whose content was measured
+  testFileCount: number;
+  testFileRatio: number; // Test files / source files
+  complexity: ComplexityMetrics | null; // JS/TS only
+  tooling: ToolingMetrics;
+  dependencies: DependencyMetrics | null; // From root package.json
+  todoCount: number;
+  todoDensity: number; // TODO/FIXME per 1,000 lines
+}
+
+// Cyclomatic complexity above this is considered hard to maintain
+const HIGH_COMPLEXITY = 10;
+
+const LANGUAGE_BY_EXTENSION: Record<string, string> = {
+  '.ts': 'TypeScript',
+  '.tsx': 'TypeScript',
+  '.js': 'JavaScript',
+  '.jsx': 'JavaScript',
+  '.vue': 'Vue',
+  '.svelte': 'Svelte',
+  '.py': 'Python',
+  '.java': 'Java',
+  '.kt': 'Kotlin',
+  '.kts': 'Kotlin',
+  '.go': 'Go',
+  '.rb': 'Ruby',
+  '.php': 'PHP',
+  '.cs': 'C#',
+  '.rs': 'Rust',
+  '.swift': 'Swift',
+  '.c': 'C',
+  '.h': 'C',
+  '.cpp': 'C++',
+  '.hpp': 'C++',
+  '.dart': 'Dart',
+  '.m': 'Objective-C',
+  '.mm': 'Objective-C',
+  '.html': 'HTML',
+  '.css': 'CSS',
+  '.scss': 'SCSS',
+  '.sass': 'SCSS',
+  '.less': 'Less',
+  '.sql': 'SQL',
+};
+
+const JS_TS_EXTENSIONS = ['.js', '.jsx', '.ts', '.tsx'];
+
+const TEST_FRAMEWORKS = [
+  'jest',
+  'vitest',
+  'mocha',
+  'jasmine',
+  'cypress',
+  '@playwright/test',
+  'pytest',
+  'junit',
+];
+
+// Start of a JS/TS function: declaration, method or arrow function
+const JS_FUNCTION_START =
+  /(\bfunction\b[^(]*\(|^\s*(async\s+)?(?!if\b|for\b|while\b|switch\b|catch\b)\w+\s*\([^)]*\)\s*(:\s*[^{]+)?\{|=>\s*\{)/;
+
+const JS_DECISION_POINTS =
+  /\b(if|for|while|case|catch)\b|&&|\|\||\?\?|\?(?=[^.:?]*:)/g;
+
+@Injectable()
+export class CodeMetricsService {
+  /**
+   * Compute metrics over the downloaded files and the full file list
+   * @param files - Files with content
+   * @param allPaths - Every path in the repository after ignore rules
+   */
+  collect(files: RepoFile[], allPaths: string[]): CodeMetrics {
+    const linesOfCode: Record<string, number> = {};
+    let totalLinesOfCode = 0;
+    let todoCount = 0;
+    const complexities: number[] = [];
+
+    for (const file of files) {
+      const language = this.detectLanguage(file.path);
+      const lines = file.content
+        .split('\n')
+        .filter((line) => line.trim() !== '');
+
+      todoCount += (file.content.match(/\b(TODO|FIXME)\b/g) || []).length;
+
+      if (!language) continue;
+
+      linesOfCode[language] = (linesOfCode[language] ?? 0) + lines.length;
+      totalLinesOfCode += lines.length;
+
+      if (JS_TS_EXTENSIONS.some((ext) => file.path.endsWith(ext))) {
+        complexities.push(...this.estimateJsComplexity(file.content));
+      }
+    }
+
+    const testFileCount = allPaths.filter((path) =>
+      this.isTestFile(path),
+    ).length;
+    const sourceFileCount = allPaths.filter(
+      (path) => !!this.detectLanguage(path) && !this.isTestFile(path),
+    ).length;
+
+    const packageJson = this.readRootPackageJson(files);
+
+    return {
+      linesOfCode,
+      totalLinesOfCode,
+      fileCount: allPaths.length,
+      sampledFiles: files.length,
+      testFileCount,
+      testFileRatio:
+        sourceFileCount > 0 ? this.round(testFileCount / sourceFileCount) : 0,
+      complexity:
+        complexities.length > 0
+          ? {
+              functionsAnalyzed: complexities.length,
+              average: this.round(
+                complexities.reduce((sum, c) => sum + c, 0) /
+                  complexities.length,
+              ),
+              max: Math.max(...complexities),
+              highComplexityFunctions: complexities.filter(
+                (c) => c > HIGH_COMPLEXITY,
+              ).length,
+            }
+          : null,
+      tooling: this.detectTooling(allPaths, packageJson),
+      dependencies: packageJson
+        ? {
+            production: Object.keys(packageJson.dependencies ?? {}).length,
+            development: Object.keys(packageJson.devDependencies ?? {}).length,
+          }
+        : null,
+      todoCount,
+      todoDensity:
+        totalLinesOfCode > 0
+          ? this.round((todoCount / totalLinesOfCode) * 1000)
+          : 0,
+    };
+  }
+
+  // ========================================
+  // PRIVATE HELPER METHODS
+  // ========================================
+
+  private detectLanguage(path: string): string | null {
+    const match = path.toLowerCase().match(/\.[a-z0-9]+$/);
+    return match ? (LANGUAGE_BY_EXTENSION[match[0]] ?? null) : null;
+  }
+
+  private isTestFile(filePath: string): boolean {
+    const path = filePath.toLowerCase();
+    const fileName = path.split('/').pop() || '';
+    return (
+      /(^|\/)(tests?|__tests__|spec)\//.test(path) ||
+      /\.(test|spec)\.\w+$/.test(fileName) ||
+      /_test\.(go|py)$/.test(fileName) ||
+      /^test_\w+\.py$/.test(fileName)
+    );
+  }
+
+  /**
+   * Cyclomatic complexity per function: 1 + decision points in its body
+   * Brace matching is approximate (ignores braces inside strings)
+   */
+  private estimateJsComplexity(content: string): number[] {
+    const lines = content.split('\n');
+    const results: number[] = [];
+
+    for (let i = 0; i < lines.length; i++) {
+      if (!JS_FUNCTION_START.test(lines[i])) continue;
+
+      let depth = 0;
+      let opened = false;
+      let body = '';
+
+      for (let j = i; j < lines.length; j++) {
+        body += lines[j] + '\n';
+        for (const char of lines[j]) {
+          if (char === '{') {
+            depth++;
+            opened = true;
+          } else if (char === '}') {
+            depth--;
+          }
+        }
+        if (opened && depth <= 0) break;
+      }
+
+      if (opened) {
+        results.push(1 + (body.match(JS_DECISION_POINTS) || []).length);
+      }
+    }
+
+    return results;
+  }
+
+  private detectTooling(
+    allPaths: string[],
+    packageJson: PackageJson | null,
+  ): ToolingMetrics {
+    const names = allPaths.map((path) => path.toLowerCase());
+    const fileNames = names.map((path) => path.split('/').pop() || '');
+    const deps = {
+      ...(packageJson?.dependencies ?? {}),
+      ...(packageJson?.devDependencies ?? {}),
+    };
+    const hasDep = (name: string) => name in deps;
+
+    return {
+      linter:
+        fileNames.some(
+          (name) =>
+            name.startsWith('.eslintrc') ||
+            name.startsWith('eslint.config') ||
+            name === 'biome.json' ||
+            name === '.pylintrc' ||
+            name === '.flake8' ||
+            name === 'ruff.toml' ||
+            name === '.golangci.yml' ||
+            name === '.rubocop.yml' ||
+            name === 'detekt.yml',
+        ) ||
+        hasDep('eslint') ||
+        hasDep('@biomejs/biome'),
+      formatter:
+        fileNames.some(
+          (name) =>
+            name.startsWith('.prettierrc') ||
+            name.startsWith('prettier.config') ||
+            name === '.editorconfig' ||
+            name === 'rustfmt.toml' ||
+            name === '.clang-format',
+        ) || hasDep('prettier'),
+      ci: names.some(
+        (path) =>
+          path.startsWith('.github/workflows/') ||
+          path.startsWith('.circleci/') ||
+          path === '.gitlab-ci.yml' ||
+          path === '.travis.yml' ||
+          path === 'jenkinsfile' ||
+          path === 'azure-pipelines.yml',
+      ),
+      typescript: fileNames.includes('tsconfig.json') || hasDep('typescript'),
+      testFramework:
+        TEST_FRAMEWORKS.some((name) => hasDep(name)) ||
+        fileNames.some(
+          (name) =>
+            name.startsWith('jest.config') ||
+            name.startsWith('vitest.config') ||
+            name === 'pytest.ini' ||
+            name === 'conftest.py',
+        ),
+    };
+  }
+
+  private readRootPackageJson(files: RepoFile[]): PackageJson | null {
+    const file = files.find((f) => f.path === 'package.json');
+    if (!file) return null;
+
+    try {
+      return JSON.parse(file.content) as PackageJson;
+    } catch {
+      return null;
+    }
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -7,8 +7,10 @@ import {
   MaxLength,
   Matches,
   IsUrl,
+  IsArray,
+  ArrayMaxSize,
 } from 'class-validator';
-import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ApiProperty, ApiPropertyOptional, OmitType } from '@nestjs/swagger';
 
 export enum ProjectType {
   FRONTEND = 'FRONTEND',
@@ -32,13 +34,14 @@ export class CreateProjectDto {
   name: string;
 
   @ApiProperty({
-    description: 'GitHub repository URL',
+    description:
+      'Repository URL on GitHub, GitLab (incl. the configured self-hosted instance) or Bitbucket',
     example: 'https://github.com/username/repo-name',
   })
   @IsString()
   @IsNotEmpty()
-  @Matches(/^https:\/\/github\.com\/[\w-]+\/[\w.-]+\/?$/, {
-    message: 'GitHub URL must be a valid GitHub repository URL',
+  @Matches(/^https:\/\/[\w.-]+(:\d+)?(\/[\w.-]+){2,}\/?$/, {
+    message: 'Repository URL must be a valid repository URL',
   })
   githubUrl: string;
 
@@ -72,4 +75,54 @@ export class CreateProjectDto {
   )
   @MaxLength(500)
   uiUrl?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Branch or tag to analyze. Defaults to the repository default branch.',
+    example: 'main',
+    maxLength: 255,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  @Matches(/^[\w./-]+$/, {
+    message: 'Ref must be a valid branch or tag name',
+  })
+  ref?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Monorepo directories the project consists of, relative to the repository root. Only these are analyzed; the whole repository if omitted.',
+    example: ['apps/web', 'apps/api'],
+    type: [String],
+    maxItems: 5,
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(5)
+  @IsString({ each: true })
+  @MaxLength(255, { each: true })
+  @Matches(/^(?!.*(^|\/)\.\.?(\/|$))[\w.@-]+(\/[\w.@-]+)*\/?$/, {
+    each: true,
+    message: 'Root paths must be directories relative to the repository root',
+  })
+  rootPaths?: string[];
+}
+
+/**
+ * Multipart form of an archive upload: the archive file plus the project
+ * fields that don't depend on a repository
+ */
+export class CreateArchiveProjectDto extends OmitType(CreateProjectDto, [
+  'githubUrl',
+  'ref',
+  'rootPaths',
+] as const) {
+  @ApiProperty({
+    description:
+      'Project code as a .zip, .tar or .tar.gz archive (max 20MB). Ignored files (dependencies, build output, binaries) may be left in.',
+    type: 'string',
+    format: 'binary',
+  })
+  archive: unknown; // Read with @UploadedFile(), never part of the parsed body
 }
@@ -0,0 +1,84 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsBoolean } from 'class-validator';
+import {
+  ImprovementTaskCategory,
+  ImprovementTaskPriority,
+} from '../../../../prisma/generated/prisma';
+
+export class ImprovementTaskDto {
+  @ApiProperty({ description: 'Task ID' })
+  id: number;
+
+  @ApiProperty({
+    description: 'Where the task comes from in the analysis',
+    enum: ImprovementTaskCategory,
+  })
+  category: ImprovementTaskCategory;
+
+  @ApiProperty({ enum: ImprovementTaskPriority })
+  priority: ImprovementTaskPriority;
+
+  @ApiProperty({ description: 'What to improve' })
+  title: string;
+
+  @ApiProperty({
+    type: [String],
+    description: 'Analyzed files the task refers to (may be empty)',
+  })
+  files: string[];
+
+  @ApiProperty({ description: 'Whether the developer marked it done' })
+  done: boolean;
+
+  @ApiPropertyOptional({ description: 'When it was marked done' })
+  completedAt?: Date;
+}
+
+export class ProjectImprovementPlanDto {
+  @ApiProperty({ description: 'Project ID' })
+  projectId: number;
+
+  @ApiProperty({ description: 'Project name' })
+  projectName: string;
+
+  @ApiPropertyOptional({ description: 'Commit SHA the tasks are based on' })
+  commitSha?: string;
+
+  @ApiProperty({ description: 'When the analysis behind the tasks completed' })
+  analyzedAt: Date;
+
+  @ApiProperty({ type: [ImprovementTaskDto], description: 'Highest first' })
+  tasks: ImprovementTaskDto[];
+
+  @ApiProperty({ description: 'Tasks marked done' })
+  completedCount: number;
+
+  @ApiProperty({ description: 'Whether the 30-day lock is still active' })
+  isLocked: boolean;
+
+  @ApiProperty({ description: 'Days remaining in lock period' })
+  lockDaysRemaining: number;
+
+  @ApiProperty({
+    description:
+      'Whether a focused re-analysis can be requested (lock ended and at least one task done)',
+  })
+  canRequestFocusedAnalysis: boolean;
+}
+
+export class ImprovementPlanDto {
+  @ApiProperty({ type: [ProjectImprovementPlanDto] })
+  projects: ProjectImprovementPlanDto[];
+
+  @ApiProperty({ description: 'Tasks across all projects' })
+  totalTasks: number;
+
+  @ApiProperty({ description: 'Tasks marked done across all projects' })
+  completedTasks: number;
+}
+
+export class UpdateImprovementTaskDto {
+  @ApiProperty({ description: 'Mark the task done or not done' })
+  @IsBoolean()
+  done: boolean;
+}
@@ -1,3 +1,7 @@
 export * from './create-project.dto';
 export * from './project-response.dto';
 export * from './assessment-status.dto';
+export * from './stuck-analysis.dto';
+export * from './rescore.dto';
+export * from './improvement-plan.dto';
+export * from './security-scan.dto';
@@ -1,7 +1,10 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ChangeSummaryDto } from '../../../common/dto';
 import {
   ProjectType,
+  SourceHost,
   ProjectAnalysisStatus,
+  AnalysisErrorType,
 } from '../../../../prisma/generated/prisma';
 
 export class ProjectAnalysisResponseDto {
@@ -26,8 +29,46 @@ export class ProjectAnalysisResponseDto {
   })
   bestPractices?: string[];
 
+  @ApiPropertyOptional({ description: 'Files sent for analysis' })
+  filesFetched?: number;
+
+  @ApiPropertyOptional({
+    description: 'Code files found in the repository after ignore rules',
+  })
+  filesTotal?: number;
+
+  @ApiProperty({
+    description: 'Whether only part of the repository fit the analysis budget',
+  })
+  contentTruncated: boolean;
+
+  @ApiPropertyOptional({ description: 'Commit SHA that was analyzed' })
+  commitSha?: string;
+
+  @ApiPropertyOptional({
+    description: 'Branch or tag the analyzed commit was resolved from',
+  })
+  gitRef?: string;
+
+  @ApiPropertyOptional({
+    type: ChangeSummaryDto,
+    description: 'What changed since the previous analysis',
+  })
+  changeSummary?: ChangeSummaryDto;
+
   @ApiPropertyOptional({ description: 'Error message if analysis failed' })
   errorMessage?: string;
+
+  @ApiPropertyOptional({
+    enum: AnalysisErrorType,
+    description: 'Failure category if analysis failed',
+  })
+  errorType?: AnalysisErrorType;
+
+  @ApiPropertyOptional({
+    description: 'What the developer should fix before retrying',
+  })
+  errorHint?: string;
 }
 
 export class ProjectResponseDto {
@@ -37,8 +78,19 @@ export class ProjectResponseDto {
   @ApiProperty({ description: 'Project name' })
   name: string;
 
-  @ApiProperty({ description: 'GitHub repository URL' })
-  githubUrl: string;
+  @ApiPropertyOptional({
+    description: 'Repository URL (not set for archive uploads)',
+  })
+  githubUrl?: string;
+
+  @ApiProperty({
+    enum: SourceHost,
+    description: 'Host the repository lives on, or ARCHIVE for uploads',
+  })
+  sourceHost: SourceHost;
+
+  @ApiPropertyOptional({ description: 'File name of the uploaded archive' })
+  archiveName?: string;
 
   @ApiProperty({ enum: ProjectType, description: 'Type of project' })
   projectType: ProjectType;
@@ -49,6 +101,18 @@ export class ProjectResponseDto {
   @ApiPropertyOptional({ description: 'Live demo or website URL' })
   uiUrl?: string;
 
+  @ApiPropertyOptional({
+    description: 'Branch or tag being analyzed (default branch if not set)',
+  })
+  ref?: string;
+
+  @ApiProperty({
+    description:
+      'Monorepo directories being analyzed (empty = whole repository)',
+    type: [String],
+  })
+  rootPaths: string[];
+
   @ApiProperty({ type: [String], description: 'Detected tech stack' })
   techStack: string[];
 
@@ -64,6 +128,23 @@ export class ProjectResponseDto {
   @ApiProperty({ description: 'Days remaining in lock period' })
   lockDaysRemaining: number;
 
+  @ApiPropertyOptional({
+    description:
+      'When the GitHub App lost access to the repository (the assessment is kept)',
+  })
+  repoAccessRevokedAt?: Date;
+
+  @ApiPropertyOptional({
+    description: 'Latest push to the analyzed branch or tag',
+  })
+  lastPushAt?: Date;
+
+  @ApiProperty({
+    description:
+      'Whether commits were pushed to the analyzed ref after the analyzed commit',
+  })
+  hasNewCommits: boolean;
+
   @ApiPropertyOptional({
     type: ProjectAnalysisResponseDto,
     description: 'Tier 1 analysis (developer can see)',
@@ -0,0 +1,75 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsInt,
+  IsOptional,
+  Max,
+  Min,
+} from 'class-validator';
+
+export class StartRescoreDto {
+  @ApiPropertyOptional({
+    description:
+      'Only re-score these developers (defaults to every assessed developer with outdated results)',
+    type: [Number],
+    example: [12, 34],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(500)
+  @IsInt({ each: true })
+  developerIds?: number[];
+
+  @ApiPropertyOptional({
+    description: 'Max developers queued by this request',
+    default: 100,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(1000)
+  limit?: number;
+}
+
+export class StartRescoreResponseDto {
+  @ApiProperty({ description: 'Developers whose report will be regenerated' })
+  developers: number;
+
+  @ApiProperty({ description: 'Project re-score jobs queued' })
+  jobsQueued: number;
+
+  @ApiProperty({ example: '1.1.0' })
+  projectAnalysisVersion: string;
+
+  @ApiProperty({ example: '1.0.0' })
+  hiringReportVersion: string;
+}
+
+export class RescoreStatusDto {
+  @ApiProperty({ description: 'Current project analysis prompt version' })
+  projectAnalysisVersion: string;
+
+  @ApiProperty({ description: 'Current hiring report prompt version' })
+  hiringReportVersion: string;
+
+  @ApiProperty({
+    description: 'Complete analyses produced by another prompt version',
+  })
+  outdatedAnalyses: number;
+
+  @ApiProperty({
+    description: 'Hiring reports produced by another prompt version',
+  })
+  outdatedReports: number;
+
+  @ApiProperty({ description: 'Re-score jobs queued or running' })
+  openJobs: number;
+
+  @ApiProperty({
+    description: 'Reports waiting for their analyses to be re-scored',
+  })
+  pendingReports: number;
+}
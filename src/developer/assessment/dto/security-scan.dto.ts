@@ -0,0 +1,24 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { SecurityScanDto } from '../../../common/dto';
+
+export class ProjectSecurityScanDto {
+  @ApiProperty({ description: 'Project ID' })
+  projectId: number;
+
+  @ApiPropertyOptional({ description: 'Commit SHA the scan ran against' })
+  commitSha?: string;
+
+  @ApiProperty({
+    type: SecurityScanDto,
+    description:
+      'Full findings, visible to the developer only (null before the first analysis with a scan)',
+    nullable: true,
+  })
+  scan: SecurityScanDto | null;
+
+  @ApiProperty({
+    description:
+      'Whether credentials were found that must be rotated, not just deleted',
+  })
+  rotateSecrets: boolean;
+}
@@ -0,0 +1,39 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class StuckAnalysisDto {
+  @ApiProperty({ description: 'Project ID' })
+  projectId: number;
+
+  @ApiProperty({ description: 'Project name' })
+  projectName: string;
+
+  @ApiProperty({
+    description: 'Repository URL (null for archive uploads)',
+    nullable: true,
+  })
+  githubUrl: string | null;
+
+  @ApiProperty({ description: 'Developer ID' })
+  developerId: number;
+
+  @ApiProperty({ description: "Developer's current assessment status" })
+  developerStatus: string;
+
+  @ApiPropertyOptional({ description: 'When the analysis was started' })
+  startedAt?: Date;
+
+  @ApiProperty({ description: 'Minutes spent in ANALYZING so far' })
+  stuckForMinutes: number;
+
+  @ApiProperty({ description: 'Attempts made so far' })
+  retryCount: number;
+
+  @ApiPropertyOptional({
+    description: 'Status of the latest queue job',
+    enum: ['QUEUED', 'RUNNING', 'SUCCEEDED', 'FAILED'],
+  })
+  jobStatus?: 'QUEUED' | 'RUNNING' | 'SUCCEEDED' | 'FAILED';
+
+  @ApiPropertyOptional({ description: 'Last error recorded for the project' })
+  lastError?: string;
+}
@@ -0,0 +1,230 @@
+import { GithubService, RepoFile } from '../../github/github.service';
+import { FileSelectionService } from './file-selection.service';
+
+function repoFile(path: string, content: string): RepoFile {
+  return {
+    name: path.split('/').pop()!,
+    path,
+    type: 'file',
+    size: content.length,
+    content,
+  };
+}
+
+// A file estimated at the given number of tokens (4 chars each)
+function sizedFile(path: string, tokens: number): RepoFile {
+  return repoFile(path, 'a'.repeat(tokens * 4));
+}
+
+describe('FileSelectionService', () => {
+  let service: FileSelectionService;
+
+  beforeEach(() => {
+    service = new FileSelectionService(new GithubService());
+  });
+
+  describe('categorize', () => {
+    it.each([
+      ['.github/workflows/ci.yml', 'CI'],
+      ['.gitlab-ci.yml', 'CI'],
+      ['src/users/users.service.spec.ts', 'TEST'],
+      ['tests/test_api.py', 'TEST'],
+      ['src/main.ts', 'ENTRY_POINT'],
+      ['packages/api/src/main.ts', 'DOMAIN'],
+      ['README.md', 'DOCS'],
+      ['tsconfig.json', 'CONFIG'],
+      ['Dockerfile', 'CONFIG'],
+      ['vite.config.ts', 'CONFIG'],
+      ['src/styles/app.scss', 'UI'],
+      ['src/users/users.service.ts', 'DOMAIN'],
+    ])('%s is %s', (path, category) => {
+      expect(service.categorize(path)).toBe(category);
+    });
+  });
+
+  describe('scoreFile', () => {
+    it('ranks by category before file priority', () => {
+      expect(service.scoreFile('src/index.ts')).toBeGreaterThan(
+        service.scoreFile('src/users/users.service.ts'),
+      );
+      expect(service.scoreFile('src/users/users.service.ts')).toBeGreaterThan(
+        service.scoreFile('src/users/users.service.spec.ts'),
+      );
+    });
+
+    it('ranks focus paths above every category', () => {
+      const focusPaths = new Set(['.github/workflows/ci.yml']);
+
+      expect(
+        service.scoreFile('.github/workflows/ci.yml', focusPaths),
+      ).toBeGreaterThan(service.scoreFile('src/index.ts', focusPaths));
+    });
+
+    it('ranks monorepo files relative to their root', () => {
+      expect(
+        service.scoreFile('apps/api/src/main.ts', undefined, ['apps/api']),
+      ).toBe(service.scoreFile('src/main.ts'));
+    });
+  });
+
+  describe('select', () => {
+    it('keeps score order and skips empty files', () => {
+      const { files } = service.select([
+        repoFile('src/users/users.service.spec.ts', 'it("works", () => {});'),
+        repoFile('src/users/users.service.ts', 'export class UsersService {}'),
+        repoFile('src/empty.ts', '  \n'),
+        repoFile('README.md', '# Users API'),
+        repoFile('src/main.ts', 'bootstrap();'),
+      ]);
+
+      expect(files.map((file) => file.path)).toEqual([
+        'src/main.ts',
+        'src/users/users.service.ts',
+        'README.md',
+        'src/users/users.service.spec.ts',
+      ]);
+    });
+
+    it('reserves a share of the budget for lower-ranked categories', () => {
+      const domainFiles = Array.from({ length: 20 }, (_, i) =>
+        sizedFile(`src/services/item${i}.service.ts`, 100),
+      );
+      const testFile = sizedFile('src/services/item.service.spec.ts', 100);
+
+      const selection = service.select([...domainFiles, testFile], 1000);
+
+      // 450 tokens of domain files and the test file in the first pass,
+      // then the unused budget goes back to domain files
+      expect(selection.files.map((file) => file.path)).toContain(testFile.path);
+      expect(
+        selection.files.filter((file) => file.category === 'DOMAIN'),
+      ).toHaveLength(9);
+      expect(selection.totalTokens).toBe(1000);
+      expect(selection.tokenBudget).toBe(1000);
+    });
+
+    it('never goes over the budget', () => {
+      const files = Array.from({ length: 30 }, (_, i) =>
+        sizedFile(`src/modules/module${i}.ts`, 130 + i * 7),
+      );
+
+      const selection = service.select(files, 2500);
+
+      expect(selection.totalTokens).toBeLessThanOrEqual(2500);
+      expect(selection.totalTokens).toBe(
+        selection.files.reduce((sum, file) => sum + file.tokens, 0),
+      );
+    });
+
+    it('selects focus paths first within their category', () => {
+      const files = Array.from({ length: 10 }, (_, i) =>
+        sizedFile(`src/routes/route${i}.ts`, 200),
+      );
+      const focused = sizedFile('src/legacy/report.ts', 200);
+
+      const selection = service.select(
+        [...files, focused],
+        1000,
+        new Set([focused.path]),
+      );
+
+      expect(selection.files[0].path).toBe(focused.path);
+    });
+
+    it('excerpts files larger than a single file may take', () => {
+      const helpers = Array.from({ length: 100 }, (_, i) =>
+        [
+          `function helper${i}(value) {`,
+          ...Array.from(
+            { length: 5 },
+            (_, j) => `  const step${j} = value + ${j}; // keeps the body long`,
+          ),
+          '  return value;',
+          '}',
+        ].join('\n'),
+      );
+      const decide = [
+        'function decide(value) {',
+        '  if (value > 10) return "high";',
+        '  if (value > 5 && value < 8) return "middle";',
+        '  for (const limit of [1, 2, 3]) {',
+        '    if (value === limit) return "low";',
+        '  }',
+        '  return "none";',
+        '}',
+      ].join('\n');
+      const content = [
+        "import { format } from './format';",
+        ...helpers.slice(0, 5),
+        decide,
+        ...helpers.slice(5),
+      ].join('\n');
+
+      const [file] = service.select([repoFile('src/rules.js', content)]).files;
+
+      expect(file.extracted).toBe(true);
+      expect(file.originalTokens).toBe(service.estimateTokens(content));
+      expect(file.tokens).toBeLessThanOrEqual(2000);
+      expect(file.content).toContain("import { format } from './format';");
+      expect(file.content).toContain('if (value > 5 && value < 8)');
+      expect(file.content).toMatch(/\/\/ \.\.\. \(\d+ lines omitted\)/);
+    });
+
+    it('lists every selected file in the manifest', () => {
+      const selection = service.select([
+        repoFile('src/main.ts', 'bootstrap();'),
+        repoFile('package.json', '{}'),
+      ]);
+
+      expect(selection.manifest).toEqual([
+        {
+          path: 'src/main.ts',
+          category: 'ENTRY_POINT',
+          tokens: 3,
+          originalTokens: 3,
+          extracted: false,
+        },
+        {
+          path: 'package.json',
+          category: 'CONFIG',
+          tokens: 1,
+          originalTokens: 1,
+          extracted: false,
+        },
+      ]);
+    });
+  });
+
+  describe('renderForPrompt', () => {
+    it('labels excerpts in the file header', () => {
+      const rendered = service.renderForPrompt([
+        {
+          path: 'src/a.ts',
+          category: 'DOMAIN',
+          content: 'a();',
+          extracted: false,
+          tokens: 1,
+          originalTokens: 1,
+        },
+        {
+          path: 'src/b.ts',
+          category: 'DOMAIN',
+          content: 'b();',
+          extracted: true,
+          tokens: 1,
+          originalTokens: 5000,
+        },
+      ]);
+
+      expect(rendered).toBe(
+        [
+          '// File: src/a.ts',
+          'a();',
+          '',
+          '// File: src/b.ts (excerpt: signatures and most complex functions)',
+          'b();',
+        ].join('\n'),
+      );
+    });
+  });
+});
@@ -0,0 +1,495 @@
+import { Injectable } from '@nestjs/common';
+import { GithubService, RepoFile } from '../../github/github.service';
+
+export type FileCategory =
+  | 'ENTRY_POINT'
+  | 'DOMAIN'
+  | 'TEST'
+  | 'CONFIG'
+  | 'CI'
+  | 'DOCS'
+  | 'UI';
+
+export interface SelectedFile {
+  path: string;
+  category: FileCategory;
+  content: string; // Full file or extracted excerpt
+  extracted: boolean; // True when content is an excerpt of a larger file
+  tokens: number;
+  originalTokens: number;
+}
+
+export interface SelectionManifestEntry {
+  path: string;
+  category: FileCategory;
+  tokens: number;
+  originalTokens: number;
+  extracted: boolean;
+}
+
+export interface FileSelection {
+  files: SelectedFile[];
+  manifest: SelectionManifestEntry[];
+  totalTokens: number;
+  tokenBudget: number;
+}
+
+// Total code tokens sent to the AI per project (~100 KB of source)
+const TOKEN_BUDGET = 25000;
+// A single file never takes more than this; larger files are excerpted
+const MAX_FILE_TOKENS = 2000;
+// Rough chars-per-token ratio for source code
+const CHARS_PER_TOKEN = 4;
+
+// Share of the budget reserved per category; leftovers are redistributed
+const CATEGORY_BUDGET_SHARE: Record<FileCategory, number> = {
+  ENTRY_POINT: 0.15,
+  DOMAIN: 0.45,
+  TEST: 0.12,
+  UI: 0.1,
+  CONFIG: 0.08,
+  CI: 0.04,
+  DOCS: 0.06,
+};
+
+// Order categories are filled in, and their weight in fetch ordering
+const CATEGORY_WEIGHT: Record<FileCategory, number> = {
+  ENTRY_POINT: 7,
+  DOMAIN: 6,
+  DOCS: 5,
+  TEST: 4,
+  CONFIG: 3,
+  CI: 2,
+  UI: 1,
+};
+
+// Above any category weight, so focused re-analysis files are fetched and
+// selected first within their category
+const FOCUS_WEIGHT = 100000;
+
+const ENTRY_POINT_NAMES = new Set([
+  'index.js',
+  'index.ts',
+  'index.jsx',
+  'index.tsx',
+  'main.js',
+  'main.ts',
+  'main.py',
+  'main.go',
+  'main.rs',
+  'main.dart',
+  'app.js',
+  'app.ts',
+  'app.py',
+  'server.js',
+  'server.ts',
+  'manage.py',
+  'program.cs',
+]);
+
+const UI_EXTENSIONS = ['.css', '.scss', '.sass', '.less', '.html'];
+
+const CONFIG_EXTENSIONS = ['.json', '.yml', '.yaml', '.toml', '.xml'];
+
+const SIGNATURE_PATTERNS = [
+  // JS/TS
+  /^\s*(export\s+)?(default\s+)?(abstract\s+)?(class|interface|enum|type)\s+\w+/,
+  /^\s*(export\s+)?(default\s+)?(async\s+)?function\*?\s*\w*\s*[(<]/,
+  /^\s*(export\s+)?(const|let)\s+\w+\s*(:[^=]+)?=\s*(async\s*)?(\([^)]*\)|\w+)\s*(:[^=]+)?=>/,
+  // Class members in JS/TS/Java/C#/Kotlin/Dart
+  /^\s*((public|private|protected|static|async|override|readonly|final|abstract)\s+)+[\w<>[\],\s]*\w+\s*\(/,
+  /^\s*(async\s+)?(?!if\b|for\b|while\b|switch\b|catch\b|return\b)\w+\s*\([^)]*\)\s*(:\s*[\w<>[\]|, ]+)?\s*\{/,
+  // Go, Rust, Kotlin, Swift
+  /^\s*(pub\s+)?(func|fn|fun)\s+/,
+  // Python
+  /^\s*(async\s+)?def\s+\w+/,
+  /^\s*class\s+\w+/,
+];
+
+const BRANCH_PATTERN =
+  /\b(if|elif|else if|for|while|case|catch|except|switch|match)\b|&&|\|\||\?\?/g;
+
+interface LineRange {
+  start: number;
+  end: number; // Inclusive
+}
+
+interface CodeBlock extends LineRange {
+  complexity: number;
+}
+
+/**
+ * Picks which repository files the AI sees, and how much of each
+ * Budgets are token-estimated and split per category so tests, config and
+ * CI files get a look-in alongside the main source. Oversized files are
+ * reduced to imports, signatures and their most complex function bodies.
+ */
+@Injectable()
+export class FileSelectionService {
+  constructor(private githubService: GithubService) {}
+
+  /**
+   * Ordering used when downloading files, highest first
+   * @param focusPaths - Files a focused re-analysis must include, ranked first
+   * @param rootPaths - Monorepo directories; files are ranked as if each was
+   * a repository of its own
+   */
+  scoreFile(
+    path: string,
+    focusPaths?: Set<string>,
+    rootPaths?: string[],
+  ): number {
+    const relativePath = this.githubService.getRootRelativePath(
+      path,
+      rootPaths,
+    );
+    return (
+      (focusPaths?.has(path) ? FOCUS_WEIGHT : 0) +
+      CATEGORY_WEIGHT[this.categorize(relativePath)] * 10000 +
+      this.githubService.getFilePriority(relativePath)
+    );
+  }
+
+  categorize(filePath: string): FileCategory {
+    const path = filePath.toLowerCase();
+    const fileName = path.split('/').pop() || '';
+
+    if (
+      path.startsWith('.github/workflows/') ||
+      path.startsWith('.circleci/') ||
+      fileName === '.gitlab-ci.yml' ||
+      fileName === '.travis.yml' ||
+      fileName === 'jenkinsfile' ||
+      fileName === 'azure-pipelines.yml'
+    ) {
+      return 'CI';
+    }
+
+    if (
+      /(^|\/)(tests?|__tests__|spec)\//.test(path) ||
+      /\.(test|spec)\.\w+$/.test(fileName) ||
+      /_test\.(go|py)$/.test(fileName) ||
+      /^test_\w+\.py$/.test(fileName)
+    ) {
+      return 'TEST';
+    }
+
+    if (
+      ENTRY_POINT_NAMES.has(fileName) &&
+      path.split('/').length <= 3 // Root, src/ or app/ level only
+    ) {
+      return 'ENTRY_POINT';
+    }
+
+    if (fileName.startsWith('readme') || fileName.endsWith('.md')) {
+      return 'DOCS';
+    }
+
+    if (
+      CONFIG_EXTENSIONS.some((ext) => fileName.endsWith(ext)) ||
+      /\.config\.(js|ts|mjs|cjs)$/.test(fileName) ||
+      fileName.startsWith('dockerfile') ||
+      fileName.startsWith('docker-compose') ||
+      fileName.startsWith('.') ||
+      fileName === 'makefile'
+    ) {
+      return 'CONFIG';
+    }
+
+    if (UI_EXTENSIONS.some((ext) => fileName.endsWith(ext))) {
+      return 'UI';
+    }
+
+    return 'DOMAIN';
+  }
+
+  /**
+   * Select files within the token budget
+   */
+  select(
+    files: RepoFile[],
+    tokenBudget = TOKEN_BUDGET,
+    focusPaths?: Set<string>,
+    rootPaths?: string[],
+  ): FileSelection {
+    const candidates = files
+      .filter((file) => file.content.trim().length > 0)
+      .map((file) => ({
+        file,
+        category: this.categorize(
+          this.githubService.getRootRelativePath(file.path, rootPaths),
+        ),
+      }))
+      .sort(
+        (a, b) =>
+          this.scoreFile(b.file.path, focusPaths, rootPaths) -
+          this.scoreFile(a.file.path, focusPaths, rootPaths),
+      );
+
+    const selected = new Map<string, SelectedFile>();
+    let totalTokens = 0;
+
+    const take = (
+      file: RepoFile,
+      category: FileCategory,
+      allowance: number,
+    ): number => {
+      const prepared = this.prepareFile(file, category, allowance);
+      if (!prepared) return 0;
+      selected.set(file.path, prepared);
+      totalTokens += prepared.tokens;
+      return prepared.tokens;
+    };
+
+    // Pass 1: fill each category up to its share
+    for (const category of Object.keys(
+      CATEGORY_BUDGET_SHARE,
+    ) as FileCategory[]) {
+      let remaining = Math.floor(tokenBudget * CATEGORY_BUDGET_SHARE[category]);
+
+      for (const { file } of candidates.filter(
+        (c) => c.category === category,
+      )) {
+        if (remaining <= 0) break;
+        remaining -= take(file, category, remaining);
+      }
+    }
+
+    // Pass 2: hand unused budget to whatever is left, in score order
+    for (const { file, category } of candidates) {
+      const remaining = tokenBudget - totalTokens;
+      if (remaining <= 0) break;
+      if (selected.has(file.path)) continue;
+      take(file, category, remaining);
+    }
+
+    // Keep score order in the prompt
+    const ordered = candidates
+      .map(({ file }) => selected.get(file.path))
+      .filter((file): file is SelectedFile => !!file);
+
+    return {
+      files: ordered,
+      manifest: ordered.map((file) => ({
+        path: file.path,
+        category: file.category,
+        tokens: file.tokens,
+        originalTokens: file.originalTokens,
+        extracted: file.extracted,
+      })),
+      totalTokens,
+      tokenBudget,
+    };
+  }
+
+  /**
+   * Selected files as sent to the AI, each under a `// File:` header
+   */
+  renderForPrompt(files: SelectedFile[]): string {
+    return files
+      .map((file) => {
+        const label = file.extracted
+          ? `${file.path} (excerpt: signatures and most complex functions)`
+          : file.path;
+        return `// File: ${label}\n${file.content}`;
+      })
+      .join('\n\n');
+  }
+
+  estimateTokens(text: string): number {
+    return Math.ceil(text.length / CHARS_PER_TOKEN);
+  }
+
+  // ========================================
+  // PRIVATE HELPER METHODS
+  // ========================================
+
+  private prepareFile(
+    file: RepoFile,
+    category: FileCategory,
+    allowance: number,
+  ): SelectedFile | null {
+    const originalTokens = this.estimateTokens(file.content);
+    const cap = Math.min(MAX_FILE_TOKENS, allowance);
+
+    if (originalTokens <= cap) {
+      return {
+        path: file.path,
+        category,
+        content: file.content,
+        extracted: false,
+        tokens: originalTokens,
+        originalTokens,
+      };
+    }
+
+    // Too small an allowance to say anything useful about this file
+    if (cap < 150) {
+      return null;
+    }
+
+    const content = this.extractRelevantParts(file, cap);
+    return {
+      path: file.path,
+      category,
+      content,
+      extracted: true,
+      tokens: this.estimateTokens(content),
+      originalTokens,
+    };
+  }
+
+  /**
+   * Reduce a file to imports, declaration signatures and the bodies of its
+   * most complex functions, in source order
+   */
+  private extractRelevantParts(file: RepoFile, maxTokens: number): string {
+    const lines = file.content.split('\n');
+    const isPython = file.path.endsWith('.py');
+    const comment = isPython ? '#' : '//';
+
+    const importLines = lines
+      .map((line, index) => ({ line, index }))
+      .filter(({ line }) =>
+        /^\s*(import\s|from\s+\S+\s+import\s|const\s+\w+\s*=\s*require\(|use\s|using\s|package\s|#include\s)/.test(
+          line,
+        ),
+      )
+      .slice(0, 20)
+      .map(({ index }) => ({ start: index, end: index }));
+
+    const blocks = this.findBlocks(lines, isPython);
+    const signatures = blocks.map((block) => ({
+      start: block.start,
+      end: block.start,
+    }));
+
+    const ranges: LineRange[] = [...importLines, ...signatures];
+    let tokens = this.estimateTokens(
+      ranges.map((r) => lines[r.start]).join('\n'),
+    );
+
+    // Most complex bodies first, while they fit
+    const byComplexity = [...blocks].sort(
+      (a, b) => b.complexity - a.complexity,
+    );
+    for (const block of byComplexity) {
+      const body = lines.slice(block.start, block.end + 1).join('\n');
+      const bodyTokens = this.estimateTokens(body);
+      if (tokens + bodyTokens > maxTokens) continue;
+      ranges.push(block);
+      tokens += bodyTokens;
+    }
+
+    // Nothing recognizable: fall back to the head of the file
+    if (ranges.length === 0) {
+      return this.truncate(file.content, comment, maxTokens);
+    }
+
+    return this.renderRanges(lines, ranges, comment, maxTokens);
+  }
+
+  /**
+   * Locate function/class blocks and score them by branch count
+   */
+  private findBlocks(lines: string[], isPython: boolean): CodeBlock[] {
+    const blocks: CodeBlock[] = [];
+
+    for (let i = 0; i < lines.length; i++) {
+      if (!SIGNATURE_PATTERNS.some((pattern) => pattern.test(lines[i]))) {
+        continue;
+      }
+
+      const end = isPython
+        ? this.findIndentedBlockEnd(lines, i)
+        : this.findBraceBlockEnd(lines, i);
+
+      const body = lines.slice(i, end + 1).join('\n');
+      blocks.push({
+        start: i,
+        end,
+        complexity: (body.match(BRANCH_PATTERN) || []).length,
+      });
+    }
+
+    return blocks;
+  }
+
+  private findBraceBlockEnd(lines: string[], start: number): number {
+    let depth = 0;
+    let opened = false;
+
+    // Signature may wrap; give up if no opening brace shortly after
+    for (let i = start; i < lines.length; i++) {
+      const line = lines[i].replace(/(["'`])(?:\\.|(?!\1).)*\1/g, '');
+      for (const char of line) {
+        if (char === '{') {
+          depth++;
+          opened = true;
+        } else if (char === '}') {
+          depth--;
+        }
+      }
+      if (opened && depth <= 0) return i;
+      if (!opened && i - start >= 3) return start;
+    }
+
+    return opened ? lines.length - 1 : start;
+  }
+
+  private findIndentedBlockEnd(lines: string[], start: number): number {
+    const indent = lines[start].search(/\S/);
+    let end = start;
+
+    for (let i = start + 1; i < lines.length; i++) {
+      if (lines[i].trim() === '') continue;
+      if (lines[i].search(/\S/) <= indent) break;
+      end = i;
+    }
+
+    return end;
+  }
+
+  private renderRanges(
+    lines: string[],
+    ranges: LineRange[],
+    comment: string,
+    maxTokens: number,
+  ): string {
+    const keep = new Set<number>();
+    for (const range of ranges) {
+      for (let i = range.start; i <= range.end; i++) keep.add(i);
+    }
+
+    const output: string[] = [];
+    let skipped = 0;
+
+    for (let i = 0; i < lines.length; i++) {
+      if (!keep.has(i)) {
+        skipped++;
+        continue;
+      }
+      if (skipped > 0) {
+        output.push(`${comment} ... (${skipped} lines omitted)`);
+        skipped = 0;
+      }
+      output.push(lines[i]);
+    }
+
+    if (skipped > 0) {
+      output.push(`${comment} ... (${skipped} lines omitted)`);
+    }
+
+    // Signatures alone can overflow on huge files
+    return this.truncate(output.join('\n'), comment, maxTokens);
+  }
+
+  // The marker counts towards the cap, so the result never exceeds it
+  private truncate(text: string, comment: string, maxTokens: number): string {
+    const maxChars = maxTokens * CHARS_PER_TOKEN;
+    if (text.length <= maxChars) return text;
+
+    const marker = `\n${comment} ... (truncated)`;
+    return `${text.slice(0, maxChars - marker.length)}${marker}`;
+  }
+}
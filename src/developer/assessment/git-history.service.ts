@@ -0,0 +1,273 @@
+import { Injectable } from '@nestjs/common';
+import { RepoCommit, RepoHistory } from '../../github/github.service';
+
+export type CommitCadence = 'STEADY' | 'BURSTY' | 'SINGLE_SESSION';
+
+export interface DeveloperIdentity {
+  login: string; // Developer's account on the repository host
+  email: string | null;
+  name: string | null;
+}
+
+export interface CommitAuthorSummary {
+  name: string;
+  login: string | null;
+  commits: number;
+  matchesDeveloper: boolean;
+}
+
+export interface LargeCommit {
+  sha: string;
+  date: string;
+  message: string;
+  additions: number;
+}
+
+/**
+ * Authenticity evidence derived from the commit history of a repository
+ * Counts cover fetched commits only (see truncated)
+ */
+export interface GitHistorySignals {
+  commitCount: number;
+  truncated: boolean;
+  firstCommitAt: string | null;
+  lastCommitAt: string | null;
+  activeSpanDays: number; // First to last commit
+  activeDays: number; // Distinct days with at least one commit
+  longestGapDays: number;
+  cadence: CommitCadence;
+  authorMatchRatio: number; // Share of commits attributed to the developer
+  authors: CommitAuthorSummary[]; // Most active first
+  largeCommits: LargeCommit[]; // Sampled commits adding LARGE_COMMIT_LINES+
+  initialCommitShare: number | null; // First commit additions / sampled additions
+  isFork: boolean;
+  forkParent: string | null;
+  templateRepository: string | null;
+  level: 'HIGH' | 'MEDIUM' | 'LOW';
+  positiveIndicators: string[];
+  concerningIndicators: string[];
+}
+
+// A single commit adding this many lines is treated as a code dump
+const LARGE_COMMIT_LINES = 2000;
+// Share of commits on the busiest day above which activity is bursty
+const BURSTY_DAY_SHARE = 0.7;
+const MAX_AUTHORS = 5;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+@Injectable()
+export class GitHistoryService {
+  /**
+   * Turn raw commit history into authenticity signals
+   * @param history - Commits and origin as fetched from GitHub
+   * @param identity - Who the commits are expected to come from
+   */
+  analyze(
+    history: RepoHistory,
+    identity: DeveloperIdentity,
+  ): GitHistorySignals {
+    const commits = history.commits.filter((commit) => commit.date);
+    const dates = commits
+      .map((commit) => new Date(commit.date).getTime())
+      .sort((a, b) => a - b);
+
+    const days = dates.map((time) => new Date(time).toISOString().slice(0, 10));
+    const commitsPerDay = new Map<string, number>();
+    for (const day of days) {
+      commitsPerDay.set(day, (commitsPerDay.get(day) ?? 0) + 1);
+    }
+
+    let longestGapMs = 0;
+    for (let i = 1; i < dates.length; i++) {
+      longestGapMs = Math.max(longestGapMs, dates[i] - dates[i - 1]);
+    }
+
+    const activeSpanDays =
+      dates.length > 0
+        ? Math.round((dates[dates.length - 1] - dates[0]) / DAY_MS)
+        : 0;
+    const busiestDay = Math.max(0, ...commitsPerDay.values());
+
+    let cadence: CommitCadence = 'STEADY';
+    if (commitsPerDay.size <= 1) {
+      cadence = 'SINGLE_SESSION';
+    } else if (busiestDay / commits.length > BURSTY_DAY_SHARE) {
+      cadence = 'BURSTY';
+    }
+
+    const authors = this.summarizeAuthors(commits, identity);
+    const developerCommits = authors
+      .filter((author) => author.matchesDeveloper)
+      .reduce((sum, author) => sum + author.commits, 0);
+
+    const detailed = commits.filter((commit) => commit.additions !== null);
+    const sampledAdditions = detailed.reduce(
+      (sum, commit) => sum + commit.additions!,
+      0,
+    );
+    const firstCommit = history.truncated
+      ? undefined
+      : commits[commits.length - 1];
+
+    const signals: Omit<
+      GitHistorySignals,
+      'level' | 'positiveIndicators' | 'concerningIndicators'
+    > = {
+      commitCount: commits.length,
+      truncated: history.truncated,
+      firstCommitAt: dates.length > 0 ? new Date(dates[0]).toISOString() : null,
+      lastCommitAt:
+        dates.length > 0
+          ? new Date(dates[dates.length - 1]).toISOString()
+          : null,
+      activeSpanDays,
+      activeDays: commitsPerDay.size,
+      longestGapDays: Math.round(longestGapMs / DAY_MS),
+      cadence,
+      authorMatchRatio:
+        commits.length > 0 ? this.round(developerCommits / commits.length) : 0,
+      authors: authors.slice(0, MAX_AUTHORS),
+      largeCommits: detailed
+        .filter((commit) => commit.additions! >= LARGE_COMMIT_LINES)
+        .map((commit) => ({
+          sha: commit.sha,
+          date: commit.date,
+          message: commit.message,
+          additions: commit.additions!,
+        })),
+      initialCommitShare:
+        firstCommit?.additions != null && sampledAdditions > 0
+          ? this.round(firstCommit.additions / sampledAdditions)
+          : null,
+      isFork: history.isFork,
+      forkParent: history.forkParent,
+      templateRepository: history.templateRepository,
+    };
+
+    return { ...signals, ...this.rate(signals) };
+  }
+
+  // ========================================
+  // PRIVATE HELPER METHODS
+  // ========================================
+
+  private summarizeAuthors(
+    commits: RepoCommit[],
+    identity: DeveloperIdentity,
+  ): CommitAuthorSummary[] {
+    const byAuthor = new Map<string, CommitAuthorSummary>();
+
+    for (const commit of commits) {
+      const key = (
+        commit.authorLogin ??
+        commit.authorEmail ??
+        commit.authorName ??
+        'unknown'
+      ).toLowerCase();
+      const existing = byAuthor.get(key);
+
+      if (existing) {
+        existing.commits++;
+      } else {
+        byAuthor.set(key, {
+          name: commit.authorName ?? commit.authorLogin ?? 'unknown',
+          login: commit.authorLogin,
+          commits: 1,
+          matchesDeveloper: this.matchesDeveloper(commit, identity),
+        });
+      }
+    }
+
+    return [...byAuthor.values()].sort((a, b) => b.commits - a.commits);
+  }
+
+  private matchesDeveloper(
+    commit: RepoCommit,
+    identity: DeveloperIdentity,
+  ): boolean {
+    const same = (a: string | null, b: string | null) =>
+      !!a && !!b && a.trim().toLowerCase() === b.trim().toLowerCase();
+
+    return (
+      same(commit.authorLogin, identity.login) ||
+      same(commit.authorEmail, identity.email) ||
+      same(commit.authorName, identity.name)
+    );
+  }
+
+  /**
+   * Deterministic HIGH/MEDIUM/LOW with the reasons behind it
+   * Two or more concerns -> LOW, one -> MEDIUM, otherwise HIGH when the
+   * history shows sustained work by the developer
+   */
+  private rate(
+    signals: Omit<
+      GitHistorySignals,
+      'level' | 'positiveIndicators' | 'concerningIndicators'
+    >,
+  ): Pick<
+    GitHistorySignals,
+    'level' | 'positiveIndicators' | 'concerningIndicators'
+  > {
+    const positive: string[] = [];
+    const concerning: string[] = [];
+
+    if (signals.isFork) {
+      concerning.push(
+        `Forked from ${signals.forkParent ?? 'another repository'}`,
+      );
+    }
+    if (signals.templateRepository) {
+      concerning.push(`Generated from template ${signals.templateRepository}`);
+    }
+    if (signals.cadence === 'SINGLE_SESSION') {
+      concerning.push('All commits were made on a single day');
+    }
+    if (signals.authorMatchRatio < 0.5) {
+      concerning.push(
+        `Only ${Math.round(signals.authorMatchRatio * 100)}% of commits are attributed to the developer`,
+      );
+    } else if (signals.authorMatchRatio >= 0.8) {
+      positive.push(
+        `${Math.round(signals.authorMatchRatio * 100)}% of commits are attributed to the developer`,
+      );
+    }
+    if (
+      signals.initialCommitShare !== null &&
+      signals.initialCommitShare >= 0.8
+    ) {
+      concerning.push(
+        `Initial commit contains ${Math.round(signals.initialCommitShare * 100)}% of sampled additions`,
+      );
+    } else if (signals.largeCommits.length > 0) {
+      concerning.push(
+        `${signals.largeCommits.length} commit(s) adding ${LARGE_COMMIT_LINES}+ lines at once`,
+      );
+    }
+    if (signals.activeSpanDays >= 14 && signals.activeDays >= 5) {
+      positive.push(
+        `Active on ${signals.activeDays} days over ${signals.activeSpanDays} days`,
+      );
+    }
+    if (signals.commitCount >= 20 && signals.cadence === 'STEADY') {
+      positive.push(`${signals.commitCount} commits with a steady cadence`);
+    }
+
+    let level: GitHistorySignals['level'] = 'MEDIUM';
+    if (concerning.length >= 2) {
+      level = 'LOW';
+    } else if (concerning.length === 0 && positive.length >= 2) {
+      level = 'HIGH';
+    }
+
+    return {
+      level,
+      positiveIndicators: positive,
+      concerningIndicators: concerning,
+    };
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
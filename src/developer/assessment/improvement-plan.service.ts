@@ -0,0 +1,343 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { createHash } from 'crypto';
+import { PrismaService } from '../../prisma/prisma.service';
+import { ProjectAnalysisResult } from '../../ai/ai.service';
+import { RepoManifestEntry } from '../../github/github.service';
+import {
+  ImprovementTask,
+  ImprovementTaskCategory,
+  ImprovementTaskPriority,
+  ProjectAnalysisStatus,
+} from '../../../prisma/generated/prisma';
+import {
+  ImprovementPlanDto,
+  ImprovementTaskDto,
+  ProjectImprovementPlanDto,
+} from './dto';
+
+// File references listed per task
+const MAX_TASK_FILES = 5;
+
+const PRIORITY_ORDER: Record<ImprovementTaskPriority, number> = {
+  HIGH: 0,
+  MEDIUM: 1,
+  LOW: 2,
+};
+
+const CATEGORY_ORDER: Record<ImprovementTaskCategory, number> = {
+  SECURITY: 0,
+  ERROR_HANDLING: 1,
+  WEAKNESS: 2,
+};
+
+type PlannedTask = Pick<
+  ImprovementTask,
+  'key' | 'category' | 'priority' | 'title' | 'files'
+>;
+
+export interface FocusedAnalysisScope {
+  areas: string[]; // Done tasks, as described to the AI
+  paths: string[]; // Files those tasks refer to
+}
+
+/**
+ * Developer-facing improvement plan
+ * Turns the weaknesses, error handling and security findings of each
+ * completed analysis into prioritized tasks. Tasks are rebuilt when the
+ * analysis changes; a new commit resets done marks, since the new analysis
+ * is what shows whether a task was actually resolved.
+ */
+@Injectable()
+export class ImprovementPlanService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Improvement plan across the developer's analyzed projects
+   */
+  async getImprovementPlan(developerId: number): Promise<ImprovementPlanDto> {
+    const projects = await this.prisma.technicalProject.findMany({
+      where: {
+        developerId,
+        analysis: { status: ProjectAnalysisStatus.COMPLETE },
+      },
+      include: { analysis: true },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const plans: ProjectImprovementPlanDto[] = [];
+    for (const project of projects) {
+      const analysis = project.analysis!;
+      const tasks = await this.syncTasks(analysis);
+      const completedCount = tasks.filter((t) => t.completedAt).length;
+
+      const isLocked =
+        !!project.lockedUntil && project.lockedUntil > new Date();
+      const lockDaysRemaining =
+        isLocked && project.lockedUntil
+          ? Math.ceil(
+              (project.lockedUntil.getTime() - Date.now()) /
+                (24 * 60 * 60 * 1000),
+            )
+          : 0;
+
+      plans.push({
+        projectId: project.id,
+        projectName: project.name,
+        commitSha: analysis.commitSha ?? undefined,
+        analyzedAt: analysis.completedAt ?? analysis.updatedAt,
+        tasks: tasks.map((task) => this.mapTaskToDto(task)),
+        completedCount,
+        isLocked,
+        lockDaysRemaining,
+        canRequestFocusedAnalysis: !isLocked && completedCount > 0,
+      });
+    }
+
+    return {
+      projects: plans,
+      totalTasks: plans.reduce((sum, p) => sum + p.tasks.length, 0),
+      completedTasks: plans.reduce((sum, p) => sum + p.completedCount, 0),
+    };
+  }
+
+  /**
+   * Mark a task done or not done
+   */
+  async setTaskDone(
+    developerId: number,
+    taskId: number,
+    done: boolean,
+  ): Promise<ImprovementTaskDto> {
+    const task = await this.prisma.improvementTask.findFirst({
+      where: { id: taskId, projectAnalysis: { project: { developerId } } },
+    });
+
+    if (!task) {
+      throw new NotFoundException('Improvement task not found');
+    }
+
+    const updated = await this.prisma.improvementTask.update({
+      where: { id: taskId },
+      data: { completedAt: done ? (task.completedAt ?? new Date()) : null },
+    });
+
+    return this.mapTaskToDto(updated);
+  }
+
+  /**
+   * Count of tasks marked done for an analysis
+   */
+  async countDoneTasks(projectAnalysisId: number): Promise<number> {
+    return this.prisma.improvementTask.count({
+      where: { projectAnalysisId, completedAt: { not: null } },
+    });
+  }
+
+  /**
+   * What a focused re-analysis should re-check: the tasks marked done
+   */
+  async getFocusedAnalysisScope(
+    projectAnalysisId: number,
+  ): Promise<FocusedAnalysisScope> {
+    const tasks = await this.prisma.improvementTask.findMany({
+      where: { projectAnalysisId, completedAt: { not: null } },
+    });
+
+    return {
+      areas: tasks.map((task) =>
+        task.files.length > 0
+          ? `${task.title} (${task.files.join(', ')})`
+          : task.title,
+      ),
+      paths: [...new Set(tasks.flatMap((task) => task.files))],
+    };
+  }
+
+  // ========================================
+  // PRIVATE HELPER METHODS
+  // ========================================
+
+  /**
+   * Tasks for the current analysis result, rebuilt if the result changed
+   */
+  private async syncTasks(analysis: {
+    id: number;
+    completedAt: Date | null;
+    updatedAt: Date;
+    commitSha: string | null;
+    rawAnalysis: unknown;
+    fileManifest: unknown;
+  }): Promise<ImprovementTask[]> {
+    const analyzedAt = analysis.completedAt ?? analysis.updatedAt;
+    const existing = await this.prisma.improvementTask.findMany({
+      where: { projectAnalysisId: analysis.id },
+    });
+    let tasks = existing;
+
+    const upToDate =
+      existing.length > 0 &&
+      existing.every(
+        (task) => task.analysisCompletedAt.getTime() === analyzedAt.getTime(),
+      );
+
+    if (!upToDate) {
+      const planned = this.buildTasks(
+        analysis.rawAnalysis as ProjectAnalysisResult | null,
+        ((analysis.fileManifest as RepoManifestEntry[] | null) ?? []).map(
+          (file) => file.path,
+        ),
+      );
+
+      if (existing.length > 0 || planned.length > 0) {
+        // Same code re-scored: the developer's done marks still apply
+        const doneByKey = new Map(
+          existing
+            .filter(
+              (task) =>
+                task.completedAt &&
+                task.commitSha !== null &&
+                task.commitSha === analysis.commitSha,
+            )
+            .map((task) => [task.key, task.completedAt]),
+        );
+
+        await this.prisma.$transaction([
+          this.prisma.improvementTask.deleteMany({
+            where: { projectAnalysisId: analysis.id },
+          }),
+          this.prisma.improvementTask.createMany({
+            data: planned.map((task) => ({
+              ...task,
+              projectAnalysisId: analysis.id,
+              completedAt: doneByKey.get(task.key) ?? null,
+              analysisCompletedAt: analyzedAt,
+              commitSha: analysis.commitSha,
+            })),
+          }),
+        ]);
+
+        tasks = await this.prisma.improvementTask.findMany({
+          where: { projectAnalysisId: analysis.id },
+        });
+      }
+    }
+
+    return tasks.sort(
+      (a, b) =>
+        PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority] ||
+        CATEGORY_ORDER[a.category] - CATEGORY_ORDER[b.category] ||
+        a.id - b.id,
+    );
+  }
+
+  /**
+   * Security issues and missing error handling come first; weaknesses that
+   * name a file are concrete fixes, the others broader habits
+   */
+  private buildTasks(
+    result: ProjectAnalysisResult | null,
+    manifestPaths: string[],
+  ): PlannedTask[] {
+    if (!result) return [];
+
+    const tasks = new Map<string, PlannedTask>();
+    const add = (
+      category: ImprovementTaskCategory,
+      title: string,
+      priority: (files: string[]) => ImprovementTaskPriority,
+    ) => {
+      const text = title.trim();
+      if (!text) return;
+
+      const key = createHash('sha256')
+        .update(`${category}\n${text}`)
+        .digest('hex')
+        .slice(0, 16);
+      if (tasks.has(key)) return;
+
+      const files = this.findFileReferences(text, manifestPaths);
+      tasks.set(key, {
+        key,
+        category,
+        priority: priority(files),
+        title: text,
+        files,
+      });
+    };
+
+    for (const issue of result.securityIssues ?? []) {
+      add(
+        ImprovementTaskCategory.SECURITY,
+        issue,
+        () => ImprovementTaskPriority.HIGH,
+      );
+    }
+
+    const errorHandling = result.errorHandling;
+    if (errorHandling && errorHandling.quality !== 'GOOD') {
+      add(
+        ImprovementTaskCategory.ERROR_HANDLING,
+        errorHandling.observations,
+        () =>
+          errorHandling.quality === 'PARTIAL'
+            ? ImprovementTaskPriority.MEDIUM
+            : ImprovementTaskPriority.HIGH,
+      );
+    }
+
+    for (const weakness of result.weaknesses ?? []) {
+      add(ImprovementTaskCategory.WEAKNESS, weakness, (files) =>
+        files.length > 0
+          ? ImprovementTaskPriority.MEDIUM
+          : ImprovementTaskPriority.LOW,
+      );
+    }
+
+    return [...tasks.values()];
+  }
+
+  /**
+   * Analyzed files a finding mentions, by full path or by a file name that
+   * is unique in the repository
+   */
+  private findFileReferences(text: string, manifestPaths: string[]): string[] {
+    const found = manifestPaths.filter((path) => this.mentions(text, path));
+
+    const pathsByName = new Map<string, string[]>();
+    for (const path of manifestPaths) {
+      const name = (path.split('/').pop() || path).toLowerCase();
+      pathsByName.set(name, [...(pathsByName.get(name) ?? []), path]);
+    }
+
+    for (const [name, paths] of pathsByName) {
+      if (
+        paths.length === 1 &&
+        name.includes('.') &&
+        !found.includes(paths[0]) &&
+        this.mentions(text, name)
+      ) {
+        found.push(paths[0]);
+      }
+    }
+
+    return found.slice(0, MAX_TASK_FILES);
+  }
+
+  // Whole-token match, so "app.ts" doesn't match "app.tsx"
+  private mentions(text: string, term: string): boolean {
+    const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`(^|[^\\w.-])${escaped}($|[^\\w/-])`, 'i').test(text);
+  }
+
+  private mapTaskToDto(task: ImprovementTask): ImprovementTaskDto {
+    return {
+      id: task.id,
+      category: task.category,
+      priority: task.priority,
+      title: task.title,
+      files: task.files,
+      done: !!task.completedAt,
+      completedAt: task.completedAt ?? undefined,
+    };
+  }
+}
@@ -1,3 +1,9 @@
 export * from './assessment.module';
 export * from './assessment.service';
 export * from './dto';
+export * from './analysis-queue.service';
+export * from './file-selection.service';
+export * from './code-metrics.service';
+export * from './git-history.service';
+export * from './improvement-plan.service';
+export * from './security-scan.service';
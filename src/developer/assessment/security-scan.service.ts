@@ -0,0 +1,567 @@
+import { Injectable } from '@nestjs/common';
+import * as fs from 'fs';
+import * as path from 'path';
+import { RepoFile } from '../../github/github.service';
+
+export type SecuritySeverity = 'CRITICAL' | 'HIGH' | 'MEDIUM' | 'LOW';
+
+export type SecurityFindingType =
+  | 'SECRET' // Credential in file content
+  | 'SENSITIVE_FILE' // Committed .env file or private key (never downloaded)
+  | 'DANGEROUS_PATTERN'
+  | 'VULNERABLE_DEPENDENCY';
+
+export interface SecurityFinding {
+  type: SecurityFindingType;
+  rule: string; // e.g. aws-access-key, sql-concatenation, CVE-2021-23337
+  severity: SecuritySeverity;
+  file: string;
+  line: number | null; // 1-based, null for file-level findings
+  message: string;
+  excerpt: string | null; // Offending line, secrets redacted
+}
+
+export interface SecuritySummary {
+  critical: number;
+  high: number;
+  medium: number;
+  low: number;
+  secrets: number; // SECRET + SENSITIVE_FILE
+  dangerousPatterns: number;
+  vulnerableDependencies: number;
+}
+
+/**
+ * Deterministic security scan of a repository
+ * Content rules cover downloaded files only (see scannedFiles);
+ * sensitive files are detected from the full git tree
+ */
+export interface SecurityScan {
+  findings: SecurityFinding[]; // Most severe first
+  summary: SecuritySummary;
+  scannedFiles: number;
+  advisorySnapshot: string; // Date of the bundled advisory snapshot
+  truncated: boolean; // More findings than MAX_FINDINGS
+}
+
+interface ContentRule {
+  rule: string;
+  patterns: RegExp[];
+  severity: SecuritySeverity;
+  message: string;
+  secretGroup?: number; // Capture group holding the secret (whole match by default)
+}
+
+interface Advisory {
+  id: string;
+  ecosystem: 'npm' | 'pypi';
+  package: string;
+  vulnerable: string[]; // Ranges, e.g. ">=2.0.0 <2.2.2"
+  fixedIn: string;
+  severity: SecuritySeverity;
+  summary: string;
+}
+
+interface AdvisorySnapshot {
+  snapshotDate: string;
+  advisories: Advisory[];
+}
+
+interface DeclaredDependency {
+  ecosystem: Advisory['ecosystem'];
+  name: string;
+  version: string; // Lowest version the declaration allows
+  declared: string; // As written, e.g. ^4.17.15
+  line: number | null;
+}
+
+const ADVISORIES_PATH = path.join(__dirname, 'advisories', 'advisories.json');
+
+// Stored findings per analysis; the most severe are kept
+const MAX_FINDINGS = 100;
+const MAX_EXCERPT_LENGTH = 160;
+
+const SEVERITY_ORDER: Record<SecuritySeverity, number> = {
+  CRITICAL: 0,
+  HIGH: 1,
+  MEDIUM: 2,
+  LOW: 3,
+};
+
+const CODE_EXTENSIONS = [
+  '.js',
+  '.jsx',
+  '.ts',
+  '.tsx',
+  '.vue',
+  '.svelte',
+  '.py',
+  '.rb',
+  '.php',
+  '.go',
+  '.java',
+  '.kt',
+  '.cs',
+];
+
+const SECRET_RULES: ContentRule[] = [
+  {
+    rule: 'aws-access-key',
+    patterns: [/\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/],
+    severity: 'CRITICAL',
+    message: 'AWS access key',
+  },
+  {
+    rule: 'private-key',
+    patterns: [
+      /-----BEGIN (?:RSA |EC |DSA |OPENSSH |PGP |ENCRYPTED )?PRIVATE KEY(?: BLOCK)?-----/,
+    ],
+    severity: 'CRITICAL',
+    message: 'Private key',
+  },
+  {
+    rule: 'github-token',
+    patterns: [/\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_\w{60,})\b/],
+    severity: 'CRITICAL',
+    message: 'GitHub token',
+  },
+  {
+    rule: 'stripe-secret-key',
+    patterns: [/\b[rs]k_live_[0-9a-zA-Z]{20,}\b/],
+    severity: 'CRITICAL',
+    message: 'Stripe live secret key',
+  },
+  {
+    rule: 'slack-token',
+    patterns: [/\bxox[abprs]-[0-9A-Za-z-]{10,}\b/],
+    severity: 'HIGH',
+    message: 'Slack token',
+  },
+  {
+    rule: 'google-api-key',
+    patterns: [/\bAIza[0-9A-Za-z_-]{35}\b/],
+    severity: 'HIGH',
+    message: 'Google API key',
+  },
+  {
+    rule: 'ai-provider-key',
+    patterns: [/\bsk-(?:proj-|ant-)?[A-Za-z0-9_-]{32,}\b/],
+    severity: 'HIGH',
+    message: 'OpenAI or Anthropic API key',
+  },
+  {
+    rule: 'credentials-in-url',
+    patterns: [
+      /\b(?:mongodb(?:\+srv)?|postgres(?:ql)?|mysql|redis|amqps?):\/\/[^\s:@/'"]+:([^\s@/'"]+)@/,
+    ],
+    severity: 'HIGH',
+    message: 'Database or broker URL with a password',
+    secretGroup: 1,
+  },
+  {
+    rule: 'hardcoded-credential',
+    patterns: [
+      /\b(?:api[_-]?key|secret(?:[_-]?key)?|password|passwd|auth[_-]?token|access[_-]?token|client[_-]?secret)["']?\s*[:=]\s*["']([^"'\s]{8,})["']/i,
+    ],
+    severity: 'MEDIUM',
+    message: 'Hardcoded credential',
+    secretGroup: 1,
+  },
+];
+
+const DANGEROUS_RULES: ContentRule[] = [
+  {
+    rule: 'eval',
+    patterns: [/(?:^|[^\w.$])eval\s*\(/],
+    severity: 'HIGH',
+    message: 'eval() runs arbitrary code',
+  },
+  {
+    rule: 'new-function',
+    patterns: [/\bnew Function\s*\(/],
+    severity: 'MEDIUM',
+    message: 'new Function() compiles code from a string',
+  },
+  {
+    rule: 'sql-concatenation',
+    patterns: [
+      // "SELECT ... WHERE id = " + id
+      /["'`]\s*(?:SELECT\b[^"'`]*\bFROM|INSERT\s+INTO|UPDATE\b[^"'`]*\bSET|DELETE\s+FROM)\b[^"'`]*["'`]\s*\+/i,
+      // `SELECT ... ${id}` (tagged templates such as sql`` are parameterized)
+      /(?:^|[^\w$.])`[^`]*\b(?:SELECT\b[^`]*\bFROM|INSERT\s+INTO|UPDATE\b[^`]*\bSET|DELETE\s+FROM)\b[^`]*\$\{/i,
+      // f"SELECT ... {id}"
+      /\bf["'][^"']*\b(?:SELECT\b[^"']*\bFROM|INSERT\s+INTO|UPDATE\b[^"']*\bSET|DELETE\s+FROM)\b[^"']*\{/i,
+    ],
+    severity: 'HIGH',
+    message: 'SQL built from strings, open to SQL injection',
+  },
+  {
+    rule: 'tls-verification-disabled',
+    patterns: [
+      /rejectUnauthorized\s*:\s*false/,
+      /NODE_TLS_REJECT_UNAUTHORIZED\s*[=:]\s*['"]?0/,
+      /\bverify\s*=\s*False\b/,
+      /InsecureSkipVerify\s*:\s*true/,
+      /CURLOPT_SSL_VERIFYPEER\s*,\s*(?:false|0)\b/,
+    ],
+    severity: 'HIGH',
+    message: 'TLS certificate verification disabled',
+  },
+];
+
+// Values that are clearly not real credentials
+const PLACEHOLDER_PATTERN =
+  /^(?:\$\{|\{\{|<|%|process\.env|os\.environ)|your|change|example|sample|dummy|placeholder|xxx|\*\*\*|redacted|secret|password/i;
+
+// Example env files are meant to be committed
+const EXAMPLE_ENV_SUFFIXES = ['.example', '.sample', '.template', '.dist'];
+
+const PRIVATE_KEY_FILES = new Set([
+  'id_rsa',
+  'id_dsa',
+  'id_ecdsa',
+  'id_ed25519',
+]);
+
+const KEY_EXTENSIONS = ['.pem', '.key', '.p12', '.pfx', '.jks', '.keystore'];
+
+@Injectable()
+export class SecurityScanService {
+  private snapshot: AdvisorySnapshot | null = null;
+
+  /**
+   * Scan downloaded files and the flagged tree paths
+   * @param files - Files with content
+   * @param sensitivePaths - Tree paths matching isSensitivePath
+   */
+  scan(files: RepoFile[], sensitivePaths: string[]): SecurityScan {
+    const findings: SecurityFinding[] = [
+      ...sensitivePaths.map((filePath) => this.sensitiveFileFinding(filePath)),
+    ];
+
+    for (const file of files) {
+      const isCode = CODE_EXTENSIONS.some((ext) =>
+        file.path.toLowerCase().endsWith(ext),
+      );
+      const isTest = this.isTestFile(file.path);
+
+      file.content.split('\n').forEach((line, index) => {
+        findings.push(...this.scanSecrets(file.path, line, index + 1, isTest));
+        if (isCode && !this.isComment(line)) {
+          findings.push(
+            ...this.scanPatterns(file.path, line, index + 1, isTest),
+          );
+        }
+      });
+    }
+
+    findings.push(...this.scanDependencies(files));
+
+    const sorted = findings.sort(
+      (a, b) =>
+        SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity] ||
+        a.file.localeCompare(b.file) ||
+        (a.line ?? 0) - (b.line ?? 0),
+    );
+
+    return {
+      findings: sorted.slice(0, MAX_FINDINGS),
+      summary: this.summarize(sorted),
+      scannedFiles: files.length,
+      advisorySnapshot: this.getAdvisories().snapshotDate,
+      truncated: sorted.length > MAX_FINDINGS,
+    };
+  }
+
+  /**
+   * Committed env files and private keys, matched on the full git tree
+   * since the ignore rules keep them from being downloaded
+   */
+  isSensitivePath(filePath: string): boolean {
+    const segments = filePath.split('/');
+    const name = segments.pop()!.toLowerCase();
+
+    if (segments.some((dir) => dir === 'node_modules' || dir === 'vendor')) {
+      return false;
+    }
+
+    if (name === '.env' || name.startsWith('.env.')) {
+      return !EXAMPLE_ENV_SUFFIXES.some((suffix) => name.endsWith(suffix));
+    }
+
+    return (
+      PRIVATE_KEY_FILES.has(name) ||
+      KEY_EXTENSIONS.some((ext) => name.endsWith(ext))
+    );
+  }
+
+  // ========================================
+  // PRIVATE HELPER METHODS
+  // ========================================
+
+  private sensitiveFileFinding(filePath: string): SecurityFinding {
+    const name = filePath.split('/').pop()!.toLowerCase();
+    const isEnv = name === '.env' || name.startsWith('.env.');
+
+    return {
+      type: 'SENSITIVE_FILE',
+      rule: isEnv ? 'committed-env-file' : 'committed-private-key',
+      severity: PRIVATE_KEY_FILES.has(name) ? 'CRITICAL' : 'HIGH',
+      file: filePath,
+      line: null,
+      message: isEnv
+        ? 'Environment file committed to the repository'
+        : 'Private key or certificate store committed to the repository',
+      excerpt: null,
+    };
+  }
+
+  private scanSecrets(
+    filePath: string,
+    line: string,
+    lineNumber: number,
+    isTest: boolean,
+  ): SecurityFinding[] {
+    const findings: SecurityFinding[] = [];
+
+    for (const rule of SECRET_RULES) {
+      // Fixtures are full of fake passwords
+      if (isTest && rule.rule === 'hardcoded-credential') continue;
+
+      for (const pattern of rule.patterns) {
+        const match = line.match(pattern);
+        if (!match) continue;
+
+        const secret = match[rule.secretGroup ?? 0];
+        if (PLACEHOLDER_PATTERN.test(secret) || /^(.)\1+$/.test(secret)) {
+          continue;
+        }
+
+        findings.push({
+          type: 'SECRET',
+          rule: rule.rule,
+          severity: rule.severity,
+          file: filePath,
+          line: lineNumber,
+          message: rule.message,
+          excerpt: this.excerpt(line.replace(secret, this.redact(secret))),
+        });
+        break;
+      }
+    }
+
+    return findings;
+  }
+
+  private scanPatterns(
+    filePath: string,
+    line: string,
+    lineNumber: number,
+    isTest: boolean,
+  ): SecurityFinding[] {
+    return DANGEROUS_RULES.filter((rule) =>
+      rule.patterns.some((pattern) => pattern.test(line)),
+    ).map((rule) => ({
+      type: 'DANGEROUS_PATTERN' as const,
+      rule: rule.rule,
+      // Test code never runs in production
+      severity: isTest ? 'LOW' : rule.severity,
+      file: filePath,
+      line: lineNumber,
+      message: rule.message,
+      excerpt: this.excerpt(line),
+    }));
+  }
+
+  private scanDependencies(files: RepoFile[]): SecurityFinding[] {
+    const findings: SecurityFinding[] = [];
+
+    for (const file of files) {
+      const name = file.path.split('/').pop()!.toLowerCase();
+      const dependencies =
+        name === 'package.json'
+          ? this.readPackageJson(file)
+          : name === 'requirements.txt'
+            ? this.readRequirements(file)
+            : [];
+
+      for (const dependency of dependencies) {
+        for (const advisory of this.getAdvisories().advisories) {
+          if (
+            advisory.ecosystem !== dependency.ecosystem ||
+            advisory.package !== dependency.name ||
+            !advisory.vulnerable.some((range) =>
+              this.satisfies(dependency.version, range),
+            )
+          ) {
+            continue;
+          }
+
+          findings.push({
+            type: 'VULNERABLE_DEPENDENCY',
+            rule: advisory.id,
+            severity: advisory.severity,
+            file: file.path,
+            line: dependency.line,
+            message: `${dependency.name} ${dependency.declared}: ${advisory.summary} (fixed in ${advisory.fixedIn})`,
+            excerpt: null,
+          });
+        }
+      }
+    }
+
+    return findings;
+  }
+
+  private readPackageJson(file: RepoFile): DeclaredDependency[] {
+    let packageJson: {
+      dependencies?: Record<string, string>;
+      devDependencies?: Record<string, string>;
+    };
+    try {
+      packageJson = JSON.parse(file.content);
+    } catch {
+      return [];
+    }
+
+    const lines = file.content.split('\n');
+    return Object.entries({
+      ...packageJson.devDependencies,
+      ...packageJson.dependencies,
+    }).flatMap(([name, declared]) => {
+      const version = this.lowestVersion(declared);
+      if (!version) return [];
+
+      const index = lines.findIndex((line) => line.includes(`"${name}"`));
+      return [
+        {
+          ecosystem: 'npm' as const,
+          name,
+          version,
+          declared,
+          line: index >= 0 ? index + 1 : null,
+        },
+      ];
+    });
+  }
+
+  private readRequirements(file: RepoFile): DeclaredDependency[] {
+    return file.content.split('\n').flatMap((line, index) => {
+      const match = line
+        .split('#')[0]
+        .trim()
+        .match(/^([A-Za-z0-9_.-]+)(?:\[[^\]]*\])?\s*(==|~=)\s*([\w.]+)/);
+      if (!match) return [];
+
+      const version = this.lowestVersion(match[3]);
+      if (!version) return [];
+
+      return [
+        {
+          ecosystem: 'pypi' as const,
+          name: match[1].toLowerCase().replace(/[_.]/g, '-'),
+          version,
+          declared: `${match[2]}${match[3]}`,
+          line: index + 1,
+        },
+      ];
+    });
+  }
+
+  /**
+   * Lowest version a declaration allows, e.g. ^4.17.15 -> 4.17.15
+   * Lock files aren't downloaded, so this is what the scan can vouch for.
+   * Open-ended ranges (>=, *, latest) and git/workspace specs are skipped.
+   */
+  private lowestVersion(declared: string): string | null {
+    const match = declared
+      .trim()
+      .match(/^(?:[~^]|~=|==|=|v)?\s*(\d+(?:\.\d+){0,2})(?:\s|$|[-+.]\w)/);
+    return match ? match[1] : null;
+  }
+
+  /**
+   * Whether a version falls in a range such as ">=2.0.0 <2.2.2"
+   */
+  private satisfies(version: string, range: string): boolean {
+    return range.split(/\s+/).every((comparator) => {
+      const match = comparator.match(/^(<=|>=|<|>|=)?(.+)$/);
+      if (!match) return false;
+
+      const diff = this.compareVersions(version, match[2]);
+      switch (match[1]) {
+        case '<':
+          return diff < 0;
+        case '<=':
+          return diff <= 0;
+        case '>':
+          return diff > 0;
+        case '>=':
+          return diff >= 0;
+        default:
+          return diff === 0;
+      }
+    });
+  }
+
+  private compareVersions(a: string, b: string): number {
+    const partsA = a.split('.').map(Number);
+    const partsB = b.split('.').map(Number);
+    for (let i = 0; i < 3; i++) {
+      const diff = (partsA[i] || 0) - (partsB[i] || 0);
+      if (diff !== 0) return diff;
+    }
+    return 0;
+  }
+
+  private summarize(findings: SecurityFinding[]): SecuritySummary {
+    const count = (predicate: (finding: SecurityFinding) => boolean) =>
+      findings.filter(predicate).length;
+
+    return {
+      critical: count((f) => f.severity === 'CRITICAL'),
+      high: count((f) => f.severity === 'HIGH'),
+      medium: count((f) => f.severity === 'MEDIUM'),
+      low: count((f) => f.severity === 'LOW'),
+      secrets: count((f) => f.type === 'SECRET' || f.type === 'SENSITIVE_FILE'),
+      dangerousPatterns: count((f) => f.type === 'DANGEROUS_PATTERN'),
+      vulnerableDependencies: count((f) => f.type === 'VULNERABLE_DEPENDENCY'),
+    };
+  }
+
+  private getAdvisories(): AdvisorySnapshot {
+    if (!this.snapshot) {
+      this.snapshot = JSON.parse(
+        fs.readFileSync(ADVISORIES_PATH, 'utf-8'),
+      ) as AdvisorySnapshot;
+    }
+    return this.snapshot;
+  }
+
+  // Keep enough of the secret to recognise it when rotating
+  private redact(secret: string): string {
+    return `${secret.slice(0, 4)}${'*'.repeat(Math.min(8, secret.length - 4))}`;
+  }
+
+  private excerpt(line: string): string {
+    const trimmed = line.trim();
+    return trimmed.length > MAX_EXCERPT_LENGTH
+      ? `${trimmed.slice(0, MAX_EXCERPT_LENGTH)}...`
+      : trimmed;
+  }
+
+  private isComment(line: string): boolean {
+    return /^\s*(?:\/\/|#|\*|\/\*)/.test(line);
+  }
+
+  private isTestFile(filePath: string): boolean {
+    const lowerPath = filePath.toLowerCase();
+    const fileName = lowerPath.split('/').pop() || '';
+    return (
+      /(^|\/)(tests?|__tests__|spec)\//.test(lowerPath) ||
+      /\.(test|spec)\.\w+$/.test(fileName) ||
+      /_test\.(go|py)$/.test(fileName) ||
+      /^test_\w+\.py$/.test(fileName)
+    );
+  }
+}
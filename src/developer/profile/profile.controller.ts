@@ -33,10 +33,11 @@ import {
   UpdateVisibilityDto,
   VisibilityResponseDto,
 } from './dto';
-import { GetCurrentUserTableId } from 'src/common/decorators';
+import { GetCurrentUserTableId, Roles } from 'src/common/decorators';
 
 @ApiTags('Developer - Profile')
 @ApiBearerAuth()
+@Roles('DEVELOPER')
 @Controller('developer/profile')
 export class ProfileController {
   constructor(private profileService: ProfileService) {}
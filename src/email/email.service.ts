@@ -526,4 +526,41 @@ export class EmailService {
       html: this.getEmailTemplate(content),
     });
   }
+
+  /**
+   * Send GitHub reconnect request to developer
+   * Sent when the GitHub App can no longer access their repositories
+   */
+  async sendGithubReconnectEmail(
+    email: string,
+    developerName: string,
+    queuedAnalyses: number,
+  ): Promise<void> {
+    const assessmentUrl = `${this.frontendUrl}/developer/assessment`;
+
+    const content = `
+      <h1 style="color: ${COLORS.textPrimary}; margin: 0 0 20px 0; font-size: 24px; font-weight: 600;">Reconnect your GitHub account</h1>
+      <p style="color: ${COLORS.textSecondary};">Hi ${developerName},</p>
+      <p style="color: ${COLORS.textSecondary};">
+        We can no longer access your repositories: the Juniob GitHub App was uninstalled or suspended on GitHub.
+      </p>
+      ${
+        queuedAnalyses > 0
+          ? this.getInfoBox(
+              `<strong>${queuedAnalyses} project analys${queuedAnalyses === 1 ? 'is is' : 'es are'} waiting.</strong> ${queuedAnalyses === 1 ? 'It' : 'They'} will fail unless you reconnect GitHub first.`,
+              'warning',
+            )
+          : ''
+      }
+      <p style="color: ${COLORS.textSecondary};">Reconnecting takes a minute and keeps your existing assessments.</p>
+      ${this.getButton('Reconnect GitHub', assessmentUrl)}
+    `;
+
+    await this.transporter.sendMail({
+      from: this.emailFrom,
+      to: email,
+      subject: 'Action needed: reconnect GitHub to Juniob',
+      html: this.getEmailTemplate(content),
+    });
+  }
 }
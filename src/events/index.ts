@@ -0,0 +1,3 @@
+export * from './events.module';
+export * from './realtime-events.service';
+export * from './types';
@@ -0,0 +1,183 @@
+import {
+  Injectable,
+  Logger,
+  MessageEvent,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Client } from 'pg';
+import { Observable, Subject, filter, interval, map, merge } from 'rxjs';
+import { CompanyEvent, DeveloperEvent } from './types';
+
+// Keeps idle SSE connections open through proxies and load balancers
+const HEARTBEAT_MS = 25 * 1000;
+const NOTIFY_CHANNEL = 'realtime_events';
+// Postgres rejects NOTIFY payloads of 8000 bytes or more
+const MAX_NOTIFY_PAYLOAD_BYTES = 8000;
+const RECONNECT_MS = 5 * 1000;
+const CONNECT_TIMEOUT_MS = 10 * 1000;
+
+interface Envelope<T> {
+  recipientId: number;
+  event: T;
+}
+
+// Message sent between instances
+type Notification =
+  | { audience: 'developer'; recipientId: number; event: DeveloperEvent }
+  | { audience: 'company'; recipientId: number; event: CompanyEvent };
+
+/**
+ * Pub/sub for Server-Sent Events
+ * Services publish state transitions; controllers expose per-user streams
+ * Events go through Postgres LISTEN/NOTIFY, so a stream served by one
+ * instance receives events published by any other; while the listener
+ * connection is down, events only reach this instance's streams
+ */
+@Injectable()
+export class RealtimeEventsService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(RealtimeEventsService.name);
+  private readonly developerEvents = new Subject<Envelope<DeveloperEvent>>();
+  private readonly companyEvents = new Subject<Envelope<CompanyEvent>>();
+  private listener: Client | null = null;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private closing = false;
+
+  constructor(private config: ConfigService) {}
+
+  async onModuleInit(): Promise<void> {
+    await this.connect();
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    this.closing = true;
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    await this.listener?.end().catch(() => undefined);
+  }
+
+  emitToDeveloper(developerId: number, event: DeveloperEvent): void {
+    this.publish({ audience: 'developer', recipientId: developerId, event });
+  }
+
+  emitToCompany(companyId: number, event: CompanyEvent): void {
+    this.publish({ audience: 'company', recipientId: companyId, event });
+  }
+
+  /**
+   * Stream of events for one developer, with heartbeats
+   */
+  developerStream(developerId: number): Observable<MessageEvent> {
+    return this.toStream(this.developerEvents, developerId);
+  }
+
+  /**
+   * Stream of events for one company, with heartbeats
+   */
+  companyStream(companyId: number): Observable<MessageEvent> {
+    return this.toStream(this.companyEvents, companyId);
+  }
+
+  // ========================================
+  // PRIVATE HELPER METHODS
+  // ========================================
+
+  /**
+   * Notify every instance; this one receives it back through its own LISTEN
+   */
+  private publish(notification: Notification): void {
+    const payload = JSON.stringify(notification);
+
+    if (
+      !this.listener ||
+      Buffer.byteLength(payload) >= MAX_NOTIFY_PAYLOAD_BYTES
+    ) {
+      this.deliver(notification);
+      return;
+    }
+
+    this.listener
+      .query('SELECT pg_notify($1, $2)', [NOTIFY_CHANNEL, payload])
+      .catch((error: unknown) => {
+        this.logger.warn(
+          `Failed to publish ${notification.event.type} event: ${(error as Error).message}`,
+        );
+        this.deliver(notification);
+      });
+  }
+
+  private deliver(notification: Notification): void {
+    if (notification.audience === 'developer') {
+      this.developerEvents.next(notification);
+    } else {
+      this.companyEvents.next(notification);
+    }
+  }
+
+  /**
+   * Open the connection that listens for other instances' events
+   * Failures don't block startup: events stay local until it reconnects
+   */
+  private async connect(): Promise<void> {
+    const connectionString = this.config.get<string>('DATABASE_URL');
+    if (!connectionString) {
+      this.logger.warn(
+        'DATABASE_URL is not set; realtime events only reach this instance',
+      );
+      return;
+    }
+
+    const client = new Client({
+      connectionString,
+      connectionTimeoutMillis: CONNECT_TIMEOUT_MS,
+    });
+
+    client.on('notification', (message) => {
+      if (message.channel !== NOTIFY_CHANNEL || !message.payload) return;
+      this.deliver(JSON.parse(message.payload) as Notification);
+    });
+    client.on('error', (error) => {
+      this.logger.warn(`Realtime events listener failed: ${error.message}`);
+      this.reconnect(client);
+    });
+    client.on('end', () => this.reconnect(client));
+
+    try {
+      await client.connect();
+      await client.query(`LISTEN ${NOTIFY_CHANNEL}`);
+      this.listener = client;
+    } catch (error: unknown) {
+      this.logger.warn(
+        `Realtime events listener could not connect: ${(error as Error).message}`,
+      );
+      this.reconnect(client);
+    }
+  }
+
+  private reconnect(client: Client): void {
+    if (this.listener === client) this.listener = null;
+    if (this.closing || this.reconnectTimer) return;
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      void this.connect();
+    }, RECONNECT_MS);
+    client.end().catch(() => undefined);
+  }
+
+  private toStream<T extends object>(
+    source: Subject<Envelope<T>>,
+    recipientId: number,
+  ): Observable<MessageEvent> {
+    const events = source.pipe(
+      filter((envelope) => envelope.recipientId === recipientId),
+      map((envelope): MessageEvent => ({ data: envelope.event })),
+    );
+
+    const heartbeats = interval(HEARTBEAT_MS).pipe(
+      map((): MessageEvent => ({ data: { type: 'heartbeat' } })),
+    );
+
+    return merge(events, heartbeats);
+  }
+}
@@ -0,0 +1 @@
+export * from './realtime-event.types';
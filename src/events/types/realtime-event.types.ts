@@ -0,0 +1,63 @@
+import {
+  AssessmentStatus,
+  PipelineStage,
+} from '../../../prisma/generated/prisma';
+
+/**
+ * Phases a project analysis moves through, in order
+ */
+export type AnalysisPhase =
+  | 'QUEUED'
+  | 'FETCHING_REPO'
+  | 'SELECTING_FILES'
+  | 'AI_CALL'
+  | 'SAVING'
+  | 'COMPLETE'
+  | 'FAILED';
+
+/**
+ * Progress of a single project analysis
+ */
+export interface ProjectProgressEvent {
+  type: 'project.progress';
+  projectId: number;
+  phase: AnalysisPhase;
+  queuePosition?: number; // 1-based, only while QUEUED
+  filesFound?: number; // Code files found in the repository
+  filesSelected?: number; // Files sent to the AI
+  message?: string;
+}
+
+/**
+ * Developer-level assessment status change
+ */
+export interface AssessmentStatusEvent {
+  type: 'assessment.status';
+  status: AssessmentStatus;
+}
+
+/**
+ * Hiring report (Tier 2) generation progress
+ */
+export interface ReportProgressEvent {
+  type: 'report.progress';
+  phase: 'GENERATING' | 'COMPLETE' | 'FAILED';
+}
+
+export type DeveloperEvent =
+  | ProjectProgressEvent
+  | AssessmentStatusEvent
+  | ReportProgressEvent;
+
+/**
+ * Stage change of a candidate in a company's pipeline
+ */
+export interface PipelineStageEvent {
+  type: 'pipeline.stage';
+  entryId: number;
+  developerId: number | null;
+  stage: PipelineStage;
+  previousStage?: PipelineStage;
+}
+
+export type CompanyEvent = PipelineStageEvent;
@@ -19,6 +19,13 @@ export class GithubStatusResponseDto {
     example: '12345678',
   })
   installationId?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Whether the installation was uninstalled or suspended on GitHub and must be reconnected before analyses can run',
+    example: false,
+  })
+  needsReconnect?: boolean;
 }
 
 export class GithubInstallationResponseDto {
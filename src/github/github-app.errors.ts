@@ -0,0 +1,24 @@
+import { BadRequestException } from '@nestjs/common';
+
+// GitHub's answer when an installation was uninstalled (404) or suspended (403)
+const REVOKED_STATUSES = [403, 404];
+
+/**
+ * Thrown when GitHub refuses an installation access token
+ */
+export class GithubInstallationTokenError extends BadRequestException {
+  constructor(readonly githubStatus: number) {
+    super(
+      'Failed to authenticate with GitHub. Please reinstall the GitHub App.',
+    );
+    this.name = 'GithubInstallationTokenError';
+  }
+
+  /**
+   * The installation is gone or suspended: only the developer can fix it
+   * Other statuses (rate limits, outages, app misconfiguration) are transient
+   */
+  get isRevoked(): boolean {
+    return REVOKED_STATUSES.includes(this.githubStatus);
+  }
+}
@@ -8,6 +8,7 @@ import { ConfigService } from '@nestjs/config';
 import * as jwt from 'jsonwebtoken';
 import { PrismaService } from '../prisma/prisma.service';
 import { EncryptionService } from '../encryption/encryption.service';
+import { GithubInstallationTokenError } from './github-app.errors';
 import {
   GithubAppJwtPayload,
   GithubInstallationAccessToken,
@@ -67,6 +68,9 @@ export class GithubAppService {
           data: {
             accessTokenEncrypted: encryptedToken,
             tokenExpiresAt: new Date(tokenData.expires_at),
+            suspendedAt: null,
+            reconnectRequiredAt: null,
+            reconnectNotifiedAt: null,
           },
         });
 
@@ -178,10 +182,11 @@ export class GithubAppService {
   /**
    * Get an authenticated Octokit instance for a developer
    * Automatically refreshes the token if expired
+   * Returns null while the installation is suspended on GitHub
    */
   async getAuthenticatedOctokit(developerId: number): Promise<Octokit | null> {
     const installation = await this.prisma.githubAppInstallation.findFirst({
-      where: { developerId },
+      where: { developerId, suspendedAt: null },
       orderBy: { createdAt: 'desc' },
     });
 
@@ -199,21 +204,8 @@ export class GithubAppService {
       this.logger.log(`Refreshing expired token for developer ${developerId}`);
 
       try {
-        const tokenData = await this.getInstallationAccessToken(
-          installation.installationId,
-        );
-
-        const encryptedToken = this.encryptionService.encrypt(tokenData.token);
-
-        await this.prisma.githubAppInstallation.update({
-          where: { id: installation.id },
-          data: {
-            accessTokenEncrypted: encryptedToken,
-            tokenExpiresAt: new Date(tokenData.expires_at),
-          },
-        });
-
-        return new Octokit({ auth: tokenData.token });
+        const token = await this.refreshInstallationToken(installation);
+        return new Octokit({ auth: token });
       } catch (error: any) {
         this.logger.error(`Failed to refresh token: ${error}`);
         return null;
@@ -228,6 +220,65 @@ export class GithubAppService {
     return new Octokit({ auth: token });
   }
 
+  /**
+   * Exchange an installation for a fresh access token and store it
+   * A revoked or suspended installation is flagged as needing a reconnect;
+   * a successful refresh clears that state
+   */
+  async refreshInstallationToken(installation: {
+    id: string;
+    installationId: string;
+  }): Promise<string> {
+    let tokenData: GithubInstallationAccessToken;
+
+    try {
+      tokenData = await this.getInstallationAccessToken(
+        installation.installationId,
+      );
+    } catch (error) {
+      if (error instanceof GithubInstallationTokenError && error.isRevoked) {
+        await this.prisma.githubAppInstallation.updateMany({
+          where: { id: installation.id, reconnectRequiredAt: null },
+          data: { reconnectRequiredAt: new Date() },
+        });
+      }
+      throw error;
+    }
+
+    const encryptedToken = this.encryptionService.encrypt(tokenData.token);
+
+    await this.prisma.githubAppInstallation.update({
+      where: { id: installation.id },
+      data: {
+        accessTokenEncrypted: encryptedToken,
+        tokenExpiresAt: new Date(tokenData.expires_at),
+        // GitHub only issues tokens to active installations
+        suspendedAt: null,
+        reconnectRequiredAt: null,
+        reconnectNotifiedAt: null,
+      },
+    });
+
+    return tokenData.token;
+  }
+
+  /**
+   * Whether the developer's installation can no longer issue tokens
+   * (uninstalled or suspended on GitHub)
+   */
+  async needsReconnect(developerId: number): Promise<boolean> {
+    const installation = await this.prisma.githubAppInstallation.findFirst({
+      where: { developerId },
+      orderBy: { createdAt: 'desc' },
+      select: { suspendedAt: true, reconnectRequiredAt: true },
+    });
+
+    return (
+      !!installation &&
+      (!!installation.suspendedAt || !!installation.reconnectRequiredAt)
+    );
+  }
+
   /**
    * Check if developer has a GitHub App installation
    */
@@ -254,13 +305,14 @@ export class GithubAppService {
 
   /**
    * Remove GitHub App installation for a developer
-   * Also removes projects with PENDING or FAILED status
+   * Also removes GitHub projects with PENDING or FAILED status
    */
   async removeInstallation(developerId: number): Promise<void> {
     // Find and delete projects with PENDING or FAILED status
     const projectsToDelete = await this.prisma.technicalProject.findMany({
       where: {
         developerId,
+        sourceHost: 'GITHUB',
         OR: [
           { analysis: null },
           { analysis: { status: { in: ['PENDING', 'FAILED'] } } },
@@ -339,7 +391,10 @@ export class GithubAppService {
     }
 
     // Clean up projects that no longer have repo access (only PENDING or FAILED)
-    await this.cleanupOrphanedProjects(developerId, repositories);
+    await this.cleanupOrphanedProjects(
+      developerId,
+      repositories.map((repo) => repo.full_name),
+    );
 
     this.logger.log(
       `Synced ${repositories.length} repositories for developer ${developerId}`,
@@ -358,25 +413,35 @@ export class GithubAppService {
   /**
    * Clean up projects whose repos are no longer authorized
    * Only removes projects with PENDING or FAILED status
-   * Projects with ANALYZING or COMPLETE status are preserved
+   * Projects with ANALYZING or COMPLETE status are preserved and marked as
+   * revoked; the mark is cleared once access is granted again
+   * Repos of a suspended installation are only marked: the suspension can be
+   * lifted, so none of their projects are removed
+   * Also called by the webhook handler when GitHub reports access changes
    */
-  private async cleanupOrphanedProjects(
+  async cleanupOrphanedProjects(
     developerId: number,
-    authorizedRepos: GithubRepository[],
+    authorizedRepoFullNames: string[],
+    suspendedRepoFullNames: string[] = [],
   ): Promise<void> {
     // Get all repo full names that are now authorized
     const authorizedRepoNames = new Set(
-      authorizedRepos.map((repo) => repo.full_name.toLowerCase()),
+      authorizedRepoFullNames.map((fullName) => fullName.toLowerCase()),
+    );
+    const suspendedRepoNames = new Set(
+      suspendedRepoFullNames.map((fullName) => fullName.toLowerCase()),
     );
 
-    // Find all developer's projects
+    // Find all developer's GitHub projects
     const projects = await this.prisma.technicalProject.findMany({
-      where: { developerId },
+      where: { developerId, sourceHost: 'GITHUB' },
       include: { analysis: true },
     });
 
-    // Find projects that need to be removed
+    // Find projects that need to be removed or marked
     const projectsToDelete: number[] = [];
+    const projectsRevoked: number[] = [];
+    const projectsRestored: number[] = [];
 
     for (const project of projects) {
       // Extract repo full name from GitHub URL
@@ -387,8 +452,19 @@ export class GithubAppService {
       if (repoFullName && !authorizedRepoNames.has(repoFullName)) {
         const analysisStatus = project.analysis?.status;
 
-        // Only delete if status is PENDING or FAILED
-        if (!analysisStatus || analysisStatus === 'PENDING' || analysisStatus === 'FAILED') {
+        if (suspendedRepoNames.has(repoFullName)) {
+          this.logger.log(
+            `Keeping project ${project.id} (${project.name}) - installation suspended`,
+          );
+          if (!project.repoAccessRevokedAt) {
+            projectsRevoked.push(project.id);
+          }
+        } else if (
+          // Otherwise only delete if status is PENDING or FAILED
+          !analysisStatus ||
+          analysisStatus === 'PENDING' ||
+          analysisStatus === 'FAILED'
+        ) {
           projectsToDelete.push(project.id);
           this.logger.log(
             `Removing project ${project.id} (${project.name}) - repo access revoked and status is ${analysisStatus || 'no analysis'}`,
@@ -397,10 +473,29 @@ export class GithubAppService {
           this.logger.log(
             `Keeping project ${project.id} (${project.name}) - repo access revoked but status is ${analysisStatus}`,
           );
+          if (!project.repoAccessRevokedAt) {
+            projectsRevoked.push(project.id);
+          }
         }
+      } else if (repoFullName && project.repoAccessRevokedAt) {
+        projectsRestored.push(project.id);
       }
     }
 
+    if (projectsRevoked.length > 0) {
+      await this.prisma.technicalProject.updateMany({
+        where: { id: { in: projectsRevoked } },
+        data: { repoAccessRevokedAt: new Date() },
+      });
+    }
+
+    if (projectsRestored.length > 0) {
+      await this.prisma.technicalProject.updateMany({
+        where: { id: { in: projectsRestored } },
+        data: { repoAccessRevokedAt: null },
+      });
+    }
+
     // Delete the identified projects (cascade will delete analyses too)
     if (projectsToDelete.length > 0) {
       await this.prisma.technicalProject.deleteMany({
@@ -486,9 +581,7 @@ export class GithubAppService {
     if (!response.ok) {
       const error = await response.text();
       this.logger.error(`Failed to get installation access token: ${error}`);
-      throw new BadRequestException(
-        'Failed to authenticate with GitHub. Please reinstall the GitHub App.',
-      );
+      throw new GithubInstallationTokenError(response.status);
     }
 
     const data = (await response.json()) as GithubInstallationAccessToken;
@@ -0,0 +1,148 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { PrismaService } from '../prisma/prisma.service';
+import { NotificationService } from '../notifications/notification.service';
+import { GithubAppService } from './github-app.service';
+import { GithubInstallationTokenError } from './github-app.errors';
+import { AnalysisJobStatus } from '../../prisma/generated/prisma';
+
+// Refresh tokens this long before they expire when analyses are queued
+const REFRESH_AHEAD_MS = 15 * 60 * 1000;
+// Every installation is verified at least this often
+const HEALTH_CHECK_INTERVAL_MS = 24 * 60 * 60 * 1000;
+// GitHub API calls per run
+const MAX_CHECKS_PER_RUN = 50;
+
+/**
+ * Background GitHub App installation health check
+ * Refreshes tokens ahead of expiry for developers with queued analyses and
+ * verifies every installation daily, so a revoked or suspended installation
+ * is reported to the developer before their analyses fail
+ */
+@Injectable()
+export class GithubHealthService {
+  private readonly logger = new Logger(GithubHealthService.name);
+  private isChecking = false;
+
+  constructor(
+    private prisma: PrismaService,
+    private githubAppService: GithubAppService,
+    private notificationService: NotificationService,
+  ) {}
+
+  @Cron(CronExpression.EVERY_10_MINUTES)
+  async checkInstallations(): Promise<void> {
+    if (this.isChecking) return;
+    this.isChecking = true;
+
+    try {
+      const now = Date.now();
+      const hasQueuedAnalyses = {
+        projects: {
+          some: {
+            analysisJobs: { some: { status: AnalysisJobStatus.QUEUED } },
+          },
+        },
+      };
+
+      const installations = await this.prisma.githubAppInstallation.findMany({
+        where: {
+          OR: [
+            { healthCheckedAt: null },
+            {
+              healthCheckedAt: {
+                lt: new Date(now - HEALTH_CHECK_INTERVAL_MS),
+              },
+            },
+            // Flagged by a lazy refresh, developer not told yet
+            { reconnectRequiredAt: { not: null }, reconnectNotifiedAt: null },
+            {
+              reconnectRequiredAt: null,
+              developer: hasQueuedAnalyses,
+              OR: [
+                { tokenExpiresAt: null },
+                { tokenExpiresAt: { lt: new Date(now + REFRESH_AHEAD_MS) } },
+              ],
+            },
+          ],
+        },
+        orderBy: { healthCheckedAt: { sort: 'asc', nulls: 'first' } },
+        take: MAX_CHECKS_PER_RUN,
+      });
+
+      let failures = 0;
+      for (const installation of installations) {
+        const healthy = await this.checkInstallation(installation);
+        if (!healthy) failures++;
+      }
+
+      if (installations.length > 0) {
+        this.logger.log(
+          `Checked ${installations.length} GitHub installations (${failures} need attention)`,
+        );
+      }
+    } catch (error) {
+      this.logger.error(`GitHub installation health check failed: ${error}`);
+    } finally {
+      this.isChecking = false;
+    }
+  }
+
+  // ========================================
+  // PRIVATE HELPER METHODS
+  // ========================================
+
+  /**
+   * Refresh one installation's token; notify the developer once if GitHub
+   * reports it revoked or suspended
+   * @returns Whether the installation is usable
+   */
+  private async checkInstallation(installation: {
+    id: string;
+    developerId: number;
+    installationId: string;
+    reconnectNotifiedAt: Date | null;
+  }): Promise<boolean> {
+    try {
+      await this.githubAppService.refreshInstallationToken(installation);
+      return true;
+    } catch (error) {
+      if (!(error instanceof GithubInstallationTokenError && error.isRevoked)) {
+        // Transient (GitHub outage, rate limit): retried on the next run
+        this.logger.warn(
+          `Could not refresh installation ${installation.installationId}: ${error}`,
+        );
+        return false;
+      }
+
+      if (!installation.reconnectNotifiedAt) {
+        const queuedAnalyses = await this.prisma.analysisJob.count({
+          where: {
+            status: AnalysisJobStatus.QUEUED,
+            project: { developerId: installation.developerId },
+          },
+        });
+
+        await this.notificationService.notifyDeveloperOfGithubReconnect(
+          installation.developerId,
+          queuedAnalyses,
+        );
+        await this.prisma.githubAppInstallation.update({
+          where: { id: installation.id },
+          data: { reconnectNotifiedAt: new Date() },
+        });
+
+        this.logger.log(
+          `Installation ${installation.installationId} revoked; developer ${installation.developerId} notified (${queuedAnalyses} queued analyses)`,
+        );
+      }
+
+      return false;
+    } finally {
+      await this.prisma.githubAppInstallation.update({
+        where: { id: installation.id },
+        data: { healthCheckedAt: new Date() },
+      });
+    }
+  }
+}
@@ -0,0 +1,54 @@
+import {
+  BadRequestException,
+  Controller,
+  Headers,
+  HttpCode,
+  HttpStatus,
+  Post,
+  RawBodyRequest,
+  Req,
+} from '@nestjs/common';
+import { Request } from 'express';
+import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { Public } from '../common/decorators';
+import { GithubWebhookService } from './github-webhook.service';
+
+@ApiTags('GitHub Webhooks')
+@Controller('github')
+export class GithubWebhookController {
+  constructor(private githubWebhookService: GithubWebhookService) {}
+
+  /**
+   * GitHub App webhook endpoint
+   * Subscribed events: installation, installation_repositories, push
+   */
+  @Public()
+  @Post('webhook')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'GitHub App webhook endpoint' })
+  @ApiResponse({ status: 200, description: 'Webhook received' })
+  @ApiResponse({ status: 400, description: 'Missing body or headers' })
+  @ApiResponse({ status: 401, description: 'Invalid webhook signature' })
+  async handleWebhook(
+    @Req() req: RawBodyRequest<Request>,
+    @Headers('x-hub-signature-256') signature: string,
+    @Headers('x-github-event') event: string,
+    @Headers('x-github-delivery') deliveryId: string,
+  ): Promise<{ received: boolean }> {
+    const payload = req.rawBody;
+    if (!payload) {
+      throw new BadRequestException('Missing request body');
+    }
+    if (!signature || !event) {
+      throw new BadRequestException(
+        'Missing x-hub-signature-256 or x-github-event header',
+      );
+    }
+    return this.githubWebhookService.handleWebhook(
+      payload,
+      signature,
+      event,
+      deliveryId,
+    );
+  }
+}
@@ -0,0 +1,112 @@
+import { UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHmac } from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import { GithubAppService } from './github-app.service';
+import { GithubWebhookService } from './github-webhook.service';
+
+const SECRET = 'webhook-test-secret';
+
+function sign(payload: Buffer, secret = SECRET): string {
+  return `sha256=${createHmac('sha256', secret).update(payload).digest('hex')}`;
+}
+
+describe('GithubWebhookService', () => {
+  let prisma: {
+    githubAppInstallation: { findMany: jest.Mock };
+    technicalProject: { findMany: jest.Mock; updateMany: jest.Mock };
+  };
+
+  const createService = (config: Record<string, string>) =>
+    new GithubWebhookService(
+      new ConfigService(config),
+      prisma as unknown as PrismaService,
+      {} as GithubAppService,
+    );
+
+  beforeEach(() => {
+    prisma = {
+      githubAppInstallation: { findMany: jest.fn() },
+      technicalProject: { findMany: jest.fn(), updateMany: jest.fn() },
+    };
+  });
+
+  describe('signature verification', () => {
+    const payload = Buffer.from(JSON.stringify({ zen: 'Keep it simple' }));
+
+    it('accepts a delivery signed with the webhook secret', async () => {
+      const service = createService({ GITHUB_APP_WEBHOOK_SECRET: SECRET });
+
+      await expect(
+        service.handleWebhook(payload, sign(payload), 'ping', 'delivery-1'),
+      ).resolves.toEqual({ received: true });
+    });
+
+    it.each([
+      ['another secret', sign(payload, 'another-secret')],
+      ['a tampered body', sign(Buffer.from('{"zen":"Tampered"}'))],
+      ['no sha256= prefix', sign(payload).slice('sha256='.length)],
+      ['a truncated digest', sign(payload).slice(0, -2)],
+    ])('rejects a signature with %s', async (_, signature) => {
+      const service = createService({ GITHUB_APP_WEBHOOK_SECRET: SECRET });
+
+      await expect(
+        service.handleWebhook(payload, signature, 'push', 'delivery-2'),
+      ).rejects.toThrow(UnauthorizedException);
+      expect(prisma.githubAppInstallation.findMany).not.toHaveBeenCalled();
+    });
+
+    it('rejects every delivery when no secret is configured', async () => {
+      const service = createService({});
+
+      await expect(
+        service.handleWebhook(payload, sign(payload), 'ping', 'delivery-3'),
+      ).rejects.toThrow(UnauthorizedException);
+    });
+  });
+
+  describe('push', () => {
+    it('records the push on projects of the repository and ref', async () => {
+      const payload = Buffer.from(
+        JSON.stringify({
+          ref: 'refs/heads/main',
+          after: 'b'.repeat(40),
+          deleted: false,
+          installation: { id: 42 },
+          repository: {
+            id: 7,
+            full_name: 'Octo/Notes-API',
+            default_branch: 'main',
+          },
+        }),
+      );
+      prisma.githubAppInstallation.findMany.mockResolvedValue([
+        { developerId: 3 },
+      ]);
+      prisma.technicalProject.findMany.mockResolvedValue([
+        { id: 10, gitRef: null },
+        { id: 11, gitRef: 'main' },
+        { id: 12, gitRef: 'develop' },
+      ]);
+      const service = createService({ GITHUB_APP_WEBHOOK_SECRET: SECRET });
+
+      await service.handleWebhook(payload, sign(payload), 'push', 'delivery-4');
+
+      // Stored keys are normalized, so saved URLs with .git or a trailing
+      // slash match too
+      expect(prisma.technicalProject.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            developerId: { in: [3] },
+            sourceHost: 'GITHUB',
+            repoKey: 'https://github.com/octo/notes-api',
+          },
+        }),
+      );
+      expect(prisma.technicalProject.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: [10, 11] } },
+        data: { lastPushSha: 'b'.repeat(40), lastPushAt: expect.any(Date) },
+      });
+    });
+  });
+});
@@ -0,0 +1,301 @@
+import { Injectable, Logger, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import { GithubAppService } from './github-app.service';
+import {
+  GithubInstallationEventPayload,
+  GithubInstallationRepositoriesEventPayload,
+  GithubPushEventPayload,
+  GithubWebhookEvent,
+} from './types';
+
+const SIGNATURE_PREFIX = 'sha256=';
+
+// Base of the repository URLs in project keys (see SourceHostService.getRepoKey)
+const GITHUB_URL = 'https://github.com';
+
+/**
+ * GitHub App webhook receiver
+ * Keeps installations and authorized repositories in sync with GitHub, so
+ * uninstalls, suspensions and removed repos are noticed without waiting for
+ * the developer to sync or for an analysis to fail
+ */
+@Injectable()
+export class GithubWebhookService {
+  private readonly logger = new Logger(GithubWebhookService.name);
+
+  constructor(
+    private config: ConfigService,
+    private prisma: PrismaService,
+    private githubAppService: GithubAppService,
+  ) {}
+
+  /**
+   * Verify and process a webhook delivery
+   * @param payload - Raw request body, as signed by GitHub
+   * @param signature - X-Hub-Signature-256 header
+   * @param event - X-GitHub-Event header
+   */
+  async handleWebhook(
+    payload: Buffer,
+    signature: string,
+    event: string,
+    deliveryId?: string,
+  ): Promise<{ received: boolean }> {
+    if (!this.isValidSignature(payload, signature)) {
+      this.logger.warn(
+        `Rejected GitHub webhook ${deliveryId ?? ''} with invalid signature`,
+      );
+      throw new UnauthorizedException('Webhook signature verification failed');
+    }
+
+    // Process the event - always return 200 so GitHub doesn't redeliver
+    // for application errors; a manual sync recovers from missed updates
+    try {
+      const body: unknown = JSON.parse(payload.toString('utf-8'));
+
+      switch (event as GithubWebhookEvent) {
+        case 'installation':
+          await this.handleInstallation(body as GithubInstallationEventPayload);
+          break;
+        case 'installation_repositories':
+          await this.handleInstallationRepositories(
+            body as GithubInstallationRepositoriesEventPayload,
+          );
+          break;
+        case 'push':
+          await this.handlePush(body as GithubPushEventPayload);
+          break;
+        case 'ping':
+          this.logger.log('GitHub webhook ping received');
+          break;
+        default:
+          this.logger.log(`Unhandled GitHub webhook event type: ${event}`);
+      }
+    } catch (error) {
+      this.logger.error(
+        `Error processing GitHub webhook ${deliveryId ?? ''} (${event}): ${error}`,
+      );
+    }
+
+    return { received: true };
+  }
+
+  // ========================================
+  // EVENT HANDLERS
+  // ========================================
+
+  /**
+   * App installed, uninstalled, suspended or unsuspended
+   * New installations are linked to a developer by set-installation
+   */
+  private async handleInstallation(
+    body: GithubInstallationEventPayload,
+  ): Promise<void> {
+    const installationId = String(body.installation.id);
+    const installations = await this.prisma.githubAppInstallation.findMany({
+      where: { installationId },
+      select: { id: true, developerId: true },
+    });
+
+    if (installations.length === 0) {
+      this.logger.log(
+        `Installation ${installationId} ${body.action}: not linked to a developer`,
+      );
+      return;
+    }
+
+    const ids = installations.map((installation) => installation.id);
+
+    switch (body.action) {
+      case 'deleted':
+        // Cascade removes the authorized repositories
+        await this.prisma.githubAppInstallation.deleteMany({
+          where: { id: { in: ids } },
+        });
+        break;
+      case 'suspend':
+        await this.prisma.githubAppInstallation.updateMany({
+          where: { id: { in: ids } },
+          data: {
+            suspendedAt: body.installation.suspended_at
+              ? new Date(body.installation.suspended_at)
+              : new Date(),
+          },
+        });
+        break;
+      case 'unsuspend':
+        await this.prisma.githubAppInstallation.updateMany({
+          where: { id: { in: ids } },
+          data: { suspendedAt: null },
+        });
+        break;
+      default:
+        return;
+    }
+
+    this.logger.log(
+      `Installation ${installationId} ${body.action} for ${installations.length} developer(s)`,
+    );
+
+    for (const installation of installations) {
+      await this.syncProjectAccess(installation.developerId);
+    }
+  }
+
+  /**
+   * Repositories added to or removed from an installation
+   */
+  private async handleInstallationRepositories(
+    body: GithubInstallationRepositoriesEventPayload,
+  ): Promise<void> {
+    const installationId = String(body.installation.id);
+    const installations = await this.prisma.githubAppInstallation.findMany({
+      where: { installationId },
+      select: { id: true, developerId: true },
+    });
+
+    if (installations.length === 0) {
+      this.logger.log(
+        `Installation ${installationId} repositories ${body.action}: not linked to a developer`,
+      );
+      return;
+    }
+
+    const added = body.repositories_added ?? [];
+    const removed = body.repositories_removed ?? [];
+
+    if (removed.length > 0) {
+      await this.prisma.githubAppRepository.deleteMany({
+        where: {
+          installationId: { in: installations.map((i) => i.id) },
+          githubRepoId: { in: removed.map((repo) => BigInt(repo.id)) },
+        },
+      });
+    }
+
+    if (added.length > 0) {
+      await this.prisma.githubAppRepository.createMany({
+        data: installations.flatMap((installation) =>
+          added.map((repo) => ({
+            installationId: installation.id,
+            githubRepoId: BigInt(repo.id),
+            repoName: repo.name,
+            repoFullName: repo.full_name,
+            description: null,
+            isPrivate: repo.private,
+          })),
+        ),
+        skipDuplicates: true,
+      });
+    }
+
+    this.logger.log(
+      `Installation ${installationId}: ${added.length} repositories added, ${removed.length} removed`,
+    );
+
+    for (const installation of installations) {
+      await this.syncProjectAccess(installation.developerId);
+    }
+  }
+
+  /**
+   * Record the latest push to the ref each project analyzes, so the
+   * developer can tell the assessment is behind the repository
+   */
+  private async handlePush(body: GithubPushEventPayload): Promise<void> {
+    if (body.deleted || !body.installation) return;
+
+    const installations = await this.prisma.githubAppInstallation.findMany({
+      where: { installationId: String(body.installation.id) },
+      select: { developerId: true },
+    });
+
+    if (installations.length === 0) return;
+
+    const pushedRef = body.ref.replace(/^refs\/(heads|tags)\//, '');
+
+    // Matched on the normalized key, so URLs saved with a trailing slash,
+    // a .git suffix or different casing are found too
+    const projects = await this.prisma.technicalProject.findMany({
+      where: {
+        developerId: { in: installations.map((i) => i.developerId) },
+        sourceHost: 'GITHUB',
+        repoKey: `${GITHUB_URL}/${body.repository.full_name}`.toLowerCase(),
+      },
+      select: { id: true, gitRef: true },
+    });
+
+    const projectIds = projects
+      .filter(
+        (project) =>
+          (project.gitRef ?? body.repository.default_branch) === pushedRef,
+      )
+      .map((project) => project.id);
+
+    if (projectIds.length === 0) return;
+
+    await this.prisma.technicalProject.updateMany({
+      where: { id: { in: projectIds } },
+      data: { lastPushSha: body.after, lastPushAt: new Date() },
+    });
+
+    this.logger.log(
+      `Push to ${body.repository.full_name}@${pushedRef} recorded for ${projectIds.length} project(s)`,
+    );
+  }
+
+  // ========================================
+  // PRIVATE HELPER METHODS
+  // ========================================
+
+  /**
+   * Apply the developer's current repository access to their projects
+   * Repositories of suspended installations don't count as authorized, but
+   * their projects are only marked revoked, never removed
+   */
+  private async syncProjectAccess(developerId: number): Promise<void> {
+    const repositories = await this.prisma.githubAppRepository.findMany({
+      where: { installation: { developerId } },
+      select: {
+        repoFullName: true,
+        installation: { select: { suspendedAt: true } },
+      },
+    });
+
+    const namesWhere = (suspended: boolean) =>
+      repositories
+        .filter((repo) => !!repo.installation.suspendedAt === suspended)
+        .map((repo) => repo.repoFullName);
+
+    await this.githubAppService.cleanupOrphanedProjects(
+      developerId,
+      namesWhere(false),
+      namesWhere(true),
+    );
+  }
+
+  /**
+   * Check the HMAC signature against the app's webhook secret
+   * Without a configured secret no delivery can be trusted, so all are rejected
+   */
+  private isValidSignature(payload: Buffer, signature: string): boolean {
+    const secret = this.config.get<string>('GITHUB_APP_WEBHOOK_SECRET');
+    if (!secret) {
+      this.logger.error('GITHUB_APP_WEBHOOK_SECRET is not configured');
+      return false;
+    }
+
+    if (!signature.startsWith(SIGNATURE_PREFIX)) return false;
+
+    const expected = Buffer.from(
+      createHmac('sha256', secret).update(payload).digest('hex'),
+    );
+    const provided = Buffer.from(signature.slice(SIGNATURE_PREFIX.length));
+
+    return (
+      provided.length === expected.length && timingSafeEqual(provided, expected)
+    );
+  }
+}
@@ -12,7 +12,11 @@ import {
   ApiResponse,
   ApiBearerAuth,
 } from '@nestjs/swagger';
-import { GetCurrentUserId, GetCurrentUserTableId } from '../common/decorators';
+import {
+  GetCurrentUserId,
+  GetCurrentUserTableId,
+  Roles,
+} from '../common/decorators';
 import { GithubAppService } from './github-app.service';
 import {
   SetInstallationDto,
@@ -23,6 +27,7 @@ import {
 
 @ApiTags('Developer - GitHub')
 @ApiBearerAuth()
+@Roles('DEVELOPER')
 @Controller('developer/github')
 export class GithubController {
   constructor(private githubAppService: GithubAppService) {}
@@ -47,15 +52,17 @@ export class GithubController {
       return { isConnected: false };
     }
 
-    const [repositories, installationId] = await Promise.all([
+    const [repositories, installationId, needsReconnect] = await Promise.all([
       this.githubAppService.getAuthorizedRepositories(developerId),
       this.githubAppService.getInstallationId(developerId),
+      this.githubAppService.needsReconnect(developerId),
     ]);
 
     return {
       isConnected: true,
       repositoryCount: repositories.length,
       installationId: installationId || undefined,
+      needsReconnect,
     };
   }
 
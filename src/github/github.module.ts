@@ -1,12 +1,22 @@
 import { Module, Global } from '@nestjs/common';
+import { NotificationModule } from '../notifications/notification.module';
 import { GithubService } from './github.service';
 import { GithubAppService } from './github-app.service';
+import { GithubWebhookService } from './github-webhook.service';
+import { GithubHealthService } from './github-health.service';
 import { GithubController } from './github.controller';
+import { GithubWebhookController } from './github-webhook.controller';
 
 @Global()
 @Module({
-  controllers: [GithubController],
-  providers: [GithubService, GithubAppService],
+  imports: [NotificationModule],
+  controllers: [GithubController, GithubWebhookController],
+  providers: [
+    GithubService,
+    GithubAppService,
+    GithubWebhookService,
+    GithubHealthService,
+  ],
   exports: [GithubService, GithubAppService],
 })
 export class GithubModule {}
@@ -16,14 +16,82 @@ export interface RepoValidationResult {
   defaultBranch: string;
 }
 
-interface GithubContentItem {
-  name: string;
+export interface RepoRateLimit {
+  limit: number;
+  remaining: number;
+  used: number;
+  resetAt: Date;
+}
+
+export interface RepoFetchOptions {
+  maxContentSize: number; // Stop downloading once this many bytes are fetched
+  maxFiles: number;
+  ref?: string | null; // Branch, tag or commit; defaults to the default branch
+  prioritize?: (path: string) => number; // Download order, highest first
+  flagPath?: (path: string) => boolean; // Report matching tree paths, even ignored ones
+  rootPaths?: string[]; // Monorepo directories to fetch (empty = whole repository)
+}
+
+export interface RepoManifestEntry {
   path: string;
-  type: 'file' | 'dir';
+  sha: string; // Git blob SHA, changes whenever the content changes
+  size: number;
+}
+
+export interface ResolvedRef {
+  ref: string; // Branch/tag name as requested, or the default branch
+  commitSha: string;
+  treeSha: string;
+}
+
+export interface RepoFetchResult {
+  files: RepoFile[]; // Downloaded files, highest priority first
+  manifest: RepoManifestEntry[]; // Every file left after ignore rules
+  commitSha: string;
+  ref: string;
+  totalFiles: number; // Files left after ignore rules
+  truncated: boolean; // Content budget or GitHub tree limit cut the fetch short
+  requestCount: number; // GitHub API calls made
+  rateLimit: RepoRateLimit | null; // As reported by the last response
+  flaggedPaths: string[]; // Tree paths matching options.flagPath (never downloaded)
+}
+
+export interface RepoCommit {
+  sha: string;
+  authorLogin: string | null; // GitHub account the commit email maps to
+  authorName: string | null;
+  authorEmail: string | null;
+  date: string; // Author date (ISO)
+  message: string; // First line only
+  additions: number | null; // Only for commits whose details were fetched
+  deletions: number | null;
+}
+
+export interface RepoHistoryOptions {
+  sha: string; // Walk history back from this commit
+  maxCommits: number;
+  detailedCommits: number; // Commits to fetch line stats for
+}
+
+export interface RepoHistory {
+  isFork: boolean;
+  forkParent: string | null; // owner/repo of the fork source
+  templateRepository: string | null; // owner/repo the repo was generated from
+  commits: RepoCommit[]; // Newest first
+  truncated: boolean; // History has more than maxCommits commits
+  requestCount: number;
+}
+
+interface GithubTreeItem {
+  path?: string;
+  type?: string;
+  sha?: string;
   size?: number;
-  download_url?: string;
 }
 
+// Blob downloads in flight at once
+const BLOB_FETCH_CONCURRENCY = 8;
+
 interface GithubApiError {
   status?: number;
   message?: string;
@@ -61,6 +129,20 @@ export class GithubService {
     '.git',
   ]);
 
+  // Hidden directories worth analyzing (CI configuration)
+  private readonly INCLUDED_DOT_DIRS = new Set(['.github', '.circleci']);
+
+  // Monorepo root directory names of the UI and the server side
+  private readonly CLIENT_ROOT_NAMES = new Set([
+    'client',
+    'frontend',
+    'web',
+    'webapp',
+    'ui',
+    'mobile',
+  ]);
+  private readonly SERVER_ROOT_NAMES = new Set(['server', 'backend', 'api']);
+
   // Files to ignore
   private readonly IGNORED_FILES = new Set([
     'package-lock.json',
@@ -249,83 +331,319 @@ export class GithubService {
   }
 
   /**
-   * Fetch the complete structure and content of a repository
-   * Filters out non-relevant files and respects size limits
+   * Resolve a branch, tag or commit (default branch if omitted) to a commit
+   * @param octokit - Authenticated Octokit instance
+   * @param githubUrl - GitHub repository URL
+   * @param ref - Branch, tag or commit SHA
+   * @param onResponse - Called with each response's headers (request accounting)
+   */
+  async resolveRef(
+    octokit: Octokit,
+    githubUrl: string,
+    ref?: string | null,
+    onResponse?: (headers: Record<string, unknown>) => void,
+  ): Promise<ResolvedRef> {
+    const { owner, repo } = this.parseGithubUrl(githubUrl);
+    const headers = { 'X-GitHub-Api-Version': '2022-11-28' };
+
+    let resolvedRef = ref;
+    if (!resolvedRef) {
+      const repoResponse = await octokit.request('GET /repos/{owner}/{repo}', {
+        owner,
+        repo,
+        headers,
+      });
+      onResponse?.(repoResponse.headers);
+      resolvedRef = repoResponse.data.default_branch;
+    }
+
+    const commitResponse = await octokit.request(
+      'GET /repos/{owner}/{repo}/commits/{ref}',
+      { owner, repo, ref: resolvedRef, headers },
+    );
+    onResponse?.(commitResponse.headers);
+
+    return {
+      ref: resolvedRef,
+      commitSha: commitResponse.data.sha,
+      treeSha: commitResponse.data.commit.tree.sha,
+    };
+  }
+
+  /**
+   * Directories among the given paths that don't exist at a ref
+   * Paths past a truncated tree listing can't be checked and count as found
+   */
+  async findMissingPaths(
+    octokit: Octokit,
+    githubUrl: string,
+    paths: string[],
+    ref?: string | null,
+  ): Promise<string[]> {
+    if (paths.length === 0) return [];
+
+    const { owner, repo } = this.parseGithubUrl(githubUrl);
+    const resolved = await this.resolveRef(octokit, githubUrl, ref);
+    const treeResponse = await octokit.request(
+      'GET /repos/{owner}/{repo}/git/trees/{tree_sha}',
+      {
+        owner,
+        repo,
+        tree_sha: resolved.treeSha,
+        recursive: 'true',
+        headers: { 'X-GitHub-Api-Version': '2022-11-28' },
+      },
+    );
+
+    if (treeResponse.data.truncated) return [];
+
+    const directories = new Set(
+      (treeResponse.data.tree as GithubTreeItem[])
+        .filter((item) => item.type === 'tree')
+        .map((item) => item.path),
+    );
+
+    return paths.filter((path) => !directories.has(path));
+  }
+
+  /**
+   * Fetch the code of a repository via the Git Trees API
+   * Lists the whole tree in one call, applies the ignore rules, then
+   * downloads blobs in priority order until the content budget is used up
    * @param octokit - Authenticated Octokit instance
    * @param githubUrl - GitHub repository URL
+   * @param options - Content and file count budget
    */
   async fetchRepositoryStructure(
     octokit: Octokit,
     githubUrl: string,
-  ): Promise<RepoFile[]> {
+    options: RepoFetchOptions,
+  ): Promise<RepoFetchResult> {
     const { owner, repo } = this.parseGithubUrl(githubUrl);
+    const headers = { 'X-GitHub-Api-Version': '2022-11-28' };
+    let requestCount = 0;
+    let rateLimit: RepoRateLimit | null = null;
 
-    const allFiles: RepoFile[] = [];
+    const track = (responseHeaders: Record<string, unknown>): void => {
+      requestCount++;
+      rateLimit = this.parseRateLimit(responseHeaders) ?? rateLimit;
+    };
 
-    const fetchDir = async (
-      path: string = '',
-      depth: number = 0,
-    ): Promise<void> => {
-      if (depth > 10) return; // Limit recursion
+    // Pin the fetch to one commit so the manifest matches what was analyzed
+    const resolved = await this.resolveRef(
+      octokit,
+      githubUrl,
+      options.ref,
+      track,
+    );
+    const commitSha = resolved.commitSha;
+    const prioritize =
+      options.prioritize ??
+      ((path: string) =>
+        this.getFilePriority(
+          this.getRootRelativePath(path, options.rootPaths),
+        ));
+
+    const treeResponse = await octokit.request(
+      'GET /repos/{owner}/{repo}/git/trees/{tree_sha}',
+      {
+        owner,
+        repo,
+        tree_sha: resolved.treeSha,
+        recursive: 'true',
+        headers,
+      },
+    );
+    track(treeResponse.headers);
+
+    const blobs = (treeResponse.data.tree as GithubTreeItem[]).filter(
+      (item): item is Required<GithubTreeItem> =>
+        item.type === 'blob' &&
+        !!item.path &&
+        !!item.sha &&
+        this.isInRootPaths(item.path, options.rootPaths),
+    );
+    const flaggedPaths = options.flagPath
+      ? blobs.map((item) => item.path).filter(options.flagPath)
+      : [];
+
+    // Filter before downloading anything
+    const candidates = blobs
+      .filter((item) =>
+        this.isIncludedPath(
+          this.getRootRelativePath(item.path, options.rootPaths),
+          item.size ?? 0,
+        ),
+      )
+      .sort((a, b) => prioritize(b.path) - prioritize(a.path));
 
-      try {
-        const response = await octokit.request(
-          'GET /repos/{owner}/{repo}/contents/{path}',
-          {
-            owner,
-            repo,
-            path,
-            headers: { 'X-GitHub-Api-Version': '2022-11-28' },
-          },
-        );
+    // Pick files within budget; sizes come from the tree so no download is wasted
+    let truncated = treeResponse.data.truncated;
+    let budgetUsed = 0;
+    const selected: Required<GithubTreeItem>[] = [];
 
-        const items = (
-          Array.isArray(response.data) ? response.data : [response.data]
-        ) as GithubContentItem[];
+    for (const item of candidates) {
+      if (
+        selected.length >= options.maxFiles ||
+        budgetUsed + item.size > options.maxContentSize
+      ) {
+        truncated = true;
+        break;
+      }
+      selected.push(item);
+      budgetUsed += item.size;
+    }
 
-        for (const item of items) {
-          if (item.type === 'dir') {
-            if (!this.shouldIgnoreDir(item.name)) {
-              await fetchDir(item.path, depth + 1);
-            }
-            continue;
+    const files: RepoFile[] = [];
+
+    for (let i = 0; i < selected.length; i += BLOB_FETCH_CONCURRENCY) {
+      const batch = selected.slice(i, i + BLOB_FETCH_CONCURRENCY);
+      const contents = await Promise.all(
+        batch.map(async (item) => {
+          try {
+            const blobResponse = await octokit.request(
+              'GET /repos/{owner}/{repo}/git/blobs/{file_sha}',
+              { owner, repo, file_sha: item.sha, headers },
+            );
+            track(blobResponse.headers);
+            return Buffer.from(
+              blobResponse.data.content,
+              blobResponse.data.encoding === 'base64' ? 'base64' : 'utf-8',
+            ).toString('utf-8');
+          } catch (error: unknown) {
+            const apiError = error as GithubApiError;
+            this.logger.warn(
+              `Failed to fetch ${owner}/${repo}:${item.path}: ${apiError.message}`,
+            );
+            return null;
           }
+        }),
+      );
 
-          if (item.type === 'file') {
-            const fileSize = item.size || 0;
-            if (this.shouldIgnoreFile(item.name, fileSize)) continue;
-
-            let content = '';
-            if (item.download_url) {
-              try {
-                const res = await fetch(item.download_url);
-                if (res.ok) {
-                  content = await res.text();
-                }
-              } catch {
-                content = '';
-              }
-            }
-
-            allFiles.push({
-              name: item.name,
-              path: item.path,
-              type: 'file',
-              size: fileSize,
-              content,
-            });
-          }
-        }
+      batch.forEach((item, index) => {
+        const content = contents[index];
+        if (content === null) return;
+        files.push({
+          name: item.path.split('/').pop()!,
+          path: item.path,
+          type: 'file',
+          size: item.size,
+          content,
+        });
+      });
+    }
+
+    this.logger.log(
+      `Fetched ${files.length}/${candidates.length} files from ${owner}/${repo}@${commitSha.slice(0, 7)} in ${requestCount} requests${truncated ? ' (truncated)' : ''}`,
+    );
+
+    return {
+      files,
+      manifest: candidates.map((item) => ({
+        path: item.path,
+        sha: item.sha,
+        size: item.size,
+      })),
+      commitSha,
+      ref: resolved.ref,
+      totalFiles: candidates.length,
+      truncated,
+      requestCount,
+      rateLimit,
+      flaggedPaths,
+    };
+  }
+
+  /**
+   * Fetch commit history and origin (fork/template) of a repository
+   * Line stats need one request per commit, so only a sample is detailed:
+   * the oldest commits (initial dumps) plus commits spread across history
+   * @param octokit - Authenticated Octokit instance
+   * @param githubUrl - GitHub repository URL
+   * @param options - Starting commit and request budget
+   */
+  async fetchCommitHistory(
+    octokit: Octokit,
+    githubUrl: string,
+    options: RepoHistoryOptions,
+  ): Promise<RepoHistory> {
+    const { owner, repo } = this.parseGithubUrl(githubUrl);
+    const headers = { 'X-GitHub-Api-Version': '2022-11-28' };
+    let requestCount = 0;
+
+    const repoResponse = await octokit.request('GET /repos/{owner}/{repo}', {
+      owner,
+      repo,
+      headers,
+    });
+    requestCount++;
+
+    const commits: RepoCommit[] = [];
+    let truncated = false;
+    const perPage = Math.min(100, options.maxCommits);
+
+    for (let page = 1; commits.length < options.maxCommits; page++) {
+      const response = await octokit.request(
+        'GET /repos/{owner}/{repo}/commits',
+        { owner, repo, sha: options.sha, per_page: perPage, page, headers },
+      );
+      requestCount++;
+
+      for (const item of response.data) {
+        commits.push({
+          sha: item.sha,
+          authorLogin: item.author?.login ?? null,
+          authorName: item.commit.author?.name ?? null,
+          authorEmail: item.commit.author?.email ?? null,
+          date: item.commit.author?.date ?? item.commit.committer?.date ?? '',
+          message: item.commit.message.split('\n')[0],
+          additions: null,
+          deletions: null,
+        });
+      }
+
+      if (response.data.length < perPage) break;
+      if (commits.length >= options.maxCommits) {
+        truncated = true;
+        break;
+      }
+    }
+
+    const commitsToDetail = this.pickCommitSample(
+      commits,
+      options.detailedCommits,
+    );
+
+    for (const commit of commitsToDetail) {
+      try {
+        const response = await octokit.request(
+          'GET /repos/{owner}/{repo}/commits/{ref}',
+          { owner, repo, ref: commit.sha, headers },
+        );
+        requestCount++;
+        commit.additions = response.data.stats?.additions ?? null;
+        commit.deletions = response.data.stats?.deletions ?? null;
       } catch (error: unknown) {
         const apiError = error as GithubApiError;
         this.logger.warn(
-          `Failed to fetch directory ${path}: ${apiError.message}`,
+          `Failed to fetch stats for ${owner}/${repo}@${commit.sha.slice(0, 7)}: ${apiError.message}`,
         );
       }
-    };
+    }
+
+    this.logger.log(
+      `Fetched ${commits.length} commits (${commitsToDetail.length} detailed) from ${owner}/${repo} in ${requestCount} requests${truncated ? ' (truncated)' : ''}`,
+    );
 
-    await fetchDir('', 0);
-    return allFiles;
+    return {
+      isFork: repoResponse.data.fork,
+      forkParent: repoResponse.data.parent?.full_name ?? null,
+      templateRepository:
+        repoResponse.data.template_repository?.full_name ?? null,
+      commits,
+      truncated,
+      requestCount,
+    };
   }
 
   /**
@@ -409,10 +727,28 @@ export class GithubService {
 
   /**
    * Detect if a project is fullstack based on directory structure
+   * @param rootPaths - Monorepo directories the project consists of
    */
-  detectFullstackByStructure(files: RepoFile[]): boolean {
-    const paths = files.map((f) => f.path.toLowerCase());
-    const contents = files.map((f) => f.content.toLowerCase());
+  detectFullstackByStructure(
+    files: RepoFile[],
+    rootPaths: string[] = [],
+  ): boolean {
+    const scoped = files.filter((f) => this.isInRootPaths(f.path, rootPaths));
+    const paths = scoped.map((f) =>
+      this.getRootRelativePath(f.path, rootPaths).toLowerCase(),
+    );
+    const contents = scoped.map((f) => f.content.toLowerCase());
+
+    // Pattern 0: UI and server as separate monorepo roots (apps/web + apps/api)
+    const rootNames = rootPaths.map(
+      (root) => root.toLowerCase().split('/').pop()!,
+    );
+    if (
+      rootNames.some((name) => this.CLIENT_ROOT_NAMES.has(name)) &&
+      rootNames.some((name) => this.SERVER_ROOT_NAMES.has(name))
+    ) {
+      return true;
+    }
 
     // Pattern 1: client/server or frontend/backend directories
     const hasClientDir = paths.some(
@@ -478,11 +814,87 @@ export class GithubService {
     return false;
   }
 
+  /**
+   * Whether a repository file passes the ignore rules
+   * (dependency/build directories, binaries, lock files, files > 100KB)
+   * @param path - Path relative to the repository root
+   */
+  isIncludedPath(path: string, size: number): boolean {
+    const segments = path.split('/');
+    const name = segments.pop()!;
+    return (
+      !segments.some((dir) => this.shouldIgnoreDir(dir)) &&
+      !this.shouldIgnoreFile(name, size)
+    );
+  }
+
+  /**
+   * Whether a path lies under one of a project's root paths
+   * (no root paths = whole repository)
+   */
+  isInRootPaths(path: string, rootPaths: string[] = []): boolean {
+    return (
+      rootPaths.length === 0 ||
+      rootPaths.some((root) => path.startsWith(`${root}/`))
+    );
+  }
+
+  /**
+   * Path relative to the project root it lies under, so monorepo apps get
+   * the same ignore rules and priorities as standalone repositories
+   */
+  getRootRelativePath(path: string, rootPaths: string[] = []): string {
+    const root = rootPaths.find((candidate) =>
+      path.startsWith(`${candidate}/`),
+    );
+    return root ? path.slice(root.length + 1) : path;
+  }
+
+  /**
+   * Commits to fetch line stats for: oldest commits first, then evenly
+   * spaced commits from the rest
+   */
+  pickCommitSample(commits: RepoCommit[], size: number): RepoCommit[] {
+    if (commits.length <= size) return commits;
+
+    const oldestCount = Math.ceil(size / 4);
+    const oldest = commits.slice(-oldestCount);
+    const rest = commits.slice(0, -oldestCount);
+    const step = rest.length / (size - oldestCount);
+    const spread = Array.from(
+      { length: size - oldestCount },
+      (_, i) => rest[Math.floor(i * step)],
+    );
+
+    return [...spread, ...oldest];
+  }
+
   // ========================================
   // PRIVATE HELPER METHODS
   // ========================================
 
+  private parseRateLimit(
+    headers: Record<string, unknown>,
+  ): RepoRateLimit | null {
+    const limit = Number(headers['x-ratelimit-limit']);
+    const remaining = Number(headers['x-ratelimit-remaining']);
+    const used = Number(headers['x-ratelimit-used']);
+    const reset = Number(headers['x-ratelimit-reset']);
+
+    if ([limit, remaining, reset].some((value) => Number.isNaN(value))) {
+      return null;
+    }
+
+    return {
+      limit,
+      remaining,
+      used: Number.isNaN(used) ? limit - remaining : used,
+      resetAt: new Date(reset * 1000),
+    };
+  }
+
   private shouldIgnoreDir(name: string): boolean {
+    if (this.INCLUDED_DOT_DIRS.has(name)) return false;
     return this.IGNORED_DIRS.has(name) || name.startsWith('.');
   }
 
@@ -1,5 +1,8 @@
 export * from './github.module';
 export * from './github.service';
 export * from './github-app.service';
+export * from './github-app.errors';
+export * from './github-webhook.service';
+export * from './github-health.service';
 export * from './types';
 export * from './dto';
@@ -0,0 +1,54 @@
+/**
+ * GitHub App webhook payloads (only the fields the handlers read)
+ * https://docs.github.com/en/webhooks/webhook-events-and-payloads
+ */
+
+export type GithubWebhookEvent =
+  | 'installation'
+  | 'installation_repositories'
+  | 'push'
+  | 'ping';
+
+export interface GithubWebhookInstallation {
+  id: number;
+  suspended_at?: string | null;
+}
+
+/**
+ * Repository as listed in installation events
+ */
+export interface GithubWebhookRepository {
+  id: number;
+  name: string;
+  full_name: string;
+  private: boolean;
+}
+
+export interface GithubInstallationEventPayload {
+  action:
+    | 'created'
+    | 'deleted'
+    | 'suspend'
+    | 'unsuspend'
+    | 'new_permissions_accepted';
+  installation: GithubWebhookInstallation;
+}
+
+export interface GithubInstallationRepositoriesEventPayload {
+  action: 'added' | 'removed';
+  installation: GithubWebhookInstallation;
+  repositories_added: GithubWebhookRepository[];
+  repositories_removed: GithubWebhookRepository[];
+}
+
+export interface GithubPushEventPayload {
+  ref: string; // e.g. refs/heads/main or refs/tags/v1.0.0
+  after: string; // Head commit SHA after the push
+  deleted: boolean; // Branch or tag deleted
+  installation?: GithubWebhookInstallation;
+  repository: {
+    id: number;
+    full_name: string;
+    default_branch: string;
+  };
+}
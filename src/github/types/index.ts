@@ -1 +1,2 @@
 export * from './github-app.types';
+export * from './github-webhook.types';
@@ -22,6 +22,15 @@ export const generateOpenAPIFile = async (app: INestApplication) => {
       in: 'cookie',
       description: 'JWT refresh token in cookie',
     })
+    .addApiKey(
+      {
+        type: 'apiKey',
+        in: 'header',
+        name: 'x-admin-key',
+        description: 'Operator API key for admin endpoints',
+      },
+      'admin-key',
+    )
     .build();
 
   const document = SwaggerModule.createDocument(app, options);
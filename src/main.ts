@@ -10,7 +10,7 @@ import { ConfigService } from '@nestjs/config';
 
 async function bootstrap() {
   const app = await NestFactory.create(AppModule, {
-    rawBody: true, // Required for Stripe webhook signature verification
+    rawBody: true, // Required for Stripe and GitHub webhook signature verification
   });
 
   const configService = app.get(ConfigService);
@@ -155,6 +155,38 @@ export class NotificationService {
     }
   }
 
+  /**
+   * Notify developer when their GitHub App installation needs a reconnect
+   */
+  async notifyDeveloperOfGithubReconnect(
+    developerId: number,
+    queuedAnalyses: number,
+  ): Promise<void> {
+    const developer = await this.prisma.developer.findUnique({
+      where: { id: developerId },
+      include: { user: { select: { email: true } } },
+    });
+
+    if (!developer) return;
+
+    const developerName =
+      [developer.firstName, developer.lastName].filter(Boolean).join(' ') ||
+      'Developer';
+
+    try {
+      await this.emailService.sendGithubReconnectEmail(
+        developer.user.email,
+        developerName,
+        queuedAnalyses,
+      );
+    } catch (error) {
+      console.error(
+        `Failed to send GitHub reconnect email to ${developer.user.email}:`,
+        error,
+      );
+    }
+  }
+
   /**
    * Notify developer when a company unlocks their report
    */
@@ -0,0 +1,218 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+  PayloadTooLargeException,
+} from '@nestjs/common';
+import { createHash, randomUUID } from 'crypto';
+import { basename } from 'path';
+import { GithubService, RepoFile } from '../github/github.service';
+import { TechnicalProject } from '../../prisma/generated/prisma';
+import {
+  ARCHIVE_STORAGE,
+  ArchiveFormat,
+  ArchiveStorage,
+  readArchive,
+} from './archive';
+import { ArchiveFile, ArchiveSourceHostClient } from './clients';
+import { InvalidArchiveError } from './source-host.errors';
+
+// Upload limit, also enforced by the upload endpoint
+export const MAX_ARCHIVE_SIZE = 20 * 1024 * 1024;
+// Limits of the unpacked archive, ignored files included
+const MAX_ARCHIVE_ENTRIES = 50000;
+const MAX_UNPACKED_SIZE = 500 * 1024 * 1024;
+const MAX_ARCHIVE_NAME_LENGTH = 255;
+
+/**
+ * An uploaded file as received by the upload endpoint
+ */
+export interface ArchiveUpload {
+  originalname: string;
+  buffer: Buffer;
+  size: number;
+}
+
+export interface StoredArchive {
+  key: string;
+  name: string;
+  size: number;
+  sha256: string;
+  files: RepoFile[]; // Files that passed the ignore rules
+}
+
+interface UnpackedArchive {
+  format: ArchiveFormat;
+  files: ArchiveFile[];
+  allPaths: string[];
+}
+
+/**
+ * Project archives: uploads that stand in for a repository when the code
+ * can't be published on a supported host
+ */
+@Injectable()
+export class ArchiveService {
+  private readonly logger = new Logger(ArchiveService.name);
+
+  constructor(
+    @Inject(ARCHIVE_STORAGE) private storage: ArchiveStorage,
+    private githubService: GithubService,
+  ) {}
+
+  /**
+   * Validate an upload and keep it for analysis
+   * The archive is unpacked once here so broken or empty uploads are
+   * rejected before a project is created
+   */
+  async store(
+    developerId: number,
+    upload: ArchiveUpload,
+  ): Promise<StoredArchive> {
+    if (upload.size > MAX_ARCHIVE_SIZE) {
+      throw new PayloadTooLargeException(
+        `Archive is larger than ${MAX_ARCHIVE_SIZE / 1024 / 1024}MB`,
+      );
+    }
+
+    let unpacked: UnpackedArchive;
+    try {
+      unpacked = await this.unpack(upload.buffer);
+    } catch (error: unknown) {
+      if (error instanceof InvalidArchiveError) {
+        throw new BadRequestException(error.message);
+      }
+      throw error;
+    }
+
+    if (unpacked.files.length === 0) {
+      throw new BadRequestException('No relevant code files found in archive');
+    }
+
+    const key = `${developerId}/${randomUUID()}.${unpacked.format}`;
+    await this.storage.put(key, upload.buffer);
+
+    this.logger.log(
+      `Stored archive ${key} for developer ${developerId} (${upload.size} bytes, ${unpacked.files.length} files)`,
+    );
+
+    return {
+      key,
+      name:
+        basename(upload.originalname).slice(0, MAX_ARCHIVE_NAME_LENGTH) ||
+        'archive',
+      size: upload.size,
+      sha256: createHash('sha256').update(upload.buffer).digest('hex'),
+      files: unpacked.files.map((file) => ({
+        name: file.path.split('/').pop()!,
+        path: file.path,
+        type: 'file',
+        size: file.size,
+        content: file.content,
+      })),
+    };
+  }
+
+  /**
+   * Client over a project's stored archive
+   * @throws Error when the archive is missing from storage
+   */
+  async getClient(
+    project: Pick<
+      TechnicalProject,
+      'id' | 'archiveKey' | 'archiveName' | 'archiveSha256'
+    >,
+  ): Promise<ArchiveSourceHostClient> {
+    const data = project.archiveKey
+      ? await this.storage.get(project.archiveKey)
+      : null;
+    if (!data) {
+      throw new Error(`Archive of project ${project.id} not found in storage`);
+    }
+
+    const { files, allPaths } = await this.unpack(data);
+
+    return new ArchiveSourceHostClient(
+      project.archiveName ?? 'archive',
+      project.archiveSha256 ?? createHash('sha256').update(data).digest('hex'),
+      files,
+      allPaths,
+      this.githubService,
+    );
+  }
+
+  /**
+   * Remove a stored archive
+   * Best-effort: a leftover file must not block deleting its project
+   */
+  async delete(key: string): Promise<void> {
+    try {
+      await this.storage.delete(key);
+    } catch (error: unknown) {
+      this.logger.warn(
+        `Failed to delete archive ${key}: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  // ========================================
+  // PRIVATE HELPER METHODS
+  // ========================================
+
+  /**
+   * Unpack with the same ignore rules as a repository fetch
+   */
+  private async unpack(data: Buffer): Promise<UnpackedArchive> {
+    const isIncluded = (path: string, size: number) =>
+      this.githubService.isIncludedPath(path, size);
+
+    const { format, entries } = await readArchive(data, {
+      maxEntries: MAX_ARCHIVE_ENTRIES,
+      maxUnpackedSize: MAX_UNPACKED_SIZE,
+      // The wrapper directory is only known once every entry is listed, so
+      // files are read if they pass with or without one
+      accept: (path, size) =>
+        isIncluded(path, size) ||
+        isIncluded(path.slice(path.indexOf('/') + 1), size),
+    });
+
+    // Archives of a folder or a host download wrap everything in one directory
+    const topLevel = new Set(
+      entries.map((entry) =>
+        entry.path.includes('/') ? entry.path.split('/')[0] : null,
+      ),
+    );
+    const wrapper =
+      topLevel.size === 1 && !topLevel.has(null) ? `${[...topLevel][0]}/` : '';
+
+    const files: ArchiveFile[] = [];
+    const allPaths: string[] = [];
+
+    for (const entry of entries) {
+      const path = entry.path.slice(wrapper.length);
+      allPaths.push(path);
+
+      if (!entry.content || !isIncluded(path, entry.size)) continue;
+
+      files.push({
+        path,
+        sha: this.gitBlobSha(entry.content),
+        size: entry.size,
+        content: entry.content.toString('utf-8'),
+      });
+    }
+
+    return { format, files, allPaths };
+  }
+
+  /**
+   * SHA git would give the file, so manifests compare like a repository's
+   */
+  private gitBlobSha(content: Buffer): string {
+    return createHash('sha1')
+      .update(`blob ${content.length}\0`)
+      .update(content)
+      .digest('hex');
+  }
+}
@@ -0,0 +1,211 @@
+import { gzipSync, crc32 } from 'zlib';
+import * as tar from 'tar-stream';
+import { InvalidArchiveError } from '../source-host.errors';
+import {
+  ArchiveReadOptions,
+  detectArchiveFormat,
+  readArchive,
+} from './archive-reader';
+
+interface TestEntry {
+  name: string;
+  content?: string;
+  type?: 'file' | 'directory' | 'symlink';
+}
+
+const OPTIONS: ArchiveReadOptions = {
+  maxEntries: 100,
+  maxUnpackedSize: 1024 * 1024,
+  accept: (path) => !path.endsWith('.png'),
+};
+
+async function tarArchive(entries: TestEntry[]): Promise<Buffer> {
+  const pack = tar.pack();
+  for (const { name, content = '', type = 'file' } of entries) {
+    if (type === 'file') {
+      pack.entry({ name }, content);
+    } else {
+      pack.entry({ name, type, linkname: type === 'symlink' ? content : '' });
+    }
+  }
+  pack.finalize();
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of pack) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Uncompressed zip written by hand, so entry names and modes aren't
+ * sanitized the way a zip library would
+ */
+function zipArchive(entries: TestEntry[]): Buffer {
+  const local: Buffer[] = [];
+  const central: Buffer[] = [];
+  let offset = 0;
+
+  for (const { name, content = '', type = 'file' } of entries) {
+    const fileName = Buffer.from(name);
+    const data = Buffer.from(content);
+    const mode = { file: 0o100644, directory: 0o040755, symlink: 0o120777 }[
+      type
+    ];
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(20, 4); // Version needed
+    header.writeUInt32LE(crc32(data), 14);
+    header.writeUInt32LE(data.length, 18); // Compressed size
+    header.writeUInt32LE(data.length, 22); // Uncompressed size
+    header.writeUInt16LE(fileName.length, 26);
+    local.push(header, fileName, data);
+
+    const record = Buffer.alloc(46);
+    record.writeUInt32LE(0x02014b50, 0);
+    record.writeUInt16LE((3 << 8) | 20, 4); // Made on Unix
+    record.writeUInt16LE(20, 6);
+    record.writeUInt32LE(crc32(data), 16);
+    record.writeUInt32LE(data.length, 20);
+    record.writeUInt32LE(data.length, 24);
+    record.writeUInt16LE(fileName.length, 28);
+    record.writeUInt32LE(mode * 0x10000, 38); // External attributes
+    record.writeUInt32LE(offset, 42);
+    central.push(record, fileName);
+
+    offset += header.length + fileName.length + data.length;
+  }
+
+  const directory = Buffer.concat(central);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...local, directory, end]);
+}
+
+describe('archive reader', () => {
+  const project: TestEntry[] = [
+    { name: './notes/', type: 'directory' },
+    { name: './notes/package.json', content: '{"name":"notes"}' },
+    { name: './notes/src/app.js', content: 'module.exports = {};' },
+    { name: './notes/logo.png', content: 'PNG' },
+  ];
+
+  describe('detectArchiveFormat', () => {
+    it('tells formats apart by their leading bytes', async () => {
+      const tarball = await tarArchive(project);
+
+      expect(detectArchiveFormat(zipArchive(project))).toBe('zip');
+      expect(detectArchiveFormat(tarball)).toBe('tar');
+      expect(detectArchiveFormat(gzipSync(tarball))).toBe('tar.gz');
+      expect(detectArchiveFormat(Buffer.from('Rar!\x1a\x07'))).toBeNull();
+    });
+
+    it('rejects anything else', async () => {
+      await expect(
+        readArchive(Buffer.from('not an archive'), OPTIONS),
+      ).rejects.toThrow(InvalidArchiveError);
+    });
+  });
+
+  describe.each([
+    ['zip', async (entries: TestEntry[]) => zipArchive(entries)],
+    ['tar', tarArchive],
+    [
+      'tar.gz',
+      async (entries: TestEntry[]) => gzipSync(await tarArchive(entries)),
+    ],
+  ])('%s', (format, build) => {
+    it('lists regular files and reads the accepted ones', async () => {
+      const contents = await readArchive(await build(project), OPTIONS);
+
+      expect(contents.format).toBe(format);
+      expect(
+        contents.entries.map(({ path, size, content }) => ({
+          path,
+          size,
+          content: content?.toString('utf8') ?? null,
+        })),
+      ).toEqual([
+        {
+          path: 'notes/package.json',
+          size: 16,
+          content: '{"name":"notes"}',
+        },
+        {
+          path: 'notes/src/app.js',
+          size: 20,
+          content: 'module.exports = {};',
+        },
+        { path: 'notes/logo.png', size: 3, content: null },
+      ]);
+    });
+
+    it('skips symbolic links', async () => {
+      const archive = await build([
+        { name: 'notes/app.js', content: 'run();' },
+        { name: 'notes/secrets', content: '/etc/passwd', type: 'symlink' },
+      ]);
+
+      const { entries } = await readArchive(archive, OPTIONS);
+
+      expect(entries.map((entry) => entry.path)).toEqual(['notes/app.js']);
+    });
+
+    it.each(['../escape.sh', 'notes/../../escape.sh', '/etc/cron.d/escape'])(
+      'rejects the unsafe path %s',
+      async (name) => {
+        const archive = await build([
+          { name: 'notes/app.js', content: 'run();' },
+          { name, content: 'rm -rf ~' },
+        ]);
+
+        await expect(readArchive(archive, OPTIONS)).rejects.toThrow(
+          // yauzl's own check for zip, the reader's for tar
+          /(unsafe|invalid relative|absolute) path/,
+        );
+      },
+    );
+
+    it('rejects more files than the entry limit', async () => {
+      const archive = await build(
+        Array.from({ length: 4 }, (_, i) => ({
+          name: `notes/file${i}.js`,
+          content: 'x',
+        })),
+      );
+
+      await expect(
+        readArchive(archive, { ...OPTIONS, maxEntries: 3 }),
+      ).rejects.toThrow('Archive has more than 3 files');
+      await expect(
+        readArchive(archive, { ...OPTIONS, maxEntries: 4 }),
+      ).resolves.toBeDefined();
+    });
+
+    it('rejects archives that unpack past the size limit', async () => {
+      const archive = await build([
+        { name: 'notes/a.js', content: 'a'.repeat(600 * 1024) },
+        // Counted even though its content is never read
+        { name: 'notes/b.png', content: 'b'.repeat(600 * 1024) },
+      ]);
+
+      await expect(readArchive(archive, OPTIONS)).rejects.toThrow(
+        'Archive unpacks to more than 1MB',
+      );
+    });
+  });
+
+  it('rejects a corrupt archive', async () => {
+    const archive = zipArchive(project).subarray(0, 60);
+
+    await expect(readArchive(archive, OPTIONS)).rejects.toThrow(
+      InvalidArchiveError,
+    );
+  });
+});
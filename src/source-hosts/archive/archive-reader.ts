@@ -0,0 +1,167 @@
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { createGunzip } from 'zlib';
+import * as tar from 'tar-stream';
+import * as yauzl from 'yauzl';
+import { InvalidArchiveError } from '../source-host.errors';
+
+export type ArchiveFormat = 'zip' | 'tar' | 'tar.gz';
+
+export interface ArchiveEntry {
+  path: string; // As stored in the archive, without a leading ./
+  size: number; // Unpacked bytes
+  content: Buffer | null; // Only read for entries accepted by options.accept
+}
+
+export interface ArchiveReadOptions {
+  maxEntries: number; // Files in the archive, read or not
+  maxUnpackedSize: number; // Sum of all file sizes, stops archive bombs early
+  accept: (path: string, size: number) => boolean; // Files to read the content of
+}
+
+export interface ArchiveContents {
+  format: ArchiveFormat;
+  entries: ArchiveEntry[]; // Regular files only (no directories or links)
+}
+
+// Unix file type bits of a zip entry made on a Unix system
+const ZIP_FILE_TYPE_MASK = 0o170000;
+const ZIP_SYMLINK = 0o120000;
+
+/**
+ * Archive format from its leading bytes; the uploaded file name isn't trusted
+ */
+export function detectArchiveFormat(data: Buffer): ArchiveFormat | null {
+  if (data.length >= 4 && data.readUInt32LE(0) === 0x04034b50) return 'zip';
+  if (data.length >= 2 && data[0] === 0x1f && data[1] === 0x8b) {
+    return 'tar.gz';
+  }
+  if (data.length >= 262 && data.toString('latin1', 257, 262) === 'ustar') {
+    return 'tar';
+  }
+  return null;
+}
+
+/**
+ * List the files of a zip, tar or tar.gz archive held in memory
+ * Nothing is written to disk; limits are enforced while reading so an
+ * oversized archive is rejected before it is fully unpacked
+ * @throws InvalidArchiveError for unknown formats, corrupt archives, unsafe
+ * paths and archives over the limits
+ */
+export async function readArchive(
+  data: Buffer,
+  options: ArchiveReadOptions,
+): Promise<ArchiveContents> {
+  const format = detectArchiveFormat(data);
+  if (!format) {
+    throw new InvalidArchiveError(
+      'Unsupported archive format. Upload a .zip, .tar or .tar.gz file.',
+    );
+  }
+
+  const entries: ArchiveEntry[] = [];
+  let unpackedSize = 0;
+
+  // Counts every file against the limits, returns whether to read it
+  const register = (path: string, size: number): boolean => {
+    unpackedSize += size;
+    if (entries.length >= options.maxEntries) {
+      throw new InvalidArchiveError(
+        `Archive has more than ${options.maxEntries} files`,
+      );
+    }
+    if (unpackedSize > options.maxUnpackedSize) {
+      throw new InvalidArchiveError(
+        `Archive unpacks to more than ${Math.round(options.maxUnpackedSize / 1024 / 1024)}MB`,
+      );
+    }
+    return options.accept(path, size);
+  };
+
+  try {
+    if (format === 'zip') {
+      await readZip(data, register, entries);
+    } else {
+      await readTar(data, format === 'tar.gz', register, entries);
+    }
+  } catch (error: unknown) {
+    if (error instanceof InvalidArchiveError) throw error;
+    throw new InvalidArchiveError(
+      `Archive could not be unpacked: ${(error as Error).message}`,
+    );
+  }
+
+  return { format, entries };
+}
+
+async function readZip(
+  data: Buffer,
+  register: (path: string, size: number) => boolean,
+  entries: ArchiveEntry[],
+): Promise<void> {
+  // yauzl rejects absolute and ../ names, and checks that each entry
+  // unpacks to the size its header declares
+  const zipfile = await yauzl.fromBufferPromise(data, {
+    lazyEntries: true,
+    validateEntrySizes: true,
+  });
+
+  for await (const entry of zipfile.eachEntry()) {
+    if (entry.fileName.endsWith('/')) continue;
+
+    const fileType = (entry.externalFileAttributes >>> 16) & ZIP_FILE_TYPE_MASK;
+    if (fileType === ZIP_SYMLINK) continue;
+
+    const path = entry.fileName.replace(/^\.\//, '');
+    const content = register(path, entry.uncompressedSize)
+      ? await readStream(await zipfile.openReadStreamPromise(entry))
+      : null;
+
+    entries.push({ path, size: entry.uncompressedSize, content });
+  }
+}
+
+async function readTar(
+  data: Buffer,
+  gzipped: boolean,
+  register: (path: string, size: number) => boolean,
+  entries: ArchiveEntry[],
+): Promise<void> {
+  const extract = tar.extract();
+  const piping = pipeline(
+    gzipped
+      ? [Readable.from([data]), createGunzip(), extract]
+      : [Readable.from([data]), extract],
+  );
+  // Surfaces through the loop below when the archive is corrupt
+  piping.catch(() => undefined);
+
+  for await (const entry of extract) {
+    const { name, type, size = 0 } = entry.header;
+    if (type !== 'file' && type !== 'contiguous-file') {
+      entry.resume();
+      continue;
+    }
+
+    const path = name.replace(/^\.\//, '');
+    if (path.startsWith('/') || path.split('/').includes('..')) {
+      throw new InvalidArchiveError(`Archive contains an unsafe path: ${name}`);
+    }
+
+    const content = register(path, size) ? await readStream(entry) : null;
+    if (!content) entry.resume();
+
+    entries.push({ path, size, content });
+  }
+
+  await piping;
+}
+
+async function readStream(stream: AsyncIterable<unknown>): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+}
@@ -0,0 +1,42 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ArchiveStorage } from './archive-storage.interface';
+import { DiskArchiveStorage } from './disk-archive.storage';
+import { S3ArchiveStorage } from './s3-archive.storage';
+
+const DEFAULT_ARCHIVE_STORAGE_DIR = 'storage/archives';
+
+/**
+ * Build the storage selected by ARCHIVE_STORAGE (disk by default)
+ */
+export function createArchiveStorage(config: ConfigService): ArchiveStorage {
+  const logger = new Logger('ArchiveStorage');
+  const storageName = config.get<string>('ARCHIVE_STORAGE') || 'disk';
+
+  let storage: ArchiveStorage;
+  switch (storageName) {
+    case 'disk':
+      storage = new DiskArchiveStorage(
+        config.get<string>('ARCHIVE_STORAGE_DIR') ||
+          DEFAULT_ARCHIVE_STORAGE_DIR,
+      );
+      break;
+    case 's3':
+      storage = new S3ArchiveStorage({
+        bucket: config.getOrThrow<string>('ARCHIVE_S3_BUCKET'),
+        region: config.get<string>('ARCHIVE_S3_REGION') || 'us-east-1',
+        endpoint: config.get<string>('ARCHIVE_S3_ENDPOINT') || undefined,
+        accessKeyId: config.get<string>('ARCHIVE_S3_ACCESS_KEY_ID'),
+        secretAccessKey: config.get<string>('ARCHIVE_S3_SECRET_ACCESS_KEY'),
+      });
+      break;
+    default:
+      throw new Error(
+        `Unknown ARCHIVE_STORAGE "${storageName}" (expected disk or s3)`,
+      );
+  }
+
+  logger.log(`Using archive storage: ${storage.name}`);
+
+  return storage;
+}
@@ -0,0 +1,18 @@
+/**
+ * Injection token for the active ArchiveStorage
+ */
+export const ARCHIVE_STORAGE = Symbol('ARCHIVE_STORAGE');
+
+/**
+ * Where uploaded project archives are kept
+ * Keys are generated by ArchiveService and contain only [\w/.-]
+ */
+export interface ArchiveStorage {
+  readonly name: string;
+  put(key: string, data: Buffer): Promise<void>;
+  /**
+   * @returns null when nothing is stored under the key
+   */
+  get(key: string): Promise<Buffer | null>;
+  delete(key: string): Promise<void>;
+}
@@ -0,0 +1,42 @@
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import { dirname, join, resolve } from 'path';
+import { ArchiveStorage } from './archive-storage.interface';
+
+/**
+ * Local directory, for single-instance deployments and development
+ */
+export class DiskArchiveStorage implements ArchiveStorage {
+  readonly name = 'disk';
+  private readonly root: string;
+
+  constructor(directory: string) {
+    this.root = resolve(directory);
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const path = this.resolveKey(key);
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, data);
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      return await readFile(this.resolveKey(key));
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.resolveKey(key), { force: true });
+  }
+
+  private resolveKey(key: string): string {
+    const path = join(this.root, key);
+    if (!path.startsWith(`${this.root}/`)) {
+      throw new Error(`Invalid archive key "${key}"`);
+    }
+    return path;
+  }
+}
@@ -0,0 +1,5 @@
+export * from './archive-storage.interface';
+export * from './archive-storage.factory';
+export * from './disk-archive.storage';
+export * from './s3-archive.storage';
+export * from './archive-reader';
@@ -0,0 +1,70 @@
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  NoSuchKey,
+  PutObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3';
+import { ArchiveStorage } from './archive-storage.interface';
+
+export interface S3ArchiveStorageOptions {
+  bucket: string;
+  region: string;
+  endpoint?: string; // S3-compatible stores (MinIO, R2...); AWS if omitted
+  accessKeyId?: string; // Default AWS credential chain if omitted
+  secretAccessKey?: string;
+}
+
+/**
+ * Amazon S3 or any S3-compatible object store
+ */
+export class S3ArchiveStorage implements ArchiveStorage {
+  readonly name = 's3';
+  private readonly client: S3Client;
+
+  constructor(private readonly options: S3ArchiveStorageOptions) {
+    this.client = new S3Client({
+      region: options.region,
+      endpoint: options.endpoint,
+      // Most S3-compatible stores don't support bucket subdomains
+      forcePathStyle: !!options.endpoint,
+      credentials:
+        options.accessKeyId && options.secretAccessKey
+          ? {
+              accessKeyId: options.accessKeyId,
+              secretAccessKey: options.secretAccessKey,
+            }
+          : undefined,
+    });
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    await this.client.send(
+      new PutObjectCommand({
+        Bucket: this.options.bucket,
+        Key: key,
+        Body: data,
+        ContentType: 'application/octet-stream',
+      }),
+    );
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      const response = await this.client.send(
+        new GetObjectCommand({ Bucket: this.options.bucket, Key: key }),
+      );
+      if (!response.Body) return null;
+      return Buffer.from(await response.Body.transformToByteArray());
+    } catch (error: unknown) {
+      if (error instanceof NoSuchKey) return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(
+      new DeleteObjectCommand({ Bucket: this.options.bucket, Key: key }),
+    );
+  }
+}
@@ -0,0 +1,147 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { GetCurrentUserTableId, Roles } from '../common/decorators';
+import { SourceHostOauthService } from './source-host-oauth.service';
+import {
+  ConnectSourceHostDto,
+  SourceHostAuthorizeUrlResponseDto,
+  SourceHostConnectResponseDto,
+  SourceHostRepositoryListResponseDto,
+  SourceHostStatusResponseDto,
+} from './dto';
+
+@ApiTags('Developer - Bitbucket')
+@ApiBearerAuth()
+@Roles('DEVELOPER')
+@Controller('developer/bitbucket')
+export class BitbucketController {
+  constructor(private oauthService: SourceHostOauthService) {}
+
+  /**
+   * Check if developer has connected Bitbucket
+   */
+  @Get('status')
+  @ApiOperation({ summary: 'Check Bitbucket connection status' })
+  @ApiResponse({
+    status: 200,
+    description: 'Bitbucket connection status',
+    type: SourceHostStatusResponseDto,
+  })
+  async getStatus(
+    @GetCurrentUserTableId() developerId: number,
+  ): Promise<SourceHostStatusResponseDto> {
+    return this.oauthService.getStatus(developerId, 'BITBUCKET');
+  }
+
+  /**
+   * Start the OAuth flow
+   * The frontend redirects the developer to the returned URL
+   */
+  @Get('authorize-url')
+  @ApiOperation({ summary: 'Get the Bitbucket OAuth authorization URL' })
+  @ApiResponse({
+    status: 200,
+    description: 'Authorization URL',
+    type: SourceHostAuthorizeUrlResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bitbucket not configured',
+  })
+  getAuthorizeUrl(
+    @GetCurrentUserTableId() developerId: number,
+  ): SourceHostAuthorizeUrlResponseDto {
+    return {
+      url: this.oauthService.getAuthorizeUrl(developerId, 'BITBUCKET'),
+    };
+  }
+
+  /**
+   * Connect Bitbucket account
+   * Called with the code and state Bitbucket redirected back with
+   */
+  @Post('connect')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Connect Bitbucket account' })
+  @ApiResponse({
+    status: 200,
+    description: 'Account connected successfully',
+    type: SourceHostConnectResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid state or code',
+  })
+  async connect(
+    @GetCurrentUserTableId() developerId: number,
+    @Body() dto: ConnectSourceHostDto,
+  ): Promise<SourceHostConnectResponseDto> {
+    return this.oauthService.connect(
+      developerId,
+      'BITBUCKET',
+      dto.code,
+      dto.state,
+    );
+  }
+
+  /**
+   * Get repositories the developer can push to
+   */
+  @Get('repositories')
+  @ApiOperation({ summary: 'Get Bitbucket repositories' })
+  @ApiResponse({
+    status: 200,
+    description: 'List of repositories',
+    type: SourceHostRepositoryListResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Bitbucket not connected',
+  })
+  async getRepositories(
+    @GetCurrentUserTableId() developerId: number,
+  ): Promise<SourceHostRepositoryListResponseDto> {
+    const repositories = await this.oauthService.listRepositories(
+      developerId,
+      'BITBUCKET',
+    );
+
+    return {
+      repositories,
+      count: repositories.length,
+    };
+  }
+
+  /**
+   * Disconnect Bitbucket
+   */
+  @Post('disconnect')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Disconnect Bitbucket' })
+  @ApiResponse({
+    status: 200,
+    description: 'Bitbucket disconnected',
+  })
+  async disconnect(
+    @GetCurrentUserTableId() developerId: number,
+  ): Promise<{ success: boolean; message: string }> {
+    await this.oauthService.disconnect(developerId, 'BITBUCKET');
+
+    return {
+      success: true,
+      message: 'Bitbucket disconnected successfully',
+    };
+  }
+}
@@ -0,0 +1,147 @@
+import { Logger } from '@nestjs/common';
+import {
+  GithubService,
+  RepoFetchOptions,
+  RepoFetchResult,
+  RepoFile,
+  RepoHistory,
+  RepoValidationResult,
+  ResolvedRef,
+} from '../../github/github.service';
+import { SourceHostClient } from '../source-host.types';
+
+/**
+ * A file of an unpacked archive that passed the ignore rules
+ */
+export interface ArchiveFile {
+  path: string; // Relative to the project root (wrapper directory removed)
+  sha: string; // Git blob SHA of the content, as a repository would report it
+  size: number;
+  content: string;
+}
+
+/**
+ * An uploaded archive, unpacked in memory
+ * No repository backs it: there is no access to check and no history, and
+ * the archive's SHA-256 stands in for the commit SHA
+ */
+export class ArchiveSourceHostClient implements SourceHostClient {
+  // No commits to match an account against
+  readonly accountLogin = '';
+  private readonly logger = new Logger(ArchiveSourceHostClient.name);
+
+  constructor(
+    private readonly archiveName: string,
+    private readonly sha256: string,
+    private readonly files: ArchiveFile[],
+    private readonly allPaths: string[], // Every file, ignored ones included
+    private githubService: GithubService,
+  ) {}
+
+  /**
+   * The developer uploaded the archive themselves
+   */
+  isAuthorized(): Promise<boolean> {
+    return Promise.resolve(true);
+  }
+
+  validateRepository(): Promise<RepoValidationResult> {
+    return Promise.resolve({
+      owner: '',
+      repo: this.archiveName,
+      isPrivate: true,
+      defaultBranch: this.archiveName,
+    });
+  }
+
+  /**
+   * Archives carry no language statistics; the analysis measures them
+   */
+  listRepoLanguages(): Promise<string[]> {
+    return Promise.resolve([]);
+  }
+
+  /**
+   * An archive has a single version: every ref resolves to its content
+   */
+  resolveRef(): Promise<ResolvedRef> {
+    return Promise.resolve({
+      ref: this.archiveName,
+      commitSha: this.sha256,
+      treeSha: this.sha256,
+    });
+  }
+
+  /**
+   * Root paths don't apply to archives, so none are missing
+   */
+  findMissingPaths(): Promise<string[]> {
+    return Promise.resolve([]);
+  }
+
+  /**
+   * Same download order and budget as a repository fetch
+   * Root paths don't apply: an archive project is always the whole upload
+   */
+  fetchRepositoryStructure(
+    options: RepoFetchOptions,
+  ): Promise<RepoFetchResult> {
+    const prioritize =
+      options.prioritize ??
+      ((path: string) => this.githubService.getFilePriority(path));
+    const candidates = [...this.files].sort(
+      (a, b) => prioritize(b.path) - prioritize(a.path),
+    );
+
+    let truncated = false;
+    let budgetUsed = 0;
+    const files: RepoFile[] = [];
+
+    for (const file of candidates) {
+      if (
+        files.length >= options.maxFiles ||
+        budgetUsed + file.size > options.maxContentSize
+      ) {
+        truncated = true;
+        break;
+      }
+
+      budgetUsed += file.size;
+      files.push({
+        name: file.path.split('/').pop()!,
+        path: file.path,
+        type: 'file',
+        size: file.size,
+        content: file.content,
+      });
+    }
+
+    const manifest = candidates.map(({ path, sha, size }) => ({
+      path,
+      sha,
+      size,
+    }));
+
+    this.logger.log(
+      `Read ${files.length}/${manifest.length} files from archive ${this.archiveName}${truncated ? ' (truncated)' : ''}`,
+    );
+
+    return Promise.resolve({
+      files,
+      manifest,
+      commitSha: this.sha256,
+      ref: this.archiveName,
+      totalFiles: manifest.length,
+      truncated,
+      requestCount: 0,
+      rateLimit: null,
+      flaggedPaths: options.flagPath
+        ? this.allPaths.filter(options.flagPath)
+        : [],
+    });
+  }
+
+  fetchCommitHistory(): Promise<RepoHistory> {
+    return Promise.reject(new Error('Archive uploads have no commit history'));
+  }
+}
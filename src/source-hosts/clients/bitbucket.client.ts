@@ -0,0 +1,224 @@
+import {
+  RepoCommit,
+  RepoValidationResult,
+  ResolvedRef,
+} from '../../github/github.service';
+import { SourceHostApiError } from '../source-host.errors';
+import {
+  RestSourceHostClient,
+  SourceHostCommitStats,
+  SourceHostRepoOrigin,
+  SourceHostTree,
+  SourceHostTreeEntry,
+} from './rest-source-host.client';
+
+export const BITBUCKET_API_URL = 'https://api.bitbucket.org/2.0';
+
+const WRITE_PERMISSIONS = ['write', 'admin'];
+// Directory levels listed below the root
+const MAX_TREE_DEPTH = 30;
+// Source pages of 100 entries; bigger repositories are truncated
+const MAX_TREE_PAGES = 100;
+
+interface BitbucketRepository {
+  slug: string;
+  is_private: boolean;
+  language: string;
+  mainbranch: { name: string } | null;
+  parent?: { full_name: string } | null;
+}
+
+interface BitbucketPage<T> {
+  values: T[];
+  next?: string;
+}
+
+interface BitbucketSourceEntry {
+  type: 'commit_file' | 'commit_directory';
+  path: string;
+  size?: number;
+}
+
+interface BitbucketCommit {
+  hash: string;
+  date: string;
+  message: string;
+  author: { raw: string; user?: { nickname: string } };
+}
+
+/**
+ * Bitbucket Cloud through API 2.0
+ */
+export class BitbucketSourceHostClient extends RestSourceHostClient {
+  private get repositoryUrl(): string {
+    return `${BITBUCKET_API_URL}/repositories/${this.location.fullName}`;
+  }
+
+  async isAuthorized(): Promise<boolean> {
+    const query = encodeURIComponent(
+      `repository.full_name="${this.location.fullName}"`,
+    );
+    const { data } = await this.request<BitbucketPage<{ permission: string }>>(
+      `${BITBUCKET_API_URL}/user/permissions/repositories?q=${query}`,
+    );
+
+    return data.values.some((value) =>
+      WRITE_PERMISSIONS.includes(value.permission),
+    );
+  }
+
+  async validateRepository(): Promise<RepoValidationResult> {
+    try {
+      const { data } = await this.request<BitbucketRepository>(
+        this.repositoryUrl,
+      );
+      return {
+        owner: this.location.owner,
+        repo: data.slug,
+        isPrivate: data.is_private,
+        defaultBranch: data.mainbranch?.name ?? 'main',
+      };
+    } catch (error: unknown) {
+      throw this.toValidationError(error);
+    }
+  }
+
+  /**
+   * Bitbucket only records the main language of a repository
+   */
+  async listRepoLanguages(): Promise<string[]> {
+    try {
+      const { data } = await this.request<BitbucketRepository>(
+        this.repositoryUrl,
+      );
+      return data.language ? [data.language] : [];
+    } catch (error: unknown) {
+      this.logger.warn(
+        `Failed to fetch languages for ${this.location.fullName}: ${(error as Error).message}`,
+      );
+      return [];
+    }
+  }
+
+  async resolveRef(ref?: string | null): Promise<ResolvedRef> {
+    let resolvedRef = ref;
+    if (!resolvedRef) {
+      const { data } = await this.request<BitbucketRepository>(
+        this.repositoryUrl,
+      );
+      if (!data.mainbranch) {
+        // Bitbucket's answer for a repository without commits
+        throw new SourceHostApiError(409, 'Git Repository is empty');
+      }
+      resolvedRef = data.mainbranch.name;
+    }
+
+    const { data: commit } = await this.request<BitbucketCommit>(
+      `${this.repositoryUrl}/commit/${encodeURIComponent(resolvedRef)}`,
+    );
+
+    // Bitbucket doesn't expose tree SHAs; the commit pins the tree as well
+    return { ref: resolvedRef, commitSha: commit.hash, treeSha: commit.hash };
+  }
+
+  // ========================================
+  // HOST ENDPOINTS
+  // ========================================
+
+  /**
+   * Bitbucket has no blob SHAs: the file size stands in as the change
+   * signal of the manifest, so same-size edits go unnoticed
+   */
+  protected async listTree(commitSha: string): Promise<SourceHostTree> {
+    const entries: SourceHostTreeEntry[] = [];
+    let url: string | undefined =
+      `${this.repositoryUrl}/src/${commitSha}/?max_depth=${MAX_TREE_DEPTH}&pagelen=100`;
+
+    for (let page = 1; url && page <= MAX_TREE_PAGES; page++) {
+      const { data } =
+        await this.request<BitbucketPage<BitbucketSourceEntry>>(url);
+
+      for (const item of data.values) {
+        if (item.type !== 'commit_file') continue;
+        entries.push({
+          path: item.path,
+          sha: `size:${item.size ?? 0}`,
+          size: item.size ?? null,
+        });
+      }
+
+      url = data.next;
+    }
+
+    return { entries, truncated: !!url };
+  }
+
+  protected async downloadFile(
+    entry: SourceHostTreeEntry,
+    commitSha: string,
+  ): Promise<string> {
+    const path = entry.path.split('/').map(encodeURIComponent).join('/');
+    const { data } = await this.request<string>(
+      `${this.repositoryUrl}/src/${commitSha}/${path}`,
+      'text',
+    );
+    return data;
+  }
+
+  protected async fetchOrigin(): Promise<SourceHostRepoOrigin> {
+    const { data } = await this.request<BitbucketRepository>(
+      this.repositoryUrl,
+    );
+    return {
+      isFork: !!data.parent,
+      forkParent: data.parent?.full_name ?? null,
+      // Bitbucket has no template repositories
+      templateRepository: null,
+    };
+  }
+
+  protected async listCommits(
+    sha: string,
+    page: number,
+    perPage: number,
+  ): Promise<RepoCommit[]> {
+    const { data } = await this.request<BitbucketPage<BitbucketCommit>>(
+      `${this.repositoryUrl}/commits/${sha}?pagelen=${perPage}&page=${page}`,
+    );
+
+    return data.values.map((item) => {
+      // "Name <email>", as written in the commit
+      const match = item.author.raw.match(/^(.*?)\s*<([^>]*)>\s*$/);
+      return {
+        sha: item.hash,
+        authorLogin: item.author.user?.nickname ?? null,
+        authorName: match ? match[1] || null : item.author.raw || null,
+        authorEmail: match ? match[2] || null : null,
+        date: item.date,
+        message: item.message.split('\n')[0],
+        additions: null,
+        deletions: null,
+      };
+    });
+  }
+
+  /**
+   * Sums the first diffstat page (100 files), enough for any commit that
+   * matters to the history signals
+   */
+  protected async fetchCommitStats(
+    sha: string,
+  ): Promise<SourceHostCommitStats> {
+    const { data } = await this.request<
+      BitbucketPage<{ lines_added: number; lines_removed: number }>
+    >(`${this.repositoryUrl}/diffstat/${sha}?pagelen=100`);
+
+    return data.values.reduce<SourceHostCommitStats>(
+      (stats, file) => ({
+        additions: (stats.additions ?? 0) + file.lines_added,
+        deletions: (stats.deletions ?? 0) + file.lines_removed,
+      }),
+      { additions: 0, deletions: 0 },
+    );
+  }
+}
@@ -0,0 +1,78 @@
+import { Octokit } from 'octokit';
+import {
+  GithubService,
+  RepoFetchOptions,
+  RepoFetchResult,
+  RepoHistory,
+  RepoHistoryOptions,
+  RepoValidationResult,
+  ResolvedRef,
+} from '../../github/github.service';
+import { RepoLocation, SourceHostClient } from '../source-host.types';
+
+/**
+ * GitHub through the developer's GitHub App installation
+ * Delegates to GithubService, which predates the other hosts
+ */
+export class GithubSourceHostClient implements SourceHostClient {
+  readonly accountLogin: string;
+  private readonly repoUrl: string;
+
+  constructor(
+    readonly location: RepoLocation,
+    private githubService: GithubService,
+    private octokit: Octokit,
+    private checkAuthorized: () => Promise<boolean>,
+  ) {
+    this.repoUrl = `${location.baseUrl}/${location.fullName}`;
+    // Installations are per account, so the owner is the developer
+    this.accountLogin = location.owner;
+  }
+
+  isAuthorized(): Promise<boolean> {
+    return this.checkAuthorized();
+  }
+
+  validateRepository(): Promise<RepoValidationResult> {
+    return this.githubService.validateRepository(this.octokit, this.repoUrl);
+  }
+
+  listRepoLanguages(): Promise<string[]> {
+    return this.githubService.listRepoLanguages(
+      this.octokit,
+      this.location.owner,
+      this.location.repo,
+    );
+  }
+
+  resolveRef(ref?: string | null): Promise<ResolvedRef> {
+    return this.githubService.resolveRef(this.octokit, this.repoUrl, ref);
+  }
+
+  findMissingPaths(paths: string[], ref?: string | null): Promise<string[]> {
+    return this.githubService.findMissingPaths(
+      this.octokit,
+      this.repoUrl,
+      paths,
+      ref,
+    );
+  }
+
+  fetchRepositoryStructure(
+    options: RepoFetchOptions,
+  ): Promise<RepoFetchResult> {
+    return this.githubService.fetchRepositoryStructure(
+      this.octokit,
+      this.repoUrl,
+      options,
+    );
+  }
+
+  fetchCommitHistory(options: RepoHistoryOptions): Promise<RepoHistory> {
+    return this.githubService.fetchCommitHistory(
+      this.octokit,
+      this.repoUrl,
+      options,
+    );
+  }
+}
@@ -0,0 +1,216 @@
+import {
+  RepoCommit,
+  RepoRateLimit,
+  RepoValidationResult,
+  ResolvedRef,
+} from '../../github/github.service';
+import { SourceHostApiError } from '../source-host.errors';
+import {
+  RestSourceHostClient,
+  SourceHostCommitStats,
+  SourceHostRepoOrigin,
+  SourceHostTree,
+  SourceHostTreeEntry,
+} from './rest-source-host.client';
+
+// Developer role: can push to the repository
+const MIN_ACCESS_LEVEL = 30;
+// Tree pages of 100 entries; bigger repositories are truncated
+const MAX_TREE_PAGES = 100;
+
+interface GitlabProject {
+  path: string;
+  visibility: 'public' | 'internal' | 'private';
+  default_branch: string | null;
+  forked_from_project?: { path_with_namespace: string } | null;
+  permissions?: {
+    project_access: { access_level: number } | null;
+    group_access: { access_level: number } | null;
+  };
+}
+
+interface GitlabTreeItem {
+  id: string; // Blob SHA
+  path: string;
+  type: 'blob' | 'tree' | 'commit';
+}
+
+interface GitlabCommit {
+  id: string;
+  title: string;
+  author_name: string | null;
+  author_email: string | null;
+  authored_date: string;
+  stats?: { additions: number; deletions: number };
+}
+
+/**
+ * GitLab (gitlab.com or self-hosted) through API v4
+ */
+export class GitlabSourceHostClient extends RestSourceHostClient {
+  private get projectUrl(): string {
+    return `${this.location.baseUrl}/api/v4/projects/${encodeURIComponent(this.location.fullName)}`;
+  }
+
+  async isAuthorized(): Promise<boolean> {
+    try {
+      const { data } = await this.request<GitlabProject>(this.projectUrl);
+      const accessLevel = Math.max(
+        data.permissions?.project_access?.access_level ?? 0,
+        data.permissions?.group_access?.access_level ?? 0,
+      );
+      return accessLevel >= MIN_ACCESS_LEVEL;
+    } catch (error: unknown) {
+      if (error instanceof SourceHostApiError && error.status === 404) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  async validateRepository(): Promise<RepoValidationResult> {
+    try {
+      const { data } = await this.request<GitlabProject>(this.projectUrl);
+      return {
+        owner: this.location.owner,
+        repo: data.path,
+        isPrivate: data.visibility !== 'public',
+        defaultBranch: data.default_branch ?? 'main',
+      };
+    } catch (error: unknown) {
+      throw this.toValidationError(error);
+    }
+  }
+
+  async listRepoLanguages(): Promise<string[]> {
+    try {
+      const { data } = await this.request<Record<string, number>>(
+        `${this.projectUrl}/languages`,
+      );
+      return Object.keys(data || {});
+    } catch (error: unknown) {
+      this.logger.warn(
+        `Failed to fetch languages for ${this.location.fullName}: ${(error as Error).message}`,
+      );
+      return [];
+    }
+  }
+
+  async resolveRef(ref?: string | null): Promise<ResolvedRef> {
+    let resolvedRef = ref;
+    if (!resolvedRef) {
+      const { data } = await this.request<GitlabProject>(this.projectUrl);
+      if (!data.default_branch) {
+        // GitLab's answer for a repository without commits
+        throw new SourceHostApiError(409, 'Git Repository is empty');
+      }
+      resolvedRef = data.default_branch;
+    }
+
+    const { data: commit } = await this.request<GitlabCommit>(
+      `${this.projectUrl}/repository/commits/${encodeURIComponent(resolvedRef)}`,
+    );
+
+    // GitLab doesn't expose tree SHAs; the commit pins the tree as well
+    return { ref: resolvedRef, commitSha: commit.id, treeSha: commit.id };
+  }
+
+  // ========================================
+  // HOST ENDPOINTS
+  // ========================================
+
+  /**
+   * Tree entries carry no size: sizes are checked once downloaded
+   */
+  protected async listTree(commitSha: string): Promise<SourceHostTree> {
+    const entries: SourceHostTreeEntry[] = [];
+
+    for (let page = 1; page <= MAX_TREE_PAGES; page++) {
+      const { data, headers } = await this.request<GitlabTreeItem[]>(
+        `${this.projectUrl}/repository/tree?ref=${commitSha}&recursive=true&per_page=100&page=${page}`,
+      );
+
+      for (const item of data) {
+        if (item.type !== 'blob') continue;
+        entries.push({ path: item.path, sha: item.id, size: null });
+      }
+
+      if (!headers.get('x-next-page')) {
+        return { entries, truncated: false };
+      }
+    }
+
+    return { entries, truncated: true };
+  }
+
+  protected async downloadFile(entry: SourceHostTreeEntry): Promise<string> {
+    const { data } = await this.request<string>(
+      `${this.projectUrl}/repository/blobs/${entry.sha}/raw`,
+      'text',
+    );
+    return data;
+  }
+
+  protected async fetchOrigin(): Promise<SourceHostRepoOrigin> {
+    const { data } = await this.request<GitlabProject>(this.projectUrl);
+    return {
+      isFork: !!data.forked_from_project,
+      forkParent: data.forked_from_project?.path_with_namespace ?? null,
+      // GitLab doesn't record which template a project was created from
+      templateRepository: null,
+    };
+  }
+
+  /**
+   * GitLab commits aren't linked to accounts: authors match by email/name
+   */
+  protected async listCommits(
+    sha: string,
+    page: number,
+    perPage: number,
+  ): Promise<RepoCommit[]> {
+    const { data } = await this.request<GitlabCommit[]>(
+      `${this.projectUrl}/repository/commits?ref_name=${sha}&per_page=${perPage}&page=${page}`,
+    );
+
+    return data.map((item) => ({
+      sha: item.id,
+      authorLogin: null,
+      authorName: item.author_name,
+      authorEmail: item.author_email,
+      date: item.authored_date,
+      message: item.title,
+      additions: null,
+      deletions: null,
+    }));
+  }
+
+  protected async fetchCommitStats(
+    sha: string,
+  ): Promise<SourceHostCommitStats> {
+    const { data } = await this.request<GitlabCommit>(
+      `${this.projectUrl}/repository/commits/${sha}`,
+    );
+    return {
+      additions: data.stats?.additions ?? null,
+      deletions: data.stats?.deletions ?? null,
+    };
+  }
+
+  protected parseRateLimit(headers: Headers): RepoRateLimit | null {
+    const limit = Number(headers.get('ratelimit-limit') ?? NaN);
+    const remaining = Number(headers.get('ratelimit-remaining') ?? NaN);
+    const reset = Number(headers.get('ratelimit-reset') ?? NaN);
+
+    if ([limit, remaining, reset].some((value) => Number.isNaN(value))) {
+      return null;
+    }
+
+    return {
+      limit,
+      remaining,
+      used: limit - remaining,
+      resetAt: new Date(reset * 1000),
+    };
+  }
+}
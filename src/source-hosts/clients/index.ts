@@ -0,0 +1,5 @@
+export * from './rest-source-host.client';
+export * from './github.client';
+export * from './gitlab.client';
+export * from './bitbucket.client';
+export * from './archive.client';
@@ -0,0 +1,329 @@
+import { BadRequestException, Logger } from '@nestjs/common';
+import {
+  GithubService,
+  RepoCommit,
+  RepoFetchOptions,
+  RepoFetchResult,
+  RepoFile,
+  RepoHistory,
+  RepoHistoryOptions,
+  RepoRateLimit,
+  RepoValidationResult,
+  ResolvedRef,
+} from '../../github/github.service';
+import { SourceHostApiError } from '../source-host.errors';
+import { requestSourceHost, SourceHostResponse } from '../source-host.http';
+import { RepoLocation, SourceHostClient } from '../source-host.types';
+
+// File downloads in flight at once
+const DOWNLOAD_CONCURRENCY = 8;
+
+export interface SourceHostTreeEntry {
+  path: string;
+  sha: string; // Changes whenever the content changes
+  size: number | null; // Null when the host only reports it on download
+}
+
+export interface SourceHostTree {
+  entries: SourceHostTreeEntry[]; // Files only
+  truncated: boolean; // Listing stopped at the page limit
+}
+
+export interface SourceHostRepoOrigin {
+  isFork: boolean;
+  forkParent: string | null;
+  templateRepository: string | null;
+}
+
+export interface SourceHostCommitStats {
+  additions: number | null;
+  deletions: number | null;
+}
+
+/**
+ * Shared fetch logic of the hosts reached through a REST API with an OAuth
+ * token (GitLab, Bitbucket)
+ * Same ignore rules, download order and budget as GitHub; subclasses only
+ * map the host's endpoints
+ */
+export abstract class RestSourceHostClient implements SourceHostClient {
+  protected readonly logger = new Logger(this.constructor.name);
+  private requestCount = 0;
+  private rateLimit: RepoRateLimit | null = null;
+
+  constructor(
+    readonly location: RepoLocation,
+    readonly accountLogin: string,
+    private accessToken: string,
+    protected githubService: GithubService,
+  ) {}
+
+  abstract isAuthorized(): Promise<boolean>;
+  abstract validateRepository(): Promise<RepoValidationResult>;
+  abstract listRepoLanguages(): Promise<string[]>;
+  abstract resolveRef(ref?: string | null): Promise<ResolvedRef>;
+
+  protected abstract listTree(commitSha: string): Promise<SourceHostTree>;
+  protected abstract downloadFile(
+    entry: SourceHostTreeEntry,
+    commitSha: string,
+  ): Promise<string>;
+  protected abstract fetchOrigin(): Promise<SourceHostRepoOrigin>;
+  /**
+   * One page of history, newest first
+   * @param page - 1-based
+   */
+  protected abstract listCommits(
+    sha: string,
+    page: number,
+    perPage: number,
+  ): Promise<RepoCommit[]>;
+  protected abstract fetchCommitStats(
+    sha: string,
+  ): Promise<SourceHostCommitStats>;
+
+  /**
+   * Directories among the given paths with no file under them at a ref
+   * Paths past a truncated tree listing can't be checked and count as found
+   */
+  async findMissingPaths(
+    paths: string[],
+    ref?: string | null,
+  ): Promise<string[]> {
+    if (paths.length === 0) return [];
+
+    const { commitSha } = await this.resolveRef(ref);
+    const tree = await this.listTree(commitSha);
+
+    if (tree.truncated) return [];
+
+    return paths.filter(
+      (path) =>
+        !tree.entries.some((entry) => entry.path.startsWith(`${path}/`)),
+    );
+  }
+
+  /**
+   * Fetch the code of the repository at one commit
+   * Lists the whole tree, applies the ignore rules, then downloads files in
+   * priority order until the content budget is used up
+   */
+  async fetchRepositoryStructure(
+    options: RepoFetchOptions,
+  ): Promise<RepoFetchResult> {
+    const startCount = this.requestCount;
+
+    // Pin the fetch to one commit so the manifest matches what was analyzed
+    const resolved = await this.resolveRef(options.ref);
+    const commitSha = resolved.commitSha;
+    const relativePath = (path: string) =>
+      this.githubService.getRootRelativePath(path, options.rootPaths);
+    const prioritize =
+      options.prioritize ??
+      ((path: string) =>
+        this.githubService.getFilePriority(relativePath(path)));
+
+    const tree = await this.listTree(commitSha);
+    const entries = tree.entries.filter((entry) =>
+      this.githubService.isInRootPaths(entry.path, options.rootPaths),
+    );
+    const flaggedPaths = options.flagPath
+      ? entries.map((entry) => entry.path).filter(options.flagPath)
+      : [];
+
+    // Unknown sizes pass here and are checked once downloaded
+    const candidates = entries
+      .filter((entry) =>
+        this.githubService.isIncludedPath(
+          relativePath(entry.path),
+          entry.size ?? 0,
+        ),
+      )
+      .sort((a, b) => prioritize(b.path) - prioritize(a.path));
+
+    let truncated = tree.truncated;
+    let budgetExhausted = false;
+    let budgetUsed = 0;
+    const files: RepoFile[] = [];
+    const sizes = new Map<string, number>();
+    const oversized = new Set<string>();
+
+    // Without sizes up front the budget is checked after each batch, so at
+    // most one batch of downloads is wasted
+    for (
+      let i = 0;
+      i < candidates.length && !budgetExhausted;
+      i += DOWNLOAD_CONCURRENCY
+    ) {
+      const batch = candidates.slice(i, i + DOWNLOAD_CONCURRENCY);
+      const contents = await Promise.all(
+        batch.map((entry) => this.tryDownloadFile(entry, commitSha)),
+      );
+
+      for (const [index, entry] of batch.entries()) {
+        const content = contents[index];
+        if (content === null) continue;
+
+        const size = Buffer.byteLength(content, 'utf-8');
+        sizes.set(entry.path, size);
+
+        if (
+          !this.githubService.isIncludedPath(relativePath(entry.path), size)
+        ) {
+          oversized.add(entry.path);
+          continue;
+        }
+        if (
+          files.length >= options.maxFiles ||
+          budgetUsed + size > options.maxContentSize
+        ) {
+          truncated = true;
+          budgetExhausted = true;
+          break;
+        }
+
+        budgetUsed += size;
+        files.push({
+          name: entry.path.split('/').pop()!,
+          path: entry.path,
+          type: 'file',
+          size,
+          content,
+        });
+      }
+    }
+
+    const manifest = candidates
+      .filter((entry) => !oversized.has(entry.path))
+      .map((entry) => ({
+        path: entry.path,
+        sha: entry.sha,
+        size: sizes.get(entry.path) ?? entry.size ?? 0,
+      }));
+    const requestCount = this.requestCount - startCount;
+
+    this.logger.log(
+      `Fetched ${files.length}/${manifest.length} files from ${this.location.fullName}@${commitSha.slice(0, 7)} in ${requestCount} requests${truncated ? ' (truncated)' : ''}`,
+    );
+
+    return {
+      files,
+      manifest,
+      commitSha,
+      ref: resolved.ref,
+      totalFiles: manifest.length,
+      truncated,
+      requestCount,
+      rateLimit: this.rateLimit,
+      flaggedPaths,
+    };
+  }
+
+  /**
+   * Fetch commit history and origin of the repository
+   * Line stats are only fetched for a sample, as for GitHub
+   */
+  async fetchCommitHistory(options: RepoHistoryOptions): Promise<RepoHistory> {
+    const startCount = this.requestCount;
+    const origin = await this.fetchOrigin();
+
+    const commits: RepoCommit[] = [];
+    let truncated = false;
+    const perPage = Math.min(100, options.maxCommits);
+
+    for (let page = 1; commits.length < options.maxCommits; page++) {
+      const pageCommits = await this.listCommits(options.sha, page, perPage);
+      commits.push(...pageCommits);
+
+      if (pageCommits.length < perPage) break;
+      if (commits.length >= options.maxCommits) {
+        truncated = true;
+        break;
+      }
+    }
+
+    const commitsToDetail = this.githubService.pickCommitSample(
+      commits,
+      options.detailedCommits,
+    );
+
+    for (const commit of commitsToDetail) {
+      try {
+        const stats = await this.fetchCommitStats(commit.sha);
+        commit.additions = stats.additions;
+        commit.deletions = stats.deletions;
+      } catch (error: unknown) {
+        this.logger.warn(
+          `Failed to fetch stats for ${this.location.fullName}@${commit.sha.slice(0, 7)}: ${(error as Error).message}`,
+        );
+      }
+    }
+
+    const requestCount = this.requestCount - startCount;
+    this.logger.log(
+      `Fetched ${commits.length} commits (${commitsToDetail.length} detailed) from ${this.location.fullName} in ${requestCount} requests${truncated ? ' (truncated)' : ''}`,
+    );
+
+    return { ...origin, commits, truncated, requestCount };
+  }
+
+  // ========================================
+  // PROTECTED HELPER METHODS
+  // ========================================
+
+  /**
+   * Authenticated API call, counted towards the fetch's request total
+   */
+  protected async request<T>(
+    url: string,
+    as: 'json' | 'text' = 'json',
+  ): Promise<SourceHostResponse<T>> {
+    this.requestCount++;
+    const response = await requestSourceHost<T>(url, this.accessToken, as);
+    this.rateLimit = this.parseRateLimit(response.headers) ?? this.rateLimit;
+    return response;
+  }
+
+  /**
+   * Rate limit headers, for hosts that send them
+   */
+  protected parseRateLimit(_headers: Headers): RepoRateLimit | null {
+    return null;
+  }
+
+  /**
+   * Same errors as GithubService.validateRepository
+   */
+  protected toValidationError(error: unknown): BadRequestException {
+    if (
+      error instanceof SourceHostApiError &&
+      (error.status === 403 || error.status === 404)
+    ) {
+      return new BadRequestException(
+        'Repository not found or not accessible. Please ensure you have authorized access to this repository.',
+      );
+    }
+    this.logger.error(
+      `Failed to validate repository: ${(error as Error).message}`,
+    );
+    return new BadRequestException('Failed to validate repository');
+  }
+
+  // ========================================
+  // PRIVATE HELPER METHODS
+  // ========================================
+
+  private async tryDownloadFile(
+    entry: SourceHostTreeEntry,
+    commitSha: string,
+  ): Promise<string | null> {
+    try {
+      return await this.downloadFile(entry, commitSha);
+    } catch (error: unknown) {
+      this.logger.warn(
+        `Failed to fetch ${this.location.fullName}:${entry.path}: ${(error as Error).message}`,
+      );
+      return null;
+    }
+  }
+}
@@ -0,0 +1,30 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsString, IsNotEmpty, IsOptional, IsUrl } from 'class-validator';
+
+export class ConnectSourceHostDto {
+  @ApiProperty({
+    description: 'Authorization code from the OAuth callback',
+    example: 'a1b2c3d4e5',
+  })
+  @IsString()
+  @IsNotEmpty()
+  code: string;
+
+  @ApiProperty({
+    description: 'State parameter from the OAuth callback',
+  })
+  @IsString()
+  @IsNotEmpty()
+  state: string;
+}
+
+export class GitlabAuthorizeQueryDto {
+  @ApiPropertyOptional({
+    description:
+      'GitLab instance to connect (defaults to gitlab.com; the configured self-hosted instance otherwise)',
+    example: 'https://gitlab.example.com',
+  })
+  @IsOptional()
+  @IsUrl({ protocols: ['https'], require_protocol: true })
+  baseUrl?: string;
+}
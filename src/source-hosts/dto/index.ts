@@ -0,0 +1,2 @@
+export * from './connect-source-host.dto';
+export * from './source-host-response.dto';
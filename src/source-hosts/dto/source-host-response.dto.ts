@@ -0,0 +1,109 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class SourceHostAuthorizeUrlResponseDto {
+  @ApiProperty({
+    description: 'URL of the consent screen to redirect the developer to',
+    example: 'https://gitlab.com/oauth/authorize?client_id=...',
+  })
+  url: string;
+}
+
+export class SourceHostStatusResponseDto {
+  @ApiProperty({
+    description: 'Whether the developer has connected their account',
+    example: true,
+  })
+  isConnected: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Connected account username',
+    example: 'username',
+  })
+  username?: string;
+
+  @ApiPropertyOptional({
+    description: 'Instance the account belongs to',
+    example: 'https://gitlab.com',
+  })
+  baseUrl?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Whether the host revoked access and the account must be reconnected before analyses can run',
+    example: false,
+  })
+  needsReconnect?: boolean;
+}
+
+export class SourceHostConnectResponseDto {
+  @ApiProperty({
+    description: 'Whether the operation was successful',
+    example: true,
+  })
+  success: boolean;
+
+  @ApiProperty({
+    description: 'Status message',
+    example: 'GitLab account username connected successfully',
+  })
+  message: string;
+
+  @ApiProperty({
+    description: 'Connected account username',
+    example: 'username',
+  })
+  username: string;
+}
+
+export class SourceHostRepositoryResponseDto {
+  @ApiProperty({
+    description: 'Repository ID on the host',
+    example: '123456',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'Repository name',
+    example: 'my-project',
+  })
+  name: string;
+
+  @ApiProperty({
+    description: 'Full repository path (owner/repo, GitLab groups included)',
+    example: 'username/my-project',
+  })
+  fullName: string;
+
+  @ApiProperty({
+    description: 'Repository URL',
+    example: 'https://gitlab.com/username/my-project',
+  })
+  url: string;
+
+  @ApiProperty({
+    description: 'Whether the repository is private',
+    example: false,
+  })
+  isPrivate: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Repository description',
+    example: 'My awesome project',
+    nullable: true,
+  })
+  description: string | null;
+}
+
+export class SourceHostRepositoryListResponseDto {
+  @ApiProperty({
+    description: 'Repositories the developer can push to',
+    type: [SourceHostRepositoryResponseDto],
+  })
+  repositories: SourceHostRepositoryResponseDto[];
+
+  @ApiProperty({
+    description: 'Total count of repositories',
+    example: 5,
+  })
+  count: number;
+}
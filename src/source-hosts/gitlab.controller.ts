@@ -0,0 +1,154 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Query,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { GetCurrentUserTableId, Roles } from '../common/decorators';
+import { SourceHostOauthService } from './source-host-oauth.service';
+import {
+  ConnectSourceHostDto,
+  GitlabAuthorizeQueryDto,
+  SourceHostAuthorizeUrlResponseDto,
+  SourceHostConnectResponseDto,
+  SourceHostRepositoryListResponseDto,
+  SourceHostStatusResponseDto,
+} from './dto';
+
+@ApiTags('Developer - GitLab')
+@ApiBearerAuth()
+@Roles('DEVELOPER')
+@Controller('developer/gitlab')
+export class GitlabController {
+  constructor(private oauthService: SourceHostOauthService) {}
+
+  /**
+   * Check if developer has connected GitLab
+   */
+  @Get('status')
+  @ApiOperation({ summary: 'Check GitLab connection status' })
+  @ApiResponse({
+    status: 200,
+    description: 'GitLab connection status',
+    type: SourceHostStatusResponseDto,
+  })
+  async getStatus(
+    @GetCurrentUserTableId() developerId: number,
+  ): Promise<SourceHostStatusResponseDto> {
+    return this.oauthService.getStatus(developerId, 'GITLAB');
+  }
+
+  /**
+   * Start the OAuth flow
+   * The frontend redirects the developer to the returned URL
+   */
+  @Get('authorize-url')
+  @ApiOperation({ summary: 'Get the GitLab OAuth authorization URL' })
+  @ApiResponse({
+    status: 200,
+    description: 'Authorization URL',
+    type: SourceHostAuthorizeUrlResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'GitLab instance not supported or not configured',
+  })
+  getAuthorizeUrl(
+    @GetCurrentUserTableId() developerId: number,
+    @Query() query: GitlabAuthorizeQueryDto,
+  ): SourceHostAuthorizeUrlResponseDto {
+    return {
+      url: this.oauthService.getAuthorizeUrl(
+        developerId,
+        'GITLAB',
+        query.baseUrl,
+      ),
+    };
+  }
+
+  /**
+   * Connect GitLab account
+   * Called with the code and state GitLab redirected back with
+   */
+  @Post('connect')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Connect GitLab account' })
+  @ApiResponse({
+    status: 200,
+    description: 'Account connected successfully',
+    type: SourceHostConnectResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid state or code',
+  })
+  async connect(
+    @GetCurrentUserTableId() developerId: number,
+    @Body() dto: ConnectSourceHostDto,
+  ): Promise<SourceHostConnectResponseDto> {
+    return this.oauthService.connect(
+      developerId,
+      'GITLAB',
+      dto.code,
+      dto.state,
+    );
+  }
+
+  /**
+   * Get repositories the developer can push to
+   */
+  @Get('repositories')
+  @ApiOperation({ summary: 'Get GitLab repositories' })
+  @ApiResponse({
+    status: 200,
+    description: 'List of repositories',
+    type: SourceHostRepositoryListResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'GitLab not connected',
+  })
+  async getRepositories(
+    @GetCurrentUserTableId() developerId: number,
+  ): Promise<SourceHostRepositoryListResponseDto> {
+    const repositories = await this.oauthService.listRepositories(
+      developerId,
+      'GITLAB',
+    );
+
+    return {
+      repositories,
+      count: repositories.length,
+    };
+  }
+
+  /**
+   * Disconnect GitLab
+   */
+  @Post('disconnect')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Disconnect GitLab' })
+  @ApiResponse({
+    status: 200,
+    description: 'GitLab disconnected',
+  })
+  async disconnect(
+    @GetCurrentUserTableId() developerId: number,
+  ): Promise<{ success: boolean; message: string }> {
+    await this.oauthService.disconnect(developerId, 'GITLAB');
+
+    return {
+      success: true,
+      message: 'GitLab disconnected successfully',
+    };
+  }
+}
@@ -0,0 +1,9 @@
+export * from './source-hosts.module';
+export * from './source-host.service';
+export * from './source-host-oauth.service';
+export * from './archive.service';
+export * from './source-host.errors';
+export * from './source-host.types';
+export * from './clients';
+export * from './archive';
+export * from './dto';
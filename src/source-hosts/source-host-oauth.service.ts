@@ -0,0 +1,518 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as jwt from 'jsonwebtoken';
+import { PrismaService } from '../prisma/prisma.service';
+import { EncryptionService } from '../encryption/encryption.service';
+import { SourceHostConnection } from '../../prisma/generated/prisma';
+import { BITBUCKET_API_URL } from './clients/bitbucket.client';
+import { SourceHostApiError } from './source-host.errors';
+import { requestSourceHost } from './source-host.http';
+import {
+  OauthSourceHost,
+  SOURCE_HOST_LABELS,
+  SourceHostOauthApp,
+  SourceHostOauthTokens,
+  SourceHostRepositoryInfo,
+} from './source-host.types';
+
+export const GITLAB_URL = 'https://gitlab.com';
+const BITBUCKET_URL = 'https://bitbucket.org';
+
+// Time for the developer to authorize the app on the host
+const STATE_EXPIRATION = '10m';
+// Refresh access tokens this long before they expire
+const TOKEN_REFRESH_BUFFER_MS = 5 * 60 * 1000;
+
+interface OauthState {
+  developerId: number;
+  host: OauthSourceHost;
+  baseUrl: string;
+}
+
+interface OauthTokenResponse {
+  access_token: string;
+  refresh_token?: string;
+  expires_in?: number; // Seconds
+}
+
+interface GitlabUser {
+  id: number;
+  username: string;
+}
+
+interface BitbucketUser {
+  uuid: string;
+  nickname: string;
+}
+
+interface GitlabProjectSummary {
+  id: number;
+  name: string;
+  path_with_namespace: string;
+  web_url: string;
+  visibility: 'public' | 'internal' | 'private';
+  description: string | null;
+}
+
+interface BitbucketRepositorySummary {
+  uuid: string;
+  name: string;
+  full_name: string;
+  is_private: boolean;
+  description: string;
+  links: { html: { href: string } };
+}
+
+/**
+ * OAuth connections to GitLab (gitlab.com or one self-hosted instance) and
+ * Bitbucket Cloud, the counterpart of the GitHub App installation
+ * One connection per host and developer; tokens are stored encrypted
+ */
+@Injectable()
+export class SourceHostOauthService {
+  private readonly logger = new Logger(SourceHostOauthService.name);
+
+  constructor(
+    private config: ConfigService,
+    private prisma: PrismaService,
+    private encryptionService: EncryptionService,
+  ) {}
+
+  /**
+   * URL of the host's consent screen
+   * @param baseUrl - GitLab instance (defaults to gitlab.com)
+   */
+  getAuthorizeUrl(
+    developerId: number,
+    host: OauthSourceHost,
+    baseUrl?: string,
+  ): string {
+    const app = this.getOauthApp(host, baseUrl);
+    const state = jwt.sign(
+      { developerId, host, baseUrl: app.baseUrl } satisfies OauthState,
+      app.clientSecret,
+      { expiresIn: STATE_EXPIRATION },
+    );
+
+    const params = new URLSearchParams({
+      client_id: app.clientId,
+      response_type: 'code',
+      state,
+      redirect_uri: this.getRedirectUri(host),
+    });
+
+    if (host === 'GITLAB') {
+      params.set('scope', 'read_api read_user');
+      return `${app.baseUrl}/oauth/authorize?${params}`;
+    }
+
+    // Bitbucket scopes are set on the OAuth consumer
+    return `${BITBUCKET_URL}/site/oauth2/authorize?${params}`;
+  }
+
+  /**
+   * Finish the OAuth flow: exchange the code and store the connection
+   * Called after the developer authorized the app on the host
+   */
+  async connect(
+    developerId: number,
+    host: OauthSourceHost,
+    code: string,
+    state: string,
+  ): Promise<{ success: boolean; message: string; username: string }> {
+    const app = this.verifyState(developerId, host, state);
+    const tokens = await this.requestTokens(app, {
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: this.getRedirectUri(host),
+    });
+
+    const account = await this.fetchAccount(app, tokens.accessToken);
+    const data = {
+      baseUrl: app.baseUrl,
+      accountId: account.id,
+      username: account.username,
+      accessTokenEncrypted: this.encryptionService.encrypt(tokens.accessToken),
+      refreshTokenEncrypted: tokens.refreshToken
+        ? this.encryptionService.encrypt(tokens.refreshToken)
+        : null,
+      tokenExpiresAt: tokens.expiresAt,
+      reconnectRequiredAt: null,
+    };
+
+    await this.prisma.sourceHostConnection.upsert({
+      where: { developerId_host: { developerId, host } },
+      create: { developerId, host, ...data },
+      update: data,
+    });
+
+    this.logger.log(
+      `Connected ${SOURCE_HOST_LABELS[host]} account ${account.username} for developer ${developerId}`,
+    );
+
+    return {
+      success: true,
+      message: `${SOURCE_HOST_LABELS[host]} account ${account.username} connected successfully`,
+      username: account.username,
+    };
+  }
+
+  async getConnection(
+    developerId: number,
+    host: OauthSourceHost,
+  ): Promise<SourceHostConnection | null> {
+    return this.prisma.sourceHostConnection.findUnique({
+      where: { developerId_host: { developerId, host } },
+    });
+  }
+
+  /**
+   * Connection state shown in the developer's settings
+   */
+  async getStatus(
+    developerId: number,
+    host: OauthSourceHost,
+  ): Promise<{
+    isConnected: boolean;
+    username?: string;
+    baseUrl?: string;
+    needsReconnect?: boolean;
+  }> {
+    const connection = await this.getConnection(developerId, host);
+
+    if (!connection) {
+      return { isConnected: false };
+    }
+
+    return {
+      isConnected: true,
+      username: connection.username,
+      baseUrl: connection.baseUrl,
+      needsReconnect: connection.reconnectRequiredAt !== null,
+    };
+  }
+
+  /**
+   * Remove the connection to a host
+   * Also removes that host's projects with PENDING or FAILED status
+   */
+  async disconnect(developerId: number, host: OauthSourceHost): Promise<void> {
+    const projectsToDelete = await this.prisma.technicalProject.findMany({
+      where: {
+        developerId,
+        sourceHost: host,
+        OR: [
+          { analysis: null },
+          { analysis: { status: { in: ['PENDING', 'FAILED'] } } },
+        ],
+      },
+      select: { id: true, name: true },
+    });
+
+    if (projectsToDelete.length > 0) {
+      await this.prisma.technicalProject.deleteMany({
+        where: { id: { in: projectsToDelete.map((p) => p.id) } },
+      });
+
+      this.logger.log(
+        `Deleted ${projectsToDelete.length} pending/failed projects for developer ${developerId}: ${projectsToDelete.map((p) => p.name).join(', ')}`,
+      );
+    }
+
+    await this.prisma.sourceHostConnection.deleteMany({
+      where: { developerId, host },
+    });
+
+    this.logger.log(
+      `Removed ${SOURCE_HOST_LABELS[host]} connection for developer ${developerId}`,
+    );
+  }
+
+  /**
+   * Repositories the developer can push to, most recently active first
+   * (first 100; others can still be added by URL)
+   */
+  async listRepositories(
+    developerId: number,
+    host: OauthSourceHost,
+  ): Promise<SourceHostRepositoryInfo[]> {
+    const connection = await this.getConnection(developerId, host);
+    const accessToken = connection
+      ? await this.getAccessToken(connection)
+      : null;
+
+    if (!connection || !accessToken) {
+      throw new UnauthorizedException(
+        `${SOURCE_HOST_LABELS[host]} not connected. Please connect your ${SOURCE_HOST_LABELS[host]} account first.`,
+      );
+    }
+
+    if (host === 'GITLAB') {
+      const { data } = await requestSourceHost<GitlabProjectSummary[]>(
+        `${connection.baseUrl}/api/v4/projects?membership=true&min_access_level=30&order_by=last_activity_at&per_page=100`,
+        accessToken,
+      );
+      return data.map((project) => ({
+        id: String(project.id),
+        name: project.name,
+        fullName: project.path_with_namespace,
+        url: project.web_url,
+        isPrivate: project.visibility !== 'public',
+        description: project.description || null,
+      }));
+    }
+
+    const { data } = await requestSourceHost<{
+      values: BitbucketRepositorySummary[];
+    }>(
+      `${BITBUCKET_API_URL}/repositories?role=contributor&sort=-updated_on&pagelen=100`,
+      accessToken,
+    );
+    return data.values.map((repo) => ({
+      id: repo.uuid,
+      name: repo.name,
+      fullName: repo.full_name,
+      url: repo.links.html.href,
+      isPrivate: repo.is_private,
+      description: repo.description || null,
+    }));
+  }
+
+  /**
+   * Decrypted access token of a connection, refreshed when about to expire
+   * Returns null once the host rejected the refresh token: the developer
+   * must reconnect
+   */
+  async getAccessToken(
+    connection: SourceHostConnection,
+  ): Promise<string | null> {
+    if (connection.reconnectRequiredAt) return null;
+
+    const expiresAt = connection.tokenExpiresAt;
+    if (
+      !expiresAt ||
+      Date.now() < expiresAt.getTime() - TOKEN_REFRESH_BUFFER_MS
+    ) {
+      return this.encryptionService.decrypt(connection.accessTokenEncrypted);
+    }
+
+    if (!connection.refreshTokenEncrypted) {
+      await this.markReconnectRequired(connection.id);
+      return null;
+    }
+
+    this.logger.log(
+      `Refreshing ${SOURCE_HOST_LABELS[connection.host]} token for developer ${connection.developerId}`,
+    );
+
+    try {
+      const app = this.getOauthApp(
+        connection.host as OauthSourceHost,
+        connection.baseUrl,
+      );
+      const tokens = await this.requestTokens(app, {
+        grant_type: 'refresh_token',
+        refresh_token: this.encryptionService.decrypt(
+          connection.refreshTokenEncrypted,
+        ),
+      });
+
+      await this.prisma.sourceHostConnection.update({
+        where: { id: connection.id },
+        data: {
+          accessTokenEncrypted: this.encryptionService.encrypt(
+            tokens.accessToken,
+          ),
+          // Hosts rotate refresh tokens; keep the old one if none was sent
+          ...(tokens.refreshToken && {
+            refreshTokenEncrypted: this.encryptionService.encrypt(
+              tokens.refreshToken,
+            ),
+          }),
+          tokenExpiresAt: tokens.expiresAt,
+        },
+      });
+
+      return tokens.accessToken;
+    } catch (error: unknown) {
+      // 400/401: refresh token revoked or the app was unauthorized
+      if (
+        error instanceof SourceHostApiError &&
+        (error.status === 400 || error.status === 401)
+      ) {
+        await this.markReconnectRequired(connection.id);
+      }
+      this.logger.error(`Failed to refresh token: ${error}`);
+      return null;
+    }
+  }
+
+  /**
+   * OAuth app registered on a host
+   * @param baseUrl - GitLab instance: gitlab.com or GITLAB_SELF_HOSTED_URL
+   */
+  getOauthApp(host: OauthSourceHost, baseUrl?: string): SourceHostOauthApp {
+    const selfHostedUrl = this.getSelfHostedGitlabUrl();
+    const isSelfHosted =
+      host === 'GITLAB' &&
+      !!baseUrl &&
+      baseUrl.replace(/\/+$/, '') !== GITLAB_URL;
+
+    if (isSelfHosted && baseUrl.replace(/\/+$/, '') !== selfHostedUrl) {
+      throw new BadRequestException(
+        `GitLab instance ${baseUrl} is not supported`,
+      );
+    }
+
+    const prefix = isSelfHosted ? 'GITLAB_SELF_HOSTED' : host;
+    const clientId = this.config.get<string>(`${prefix}_CLIENT_ID`);
+    const clientSecret = this.config.get<string>(`${prefix}_CLIENT_SECRET`);
+
+    if (!clientId || !clientSecret) {
+      throw new BadRequestException(
+        `${SOURCE_HOST_LABELS[host]} integration is not configured`,
+      );
+    }
+
+    return {
+      host,
+      baseUrl:
+        host === 'BITBUCKET'
+          ? BITBUCKET_URL
+          : isSelfHosted
+            ? selfHostedUrl!
+            : GITLAB_URL,
+      clientId,
+      clientSecret,
+    };
+  }
+
+  /**
+   * Self-hosted GitLab instance, if configured (no trailing slash)
+   */
+  getSelfHostedGitlabUrl(): string | null {
+    const url = this.config.get<string>('GITLAB_SELF_HOSTED_URL');
+    return url ? url.replace(/\/+$/, '') : null;
+  }
+
+  // ========================================
+  // PRIVATE HELPER METHODS
+  // ========================================
+
+  private getRedirectUri(host: OauthSourceHost): string {
+    const frontendUrl = this.config.getOrThrow<string>('FRONTEND_URL');
+    return `${frontendUrl}/developer/${host.toLowerCase()}/callback`;
+  }
+
+  /**
+   * Check that the callback belongs to a flow this developer started
+   */
+  private verifyState(
+    developerId: number,
+    host: OauthSourceHost,
+    state: string,
+  ): SourceHostOauthApp {
+    const decoded = jwt.decode(state) as OauthState | null;
+    if (!decoded || decoded.host !== host) {
+      throw new BadRequestException('Invalid OAuth state');
+    }
+
+    const app = this.getOauthApp(host, decoded.baseUrl);
+
+    try {
+      const verified = jwt.verify(
+        state,
+        app.clientSecret,
+      ) as unknown as OauthState;
+      if (verified.developerId !== developerId) {
+        throw new BadRequestException('Invalid OAuth state');
+      }
+    } catch (error: unknown) {
+      if (error instanceof BadRequestException) throw error;
+      throw new BadRequestException(
+        'OAuth state expired or invalid. Please start the connection again.',
+      );
+    }
+
+    return app;
+  }
+
+  /**
+   * Token endpoint call (authorization code or refresh token grant)
+   */
+  private async requestTokens(
+    app: SourceHostOauthApp,
+    grant: Record<string, string>,
+  ): Promise<SourceHostOauthTokens> {
+    const body = new URLSearchParams(grant);
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      Accept: 'application/json',
+    };
+    let tokenUrl: string;
+
+    if (app.host === 'GITLAB') {
+      tokenUrl = `${app.baseUrl}/oauth/token`;
+      body.set('client_id', app.clientId);
+      body.set('client_secret', app.clientSecret);
+    } else {
+      tokenUrl = `${BITBUCKET_URL}/site/oauth2/access_token`;
+      headers.Authorization = `Basic ${Buffer.from(`${app.clientId}:${app.clientSecret}`).toString('base64')}`;
+    }
+
+    const response = await fetch(tokenUrl, { method: 'POST', headers, body });
+
+    if (!response.ok) {
+      const error = await response.text();
+      this.logger.error(
+        `${SOURCE_HOST_LABELS[app.host]} token request failed: ${error}`,
+      );
+      if (grant.grant_type === 'authorization_code') {
+        throw new BadRequestException(
+          `Failed to connect ${SOURCE_HOST_LABELS[app.host]}. Please try again.`,
+        );
+      }
+      throw new SourceHostApiError(response.status, error);
+    }
+
+    const data = (await response.json()) as OauthTokenResponse;
+    return {
+      accessToken: data.access_token,
+      refreshToken: data.refresh_token ?? null,
+      expiresAt: data.expires_in
+        ? new Date(Date.now() + data.expires_in * 1000)
+        : null,
+    };
+  }
+
+  private async fetchAccount(
+    app: SourceHostOauthApp,
+    accessToken: string,
+  ): Promise<{ id: string; username: string }> {
+    if (app.host === 'GITLAB') {
+      const { data } = await requestSourceHost<GitlabUser>(
+        `${app.baseUrl}/api/v4/user`,
+        accessToken,
+      );
+      return { id: String(data.id), username: data.username };
+    }
+
+    const { data } = await requestSourceHost<BitbucketUser>(
+      `${BITBUCKET_API_URL}/user`,
+      accessToken,
+    );
+    return { id: data.uuid, username: data.nickname };
+  }
+
+  private async markReconnectRequired(connectionId: string): Promise<void> {
+    await this.prisma.sourceHostConnection.update({
+      where: { id: connectionId },
+      data: { reconnectRequiredAt: new Date() },
+    });
+  }
+}
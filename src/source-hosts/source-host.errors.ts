@@ -0,0 +1,25 @@
+/**
+ * Non-2xx answer from a GitLab or Bitbucket API
+ * Carries the HTTP status like Octokit request errors, so analysis failures
+ * are classified the same way on every host
+ */
+export class SourceHostApiError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+  ) {
+    super(message);
+    this.name = 'SourceHostApiError';
+  }
+}
+
+/**
+ * Uploaded archive that can't be unpacked: unknown format, corrupt, or over
+ * the entry/size limits
+ */
+export class InvalidArchiveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidArchiveError';
+  }
+}
@@ -0,0 +1,39 @@
+import { SourceHostApiError } from './source-host.errors';
+
+export interface SourceHostResponse<T> {
+  data: T;
+  headers: Headers;
+}
+
+/**
+ * Authenticated GET against a GitLab or Bitbucket API
+ * @param url - Absolute API URL
+ * @param accessToken - OAuth access token of the developer
+ * @param as - Parse the body as JSON or return it as text
+ */
+export async function requestSourceHost<T>(
+  url: string,
+  accessToken: string,
+  as: 'json' | 'text' = 'json',
+): Promise<SourceHostResponse<T>> {
+  const response = await fetch(url, {
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      Accept: as === 'json' ? 'application/json' : '*/*',
+    },
+  });
+
+  if (!response.ok) {
+    const body = await response.text();
+    throw new SourceHostApiError(
+      response.status,
+      `${response.status} ${response.statusText} from ${new URL(url).host}: ${body.slice(0, 200)}`,
+    );
+  }
+
+  const data = (
+    as === 'json' ? await response.json() : await response.text()
+  ) as T;
+
+  return { data, headers: response.headers };
+}
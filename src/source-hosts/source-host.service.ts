@@ -0,0 +1,197 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { GithubService } from '../github/github.service';
+import { GithubAppService } from '../github/github-app.service';
+import { SourceHost, TechnicalProject } from '../../prisma/generated/prisma';
+import { ArchiveService } from './archive.service';
+import {
+  BitbucketSourceHostClient,
+  GithubSourceHostClient,
+  GitlabSourceHostClient,
+} from './clients';
+import {
+  GITLAB_URL,
+  SourceHostOauthService,
+} from './source-host-oauth.service';
+import {
+  RepoLocation,
+  RepoSourceHost,
+  SourceHostClient,
+} from './source-host.types';
+
+const GITHUB_URL = 'https://github.com';
+const BITBUCKET_URL = 'https://bitbucket.org';
+
+// One path segment of a repository URL (owner, group or repository name)
+const PATH_SEGMENT_PATTERN = /^[\w.-]+$/;
+
+/**
+ * Entry point of the assessment flow to repositories on any supported host
+ * Resolves repository URLs and hands out clients bound to the developer's
+ * credentials on the repository's host, or to an uploaded archive
+ */
+@Injectable()
+export class SourceHostService {
+  constructor(
+    private githubService: GithubService,
+    private githubAppService: GithubAppService,
+    private oauthService: SourceHostOauthService,
+    private archiveService: ArchiveService,
+  ) {}
+
+  /**
+   * Resolve a repository URL to its host
+   * Accepts github.com, gitlab.com (nested groups included), the configured
+   * self-hosted GitLab and bitbucket.org
+   */
+  parseRepoUrl(repoUrl: string): RepoLocation {
+    const url = repoUrl.trim().replace(/\/+$/, '');
+
+    if (url.startsWith(`${GITHUB_URL}/`)) {
+      const { owner, repo } = this.githubService.parseGithubUrl(url);
+      return {
+        host: SourceHost.GITHUB,
+        baseUrl: GITHUB_URL,
+        owner,
+        repo,
+        fullName: `${owner}/${repo}`,
+      };
+    }
+
+    const selfHostedGitlabUrl = this.oauthService.getSelfHostedGitlabUrl();
+    const hosts: { host: RepoSourceHost; baseUrl: string; nested: boolean }[] =
+      [
+        { host: SourceHost.GITLAB, baseUrl: GITLAB_URL, nested: true },
+        { host: SourceHost.BITBUCKET, baseUrl: BITBUCKET_URL, nested: false },
+      ];
+    if (selfHostedGitlabUrl) {
+      hosts.push({
+        host: SourceHost.GITLAB,
+        baseUrl: selfHostedGitlabUrl,
+        nested: true,
+      });
+    }
+
+    const match = hosts.find(({ baseUrl }) => url.startsWith(`${baseUrl}/`));
+    const segments = match
+      ? url.slice(match.baseUrl.length + 1).split('/')
+      : [];
+    const isValidPath =
+      segments.length >= 2 &&
+      (match!.nested || segments.length === 2) &&
+      segments.every((segment) => PATH_SEGMENT_PATTERN.test(segment));
+
+    if (!match || !isValidPath) {
+      throw new BadRequestException(
+        'Invalid repository URL format. Use a GitHub, GitLab or Bitbucket repository URL.',
+      );
+    }
+
+    const repo = segments.pop()!.replace(/\.git$/, '');
+    const owner = segments.join('/');
+
+    return {
+      host: match.host,
+      baseUrl: match.baseUrl,
+      owner,
+      repo,
+      fullName: `${owner}/${repo}`,
+    };
+  }
+
+  /**
+   * Identity of a repository regardless of how its URL was written
+   * Hosts match repository paths case-insensitively
+   */
+  getRepoKey(location: RepoLocation): string {
+    return `${location.baseUrl}/${location.fullName}`.toLowerCase();
+  }
+
+  /**
+   * Whether the developer connected their account on a host
+   */
+  async hasConnection(
+    developerId: number,
+    host: RepoSourceHost,
+  ): Promise<boolean> {
+    if (host === SourceHost.GITHUB) {
+      return this.githubAppService.hasInstallation(developerId);
+    }
+
+    const connection = await this.oauthService.getConnection(developerId, host);
+    return connection !== null;
+  }
+
+  /**
+   * Client for a repository, authenticated as the developer
+   * Returns null when the developer has no usable credentials on the host
+   * (not connected, connected to another GitLab instance, token revoked)
+   */
+  async getClient(
+    developerId: number,
+    location: RepoLocation,
+  ): Promise<SourceHostClient | null> {
+    if (location.host === SourceHost.GITHUB) {
+      const octokit =
+        await this.githubAppService.getAuthenticatedOctokit(developerId);
+      if (!octokit) return null;
+
+      return new GithubSourceHostClient(
+        location,
+        this.githubService,
+        octokit,
+        () =>
+          this.githubAppService.isRepositoryAuthorized(
+            developerId,
+            location.fullName,
+          ),
+      );
+    }
+
+    const connection = await this.oauthService.getConnection(
+      developerId,
+      location.host,
+    );
+    if (!connection || connection.baseUrl !== location.baseUrl) return null;
+
+    const accessToken = await this.oauthService.getAccessToken(connection);
+    if (!accessToken) return null;
+
+    const Client =
+      location.host === SourceHost.GITLAB
+        ? GitlabSourceHostClient
+        : BitbucketSourceHostClient;
+
+    return new Client(
+      location,
+      connection.username,
+      accessToken,
+      this.githubService,
+    );
+  }
+
+  /**
+   * Client for a project's code, wherever it comes from
+   * Returns null when the developer has no usable credentials on the host
+   */
+  async getProjectClient(
+    project: Pick<
+      TechnicalProject,
+      | 'id'
+      | 'developerId'
+      | 'sourceHost'
+      | 'githubUrl'
+      | 'archiveKey'
+      | 'archiveName'
+      | 'archiveSha256'
+    >,
+  ): Promise<SourceHostClient | null> {
+    if (project.sourceHost === SourceHost.ARCHIVE) {
+      return this.archiveService.getClient(project);
+    }
+
+    return this.getClient(
+      project.developerId,
+      this.parseRepoUrl(project.githubUrl!),
+    );
+  }
+}
@@ -0,0 +1,89 @@
+import { SourceHost } from '../../prisma/generated/prisma';
+import {
+  RepoFetchOptions,
+  RepoFetchResult,
+  RepoHistory,
+  RepoHistoryOptions,
+  RepoValidationResult,
+  ResolvedRef,
+} from '../github/github.service';
+
+export const SOURCE_HOST_LABELS: Record<SourceHost, string> = {
+  GITHUB: 'GitHub',
+  GITLAB: 'GitLab',
+  BITBUCKET: 'Bitbucket',
+  ARCHIVE: 'Archive upload',
+};
+
+/**
+ * Hosts connected through an OAuth app (GitHub uses its App installation,
+ * archives are uploaded)
+ */
+export type OauthSourceHost = Exclude<SourceHost, 'GITHUB' | 'ARCHIVE'>;
+
+/**
+ * Hosts a repository URL can point to
+ */
+export type RepoSourceHost = Exclude<SourceHost, 'ARCHIVE'>;
+
+/**
+ * A repository URL resolved to its host
+ */
+export interface RepoLocation {
+  host: RepoSourceHost;
+  baseUrl: string; // e.g. https://github.com or a self-hosted GitLab
+  owner: string; // User, workspace or group (GitLab groups can be nested)
+  repo: string;
+  fullName: string; // owner/repo
+}
+
+/**
+ * Repository operations of the assessment flow, bound to one repository and
+ * the developer's credentials on its host, or to one uploaded archive
+ */
+export interface SourceHostClient {
+  readonly accountLogin: string; // Developer's username, matched against commit authors
+
+  /**
+   * Whether the developer granted access to the repository
+   * (GitHub: shared with the App; GitLab/Bitbucket: write access or more)
+   */
+  isAuthorized(): Promise<boolean>;
+  validateRepository(): Promise<RepoValidationResult>;
+  listRepoLanguages(): Promise<string[]>;
+  resolveRef(ref?: string | null): Promise<ResolvedRef>;
+  /**
+   * Directories among the given paths that don't exist at the ref
+   */
+  findMissingPaths(paths: string[], ref?: string | null): Promise<string[]>;
+  fetchRepositoryStructure(options: RepoFetchOptions): Promise<RepoFetchResult>;
+  fetchCommitHistory(options: RepoHistoryOptions): Promise<RepoHistory>;
+}
+
+/**
+ * Repository the developer can pick on an OAuth host
+ */
+export interface SourceHostRepositoryInfo {
+  id: string;
+  name: string;
+  fullName: string;
+  url: string;
+  isPrivate: boolean;
+  description: string | null;
+}
+
+/**
+ * OAuth application registered on a host
+ */
+export interface SourceHostOauthApp {
+  host: OauthSourceHost;
+  baseUrl: string; // Web URL, e.g. https://gitlab.com
+  clientId: string;
+  clientSecret: string;
+}
+
+export interface SourceHostOauthTokens {
+  accessToken: string;
+  refreshToken: string | null;
+  expiresAt: Date | null;
+}
@@ -0,0 +1,25 @@
+import { Module, Global } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SourceHostService } from './source-host.service';
+import { SourceHostOauthService } from './source-host-oauth.service';
+import { GitlabController } from './gitlab.controller';
+import { BitbucketController } from './bitbucket.controller';
+import { ArchiveService } from './archive.service';
+import { ARCHIVE_STORAGE, createArchiveStorage } from './archive';
+
+@Global()
+@Module({
+  controllers: [GitlabController, BitbucketController],
+  providers: [
+    SourceHostService,
+    SourceHostOauthService,
+    ArchiveService,
+    {
+      provide: ARCHIVE_STORAGE,
+      inject: [ConfigService],
+      useFactory: createArchiveStorage,
+    },
+  ],
+  exports: [SourceHostService, SourceHostOauthService, ArchiveService],
+})
+export class SourceHostsModule {}